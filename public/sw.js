@@ -0,0 +1,149 @@
+/**
+ * RIA 铁路在线地图 Service Worker
+ *
+ * 缓存策略：
+ * - 应用外壳：页面导航网络优先（离线回退到缓存的 index.html）；/assets/**（带哈希）缓存优先
+ * - 数据（/data/**、GitHub 镜像上的 RIA_Data、规则 JSON）：stale-while-revalidate；
+ *   页面显式要求重新校验（cache: no-cache / reload / no-store）时改为网络优先，失败回退缓存
+ * - 瓦片：只服务「下载离线区域」预缓存的瓦片（缓存优先），浏览时加载的瓦片不入缓存；
+ *   重新下载同一区域即可刷新
+ *
+ * 缓存名需与 src/lib/offlineCache.ts 保持一致
+ */
+
+const SHELL_CACHE = 'ria-shell-v1';
+const DATA_CACHE = 'ria-data-v1';
+const TILE_CACHE = 'ria-tiles-v1';
+const KNOWN_CACHES = [SHELL_CACHE, DATA_CACHE, TILE_CACHE];
+
+// GitHub raw 及其镜像（与 src/lib/fetchWithMirror.ts 一致）
+const DATA_HOSTS = ['raw.githubusercontent.com', 'raw.kkgithub.com', 'fastly.jsdelivr.net'];
+// Dynmap 瓦片源
+const TILE_HOSTS = ['satellite.ria.red'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.add('/'))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('ria-') && !KNOWN_CACHES.includes(key)).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+function isDataRequest(url) {
+  if (url.origin === self.location.origin) return url.pathname.startsWith('/data/');
+  return DATA_HOSTS.includes(url.hostname) && url.pathname.includes('/RIA_Data');
+}
+
+function isTileRequest(url) {
+  if (url.origin === self.location.origin) return url.pathname.startsWith('/api/dynmap/') && url.pathname.includes('/tiles/');
+  return TILE_HOSTS.includes(url.hostname) && url.pathname.includes('/tiles/');
+}
+
+// 去掉查询参数（瓦片重试会追加 _retry/_t）
+function cacheKey(url) {
+  return url.origin + url.pathname;
+}
+
+async function putIfOk(cacheName, key, response) {
+  if (!response || !response.ok) return;
+  try {
+    const cache = await caches.open(cacheName);
+    await cache.put(key, response);
+  } catch {
+    // 配额不足等：忽略，本次仍返回网络结果
+  }
+}
+
+/**
+ * 数据：stale-while-revalidate
+ * 条件请求（If-None-Match 等）的 304 直接透传给页面，不写缓存
+ */
+async function handleData(event, url) {
+  const request = event.request;
+  const key = cacheKey(url) + url.search;
+  const cache = await caches.open(DATA_CACHE);
+  const cached = await cache.match(key);
+
+  const network = fetch(request).then((response) => {
+    if (response.ok) event.waitUntil(putIfOk(DATA_CACHE, key, response.clone()));
+    return response;
+  });
+
+  const revalidate = request.cache === 'no-cache' || request.cache === 'reload' || request.cache === 'no-store';
+  if (revalidate || !cached) {
+    try {
+      return await network;
+    } catch (error) {
+      if (cached) return cached;
+      throw error;
+    }
+  }
+
+  event.waitUntil(network.catch(() => undefined));
+  return cached;
+}
+
+/**
+ * 瓦片：仅命中预缓存时从缓存返回
+ * 不透明响应（no-cors 预缓存）只能交给同为 no-cors 的请求（普通 <img>）
+ */
+async function handleTile(event, url) {
+  const request = event.request;
+  const cached = await caches.match(cacheKey(url), { cacheName: TILE_CACHE });
+  if (cached && (cached.type !== 'opaque' || request.mode === 'no-cors')) return cached;
+  return fetch(request);
+}
+
+/**
+ * 页面导航：网络优先，离线时回退到缓存的应用外壳
+ */
+async function handleNavigate(event) {
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) event.waitUntil(putIfOk(SHELL_CACHE, '/', response.clone()));
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/', { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * 构建产物（文件名带哈希）：缓存优先
+ */
+async function handleAsset(event, url) {
+  const cached = await caches.match(cacheKey(url), { cacheName: SHELL_CACHE });
+  if (cached) return cached;
+  const response = await fetch(event.request);
+  if (response.ok) event.waitUntil(putIfOk(SHELL_CACHE, cacheKey(url), response.clone()));
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigate(event));
+  } else if (isTileRequest(url)) {
+    event.respondWith(handleTile(event, url));
+  } else if (isDataRequest(url)) {
+    event.respondWith(handleData(event, url));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(event, url));
+  }
+});
@@ -3,19 +3,33 @@
  * 展示选中线路的详细信息
  */
 
-import type { ParsedLine } from '@/types';
-import { getLineLength } from '@/lib/railwayParser';
+import { useMemo, useState } from 'react';
+import type { ParsedLine, Station } from '@/types';
+import { getLineLength, getLineColor } from '@/lib/railwayParser';
+import { useDataStore } from '@/store/dataStore';
+import { LineStripMap } from './LineStripMap';
 import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
 
+const EMPTY_STATIONS: Station[] = [];
+
 interface LineDetailCardProps {
   line: ParsedLine;
+  worldId: string;
   onClose: () => void;
   onStationClick?: (stationName: string, coord: { x: number; y: number; z: number }) => void;
 }
 
-export function LineDetailCard({ line, onClose, onStationClick }: LineDetailCardProps) {
+export function LineDetailCard({ line, worldId, onClose, onStationClick }: LineDetailCardProps) {
   const totalLength = Math.round(getLineLength(line));
+  const [view, setView] = useState<'list' | 'strip'>('list');
+  const worldData = useDataStore((s) => s.worldData[worldId]);
+
+  // 换乘徽章优先使用本世界线路的实际颜色
+  const colorOf = useMemo(() => {
+    const colors = new Map((worldData?.lines ?? []).map((l) => [l.lineId, l.color]));
+    return (lineId: string) => colors.get(lineId) ?? getLineColor(lineId);
+  }, [worldData]);
 
   return (
     <AppCard className="w-full sm:w-72 max-h-[50vh] flex flex-col">
@@ -40,56 +54,82 @@ export function LineDetailCard({ line, onClose, onStationClick }: LineDetailCard
         </AppButton>
       </div>
 
-      {/* 站点列表 */}
-      <div className="flex-1 overflow-y-auto p-2">
-        <div className="relative">
-          {/* 线路竖线 */}
-          <div
-            className="absolute left-4 top-4 bottom-4 w-1 rounded"
-            style={{ backgroundColor: line.color }}
+      {/* 视图切换 */}
+      <div className="flex gap-1 px-3 pt-2 text-xs">
+        {([['list', '站点列表'], ['strip', '线路图']] as const).map(([key, label]) => (
+          <AppButton
+            key={key}
+            onClick={() => setView(key)}
+            className={`px-2 py-0.5 rounded ${
+              view === key ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {label}
+          </AppButton>
+        ))}
+      </div>
+
+      {view === 'strip' ? (
+        <div className="flex-1 min-h-0 flex flex-col p-2">
+          <LineStripMap
+            line={line}
+            rawStations={worldData?.rawStations ?? EMPTY_STATIONS}
+            colorOf={colorOf}
+            onStationClick={onStationClick}
           />
+        </div>
+      ) : (
+        // 站点列表
+        <div className="flex-1 overflow-y-auto p-2">
+          <div className="relative">
+            {/* 线路竖线 */}
+            <div
+              className="absolute left-4 top-4 bottom-4 w-1 rounded"
+              style={{ backgroundColor: line.color }}
+            />
 
-          {/* 站点 */}
-          {line.stations.map((station, index) => {
-            const isTerminal = index === 0 || index === line.stations.length - 1;
-            return (
-              <AppButton
-                key={`${station.name}-${index}`}
-                className="w-full flex items-center gap-3 py-2 px-2 hover:bg-gray-50 rounded text-left relative"
-                onClick={() => onStationClick?.(station.name, station.coord)}
-              >
-                {/* 站点圆点 */}
-                <div
-                  className={`relative z-10 rounded-full border-2 ${
-                    isTerminal ? 'w-4 h-4' : 'w-3 h-3'
-                  }`}
-                  style={{
-                    backgroundColor: isTerminal ? line.color : '#fff',
-                    borderColor: line.color,
-                  }}
-                />
+            {/* 站点 */}
+            {line.stations.map((station, index) => {
+              const isTerminal = index === 0 || index === line.stations.length - 1;
+              return (
+                <AppButton
+                  key={`${station.name}-${index}`}
+                  className="w-full flex items-center gap-3 py-2 px-2 hover:bg-gray-50 rounded text-left relative"
+                  onClick={() => onStationClick?.(station.name, station.coord)}
+                >
+                  {/* 站点圆点 */}
+                  <div
+                    className={`relative z-10 rounded-full border-2 ${
+                      isTerminal ? 'w-4 h-4' : 'w-3 h-3'
+                    }`}
+                    style={{
+                      backgroundColor: isTerminal ? line.color : '#fff',
+                      borderColor: line.color,
+                    }}
+                  />
 
-                {/* 站点信息 */}
-                <div className="flex-1 min-w-0">
-                  <div className="text-sm font-medium text-gray-800 truncate">
-                    {station.name}
-                  </div>
-                  {station.isTransfer && (
-                    <div className="text-xs text-gray-500 truncate">
-                      换乘: {station.lines.filter(l => l !== line.lineId).join(', ')}
+                  {/* 站点信息 */}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-800 truncate">
+                      {station.name}
                     </div>
-                  )}
-                </div>
+                    {station.isTransfer && (
+                      <div className="text-xs text-gray-500 truncate">
+                        换乘: {station.lines.filter(l => l !== line.lineId).join(', ')}
+                      </div>
+                    )}
+                  </div>
 
-                {/* 坐标 */}
-                <div className="text-xs text-gray-400 whitespace-nowrap">
-                  {Math.round(station.coord.x)}, {Math.round(station.coord.z)}
-                </div>
-              </AppButton>
-            );
-          })}
+                  {/* 坐标 */}
+                  <div className="text-xs text-gray-400 whitespace-nowrap">
+                    {Math.round(station.coord.x)}, {Math.round(station.coord.z)}
+                  </div>
+                </AppButton>
+              );
+            })}
+          </div>
         </div>
-      </div>
+      )}
     </AppCard>
   );
 }
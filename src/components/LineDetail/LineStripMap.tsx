@@ -0,0 +1,198 @@
+/**
+ * 单线线路图组件
+ * 以 SVG 渲染 stripMap 布局，并支持导出 SVG / PNG
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import type { ParsedLine, Station } from '@/types';
+import { buildStripMapLayout, type StripMapOrientation } from '@/lib/stripMap';
+import AppButton from '@/components/ui/AppButton';
+
+interface LineStripMapProps {
+  line: ParsedLine;
+  rawStations: Station[];
+  colorOf?: (lineId: string) => string;
+  onStationClick?: (stationName: string, coord: { x: number; y: number; z: number }) => void;
+}
+
+const FONT_FAMILY = "system-ui, -apple-system, 'PingFang SC', 'Microsoft YaHei', sans-serif";
+// PNG 导出倍率
+const PNG_SCALE = 2;
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function serializeSvg(svg: SVGSVGElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+}
+
+async function svgToPngBlob(svgText: string, width: number, height: number): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('SVG 加载失败'));
+      img.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * PNG_SCALE);
+    canvas.height = Math.ceil(height * PNG_SCALE);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('无法创建 Canvas');
+    ctx.scale(PNG_SCALE, PNG_SCALE);
+    ctx.drawImage(img, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG 生成失败'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function LineStripMap({ line, rawStations, colorOf, onStationClick }: LineStripMapProps) {
+  const [orientation, setOrientation] = useState<StripMapOrientation>('vertical');
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const layout = useMemo(
+    () => buildStripMapLayout(line, rawStations, orientation, colorOf),
+    [line, rawStations, orientation, colorOf]
+  );
+
+  const filename = `${line.lineId}_线路图`;
+
+  const exportSvg = () => {
+    if (!svgRef.current) return;
+    downloadBlob(new Blob([serializeSvg(svgRef.current)], { type: 'image/svg+xml' }), `${filename}.svg`);
+  };
+
+  const exportPng = async () => {
+    if (!svgRef.current) return;
+    try {
+      const blob = await svgToPngBlob(serializeSvg(svgRef.current), layout.width, layout.height);
+      downloadBlob(blob, `${filename}.png`);
+    } catch (e) {
+      console.error('Failed to export strip map PNG:', e);
+      alert(`导出 PNG 失败：${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col gap-2">
+      {/* 工具栏 */}
+      <div className="flex items-center gap-1 text-xs">
+        {(['vertical', 'horizontal'] as const).map((o) => (
+          <AppButton
+            key={o}
+            onClick={() => setOrientation(o)}
+            className={`px-2 py-0.5 rounded ${
+              orientation === o ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {o === 'vertical' ? '纵向' : '横向'}
+          </AppButton>
+        ))}
+        <AppButton onClick={exportSvg} className="ml-auto px-2 py-0.5 rounded bg-gray-100 text-gray-600 hover:bg-gray-200">
+          SVG
+        </AppButton>
+        <AppButton onClick={exportPng} className="px-2 py-0.5 rounded bg-gray-100 text-gray-600 hover:bg-gray-200">
+          PNG
+        </AppButton>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        <svg
+          ref={svgRef}
+          xmlns="http://www.w3.org/2000/svg"
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          fontFamily={FONT_FAMILY}
+        >
+          <rect width={layout.width} height={layout.height} fill="#fff" />
+
+          <text x={layout.title.x} y={layout.title.y} fontSize={14} fontWeight="bold" fill={layout.color}>
+            {layout.title.text}
+          </text>
+
+          {/* 线路 */}
+          {layout.segments.map((d, i) => (
+            <path key={i} d={d} stroke={layout.color} strokeWidth={6} strokeLinecap="round" fill="none" />
+          ))}
+
+          {/* 站间距离 */}
+          {layout.distances.map((d, i) => (
+            <text key={i} x={d.x} y={d.y} textAnchor={d.anchor} fontSize={10} fill="#6b7280">
+              {d.text}
+            </text>
+          ))}
+
+          {/* 站点 */}
+          {layout.stops.map((stop, i) => {
+            const restricted = stop.closed || stop.blocked.length > 0;
+            return (
+              <g
+                key={`${stop.name}-${i}`}
+                style={{ cursor: onStationClick ? 'pointer' : undefined }}
+                onClick={() => onStationClick?.(stop.name, stop.coord)}
+              >
+                <circle
+                  cx={stop.x}
+                  cy={stop.y}
+                  r={stop.isTerminal ? 7 : 5}
+                  fill={stop.closed ? '#f3f4f6' : stop.isTerminal ? layout.color : '#fff'}
+                  stroke={stop.closed ? '#9ca3af' : layout.color}
+                  strokeWidth={3}
+                  strokeDasharray={!stop.closed && stop.blocked.length > 0 ? '3 2' : undefined}
+                />
+                <text
+                  x={stop.label.x}
+                  y={stop.label.y}
+                  textAnchor={stop.label.anchor}
+                  transform={stop.label.rotate ? `rotate(${stop.label.rotate} ${stop.label.x} ${stop.label.y})` : undefined}
+                  fontSize={12}
+                  fill={restricted ? '#9ca3af' : '#1f2937'}
+                  textDecoration={stop.closed ? 'line-through' : undefined}
+                >
+                  {stop.name}
+                </text>
+
+                {/* 换乘徽章 */}
+                {stop.badges.map((badge) => (
+                  <g key={badge.lineId}>
+                    <rect x={badge.x} y={badge.y} width={badge.width} height={14} rx={3} fill={badge.color} />
+                    <text x={badge.x + badge.width / 2} y={badge.y + 10.5} textAnchor="middle" fontSize={10} fill="#fff">
+                      {badge.lineId}
+                    </text>
+                  </g>
+                ))}
+
+                {stop.note && (
+                  <text
+                    x={stop.note.x}
+                    y={stop.note.y}
+                    textAnchor={stop.note.anchor}
+                    fontSize={11}
+                    fill={stop.closed ? '#dc2626' : '#d97706'}
+                  >
+                    {stop.note.text}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
+
+export default LineStripMap;
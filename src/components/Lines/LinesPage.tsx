@@ -3,38 +3,24 @@
  * 展示所有线路信息
  */
 
-import { useState, useEffect } from 'react';
-import { ChevronLeft, ChevronDown } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { ChevronLeft, ChevronDown, Download } from 'lucide-react';
 import type { ParsedLine, BureausConfig } from '@/types';
 import { getBureauName } from '@/lib/railwayParser';
+import type { RMPData } from '@/lib/rmpParser';
+import { generateRMPData } from '@/lib/rmpGenerator';
 import { useDataStore } from '@/store/dataStore';
+import { WORLDS, DEFAULT_WORLD_ID } from '@/lib/worldRegistry';
 import { RMPMapView } from './RMPMapView';
 import AppButton from '@/components/ui/AppButton';
 
-// RMP 原始数据类型
-interface RMPData {
-  svgViewBoxZoom: number;
-  svgViewBoxMin: { x: number; y: number };
-  graph: {
-    nodes: any[];
-    edges: any[];
-  };
-}
-
-// 世界配置
-const WORLDS = [
-  { id: 'zth', name: '零洲' },
-  { id: 'naraku', name: '奈落洲' },
-  { id: 'houtu', name: '后土洲' }
-];
-
 interface LinesPageProps {
   onBack: () => void;
   onLineSelect?: (line: ParsedLine) => void;
 }
 
 export function LinesPage({ onBack, onLineSelect }: LinesPageProps) {
-  const [currentWorld, setCurrentWorld] = useState('zth');
+  const [currentWorld, setCurrentWorld] = useState(DEFAULT_WORLD_ID);
   const [lines, setLines] = useState<ParsedLine[]>([]);
   const [rmpRawData, setRmpRawData] = useState<RMPData | null>(null);
   const [bureausConfig, setBureausConfig] = useState<BureausConfig>({});
@@ -72,6 +58,27 @@ export function LinesPage({ onBack, onLineSelect }: LinesPageProps) {
     return acc;
   }, {} as Record<string, Record<string, ParsedLine[]>>);
 
+  // 没有手工 RMP 文件的世界：由 RIA 线路自动生成示意图
+  const generatedRmpData = useMemo(() => {
+    if (rmpRawData) return null;
+    const riaLines = lines.filter(line => line.bureau !== 'RMP' && line.stations.length > 0);
+    return riaLines.length > 0 ? generateRMPData(riaLines) : null;
+  }, [rmpRawData, lines]);
+
+  const schematicData = rmpRawData ?? generatedRmpData;
+
+  // 导出为 RMP 存档，可在 Rail Map Painter 中打开继续调整
+  const downloadRmpJson = () => {
+    if (!schematicData) return;
+    const blob = new Blob([JSON.stringify(schematicData, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = rmpRawData ? `rmp_${currentWorld}.json` : `rmp_${currentWorld}_generated.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   // 搜索过滤
   const filteredLines = searchQuery
     ? lines.filter(line =>
@@ -161,12 +168,25 @@ export function LinesPage({ onBack, onLineSelect }: LinesPageProps) {
               </div>
             )}
 
-            {/* RMP 线路 - 使用 SVG 地图展示 */}
-            {rmpRawData && (
+            {/* RMP 线路 - 使用 SVG 地图展示（无 RMP 文件时显示自动生成的示意图） */}
+            {schematicData && (
               <div>
-                <h2 className="text-lg font-bold mb-3 text-gray-800">RMP 线路图</h2>
+                <div className="flex items-center gap-2 mb-3">
+                  <h2 className="text-lg font-bold text-gray-800">
+                    {rmpRawData ? 'RMP 线路图' : '线路示意图（自动生成）'}
+                  </h2>
+                  <AppButton
+                    onClick={downloadRmpJson}
+                    className="ml-auto flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-200 text-gray-700 hover:bg-gray-300"
+                    title="导出 Rail Map Painter 可打开的 JSON"
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                    导出 RMP JSON
+                  </AppButton>
+                </div>
                 <RMPMapView
-                  rmpData={rmpRawData}
+                  key={currentWorld}
+                  rmpData={schematicData}
                   onStationClick={(station) => {
                     console.log('Station clicked:', station);
                   }}
@@ -0,0 +1,47 @@
+/**
+ * 游戏内时钟组件
+ * 显示当前世界的游戏时间（由 Dynmap servertime 推算）与天气；尚未获取到时间时不显示
+ */
+
+import { Clock, Sun, Moon, CloudRain, CloudLightning } from 'lucide-react';
+import { usePlayerStore, useGameTime } from '@/store/playerStore';
+import { formatMinecraftTime } from '@/lib/gameTime';
+
+interface GameClockProps {
+  worldId: string;
+}
+
+export function GameClock({ worldId }: GameClockProps) {
+  const time = useGameTime(worldId);
+  const hasStorm = usePlayerStore((s) => s.worlds[worldId]?.hasStorm ?? false);
+  const isThundering = usePlayerStore((s) => s.worlds[worldId]?.isThundering ?? false);
+
+  if (!time) return null;
+
+  return (
+    <div className="flex items-center gap-1.5 mt-1.5 text-xs text-gray-500" title="游戏内时间">
+      <Clock className="w-4 h-4 text-gray-400 mr-1" />
+      <span className="font-mono text-gray-700">{formatMinecraftTime(time)}</span>
+      {time.day ? (
+        <span className="flex items-center gap-0.5 text-amber-600">
+          <Sun className="w-3.5 h-3.5" />白天
+        </span>
+      ) : (
+        <span className="flex items-center gap-0.5 text-indigo-600">
+          <Moon className="w-3.5 h-3.5" />夜晚
+        </span>
+      )}
+      {isThundering ? (
+        <span className="flex items-center gap-0.5 text-purple-600">
+          <CloudLightning className="w-3.5 h-3.5" />雷暴
+        </span>
+      ) : hasStorm ? (
+        <span className="flex items-center gap-0.5 text-sky-600">
+          <CloudRain className="w-3.5 h-3.5" />降雨
+        </span>
+      ) : null}
+    </div>
+  );
+}
+
+export default GameClock;
@@ -0,0 +1,122 @@
+/**
+ * 等时圈（可达性）图层
+ *
+ * - 输入：起点 + 各车站（站体）最早到达时间 + 出站后的接驳速度
+ * - 每个时间带 T：并集 { 以站点为圆心、半径 (T - t) × 接驳速度 的圆 }（含起点本身，t = 0）
+ * - 由大到小绘制，越内层颜色越深；站点 marker 按所属时间带上色
+ */
+
+import { useEffect } from 'react';
+import * as L from 'leaflet';
+import type { DynmapProjection } from '@/lib/DynmapProjection';
+import type { Coordinate } from '@/types';
+
+export type IsochronePoint = {
+  coord: Coordinate;
+  timeSeconds: number;
+  label?: string;
+};
+
+export type IsochroneData = {
+  origin: Coordinate;
+  originLabel?: string;
+  points: IsochronePoint[];
+  /** 出站后步行/飞行速度（blocks/s） */
+  accessSpeed: number;
+};
+
+/** 时间带（分钟），由内到外 */
+export const ISOCHRONE_BANDS: Array<{ minutes: number; color: string }> = [
+  { minutes: 5, color: '#16a34a' },
+  { minutes: 10, color: '#84cc16' },
+  { minutes: 20, color: '#f59e0b' },
+  { minutes: 30, color: '#ef4444' },
+];
+
+const DEFAULT_Y = 64;
+const CIRCLE_SEGMENTS = 32;
+
+export function isochroneBandColor(timeSeconds: number): string | null {
+  for (const b of ISOCHRONE_BANDS) {
+    if (timeSeconds <= b.minutes * 60) return b.color;
+  }
+  return null;
+}
+
+function circleRing(projection: DynmapProjection, c: Coordinate, radius: number): L.LatLng[] {
+  const ring: L.LatLng[] = [];
+  for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+    const a = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+    ring.push(projection.locationToLatLng(c.x + Math.cos(a) * radius, c.y ?? DEFAULT_Y, c.z + Math.sin(a) * radius));
+  }
+  return ring;
+}
+
+function formatMinutes(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}秒`;
+  return `${Math.round(seconds / 60)}分钟`;
+}
+
+interface IsochroneLayerProps {
+  map: L.Map;
+  projection: DynmapProjection;
+  data: IsochroneData;
+}
+
+export function IsochroneLayer({ map, projection, data }: IsochroneLayerProps) {
+  useEffect(() => {
+    const layerGroup = L.layerGroup().addTo(map);
+    const sources: IsochronePoint[] = [{ coord: data.origin, timeSeconds: 0 }, ...data.points];
+
+    // 外层先画，内层叠加在上面
+    for (const band of [...ISOCHRONE_BANDS].reverse()) {
+      const limit = band.minutes * 60;
+      const rings: L.LatLng[][] = [];
+      for (const p of sources) {
+        if (!(p.timeSeconds < limit)) continue;
+        const r = (limit - p.timeSeconds) * data.accessSpeed;
+        if (r > 0) rings.push(circleRing(projection, p.coord, r));
+      }
+      if (!rings.length) continue;
+
+      // nonzero：同向的多个圆取并集，避免 evenodd 把重叠部分挖空
+      layerGroup.addLayer(
+        L.polygon(rings, {
+          stroke: false,
+          fillColor: band.color,
+          fillOpacity: 0.16,
+          fillRule: 'nonzero',
+          interactive: false,
+        })
+      );
+    }
+
+    for (const p of data.points) {
+      const color = isochroneBandColor(p.timeSeconds) ?? '#9ca3af';
+      const marker = L.circleMarker(projection.locationToLatLng(p.coord.x, p.coord.y ?? DEFAULT_Y, p.coord.z), {
+        radius: 4,
+        color: '#ffffff',
+        weight: 1,
+        fillColor: color,
+        fillOpacity: 1,
+      });
+      marker.bindTooltip(`${p.label ?? ''} ${formatMinutes(p.timeSeconds)}`.trim(), { direction: 'top' });
+      layerGroup.addLayer(marker);
+    }
+
+    const originMarker = L.circleMarker(
+      projection.locationToLatLng(data.origin.x, data.origin.y ?? DEFAULT_Y, data.origin.z),
+      { radius: 7, color: '#ffffff', weight: 2, fillColor: '#2563eb', fillOpacity: 1 }
+    );
+    originMarker.bindTooltip(data.originLabel ?? '出发点', { direction: 'top' });
+    layerGroup.addLayer(originMarker);
+
+    return () => {
+      layerGroup.remove();
+    };
+  }, [map, projection, data]);
+
+  return null;
+}
+
+export default IsochroneLayer;
@@ -1,31 +1,44 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import * as L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { createDynmapCRS, ZTH_FLAT_CONFIG, DynmapProjection } from '@/lib/DynmapProjection';
+import {
+  createDynmapCRS,
+  getWorldConfig,
+  isSameProjection,
+  isTopDownProjection,
+  DynmapProjection,
+  type DynmapProjectionOptions,
+} from '@/lib/DynmapProjection';
+import { getDynmapMapConfig, getDynmapMaps, loadDynmapWorldConfig } from '@/lib/dynmapConfig';
 import { DynmapTileLayer, createDynmapTileLayer } from '@/lib/DynmapTileLayer';
-import { createSketchTileLayer } from '@/lib/SketchTileLayer';
-import { createWatercolorTileLayer } from '@/lib/SketchTileLayer';
+import { createFilteredTileLayer } from '@/lib/FilteredTileLayer';
+import { getMapStyle } from '@/lib/mapStyles';
 import { RailwayLayer } from './RailwayLayer';
 import { LandmarkLayer } from './LandmarkLayer';
 import { PlayerLayer } from './PlayerLayer';
+import { PlayerTrailLayer } from './PlayerTrailLayer';
 import { RouteHighlightLayer, type RouteHighlightData } from './RouteHighlightLayer';
+import { IsochroneLayer, type IsochroneData } from './IsochroneLayer';
 import { LineHighlightLayer } from './LineHighlightLayer';
 import { WorldSwitcher } from './WorldSwitcher';
+import { GameClock } from './GameClock';
 import { SearchBar } from '../Search/SearchBar';
-import { NavigationPanel } from '../Navigation/NavigationPanel';
+import { NavigationPanel, type NavigationLinkRequest } from '../Navigation/NavigationPanel';
 import { LineDetailCard } from '../LineDetail/LineDetailCard';
 import { PointDetailCard } from '../PointDetail/PointDetailCard';
 import { PlayerDetailCard } from '../PlayerDetail/PlayerDetailCard';
 import { Toolbar, LayerControl, AboutCard } from '../Toolbar/Toolbar';
 import { LinesPage } from '../Lines/LinesPage';
 import { PlayersList } from '../Players/PlayersList';
+import { detectPlayerRide } from '../Players/rideDetection';
 import { LoadingOverlay } from '../Loading/LoadingOverlay';
 import { DraggablePanel } from '../DraggablePanel/DraggablePanel';
 import { SettingsPanel } from '../Settings/SettingsPanel';
 import { useLoadingStore } from '@/store/loadingStore';
-import { useDataStore } from '@/store/dataStore';
-import { fetchPlayers } from '@/lib/playerApi';
-import { loadMapSettings, saveMapSettings, MapStyle } from '@/lib/cookies';
+import { useDataStore, getDataLoadingStages } from '@/store/dataStore';
+import { usePlayerStore, useWorldPlayers, useGameNight, findPlayer, PLAYER_POLL_INTERVAL } from '@/store/playerStore';
+import { loadMapSettings, saveMapSettings, MapStyle, TileTimeMode } from '@/lib/cookies';
+import { readUrlState, writeUrlState, serializeUrlState, type UrlMapState, type UrlNavState } from '@/lib/urlState';
 import type { ParsedStation, ParsedLine, Coordinate, Player } from '@/types';
 import type { ParsedLandmark } from '@/lib/landmarkParser';
 import MeasuringModule from '@/components/Mapping/MeasuringModule';
@@ -36,31 +49,89 @@ import RuleDrivenLayer from '@/components/Rules/RuleDrivenLayer';
 import { formatGridNumber, snapWorldPointByMode } from '@/components/Mapping/GridSnapModeSwitch';
 import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
+import { WORLDS, DEFAULT_WORLD_ID, getWorld, isKnownWorld } from '@/lib/worldRegistry';
+
+// 按地图风格创建底图瓦片图层（地图前缀、图片格式与缩放级别取自 Dynmap 地图配置）
+function createBaseTileLayer(
+  worldId: string,
+  mapName: string,
+  style: MapStyle,
+  projection: DynmapProjection,
+  isNight: boolean
+): L.TileLayer {
+  const mapConfig = getDynmapMapConfig(worldId, mapName);
+  const { mapzoomin, mapzoomout } = projection.getOptions();
+  const options = {
+    minZoom: -3,
+    maxZoom: projection.maxZoom,
+    minNativeZoom: -2,          // 允许请求 zzzz/zzzzz（zoom<0 时仍命中真实瓦片）
+    maxNativeZoom: mapzoomout,  // 超过 mapzoomout 只做前端放大
+    extraZoomLevels: mapzoomin,
+    imageFormat: mapConfig.imageFormat,
+    nightAndDay: mapConfig.nightAndDay,
+    isNight,
+  };
+
+  if (getMapStyle(style).filter) return createFilteredTileLayer(worldId, style, mapConfig.prefix, options);
+  return createDynmapTileLayer(worldId, mapConfig.prefix, options);
+}
 
-
-// 世界配置
-const WORLDS = [
-  { id: 'zth', name: '零洲', center: { x: -643, y: 35, z: -1562 } },
-  { id: 'eden', name: '伊甸', center: { x: 0, y: 64, z: 0 } },
-  { id: 'naraku', name: '奈落洲', center: { x: 0, y: 64, z: 0 } },
-  { id: 'houtu', name: '后土洲', center: { x: 0, y: 64, z: 0 } }
-];
+// 投影参数变化时替换地图 CRS（保持视图中心的世界坐标）；参数一致时返回 null
+function replaceProjection(
+  map: L.Map,
+  current: DynmapProjection,
+  config: DynmapProjectionOptions
+): DynmapProjection | null {
+  if (isSameProjection(current.getOptions(), config)) return null;
+
+  const center = current.latLngToLocation(map.getCenter(), 64);
+  const crs = createDynmapCRS(config);
+  const projection = (crs as any).dynmapProjection as DynmapProjection;
+  map.options.crs = crs;
+  map.setMaxZoom(projection.maxZoom);
+  map.setView(
+    projection.locationToLatLng(center.x, center.y, center.z),
+    Math.min(map.getZoom(), projection.maxZoom),
+    { animate: false }
+  );
+  return projection;
+}
 
 function MapContainer() {
   const mapRef = useRef<HTMLDivElement>(null);
   const leafletMapRef = useRef<L.Map | null>(null);
   const projectionRef = useRef<DynmapProjection | null>(null);
   const tileLayerRef = useRef<L.TileLayer | null>(null);
+  // 当前底图对应的世界 / 地图 / 风格 / 投影版本
+  const tileLayerKeyRef = useRef<string | null>(null);
   const [mapReady, setMapReady] = useState(false);
+  // CRS / 底图配置变化时递增，触发底图重建
+  const [projectionVersion, setProjectionVersion] = useState(0);
 
-  // 从 cookie 读取初始设置
+  // 从 cookie 读取初始设置；URL 深链接优先
   const savedSettings = loadMapSettings();
-  const [currentWorld, setCurrentWorld] = useState(savedSettings?.currentWorld ?? 'zth');
+  const [initialUrlState] = useState<UrlMapState>(readUrlState);
+  const [currentWorld, setCurrentWorld] = useState(
+    isKnownWorld(initialUrlState.world)
+      ? initialUrlState.world
+      : isKnownWorld(savedSettings?.currentWorld) ? savedSettings.currentWorld : DEFAULT_WORLD_ID
+  );
+  // 地图视角（Dynmap 地图名）；当前世界没有该地图时回退到默认地图
+  const [currentMap, setCurrentMap] = useState(() => getDynmapMapConfig(currentWorld, savedSettings?.mapName).name);
   const [showRailway, setShowRailway] = useState(savedSettings?.showRailway ?? true);
   const [showLandmark, setShowLandmark] = useState(savedSettings?.showLandmark ?? true);
   const [showPlayers, setShowPlayers] = useState(savedSettings?.showPlayers ?? true);
   const [dimBackground, setDimBackground] = useState(savedSettings?.dimBackground ?? false);
   const [mapStyle, setMapStyle] = useState<MapStyle>(savedSettings?.mapStyle ?? 'default');
+  const [tileTime, setTileTime] = useState<TileTimeMode>(savedSettings?.tileTime ?? 'auto');
+  // 昼夜瓦片：自动模式跟随游戏时间（取不到 servertime 时沿用夜间瓦片，与 Dynmap 默认一致）
+  // 首次校时完成前不创建底图，避免先加载夜间瓦片再整张替换为白天瓦片
+  const hasNightAndDay = getDynmapMapConfig(currentWorld, currentMap).nightAndDay === true;
+  const gameNight = useGameNight(currentWorld, hasNightAndDay && tileTime === 'auto');
+  const tilesPending = gameNight === undefined;
+  const isNight = tileTime === 'auto' ? (gameNight ?? true) : tileTime === 'night';
+  const isNightRef = useRef(isNight);
+  isNightRef.current = isNight;
   const [showNavigation, setShowNavigation] = useState(false);
   const [showLinesPage, setShowLinesPage] = useState(false);
   const [showPlayersPage, setShowPlayersPage] = useState(false);
@@ -69,8 +140,8 @@ function MapContainer() {
   const [stations, setStations] = useState<ParsedStation[]>([]);
   const [lines, setLines] = useState<ParsedLine[]>([]);
   const [landmarks, setLandmarks] = useState<ParsedLandmark[]>([]);
-  const [players, setPlayers] = useState<Player[]>([]);
   const [routeHighlight, setRouteHighlight] = useState<RouteHighlightData | null>(null);
+  const [isochrone, setIsochrone] = useState<IsochroneData | null>(null);
   const [showRouteHighlight] = useState(true);
 
 // 是否存在可绘制的路线（用于隐藏图层/显示清除按钮）
@@ -87,10 +158,34 @@ function MapContainer() {
     landmark?: ParsedLandmark;
   } | null>(null);
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
+  // 在线玩家（与玩家图层 / 列表共享轮询）；选中玩家跟随最新位置（跟随模式下可能在其他世界）
+  const { players } = useWorldPlayers(currentWorld);
+  const playerWorlds = usePlayerStore((s) => s.worlds);
+  const selectedPlayerEntry = selectedPlayer ? findPlayer(playerWorlds, selectedPlayer.name, currentWorld) : null;
+  const livePlayer = selectedPlayerEntry?.player ?? selectedPlayer;
+  const livePlayerHistory = selectedPlayerEntry
+    ? playerWorlds[selectedPlayerEntry.worldId]?.history[selectedPlayerEntry.player.name]
+    : undefined;
+  // 乘车识别只用当前世界的线路；只在轨迹或线路变化时重算
+  const livePlayerInCurrentWorld = selectedPlayerEntry?.worldId === currentWorld;
+  const livePlayerRide = useMemo(
+    () => (livePlayerInCurrentWorld ? detectPlayerRide(livePlayerHistory, lines) : null),
+    [livePlayerInCurrentWorld, livePlayerHistory, lines]
+  );
+  // 跟随模式：地图始终以选中玩家为中心
+  const [followPlayer, setFollowPlayer] = useState(false);
+  const followZoomRef = useRef<number | null>(null);
   const [measuringCloseSignal, setMeasuringCloseSignal] = useState(0);
   const [measureToolsCloseSignal, setMeasureToolsCloseSignal] = useState(0);
   const [showRuleLayers, setShowRuleLayers] = useState(true);
 
+  // URL 深链接：导航起终点/模式 + 待恢复的链接状态（等世界数据就绪后应用）
+  const [navLink, setNavLink] = useState<UrlNavState | null>(null);
+  const [navRequest, setNavRequest] = useState<(NavigationLinkRequest & { desktop: boolean }) | null>(null);
+  const pendingUrlStateRef = useRef<UrlMapState | null>(Object.keys(initialUrlState).length ? initialUrlState : null);
+  const [urlRestoreTick, setUrlRestoreTick] = useState(0);
+  const keepUrlViewRef = useRef(false);
+
   // 面板 z-index 管理（用于置顶）
 const [panelZIndexes, setPanelZIndexes] = useState<Record<string, number>>({
   info: 1000,
@@ -143,36 +238,55 @@ const [panelZIndexes, setPanelZIndexes] = useState<Record<string, number>>({
   // 地图风格切换
   useEffect(() => {
     const map = leafletMapRef.current;
-    if (!map || !mapReady) return;
+    const proj = projectionRef.current;
+    if (!map || !proj || !mapReady) return;
+
+    // 只是校时状态变化（如切换为自动昼夜）：现有底图仍然有效，昼夜由下方 effect 切换
+    const key = `${currentWorld}|${currentMap}|${mapStyle}|${projectionVersion}`;
+    if (tileLayerRef.current && tileLayerKeyRef.current === key) return;
 
     // 移除旧瓦片图层
     if (tileLayerRef.current) {
       tileLayerRef.current.remove();
+      tileLayerRef.current = null;
     }
+    if (tilesPending) return;
 
-// 添加新瓦片图层
-let newTileLayer: L.TileLayer;
-
-
-const tileLayerOptions = {
-  minZoom: -3,
-  maxZoom: map.getMaxZoom(), // =5
-  minNativeZoom: -2,
-  maxNativeZoom: 3
-};
+    // 添加新瓦片图层
+    const newTileLayer = createBaseTileLayer(currentWorld, currentMap, mapStyle, proj, isNightRef.current);
+    newTileLayer.addTo(map);
+    tileLayerRef.current = newTileLayer;
+    tileLayerKeyRef.current = key;
+  }, [mapStyle, mapReady, currentWorld, currentMap, projectionVersion, tilesPending]);
 
-if (mapStyle === 'sketch') {
-  newTileLayer = createSketchTileLayer(currentWorld, 'flat', tileLayerOptions);
-} else if (mapStyle === 'watercolor') {
-  newTileLayer = createWatercolorTileLayer(currentWorld, 'flat', tileLayerOptions);
-} else {
-  newTileLayer = createDynmapTileLayer(currentWorld, 'flat', tileLayerOptions);
-}
+  // 昼夜切换：只替换瓦片地址，不重建图层
+  useEffect(() => {
+    const layer = tileLayerRef.current as (L.TileLayer & { setNight?: (night: boolean) => void }) | null;
+    layer?.setNight?.(isNight);
+  }, [isNight, mapReady]);
 
+  // 读取当前世界的 Dynmap 配置；与随包配置不一致时替换 CRS 并重建底图
+  useEffect(() => {
+    if (!mapReady) return;
+    let cancelled = false;
+    const before = getDynmapMapConfig(currentWorld, currentMap);
+
+    loadDynmapWorldConfig(currentWorld).then(() => {
+      const map = leafletMapRef.current;
+      const proj = projectionRef.current;
+      if (cancelled || !map || !proj) return;
+
+      const swapped = replaceProjection(map, proj, getWorldConfig(currentWorld, currentMap));
+      if (swapped) projectionRef.current = swapped;
+      if (swapped || getDynmapMapConfig(currentWorld, currentMap) !== before) {
+        setProjectionVersion(v => v + 1);
+      }
+    });
 
-    newTileLayer.addTo(map);
-    tileLayerRef.current = newTileLayer;
-  }, [mapStyle, mapReady, currentWorld]);
+    return () => {
+      cancelled = true;
+    };
+  }, [mapReady, currentWorld, currentMap]);
 
   // 保存地图设置到 cookie
   useEffect(() => {
@@ -183,8 +297,10 @@ if (mapStyle === 'sketch') {
       showPlayers,
       dimBackground,
       mapStyle,
+      mapName: currentMap,
+      tileTime,
     });
-  }, [currentWorld, showRailway, showLandmark, showPlayers, dimBackground, mapStyle]);
+  }, [currentWorld, showRailway, showLandmark, showPlayers, dimBackground, mapStyle, currentMap, tileTime]);
 
   // 加载状态管理
   const { startLoading, updateStage, finishLoading } = useLoadingStore();
@@ -194,19 +310,7 @@ if (mapStyle === 'sketch') {
   useEffect(() => {
     if (dataLoaded) return;
 
-    startLoading([
-      { name: 'bureaus', label: '铁路局配置' },
-      { name: 'zth-railway', label: '零洲铁路数据' },
-      { name: 'zth-rmp', label: '零洲 RMP 数据' },
-      { name: 'zth-landmark', label: '零洲地标数据' },
-      { name: 'houtu-railway', label: '后土洲铁路数据' },
-      { name: 'houtu-rmp', label: '后土洲 RMP 数据' },
-      { name: 'houtu-landmark', label: '后土洲地标数据' },
-      { name: 'naraku-railway', label: '奈落洲铁路数据' },
-      { name: 'naraku-landmark', label: '奈落洲地标数据' },
-      { name: 'eden-railway', label: '伊甸铁路数据' },
-      { name: 'eden-landmark', label: '伊甸地标数据' },
-    ]);
+    startLoading(getDataLoadingStages());
 
     loadAllData((stage, status) => {
       updateStage(stage, status);
@@ -228,12 +332,11 @@ if (mapStyle === 'sketch') {
       setLandmarks(worldData.landmarks);
     }
 
-    // 加载玩家数据（实时数据，不缓存）
-    fetchPlayers(currentWorld).then(setPlayers);
-
     // 清除之前的路径
     setRouteHighlight(null);
+    setIsochrone(null);
     setHighlightedLine(null);
+    setNavLink(null);
 
   }, [currentWorld, dataLoaded, getWorldData]);
 
@@ -303,7 +406,10 @@ if (mapStyle === 'sketch') {
   }, []);
 
   // 玩家点击处理
+  const selectedPlayerName = selectedPlayer?.name;
   const handlePlayerClick = useCallback((player: Player) => {
+    // 选中其他玩家时退出跟随
+    if (player.name !== selectedPlayerName) setFollowPlayer(false);
     setSelectedPlayer(player);
     setSelectedPoint(null);
     setHighlightedLine(null);
@@ -313,7 +419,7 @@ if (mapStyle === 'sketch') {
     if (!map || !proj) return;
     const latLng = proj.locationToLatLng(player.x, player.y, player.z);
     map.setView(latLng, 5);
-  }, []);
+  }, [selectedPlayerName]);
 
   // 计算附近点位
   const getNearbyPoints = useCallback((coord: Coordinate, radius: number = 500) => {
@@ -352,6 +458,12 @@ const handleRouteFound = useCallback((route: RouteHighlightData | Array<{ coord:
 
   setRouteHighlight(rh);
 
+  // 从链接恢复时保留链接里的视图，不再自动缩放到路线
+  if (keepUrlViewRef.current) {
+    keepUrlViewRef.current = false;
+    return;
+  }
+
   // 计算边界并调整视图
   const map = leafletMapRef.current;
   const proj = projectionRef.current;
@@ -375,39 +487,20 @@ const handleRouteFound = useCallback((route: RouteHighlightData | Array<{ coord:
   const handleWorldChange = useCallback((worldId: string) => {
     setCurrentWorld(worldId);
 
-    // 更新瓦片图层
+    // 切换投影并移动视图；底图由风格切换 effect 按新世界重建（自动昼夜模式下等待新世界首次校时）
     const map = leafletMapRef.current;
-    const proj = projectionRef.current;
+    let proj = projectionRef.current;
     if (!map || !proj) return;
 
-    // 移除旧瓦片图层
-    if (tileLayerRef.current) {
-      tileLayerRef.current.remove();
+    // 投影参数不同的世界需要替换 CRS
+    const swapped = replaceProjection(map, proj, getWorldConfig(worldId, currentMap));
+    if (swapped) {
+      proj = swapped;
+      projectionRef.current = swapped;
     }
 
-    // 添加新瓦片图层（根据当前风格选择）
-    let newTileLayer: L.TileLayer;
-const tileLayerOptions = {
-  minZoom: -3,
-  maxZoom: map.getMaxZoom(), // =5
-  minNativeZoom: -2,
-  maxNativeZoom: 3
-};
-
-if (mapStyle === 'sketch') {
-  newTileLayer = createSketchTileLayer(worldId, 'flat', tileLayerOptions);
-} else if (mapStyle === 'watercolor') {
-  newTileLayer = createWatercolorTileLayer(worldId, 'flat', tileLayerOptions);
-} else {
-  newTileLayer = createDynmapTileLayer(worldId, 'flat', tileLayerOptions);
-}
-
-
-    newTileLayer.addTo(map);
-    tileLayerRef.current = newTileLayer;
-
     // 移动到新世界的中心点
-    const world = WORLDS.find(w => w.id === worldId);
+    const world = getWorld(worldId);
     if (world) {
       const centerLatLng = proj.locationToLatLng(
         world.center.x,
@@ -416,28 +509,226 @@ if (mapStyle === 'sketch') {
       );
       map.setView(centerLatLng, 2);
     }
-  }, [mapStyle]);
+  }, [currentMap]);
+
+  // 地图视角切换（平面 / 等距表面）：替换 CRS 并保持视图中心的世界坐标，底图由风格切换 effect 重建
+  const handleMapChange = useCallback((mapName: string) => {
+    const map = leafletMapRef.current;
+    const proj = projectionRef.current;
+    if (map && proj) {
+      const swapped = replaceProjection(map, proj, getWorldConfig(currentWorld, mapName));
+      if (swapped) projectionRef.current = swapped;
+    }
+    setCurrentMap(mapName);
+  }, [currentWorld]);
+
+  // 跟随模式：轮询所有世界，玩家换世界时一并切换
+  useEffect(() => {
+    if (!followPlayer) return;
+    const { watch } = usePlayerStore.getState();
+    const releases = WORLDS.map(w => watch(w.id));
+    return () => releases.forEach(release => release());
+  }, [followPlayer]);
+
+  // 拖动地图即退出跟随
+  useEffect(() => {
+    const map = leafletMapRef.current;
+    if (!followPlayer || !map) return;
+    const stop = () => setFollowPlayer(false);
+    map.on('dragstart', stop);
+    return () => {
+      map.off('dragstart', stop);
+    };
+  }, [followPlayer, mapReady]);
+
+  const followWorld = followPlayer ? selectedPlayerEntry?.worldId ?? null : null;
+  const followX = followPlayer ? selectedPlayerEntry?.player.x : undefined;
+  const followY = followPlayer ? selectedPlayerEntry?.player.y : undefined;
+  const followZ = followPlayer ? selectedPlayerEntry?.player.z : undefined;
+
+  useEffect(() => {
+    const map = leafletMapRef.current;
+    const proj = projectionRef.current;
+    if (!followWorld || followX === undefined || followY === undefined || followZ === undefined || !map || !proj) return;
+
+    // 玩家换了世界：切换世界后保持原缩放级别
+    if (followWorld !== currentWorld) {
+      followZoomRef.current = map.getZoom();
+      handleWorldChange(followWorld);
+      return;
+    }
+
+    const latLng = proj.locationToLatLng(followX, followY, followZ);
+    const keepZoom = followZoomRef.current;
+    followZoomRef.current = null;
+
+    // 目标在视野附近时与标记补间同步平移；距离过远（如刚切换世界）直接跳转
+    const point = map.latLngToContainerPoint(latLng);
+    const size = map.getSize();
+    const near = point.x > -size.x && point.x < size.x * 2 && point.y > -size.y && point.y < size.y * 2;
+    if (keepZoom !== null || !near) {
+      map.setView(latLng, keepZoom ?? map.getZoom(), { animate: false });
+    } else {
+      map.panTo(latLng, { animate: true, duration: PLAYER_POLL_INTERVAL / 1000, easeLinearity: 1 });
+    }
+  }, [followWorld, followX, followY, followZ, currentWorld, handleWorldChange]);
+
+  // 手动切换世界时退出跟随
+  const handleWorldSelect = useCallback((worldId: string) => {
+    setFollowPlayer(false);
+    handleWorldChange(worldId);
+  }, [handleWorldChange]);
+
+  // 离线区域下载：当前地图与瓦片图层
+  const getOfflineTarget = useCallback(() => {
+    const map = leafletMapRef.current;
+    const layer = tileLayerRef.current;
+    return map && layer ? { map, layer } : null;
+  }, []);
+
+  // 用户发起导航：记录起终点/模式（写入 URL）；之后的路线结果正常缩放
+  const handleNavigate = useCallback((nav: UrlNavState) => {
+    keepUrlViewRef.current = false;
+    setNavLink(nav);
+  }, []);
+
+  // 应用 URL 状态：世界切换 + 当前世界数据同步到 state 之后，再恢复选中/导航/视图
+  useEffect(() => {
+    const pending = pendingUrlStateRef.current;
+    const map = leafletMapRef.current;
+    const proj = projectionRef.current;
+    if (!pending || !mapReady || !map || !proj || !dataLoaded) return;
+
+    if (pending.world && pending.world !== currentWorld) {
+      if (!isKnownWorld(pending.world)) {
+        pendingUrlStateRef.current = { ...pending, world: undefined };
+        setUrlRestoreTick(v => v + 1);
+      }
+      return;
+    }
+    const worldData = getWorldData(currentWorld);
+    if (worldData && lines !== worldData.lines) return;
+
+    pendingUrlStateRef.current = null;
+
+    // 选中：站点 / 地标 / 线路（按名称 / lineId 匹配当前世界数据）
+    const station = pending.station ? stations.find(st => st.name === pending.station) : undefined;
+    const landmark = !station && pending.landmark ? landmarks.find(l => l.name === pending.landmark && l.coord) : undefined;
+    if (station) {
+      setSelectedPoint({ type: 'station', name: station.name, coord: station.coord, station });
+    } else if (landmark) {
+      setSelectedPoint({ type: 'landmark', name: landmark.name, coord: landmark.coord!, landmark });
+    } else {
+      setSelectedPoint(null);
+    }
+    setHighlightedLine(pending.line ? lines.find(l => l.lineId === pending.line) ?? null : null);
+
+    // 导航：与当前一致则不重复规划
+    const hasView = pending.x !== undefined && pending.z !== undefined;
+    if (pending.nav) {
+      const same = navLink && serializeUrlState({ nav: navLink }) === serializeUrlState({ nav: pending.nav });
+      if (!same) {
+        keepUrlViewRef.current = hasView;
+        setNavLink(pending.nav);
+        setShowNavigation(true);
+        setNavRequest({ ...pending.nav, nonce: Date.now(), desktop: window.innerWidth >= 640 });
+      }
+    } else if (navLink) {
+      setNavLink(null);
+      setRouteHighlight(null);
+    }
+
+    // 视图
+    if (hasView) {
+      const latLng = proj.locationToLatLng(pending.x!, 64, pending.z!);
+      map.setView(latLng, pending.zoom ?? map.getZoom());
+    } else if (pending.zoom !== undefined) {
+      map.setZoom(pending.zoom);
+    }
+  }, [mapReady, dataLoaded, currentWorld, lines, stations, landmarks, navLink, urlRestoreTick, getWorldData]);
+
+  // 浏览器前进/后退：重新读取 URL 并恢复
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = readUrlState();
+      pendingUrlStateRef.current = state;
+      if (state.world && state.world !== currentWorld && isKnownWorld(state.world)) {
+        handleWorldChange(state.world);
+      } else {
+        setUrlRestoreTick(v => v + 1);
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [currentWorld, handleWorldChange]);
+
+  // 当前状态 -> URL（离散状态变化产生历史记录；平移/缩放防抖后只替换当前记录）
+  const urlStateRef = useRef<Omit<UrlMapState, 'x' | 'z' | 'zoom'>>({});
+  urlStateRef.current = {
+    world: currentWorld,
+    station: selectedPoint?.type === 'station' ? selectedPoint.name : undefined,
+    landmark: selectedPoint?.type === 'landmark' ? selectedPoint.name : undefined,
+    line: highlightedLine?.lineId,
+    nav: navLink ?? undefined,
+  };
+  const urlInitializedRef = useRef(false);
+
+  const syncUrl = useCallback(() => {
+    const map = leafletMapRef.current;
+    const proj = projectionRef.current;
+    if (!map || !proj || pendingUrlStateRef.current) return;
+
+    const center = proj.latLngToLocation(map.getCenter(), 64);
+    writeUrlState(
+      { ...urlStateRef.current, x: center.x, z: center.z, zoom: map.getZoom() },
+      { replace: !urlInitializedRef.current }
+    );
+    urlInitializedRef.current = true;
+  }, []);
+
+  useEffect(() => {
+    if (!mapReady) return;
+    syncUrl();
+  }, [mapReady, currentWorld, selectedPoint, highlightedLine, navLink, syncUrl]);
+
+  useEffect(() => {
+    const map = leafletMapRef.current;
+    if (!map || !mapReady) return;
+    let timer: number | null = null;
+    const handleMoveEnd = () => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(syncUrl, 300);
+    };
+    map.on('moveend', handleMoveEnd);
+    return () => {
+      map.off('moveend', handleMoveEnd);
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, [mapReady, syncUrl]);
 
   useEffect(() => {
     if (!mapRef.current || leafletMapRef.current) return;
 
-    // 从 cookie 读取初始世界设置
-    const savedWorld = loadMapSettings()?.currentWorld ?? 'zth';
+    // 初始世界：URL 深链接 > cookie（与 currentWorld 的初始值一致）
+    const savedWorld = currentWorld;
 
     // 创建 Dynmap CRS
-    const crs = createDynmapCRS(ZTH_FLAT_CONFIG);
+    const crs = createDynmapCRS(getWorldConfig(savedWorld, currentMap));
     const projection = (crs as any).dynmapProjection as DynmapProjection;
     projectionRef.current = projection;
 
-    // 计算初始中心点 - 使用保存的世界，否则退回零洲
-    const world = WORLDS.find(w => w.id === savedWorld) ?? WORLDS.find(w => w.id === 'zth') ?? WORLDS[0];
+    // 计算初始中心点 - 使用保存的世界，否则退回默认世界
+    const world = getWorld(savedWorld) ?? getWorld(DEFAULT_WORLD_ID) ?? WORLDS[0];
     if (!world) return;
 
-    const centerLatLng = projection.locationToLatLng(
-      Number(world.center.x),
-      Number(world.center.y),
-      Number(world.center.z)
-    );
+    const hasUrlView = initialUrlState.x !== undefined && initialUrlState.z !== undefined;
+    const centerLatLng = hasUrlView
+      ? projection.locationToLatLng(initialUrlState.x!, 64, initialUrlState.z!)
+      : projection.locationToLatLng(
+          Number(world.center.x),
+          Number(world.center.y),
+          Number(world.center.z)
+        );
 
 const minZoom = -3;                 // 9级：-3..5
 const maxZoom = projection.maxZoom; // 仍然是 5
@@ -445,7 +736,7 @@ const maxZoom = projection.maxZoom; // 仍然是 5
 const map = L.map(mapRef.current, {
   crs: crs,
   center: centerLatLng,
-  zoom: 2,
+  zoom: initialUrlState.zoom !== undefined ? Math.min(maxZoom, Math.max(minZoom, initialUrlState.zoom)) : 2,
   minZoom,
   maxZoom,
 
@@ -465,27 +756,7 @@ const map = L.map(mapRef.current, {
     const isDesktop = window.innerWidth >= 640;
     L.control.zoom({ position: isDesktop ? 'bottomright' : 'bottomleft' }).addTo(map);
 
-    // 添加 Dynmap 瓦片图层 - 使用保存的世界和风格
-    const savedMapStyle = loadMapSettings()?.mapStyle ?? 'default';
-const tileLayerOptions = {
-  minZoom: -3,
-  maxZoom: projection.maxZoom, // 5
-  minNativeZoom: -2,           // 允许请求 zzzz/zzzzz（zoom<0 时仍命中真实瓦片）
-  maxNativeZoom: 3             // 保持你现有 Dynmap 行为
-};
-
-let tileLayer: L.TileLayer;
-if (savedMapStyle === 'sketch') {
-  tileLayer = createSketchTileLayer(savedWorld, 'flat', tileLayerOptions);
-} else if (savedMapStyle === 'watercolor') {
-  tileLayer = createWatercolorTileLayer(savedWorld, 'flat', tileLayerOptions);
-} else {
-  tileLayer = createDynmapTileLayer(savedWorld, 'flat', tileLayerOptions);
-}
-
-
-    tileLayer.addTo(map);
-    tileLayerRef.current = tileLayer;
+    // Dynmap 瓦片图层在 mapReady 后由风格切换 effect 创建（自动昼夜模式下等待首次校时）
 
     // 开发期：输出缩放/中心点对应的瓦片 URL，便于定位“缩放偏移”类问题
     if (import.meta.env.DEV) {
@@ -607,6 +878,16 @@ map.on('mousemove', handleMouseMove);
         />
       )}
 
+      {/* 选中玩家的轨迹 */}
+      {mapReady && leafletMapRef.current && projectionRef.current && showPlayers &&
+        selectedPlayerEntry?.worldId === currentWorld && livePlayerHistory && (
+        <PlayerTrailLayer
+          map={leafletMapRef.current}
+          projection={projectionRef.current}
+          samples={livePlayerHistory}
+        />
+      )}
+
       {/* 左侧面板区域 */}
       <div className="absolute top-2 left-2 right-2 sm:top-4 sm:left-4 sm:right-auto z-[1000] flex flex-col gap-2 sm:max-w-[300px]">
         {/* 标题和世界切换 */}
@@ -615,8 +896,12 @@ map.on('mousemove', handleMouseMove);
           <WorldSwitcher
             worlds={WORLDS}
             currentWorld={currentWorld}
-            onWorldChange={handleWorldChange}
+            onWorldChange={handleWorldSelect}
+            maps={getDynmapMaps(currentWorld)}
+            currentMap={getDynmapMapConfig(currentWorld, currentMap).name}
+            onMapChange={handleMapChange}
           />
+          <GameClock worldId={currentWorld} />
         </AppCard>
 
         {/* 搜索栏 */}
@@ -646,7 +931,7 @@ map.on('mousemove', handleMouseMove);
 
           {/* 设置面板 */}
           {showSettings && (
-            <SettingsPanel onClose={() => setShowSettings(false)} />
+            <SettingsPanel onClose={() => setShowSettings(false)} getOfflineTarget={getOfflineTarget} />
           )}
 
           {/* 路径规划面板 */}
@@ -658,6 +943,9 @@ map.on('mousemove', handleMouseMove);
               players={players}
               worldId={currentWorld}
               onRouteFound={handleRouteFound}
+              onIsochroneFound={setIsochrone}
+              navRequest={navRequest && !navRequest.desktop ? navRequest : null}
+              onNavigate={handleNavigate}
               onClose={() => setShowNavigation(false)}
               onPointClick={(coord) => {
                 const map = leafletMapRef.current;
@@ -674,6 +962,7 @@ map.on('mousemove', handleMouseMove);
           {highlightedLine && (
             <LineDetailCard
               line={highlightedLine}
+              worldId={currentWorld}
               onClose={() => setHighlightedLine(null)}
               onStationClick={(_name, coord) => {
                 const map = leafletMapRef.current;
@@ -706,15 +995,19 @@ map.on('mousemove', handleMouseMove);
           })()}
 
           {/* 玩家详情卡片 */}
-          {selectedPlayer && (() => {
-            const playerCoord: Coordinate = { x: selectedPlayer.x, y: selectedPlayer.y, z: selectedPlayer.z };
+          {livePlayer && (() => {
+            const playerCoord: Coordinate = { x: livePlayer.x, y: livePlayer.y, z: livePlayer.z };
             const { nearbyStations, nearbyLandmarks } = getNearbyPoints(playerCoord);
             return (
               <PlayerDetailCard
-                player={selectedPlayer}
+                player={livePlayer}
+                history={livePlayerHistory}
+                ride={livePlayerRide}
                 nearbyStations={nearbyStations}
                 nearbyLandmarks={nearbyLandmarks}
-                onClose={() => setSelectedPlayer(null)}
+                following={followPlayer}
+                onToggleFollow={() => setFollowPlayer(v => !v)}
+                onClose={() => { setSelectedPlayer(null); setFollowPlayer(false); }}
                 onStationClick={handleStationClick}
                 onLandmarkClick={handleLandmarkClick}
               />
@@ -739,9 +1032,13 @@ map.on('mousemove', handleMouseMove);
         </div>
 
         {/* 清除路径按钮 */}
-{hasRoute && (
+{(hasRoute || isochrone) && (
   <AppButton
-    onClick={() => setRouteHighlight(null)}
+    onClick={() => {
+      setRouteHighlight(null);
+      setIsochrone(null);
+      setNavLink(null);
+    }}
     className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1.5 rounded-lg shadow-lg flex items-center gap-2 w-fit text-sm"
   >
     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -774,7 +1071,7 @@ map.on('mousemove', handleMouseMove);
           zIndex={panelZIndexes.settings}
           onFocus={() => bringToFront('settings')}
         >
-          <SettingsPanel onClose={() => setShowSettings(false)} />
+          <SettingsPanel onClose={() => setShowSettings(false)} getOfflineTarget={getOfflineTarget} />
         </DraggablePanel>
       )}
 
@@ -793,6 +1090,9 @@ map.on('mousemove', handleMouseMove);
             players={players}
             worldId={currentWorld}
             onRouteFound={handleRouteFound}
+            onIsochroneFound={setIsochrone}
+            navRequest={navRequest?.desktop ? navRequest : null}
+            onNavigate={handleNavigate}
             onClose={() => setShowNavigation(false)}
             onPointClick={(coord) => {
               const map = leafletMapRef.current;
@@ -837,6 +1137,7 @@ map.on('mousemove', handleMouseMove);
         >
           <LineDetailCard
             line={highlightedLine}
+            worldId={currentWorld}
             onClose={() => setHighlightedLine(null)}
             onStationClick={(_name, coord) => {
               const map = leafletMapRef.current;
@@ -877,8 +1178,8 @@ map.on('mousemove', handleMouseMove);
       })()}
 
       {/* 玩家详情卡片 */}
-      {selectedPlayer && (() => {
-        const playerCoord: Coordinate = { x: selectedPlayer.x, y: selectedPlayer.y, z: selectedPlayer.z };
+      {livePlayer && (() => {
+        const playerCoord: Coordinate = { x: livePlayer.x, y: livePlayer.y, z: livePlayer.z };
         const { nearbyStations, nearbyLandmarks } = getNearbyPoints(playerCoord);
         return (
           <DraggablePanel
@@ -888,10 +1189,14 @@ map.on('mousemove', handleMouseMove);
             onFocus={() => bringToFront('playerDetail')}
           >
             <PlayerDetailCard
-              player={selectedPlayer}
+              player={livePlayer}
+              history={livePlayerHistory}
+              ride={livePlayerRide}
               nearbyStations={nearbyStations}
               nearbyLandmarks={nearbyLandmarks}
-              onClose={() => setSelectedPlayer(null)}
+              following={followPlayer}
+              onToggleFollow={() => setFollowPlayer(v => !v)}
+              onClose={() => { setSelectedPlayer(null); setFollowPlayer(false); }}
               onStationClick={handleStationClick}
               onLandmarkClick={handleLandmarkClick}
             />
@@ -914,6 +1219,8 @@ map.on('mousemove', handleMouseMove);
           onToggleRuleLayers={(show) => setShowRuleLayers(show)}
           onToggleDimBackground={setDimBackground}
           onToggleMapStyle={setMapStyle}
+          tileTime={hasNightAndDay ? tileTime : undefined}
+          onChangeTileTime={setTileTime}
         >
           <MeasurementToolsModule
             mapReady={mapReady}
@@ -927,7 +1234,9 @@ map.on('mousemove', handleMouseMove);
             mapReady={mapReady}
             leafletMapRef={leafletMapRef}
             projectionRef={projectionRef}
+            projection={projectionRef.current}
             currentWorldId={currentWorld}
+            drawingDisabled={!isTopDownProjection(getWorldConfig(currentWorld, currentMap))}
             closeSignal={measuringCloseSignal}
             onBecameActive={() => setMeasureToolsCloseSignal(v => v + 1)}
             launcherSlot={(launcher) => <div className="hidden sm:block">{launcher}</div>}
@@ -945,6 +1254,15 @@ map.on('mousemove', handleMouseMove);
 )}
 
 
+      {/* 等时圈图层 */}
+      {mapReady && leafletMapRef.current && projectionRef.current && isochrone && (
+        <IsochroneLayer
+          map={leafletMapRef.current}
+          projection={projectionRef.current}
+          data={isochrone}
+        />
+      )}
+
       {/* 线路高亮图层 */}
       {mapReady && leafletMapRef.current && projectionRef.current && highlightedLine && showRailway && (
         <LineHighlightLayer
@@ -1,29 +1,30 @@
 /**
  * 玩家图层组件
- * 在地图上渲染在线玩家位置（显示玩家头像）
+ * 在地图上渲染在线玩家位置（显示玩家头像），两次更新之间平滑移动
  */
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useCallback } from 'react';
 import * as L from 'leaflet';
 import type { Player } from '@/types';
-import { fetchPlayers } from '@/lib/playerApi';
+import { useWorldPlayers, PLAYER_POLL_INTERVAL, PLAYER_TELEPORT_DISTANCE } from '@/store/playerStore';
 import { DynmapProjection } from '@/lib/DynmapProjection';
+import { getPlayerFaceUrl, DEFAULT_WORLD_ID } from '@/lib/worldRegistry';
 
 /**
  * 获取玩家头像 URL (从 Dynmap)
- * 格式: https://satellite.ria.red/map/_{worldId}/tiles/faces/{size}x{size}/{playerName}.png
+ * 地址模板见世界注册表 playerFaceUrl
  * 支持的尺寸: 16x16, 32x32
  */
-function getPlayerAvatarUrl(playerName: string, size: number = 32, worldId: string = 'zth'): string {
+function getPlayerAvatarUrl(playerName: string, size: number = 32, worldId: string = DEFAULT_WORLD_ID): string {
   // Dynmap 只支持 16x16 和 32x32，选择最接近的
   const tileSize = size <= 16 ? 16 : 32;
-  return `https://satellite.ria.red/map/_${worldId}/tiles/faces/${tileSize}x${tileSize}/${encodeURIComponent(playerName)}.png`;
+  return getPlayerFaceUrl(worldId, playerName, tileSize);
 }
 
 /**
  * 创建玩家头像 HTML (圆形头像带边框)
  */
-function createPlayerAvatarHtml(playerName: string, size: number = 32, worldId: string = 'zth'): string {
+function createPlayerAvatarHtml(playerName: string, size: number = 32, worldId: string = DEFAULT_WORLD_ID): string {
   const avatarUrl = getPlayerAvatarUrl(playerName, size, worldId);
   return `
     <div style="
@@ -53,6 +54,22 @@ interface PlayerLayerProps {
   onPlayerClick?: (player: Player) => void;
 }
 
+// 平滑移动时长：与轮询间隔一致，标记在两次更新之间连续移动
+const TWEEN_DURATION = PLAYER_POLL_INTERVAL;
+
+interface TrackedMarker {
+  marker: L.Marker;
+  player: Player;
+  from: L.LatLng;
+  to: L.LatLng;
+  start: number | null; // 补间开始时间；null 表示已到位
+}
+
+function playerTooltipHtml(player: Player): string {
+  const healthBar = `${'❤'.repeat(Math.ceil(player.health / 2))}`;
+  return `<b>${player.name}</b><br/><span style="color: #ef4444;">${healthBar}</span>`;
+}
+
 export function PlayerLayer({
   map,
   projection,
@@ -60,38 +77,12 @@ export function PlayerLayer({
   visible = true,
   onPlayerClick,
 }: PlayerLayerProps) {
-  const [players, setPlayers] = useState<Player[]>([]);
+  const { players } = useWorldPlayers(worldId);
   const layerGroupRef = useRef<L.LayerGroup | null>(null);
-  const intervalRef = useRef<number | null>(null);
-
-  // 加载玩家数据
-  const loadPlayers = useCallback(async () => {
-    const data = await fetchPlayers(worldId);
-    setPlayers(data);
-  }, [worldId]);
-
-  // 初始加载和定时刷新
-  useEffect(() => {
-    // 立即加载一次
-    loadPlayers();
-
-    // 设置定时刷新 (5秒)
-    intervalRef.current = window.setInterval(() => {
-      loadPlayers();
-    }, 5000);
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
-  }, [loadPlayers]);
-
-  // 世界切换时清空玩家列表
-  useEffect(() => {
-    setPlayers([]);
-  }, [worldId]);
+  const markersRef = useRef<Map<string, TrackedMarker>>(new Map());
+  const frameRef = useRef<number | null>(null);
+  const onPlayerClickRef = useRef(onPlayerClick);
+  onPlayerClickRef.current = onPlayerClick;
 
   // 创建图层组（仅一次）
   useEffect(() => {
@@ -101,21 +92,59 @@ export function PlayerLayer({
     layerGroupRef.current = group;
     if (visible) group.addTo(map);
 
+    const markers = markersRef.current;
     return () => {
       group.remove();
+      markers.clear();
       if (layerGroupRef.current === group) layerGroupRef.current = null;
     };
   }, [map]);
 
-  // 渲染玩家图层内容
+  // 停止动画
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  }, []);
+
+  // 世界切换时清空标记（不同世界的同名玩家不做补间）
+  useEffect(() => {
+    layerGroupRef.current?.clearLayers();
+    markersRef.current.clear();
+  }, [worldId, projection]);
+
+  // 补间动画：所有标记共用一个 requestAnimationFrame 循环
+  const animate = useCallback(() => {
+    const now = performance.now();
+    let active = false;
+
+    for (const tracked of markersRef.current.values()) {
+      if (tracked.start === null) continue;
+      const t = Math.min(1, (now - tracked.start) / TWEEN_DURATION);
+      if (t >= 1) {
+        tracked.marker.setLatLng(tracked.to);
+        tracked.start = null;
+        continue;
+      }
+      active = true;
+      tracked.marker.setLatLng(L.latLng(
+        tracked.from.lat + (tracked.to.lat - tracked.from.lat) * t,
+        tracked.from.lng + (tracked.to.lng - tracked.from.lng) * t
+      ));
+    }
+
+    frameRef.current = active ? requestAnimationFrame(animate) : null;
+  }, []);
+
+  // 同步玩家标记：复用已有标记并补间到新位置
   useEffect(() => {
     const group = layerGroupRef.current;
     if (!group) return;
 
-    group.clearLayers();
-    if (players.length === 0) return;
+    const markers = markersRef.current;
+    const seen = new Set<string>();
+    const now = performance.now();
+    let needsAnimation = false;
 
-    // 渲染每个玩家
     for (const player of players) {
       if (
         !Number.isFinite(player.x) ||
@@ -123,7 +152,30 @@ export function PlayerLayer({
         !Number.isFinite(player.z)
       ) continue;
 
+      seen.add(player.name);
       const latLng = projection.locationToLatLng(player.x, player.y, player.z);
+      const tracked = markers.get(player.name);
+
+      if (tracked) {
+        const moved = tracked.player.x !== player.x || tracked.player.z !== player.z;
+        const teleported = Math.hypot(player.x - tracked.player.x, player.z - tracked.player.z) > PLAYER_TELEPORT_DISTANCE;
+        tracked.player = player;
+        tracked.marker.setTooltipContent(playerTooltipHtml(player));
+
+        if (!moved) continue;
+        if (teleported || !map.hasLayer(group)) {
+          tracked.marker.setLatLng(latLng);
+          tracked.from = latLng;
+          tracked.to = latLng;
+          tracked.start = null;
+          continue;
+        }
+        tracked.from = tracked.marker.getLatLng();
+        tracked.to = latLng;
+        tracked.start = now;
+        needsAnimation = true;
+        continue;
+      }
 
       // 创建玩家头像图标
       const markerSize = 32;
@@ -137,26 +189,33 @@ export function PlayerLayer({
       const marker = L.marker(latLng, { icon: markerIcon });
 
       // 玩家 tooltip
-      const healthBar = `${'❤'.repeat(Math.ceil(player.health / 2))}`;
-      marker.bindTooltip(
-        `<b>${player.name}</b><br/><span style="color: #ef4444;">${healthBar}</span>`,
-        {
-          permanent: false,
-          direction: 'top',
-          offset: [0, -8],
-        }
-      );
+      marker.bindTooltip(playerTooltipHtml(player), {
+        permanent: false,
+        direction: 'top',
+        offset: [0, -8],
+      });
 
-      // 玩家点击事件
-      if (onPlayerClick) {
-        marker.on('click', () => {
-          onPlayerClick(player);
-        });
-      }
+      // 玩家点击事件（始终传出最新数据）
+      const entry: TrackedMarker = { marker, player, from: latLng, to: latLng, start: null };
+      marker.on('click', () => {
+        onPlayerClickRef.current?.(entry.player);
+      });
 
+      markers.set(player.name, entry);
       group.addLayer(marker);
     }
-  }, [players, projection, onPlayerClick, worldId]);
+
+    // 移除已下线的玩家
+    for (const [name, tracked] of markers) {
+      if (seen.has(name)) continue;
+      group.removeLayer(tracked.marker);
+      markers.delete(name);
+    }
+
+    if (needsAnimation && frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(animate);
+    }
+  }, [players, projection, worldId, map, animate]);
 
   // 控制图层可见性
   useEffect(() => {
@@ -0,0 +1,57 @@
+/**
+ * 玩家轨迹图层组件
+ * 将玩家最近的位置历史绘制为渐隐折线（越早越淡）
+ */
+
+import { useEffect } from 'react';
+import * as L from 'leaflet';
+import type { DynmapProjection } from '@/lib/DynmapProjection';
+import { PLAYER_HISTORY_MAX_AGE, PLAYER_TELEPORT_DISTANCE, type PlayerSample } from '@/store/playerStore';
+
+const TRAIL_COLOR = '#06b6d4';
+const TRAIL_MAX_OPACITY = 0.85;
+const TRAIL_MIN_OPACITY = 0.1;
+
+interface PlayerTrailLayerProps {
+  map: L.Map;
+  projection: DynmapProjection;
+  samples: PlayerSample[];
+}
+
+export function PlayerTrailLayer({ map, projection, samples }: PlayerTrailLayerProps) {
+  useEffect(() => {
+    if (samples.length < 2) return;
+
+    const layerGroup = L.layerGroup().addTo(map);
+    const now = Date.now();
+
+    // 逐段绘制：按线段终点的时间计算透明度
+    for (let i = 1; i < samples.length; i++) {
+      const a = samples[i - 1];
+      const b = samples[i];
+      if (Math.hypot(b.x - a.x, b.z - a.z) > PLAYER_TELEPORT_DISTANCE) continue;
+
+      const freshness = Math.max(0, 1 - (now - b.t) / PLAYER_HISTORY_MAX_AGE);
+      const opacity = TRAIL_MIN_OPACITY + (TRAIL_MAX_OPACITY - TRAIL_MIN_OPACITY) * freshness;
+
+      layerGroup.addLayer(L.polyline(
+        [projection.locationToLatLng(a.x, a.y, a.z), projection.locationToLatLng(b.x, b.y, b.z)],
+        {
+          color: TRAIL_COLOR,
+          weight: 4,
+          opacity,
+          lineCap: 'round',
+          interactive: false,
+        }
+      ));
+    }
+
+    return () => {
+      layerGroup.remove();
+    };
+  }, [map, projection, samples]);
+
+  return null;
+}
+
+export default PlayerTrailLayer;
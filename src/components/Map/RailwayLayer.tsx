@@ -9,6 +9,7 @@ import type { ParsedLine, ParsedStation, BureausConfig, PathSegment } from '@/ty
 import { fetchRailwayData, parseRailwayData, getBureauName } from '@/lib/railwayParser';
 import { fetchRMPData, parseRMPData } from '@/lib/rmpParser';
 import { DynmapProjection } from '@/lib/DynmapProjection';
+import { getWorld } from '@/lib/worldRegistry';
 import type { MapStyle } from '@/lib/cookies';
 import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
@@ -57,12 +58,6 @@ function segmentToLatLngs(
   return [];
 }
 
-// RMP 数据文件映射
-const RMP_DATA_FILES: Record<string, string> = {
-  zth: '/data/rmp_zth.json',
-  houtu: '/data/rmp_houtu.json',
-};
-
 interface RailwayLayerProps {
   map: L.Map;
   projection: DynmapProjection;
@@ -96,7 +91,7 @@ export function RailwayLayer({
 
       // 加载 RMP 数据（如果有）
       let rmpLines: ParsedLine[] = [];
-      const rmpFile = RMP_DATA_FILES[worldId];
+      const rmpFile = getWorld(worldId)?.data.rmp?.url;
       if (rmpFile) {
         try {
           const rmpData = await fetchRMPData(rmpFile);
@@ -1,9 +1,9 @@
 /**
  * 世界切换器组件
- * 使用标签页样式在不同世界之间切换
+ * 使用标签页样式在不同世界之间切换；世界有多张 Dynmap 地图时，另起一行切换地图视角（平面 / 等距表面）
  */
 
-import { Globe } from 'lucide-react';
+import { Globe, Box } from 'lucide-react';
 import AppButton from '@/components/ui/AppButton';
 
 interface World {
@@ -12,35 +12,68 @@ interface World {
   center: { x: number; y: number; z: number };
 }
 
+interface MapPerspective {
+  name: string;
+  title?: string;
+}
+
 interface WorldSwitcherProps {
   worlds: World[];
   currentWorld: string;
   onWorldChange: (worldId: string) => void;
+  maps?: MapPerspective[];
+  currentMap?: string;
+  onMapChange?: (mapName: string) => void;
 }
 
 export function WorldSwitcher({
   worlds,
   currentWorld,
   onWorldChange,
+  maps = [],
+  currentMap,
+  onMapChange,
 }: WorldSwitcherProps) {
   return (
-    <div className="flex items-center gap-1 mt-2">
-      <Globe className="w-4 h-4 text-gray-400 mr-1" />
-      {worlds.map(world => (
-        <AppButton
-          key={world.id}
-          onClick={() => onWorldChange(world.id)}
-          className={`px-3 py-1 text-xs font-medium rounded-full transition-all ${
-            world.id === currentWorld
-              ? 'bg-blue-500 text-white shadow-sm'
-              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-          }`}
-        >
-          {world.name}
-        </AppButton>
-      ))}
-    </div>
+    <>
+      <div className="flex items-center gap-1 mt-2">
+        <Globe className="w-4 h-4 text-gray-400 mr-1" />
+        {worlds.map(world => (
+          <AppButton
+            key={world.id}
+            onClick={() => onWorldChange(world.id)}
+            className={`px-3 py-1 text-xs font-medium rounded-full transition-all ${
+              world.id === currentWorld
+                ? 'bg-blue-500 text-white shadow-sm'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {world.name}
+          </AppButton>
+        ))}
+      </div>
+
+      {/* 地图视角 */}
+      {maps.length > 1 && onMapChange && (
+        <div className="flex items-center gap-1 mt-1.5">
+          <Box className="w-4 h-4 text-gray-400 mr-1" />
+          {maps.map(map => (
+            <AppButton
+              key={map.name}
+              onClick={() => onMapChange(map.name)}
+              className={`px-2 py-0.5 text-xs rounded-full transition-all ${
+                map.name === currentMap
+                  ? 'bg-gray-700 text-white shadow-sm'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {map.title || map.name}
+            </AppButton>
+          ))}
+        </div>
+      )}
+    </>
   );
 }
 
-export default WorldSwitcher;
\ No newline at end of file
+export default WorldSwitcher;
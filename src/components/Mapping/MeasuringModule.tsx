@@ -11,10 +11,31 @@ import {
   validateImportItemDetailed,
   validateRequiredDetailed,
   formatMissingEntries,
+  buildFeatureSchema,
+  buildRuleFileSchema,
+  findFormatDefByClass,
   type FeatureKey,
   type ImportFormat,
   type DrawMode,
+  type FormatDef,
+  type Coord2D,
 } from '@/components/Mapping/featureFormats';
+import {
+  buildDynmapMarkerFile,
+  describeFeatureInfo,
+  dynmapSetsToDrafts,
+  parseDynmapMarkers,
+  ruleRecordsToDynmapDrafts,
+  stringifyDynmapMarkers,
+  DYNMAP_DEFAULT_WORLD,
+  type DynmapDraft,
+} from '@/components/Mapping/dynmapMarkers';
+import {
+  featureInfosToGeoJSON,
+  ruleRecordsToGeoJSON,
+  geoJSONToFeatureInfos,
+  isGeoJSON,
+} from '@/components/Mapping/geojson';
 
 
 import type { DynmapProjection } from '@/lib/DynmapProjection';
@@ -61,17 +82,68 @@ import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
 
 import { checkTempMountIdConflicts, type TempLayerIdCandidate } from '@/components/Rules/globalIdIndex';
-
-
+import { buildRecordsFromJson } from '@/components/Rules/RuleDrivenLayer';
+import { RULE_DATA_SOURCES } from '@/components/Rules/ruleDataSources';
+import { loadSource } from '@/lib/sourceCache';
+
+// 导出窗口支持的格式：按钮文字 / 说明 / 下载扩展名与 MIME
+type JsonExportFormat = 'json' | 'geojson' | 'dynmap';
+
+const JSON_EXPORT_FORMATS: Record<JsonExportFormat, { label: string; title: string; ext: string; mime: string }> = {
+  json: { label: 'JSON', title: '规则 JSON 条目数组', ext: 'json', mime: 'application/json' },
+  geojson: {
+    label: 'GeoJSON',
+    title: 'GeoJSON FeatureCollection：坐标为 [x, z, y]，附加信息写入 properties',
+    ext: 'geojson',
+    mime: 'application/geo+json',
+  },
+  dynmap: {
+    label: 'Dynmap',
+    title: 'Dynmap markers.yml 的 sets 片段：点 → markers，线 → lines，面 → areas',
+    ext: 'yml',
+    mime: 'text/yaml',
+  },
+};
 
 /**
  * 关键：把 MapContainer 里的引用对象（ref）当 props 传进来
  * 这属于 React 组件间通过 props 传值的常规做法。:contentReference[oaicite:1]{index=1}
  */
+// 要素点 → LatLng：有高度时按高度投影（等距视角下 x/z 随高度偏移），否则按默认高度
+const DEFAULT_DRAW_Y = 64;
+const toLatLng = (proj: DynmapProjection, p: { x: number; z: number; y?: number }) =>
+  proj.locationToLatLng(p.x, Number.isFinite(p.y) ? p.y! : DEFAULT_DRAW_Y, p.z);
+
+// 固定图层的 Leaflet 图形（displayY：没有逐点高度时使用的显示高度，如导入要素的 height）
+const buildLayerGroup = (
+  proj: DynmapProjection,
+  mode: DrawMode,
+  coords: { x: number; z: number; y?: number }[],
+  color: string,
+  displayY?: number
+) => {
+  const g = L.layerGroup();
+  const latlngs = coords.map(p => toLatLng(proj, Number.isFinite(p.y) ? p : { ...p, y: displayY }));
+
+  if (mode === 'point') {
+    latlngs.forEach(ll => {
+      L.circleMarker(ll, { color, fillColor: color, radius: 6 }).addTo(g);
+    });
+  } else if (mode === 'polyline') {
+    L.polyline(latlngs, { color }).addTo(g);
+  } else if (mode === 'polygon') {
+    if (latlngs.length > 2) L.polygon(latlngs, { color }).addTo(g);
+    else L.polyline(latlngs, { color }).addTo(g);
+  }
+  return g;
+};
+
 type MeasuringModuleProps = {
   mapReady: boolean;
   leafletMapRef: React.MutableRefObject<L.Map | null>;
   projectionRef: React.MutableRefObject<DynmapProjection | null>;
+  // 当前投影（切换世界 / 视角时变化，用于按新投影重建已绘制的图形）
+  projection?: DynmapProjection | null;
 
   // 当前世界（来自 MapContainer 的 currentWorld），用于自动写入 featureInfo.World
   currentWorldId: string;
@@ -84,10 +156,13 @@ type MeasuringModuleProps = {
 
   // 可选：将启动按钮插入到外部工具栏
   launcherSlot?: (launcher: React.ReactNode) => React.ReactNode;
+
+  // 非俯视视角（等距表面等）下停用绘制：点击无法确定高度，x/z 会偏移
+  drawingDisabled?: boolean;
 };
 
 export default function MeasuringModule(props: MeasuringModuleProps) {
-  const { mapReady, leafletMapRef, projectionRef, currentWorldId, closeSignal, onBecameActive, launcherSlot } = props;
+  const { mapReady, leafletMapRef, projectionRef, projection, currentWorldId, closeSignal, onBecameActive, launcherSlot, drawingDisabled = false } = props;
 
 
 // ---------- 测绘 & 图层管理状态 ------------
@@ -133,6 +208,8 @@ type LayerType = {
   coords: { x: number; z: number; y?: number }[];
   visible: boolean;
   leafletGroup: L.LayerGroup;
+  // 没有逐点高度时的显示高度（导入要素的 height / heightH）
+  displayY?: number;
   jsonInfo?: {
     subType: FeatureKey;
     featureInfo: any;
@@ -279,6 +356,8 @@ const draftRootRef = useRef<L.LayerGroup | null>(null);
 const workflowRootRef = useRef<L.LayerGroup | null>(null);
 // workflow 预览 key -> Leaflet layer（便于 upsert/clear）
 const workflowPreviewMapRef = useRef<Map<string, L.Layer>>(new Map());
+// workflow 预览 layer -> 生成参数（投影变化时重建）
+const workflowPreviewArgsRef = useRef<WeakMap<L.Layer, { kind: WorkflowPreviewKind; points: WorldPoint[]; style?: WorkflowPreviewStyle }>>(new WeakMap());
 
 
 // ======== ControlPointsT：控制点修改/添加（替代旧 ControlPointTools） ========
@@ -329,7 +408,11 @@ useEffect(() => {
 // ======== JSON 导出窗口（替代 alert/print） ========
 const [jsonPanelOpen, setJsonPanelOpen] = useState(false);
 const [jsonPanelText, setJsonPanelText] = useState('');
-const [jsonExportSubType, setJsonExportSubType] = useState<FeatureKey | '__ALL__'>('__ALL__');
+const [jsonExportSubType, setJsonExportSubType] = useState<FeatureKey | '__ALL__' | '__RULES__'>('__ALL__');
+const [jsonExportFormat, setJsonExportFormat] = useState<JsonExportFormat>('json');
+// 非空：当前窗口展示的是单个图层（图层列表里的 JSON 按钮）
+const [jsonExportLayerId, setJsonExportLayerId] = useState<number | null>(null);
+const jsonExportSeqRef = useRef(0);
 
 // 临时挂载到 RuleDrivenLayer 的本地存储 key（与 RuleDrivenLayer 保持一致）
 const TEMP_RULE_SOURCES_KEY = 'ria_temp_rule_sources_v1';
@@ -665,6 +748,7 @@ useEffect(() => {
     if (controlPointsTRef.current?.isBusy?.()) return;
 
     if (!drawing || drawMode === 'none') return;
+    if (drawingDisabled) return;
 
     // 兜底：你已有的 state/ref 抑制仍保留
     if (drawClickSuppressedRef.current) return;
@@ -676,7 +760,7 @@ useEffect(() => {
   return () => {
     map.off('click', handleClick);
   };
-}, [drawing, drawMode]); 
+}, [drawing, drawMode, drawingDisabled]); 
 
 
  
@@ -718,7 +802,7 @@ const updateLatestEndpointMarker = (p: { x: number; z: number }, color: string)
 
   g.clearLayers();
 
-  const ll = proj.locationToLatLng(p.x, 64, p.z);
+  const ll = toLatLng(proj, p);
   L.circleMarker(ll, {
     radius: 6,
     color: '#ffffff',
@@ -738,7 +822,7 @@ const onMapDrawClick = (e: L.LeafletMouseEvent) => {
   const proj = projectionRef.current;
   if (!proj) return;
 
-  const loc = proj.latLngToLocation(e.latlng, 64);
+  const loc = proj.latLngToLocation(e.latlng, DEFAULT_DRAW_Y);
   let newPoint = { x: loc.x, z: loc.z };
 
   // ① 辅助线：高优先级贴线
@@ -802,7 +886,7 @@ const onManualPointSubmit = (v: { x: number; y: number; z: number }) => {
  
    if (mode === 'none' || coords.length === 0) return;
  
-   const latlngs = coords.map(p => proj.locationToLatLng(p.x, 64, p.z));
+   const latlngs = coords.map(p => toLatLng(proj, p));
  
    if (mode === 'point') {
      latlngs.forEach(ll => {
@@ -850,7 +934,7 @@ useEffect(() => {
   if (controlPointsTActive && !showDraftControlPointCoords) return;
 
   for (const p of tempPoints) {
-    const ll = proj.locationToLatLng(p.x, 64, p.z);
+    const ll = toLatLng(proj, p);
     const label = `${formatGridNumber(p.x)}, ${formatGridNumber(p.z)}`;
 
     const isInvisibleForLabelOnly = controlPointsTActive && showDraftControlPointCoords;
@@ -899,6 +983,7 @@ useEffect(() => {
   drawMode,
   drawColor,
   drawClickSuppressed,
+  projection,
 ]);
 
 
@@ -925,6 +1010,35 @@ useEffect(() => {
      root.addLayer(l.leafletGroup);
    }
  };
+
+// 切换世界 / 视角后投影变化：LatLng 依赖投影，需按新投影从 coords 重建固定图层、草稿与工作流预览
+const lastProjectionRef = useRef(projection);
+useEffect(() => {
+  if (!projection || projection === lastProjectionRef.current) return;
+  lastProjectionRef.current = projection;
+
+  setLayers(prev => {
+    const next = prev.map(l => ({
+      ...l,
+      leafletGroup: buildLayerGroup(projection, l.mode, l.coords, l.color, l.displayY),
+    }));
+    syncFixedRoot(next, editingLayerId);
+    return next;
+  });
+
+  if (drawing && drawMode !== 'none') {
+    drawDraftGeometry(tempPoints, drawMode, drawColor);
+    const ep = draftEndpointRef.current;
+    if (ep && ep.getLayers().length > 0 && tempPoints.length > 0) {
+      updateLatestEndpointMarker(tempPoints[tempPoints.length - 1], drawColor);
+    }
+  }
+
+  for (const [key, layer] of Array.from(workflowPreviewMapRef.current)) {
+    const args = workflowPreviewArgsRef.current.get(layer);
+    if (args) upsertWorkflowPreview(key, args.kind, args.points, args.style);
+  }
+}, [projection]);
  
  
 
@@ -949,7 +1063,7 @@ const finishLayer = () => {
 
   const makeLeafletGroup = (mode: DrawMode, coords: { x: number; z: number; y?: number }[], color: string) => {
     const g = L.layerGroup();
-    const latlngs = coords.map(p => proj.locationToLatLng(p.x, 64, p.z));
+    const latlngs = coords.map(p => toLatLng(proj, p));
 
     if (mode === 'point') {
       latlngs.forEach(ll => {
@@ -1243,12 +1357,8 @@ const finishLayer = () => {
  
  
  
-const getLayerJSONOutput = (layer: LayerType) => {
-  return layerToJsonText(layer);
-};
-
-const getLayersJSONOutputBySubType = (target: FeatureKey | '__ALL__') => {
-  const items = layers
+const getLayerExportItems = (list: LayerType[], target: FeatureKey | '__ALL__') => {
+  return list
     .filter((l) => Boolean(l?.jsonInfo?.featureInfo))
     .filter((l) => {
       if (target === '__ALL__') return true;
@@ -1257,15 +1367,89 @@ const getLayersJSONOutputBySubType = (target: FeatureKey | '__ALL__') => {
     .map((l) => {
       try {
         const one = JSON.parse(layerToJsonText(l));
-        if (Array.isArray(one) && one.length > 0) return one[0];
+        if (Array.isArray(one) && one.length > 0) return { subType: l.jsonInfo!.subType, featureInfo: one[0] };
         return null;
       } catch {
         return null;
       }
     })
-    .filter(Boolean);
+    .filter((x): x is { subType: FeatureKey; featureInfo: any } => x !== null);
+};
+
+// 当前世界规则图层的全部记录：固定数据源 + 已启用的临时挂载源（与 RuleDrivenLayer 加载范围一致）
+const loadRuleLayerRecords = async () => {
+  const records = [];
+  const ds = RULE_DATA_SOURCES[currentWorldId];
+  for (const file of ds?.files ?? []) {
+    const url = `${ds.baseUrl.replace(/\/$/, '')}/${file}`;
+    const { data } = await loadSource<unknown>({ key: `rule:${url}`, urls: [url], maxAge: 0 });
+    if (Array.isArray(data)) records.push(...buildRecordsFromJson(data, file));
+  }
+  for (const t of readTempRuleSources()[currentWorldId] ?? []) {
+    if (t?.enabled && Array.isArray(t.items)) records.push(...buildRecordsFromJson(t.items, t.label ?? t.uid));
+  }
+  return records;
+};
+
+// 打开导出窗口并生成内容：scope 为要素类型 / 全部 / 规则图层；layerId 非空时只导出该图层
+const showJsonExport = async (
+  scope: FeatureKey | '__ALL__' | '__RULES__',
+  format: JsonExportFormat,
+  layerId: number | null = null
+) => {
+  const seq = ++jsonExportSeqRef.current;
+  setJsonExportSubType(scope);
+  setJsonExportFormat(format);
+  setJsonExportLayerId(layerId);
+  setJsonPanelOpen(true);
+
+  let text = '';
+  // 指定单个图层时只导出该图层（与当前选中的范围无关）
+  const selected = (l: LayerType) => (layerId === null
+    ? scope === '__ALL__' || l.jsonInfo?.subType === scope
+    : l.id === layerId);
+
+  if (layerId === null && scope === '__RULES__') {
+    setJsonPanelText('正在加载规则图层数据…');
+    try {
+      const records = await loadRuleLayerRecords();
+      if (format === 'geojson') {
+        text = JSON.stringify(ruleRecordsToGeoJSON(records), null, 2);
+      } else if (format === 'dynmap') {
+        text = stringifyDynmapMarkers(buildDynmapMarkerFile(ruleRecordsToDynmapDrafts(records), {
+          setId: `ria_rules_${currentWorldId}`,
+          setLabel: `RIA 规则图层 ${currentWorldId}`,
+        }));
+      } else {
+        text = JSON.stringify(records.map((r) => r.featureInfo), null, 2);
+      }
+    } catch (e) {
+      text = `规则图层数据加载失败：${e}`;
+    }
+  } else if (format === 'dynmap') {
+    const list = layers
+      .filter((l) => Boolean(l?.jsonInfo?.featureInfo))
+      .filter(selected);
+    const drafts = list.map((l) => ({
+      id: `layer-${l.id}`,
+      mode: l.mode,
+      coords: l.coords,
+      color: l.color,
+      ...describeFeatureInfo(l.jsonInfo?.featureInfo, getLayerDisplayTitle(l)),
+    }));
+    text = stringifyDynmapMarkers(buildDynmapMarkerFile(drafts, {
+      setId: `ria_${currentWorldId}`,
+      setLabel: `RIA 测绘 ${currentWorldId}`,
+    }));
+  } else {
+    const items = getLayerExportItems(layers.filter(selected), '__ALL__');
+    text = format === 'geojson'
+      ? JSON.stringify(featureInfosToGeoJSON(items), null, 2)
+      : JSON.stringify(items.map((x) => x.featureInfo), null, 2);
+  }
 
-  return JSON.stringify(items, null, 2);
+  // 期间若已切换范围/格式，丢弃过期结果
+  if (seq === jsonExportSeqRef.current) setJsonPanelText(text);
 };
 
 const getAvailableSubTypes = (): FeatureKey[] => {
@@ -1292,7 +1476,9 @@ const getLayerDisplayTitle = (l: LayerType) => {
     : undefined;
 
   const idVal = idKey ? String((fi as any)[idKey] ?? '').trim() : '';
-  const nameVal = nameKey ? String((fi as any)[nameKey] ?? '').trim() : '';
+  const nameVal = nameKey
+    ? String((fi as any)[nameKey] ?? '').trim()
+    : typeof fi.label === 'string' ? fi.label.trim() : '';
   const head = idVal || `#${l.id}`;
   const mid = nameVal ? ` ${nameVal}` : '';
   return `${head}${mid}`;
@@ -1659,6 +1845,27 @@ if (editingLayerId === id) {
  
 
  
+// 导出 JSON Schema：单类型格式导出该类型，点/线/面/批量导出整文件 Schema（按 Class 分派）
+const handleExportSchema = () => {
+  const key = importFormat as unknown as FeatureKey;
+  const def = FORMAT_REGISTRY[key]?.classCode ? FORMAT_REGISTRY[key] : null;
+  const schema = def ? buildFeatureSchema(key, { strictSystemFields: true }) : buildRuleFileSchema();
+  const filename = def ? `${def.classCode}.schema.json` : 'rule-file.schema.json';
+  try {
+    const blob = new Blob([JSON.stringify(schema, null, 2)], { type: 'application/schema+json;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } catch {
+    // ignore
+  }
+};
+
 const handleImport = () => {
   const text = importText.trim();
   if (!text) return;
@@ -1672,12 +1879,13 @@ const handleImport = () => {
   }
 
   // ---------- 批量导入：只支持“新规范 JSON 条目”，不识别点/线/面默认文本坐标，也不识别“默认”JSON ----------
-  if (importFormat === '批量') {
+  // ---------- GeoJSON：FeatureCollection / Feature，properties.Class 可识别时按该格式导入，否则作为默认点/线/面 ----------
+  if (importFormat === '批量' || importFormat === 'GeoJSON') {
     let parsed: any;
     try {
       parsed = JSON.parse(text);
     } catch (e) {
-      alert('批量导入只支持合法 JSON：' + e);
+      alert(`${importFormat}导入只支持合法 JSON：` + e);
       return;
     }
 
@@ -1702,67 +1910,83 @@ const handleImport = () => {
       return [];
     };
 
-    const items = extractItems(parsed);
-    if (!items.length) {
-      alert('批量导入失败：未找到可导入条目（需要数组或包含 items/features 的对象）。');
-      return;
-    }
-
-    const detectDefByClass = (item: any) => {
-      const cls = typeof item?.Class === 'string' ? item.Class.trim() : '';
-      if (!cls) return null;
+    const entries: Array<{ item: any; def: FormatDef | null; mode?: DrawMode }> = [];
+    const errors: string[] = [];
 
-      // 1) 按 classCode 精确匹配（新规范最可靠）
-      for (const def of Object.values(FORMAT_REGISTRY)) {
-        if (def.key === '默认') continue;
-        if (def.classCode && String(def.classCode).trim() === cls) return def;
+    if (importFormat === 'GeoJSON') {
+      if (!isGeoJSON(parsed)) {
+        alert('GeoJSON 导入失败：需要 type 为 FeatureCollection 或 Feature 的对象。');
+        return;
       }
+      const converted = geoJSONToFeatureInfos(parsed);
+      entries.push(...converted.entries);
+      errors.push(...converted.errors);
+    } else {
+      for (const item of extractItems(parsed)) {
+        entries.push({ item, def: findFormatDefByClass(item?.Class) });
+      }
+    }
 
-      // 2) 兜底：允许 Class 直接写 FeatureKey（比如“车站/站台...”）
-      const maybeKey = cls as FeatureKey;
-      if (FORMAT_REGISTRY[maybeKey] && FORMAT_REGISTRY[maybeKey].key !== '默认') return FORMAT_REGISTRY[maybeKey];
-
-      return null;
-    };
+    if (!entries.length && !errors.length) {
+      alert(`${importFormat}导入失败：未找到可导入条目（需要数组或包含 items/features 的对象）。`);
+      return;
+    }
 
     const newLayers: LayerType[] = [];
-    const errors: string[] = [];
-
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
 
-      const def = detectDefByClass(item);
+    for (let i = 0; i < entries.length; i++) {
+      const { item, def } = entries[i];
       if (!def) {
         errors.push(`第 ${i + 1} 条：无法识别 Class（批量模式不支持默认点/线/面结构；每条必须提供可映射的 Class）。`);
         continue;
       }
 
-      // 批量：严格要求 Type/Class/World 等系统字段完整且匹配当前页面世界
-      const v = validateImportItemDetailed(def, item, { worldId: currentWorldId, strictSystemFields: true });
-      if (!v.ok) {
-        const parts: string[] = [];
-        if (v.missing.length > 0) parts.push(`必填缺失/为空：\n${formatMissingEntries(v.missing)}`);
-        if (v.structuralErrors.length > 0) parts.push(`结构错误：${v.structuralErrors.join('；')}`);
-        errors.push(`${def.label} 第 ${i + 1} 条导入失败：\n${parts.join('\n')}`);
-        continue;
-      }
-
-      const mode = v.mode;
-      const coords = v.coords;
-
-      // hydrate 结果复用
-      const hydrated = v.hydrated ?? def.hydrate(item);
+      let mode: DrawMode;
+      let coords: Coord2D[];
+      let featureInfoOut: any;
+
+      if (def.key === '默认') {
+        // 仅 GeoJSON 会产生：无 Class 的要素按几何类型作为默认点/线/面
+        mode = entries[i].mode ?? 'point';
+        coords = def.coordsFromFeatureInfo(item);
+        featureInfoOut = def.buildFeatureInfo({
+          op: 'import',
+          mode,
+          coords,
+          values: {},
+          groups: {},
+          worldId: currentWorldId,
+          prevFeatureInfo: item,
+          now: new Date(),
+        });
+      } else {
+        // 批量：严格要求 Type/Class/World 等系统字段完整且匹配当前页面世界
+        const v = validateImportItemDetailed(def, item, { worldId: currentWorldId, strictSystemFields: true });
+        if (!v.ok) {
+          const parts: string[] = [];
+          if (v.missing.length > 0) parts.push(`必填缺失/为空：\n${formatMissingEntries(v.missing)}`);
+          if (v.structuralErrors.length > 0) parts.push(`结构错误：${v.structuralErrors.join('；')}`);
+          errors.push(`${def.label} 第 ${i + 1} 条导入失败：\n${parts.join('\n')}`);
+          continue;
+        }
 
-      const featureInfoOut = def.buildFeatureInfo({
-        op: 'import',
-        mode,
-        coords,
-        values: hydrated.values ?? {},
-        groups: hydrated.groups ?? {},
-        worldId: currentWorldId,
-        prevFeatureInfo: item,
-        now: new Date(),
-      });
+        mode = v.mode;
+        coords = v.coords;
+
+        // hydrate 结果复用
+        const hydrated = v.hydrated ?? def.hydrate(item);
+
+        featureInfoOut = def.buildFeatureInfo({
+          op: 'import',
+          mode,
+          coords,
+          values: hydrated.values ?? {},
+          groups: hydrated.groups ?? {},
+          worldId: currentWorldId,
+          prevFeatureInfo: item,
+          now: new Date(),
+        });
+      }
 
       const itemColor = randomColor();
       const group = L.layerGroup();
@@ -1770,9 +1994,9 @@ const handleImport = () => {
       const yForDisplay =
         Number.isFinite(Number(item?.height)) ? Number(item.height)
         : Number.isFinite(Number(item?.heightH)) ? Number(item.heightH)
-        : 64;
+        : DEFAULT_DRAW_Y;
 
-      const latlngs = coords.map(p => proj.locationToLatLng(p.x, yForDisplay, p.z));
+      const latlngs = coords.map(p => toLatLng(proj, Number.isFinite(p.y) ? p : { ...p, y: yForDisplay }));
 
       if (mode === 'point') {
         latlngs.forEach(ll => {
@@ -1792,6 +2016,7 @@ const handleImport = () => {
         coords,
         visible: true,
         leafletGroup: group,
+        displayY: yForDisplay,
         jsonInfo: {
           subType: def.key,
           featureInfo: featureInfoOut,
@@ -1800,7 +2025,7 @@ const handleImport = () => {
     }
 
     if (errors.length) {
-      alert(`批量导入部分失败：\n\n${errors.slice(0, 10).join('\n\n')}${errors.length > 10 ? `\n\n...(共 ${errors.length} 条错误)` : ''}`);
+      alert(`${importFormat}导入部分失败：\n\n${errors.slice(0, 10).join('\n\n')}${errors.length > 10 ? `\n\n...(共 ${errors.length} 条错误)` : ''}`);
       return;
     }
 
@@ -1815,6 +2040,74 @@ const handleImport = () => {
     return;
   }
 
+  // ---------- Dynmap 标记：作为默认点/线/面草稿导入，保留原颜色 ----------
+  if (importFormat === 'Dynmap') {
+    let drafts: DynmapDraft[];
+    let skipped: number;
+    try {
+      ({ drafts, skipped } = dynmapSetsToDrafts(parseDynmapMarkers(text), DYNMAP_DEFAULT_WORLD));
+    } catch (e) {
+      alert('Dynmap 标记解析失败：' + (e instanceof Error ? e.message : String(e)));
+      return;
+    }
+    if (!drafts.length) {
+      alert(`未找到可导入的标记${skipped ? `（跳过 ${skipped} 个：其他世界 / 圆形 / 坐标无效）` : ''}`);
+      return;
+    }
+
+    const def = FORMAT_REGISTRY['默认'];
+    const newLayers: LayerType[] = drafts.map((d) => {
+      const group = L.layerGroup();
+      const latlngs = d.coords.map(p => toLatLng(proj, p));
+      if (d.mode === 'point') {
+        L.circleMarker(latlngs[0], { color: d.color, fillColor: d.color, radius: 6 }).addTo(group);
+      } else if (d.mode === 'polyline') {
+        L.polyline(latlngs, { color: d.color }).addTo(group);
+      } else {
+        L.polygon(latlngs, { color: d.color }).addTo(group);
+      }
+
+      return {
+        id: nextLayerId.current++,
+        mode: d.mode,
+        color: d.color,
+        coords: d.coords,
+        visible: true,
+        leafletGroup: group,
+        jsonInfo: {
+          subType: '默认',
+          featureInfo: def.buildFeatureInfo({
+            op: 'import',
+            mode: d.mode,
+            coords: d.coords,
+            values: {},
+            groups: {},
+            worldId: currentWorldId,
+            // 保留标记的名称 / 描述 / 图标（默认格式会保留这些附加属性，导出 Dynmap 时原样写回）
+            prevFeatureInfo: {
+              label: d.label,
+              ...(d.desc ? { desc: d.desc } : {}),
+              ...(d.icon ? { icon: d.icon } : {}),
+            },
+            now: new Date(),
+          }),
+        },
+      };
+    });
+
+    if (skipped) alert(`已导入 ${drafts.length} 个标记，跳过 ${skipped} 个（其他世界 / 圆形 / 坐标无效）`);
+
+    setLayers(prev => {
+      const next = [...prev, ...newLayers];
+      syncFixedRoot(next, editingLayerId);
+      return next;
+    });
+
+    setImportText('');
+    setImportPanelOpen(false);
+    return;
+  }
+
   const color = randomColor();
 
   // ========== 1) 点 / 线 / 面（文本坐标） ==========
@@ -1843,7 +2136,7 @@ const handleImport = () => {
       importFormat === '线' ? 'polyline' : 'polygon';
 
     const group = L.layerGroup();
-    const latlngs = coords.map(p => proj.locationToLatLng(p.x, 64, p.z));
+    const latlngs = coords.map(p => toLatLng(proj, p));
 
     if (mode === 'point') {
       latlngs.forEach(ll => {
@@ -1947,9 +2240,9 @@ const handleImport = () => {
     const yForDisplay =
       Number.isFinite(Number(item?.height)) ? Number(item.height)
       : Number.isFinite(Number(item?.heightH)) ? Number(item.heightH)
-      : 64;
+      : DEFAULT_DRAW_Y;
 
-    const latlngs = coords.map(p => proj.locationToLatLng(p.x, yForDisplay, p.z));
+    const latlngs = coords.map(p => toLatLng(proj, Number.isFinite(p.y) ? p : { ...p, y: yForDisplay }));
 
     if (mode === 'point') {
       latlngs.forEach(ll => {
@@ -1969,6 +2262,7 @@ const handleImport = () => {
       coords,
       visible: true,
       leafletGroup: group,
+      displayY: yForDisplay,
       jsonInfo: {
         subType: key,
         featureInfo: featureInfoOut,
@@ -2313,21 +2607,7 @@ const startWorkflow = () => {
 const makeLeafletGroupForCoords = (mode: DrawMode, coords: { x: number; z: number }[], color: string) => {
   const proj = projectionRef.current;
   if (!proj) return L.layerGroup();
-
-  const g = L.layerGroup();
-  const latlngs = coords.map(p => proj.locationToLatLng(p.x, 64, p.z));
-
-  if (mode === 'point') {
-    latlngs.forEach(ll => {
-      L.circleMarker(ll, { color, fillColor: color, radius: 6 }).addTo(g);
-    });
-  } else if (mode === 'polyline') {
-    L.polyline(latlngs, { color }).addTo(g);
-  } else if (mode === 'polygon') {
-    if (latlngs.length > 2) L.polygon(latlngs, { color }).addTo(g);
-    else L.polyline(latlngs, { color }).addTo(g);
-  }
-  return g;
+  return buildLayerGroup(proj, mode, coords, color);
 };
 
 const upsertWorkflowPreview = (
@@ -2348,7 +2628,7 @@ const upsertWorkflowPreview = (
   const weight = style?.weight ?? 4;
   const dashArray = style?.dashArray;
 
-  const latlngs = (points ?? []).map(p => proj.locationToLatLng(p.x, 64, p.z));
+  const latlngs = (points ?? []).map(p => toLatLng(proj, p));
 
   let layer: L.Layer;
   if (kind === 'point') {
@@ -2362,6 +2642,7 @@ const upsertWorkflowPreview = (
 
   layer.addTo(root);
   workflowPreviewMapRef.current.set(key, layer);
+  workflowPreviewArgsRef.current.set(layer, { kind, points, style });
 };
 
 const clearWorkflowPreview = (key?: string) => {
@@ -2685,9 +2966,7 @@ const workflowBridge: WorkflowBridge = {
                 disabled={busy || visibleList.length === 0}
                 onClick={() => {
                   if (busy || visibleList.length === 0) return;
-                  setJsonExportSubType('__ALL__');
-                  setJsonPanelText(getLayersJSONOutputBySubType('__ALL__'));
-                  setJsonPanelOpen(true);
+                  void showJsonExport('__ALL__', jsonExportFormat);
                 }}
               >
                 整体JSON
@@ -2802,8 +3081,7 @@ const workflowBridge: WorkflowBridge = {
                       <AppButton
                         className="px-3 py-1 text-sm bg-purple-400 text-white"
                         onClick={() => {
-                          setJsonPanelText(getLayerJSONOutput(l));
-                          setJsonPanelOpen(true);
+                          void showJsonExport('__ALL__', jsonExportFormat, l.id);
                         }}
                         type="button"
                       >
@@ -3059,20 +3337,28 @@ onChange={(e) => {
 />
 
 
+{drawingDisabled && (
+  <div className="mb-2 text-xs text-amber-700 bg-amber-50 rounded px-2 py-1">
+    当前为立体视角，点击位置无法确定高度，已暂停绘制；请切换到平面视角后继续。
+  </div>
+)}
+
 {/* 辅助线 */}
-<div className="mb-2">
-  <AssistLineTools
-    ref={assistLineToolsRef}
-    mapReady={mapReady}
-    leafletMapRef={leafletMapRef}
-    projectionRef={projectionRef}
-  />
-</div>
+{!drawingDisabled && (
+  <div className="mb-2">
+    <AssistLineTools
+      ref={assistLineToolsRef}
+      mapReady={mapReady}
+      leafletMapRef={leafletMapRef}
+      projectionRef={projectionRef}
+    />
+  </div>
+)}
 
 
 
 {/* 控制点修改/添加/保存*/}
-{drawMode !== 'none' && (
+{drawMode !== 'none' && !drawingDisabled && (
   <ControlPointsT
     ref={controlPointsTRef}
     mapReady={mapReady}
@@ -3368,7 +3654,7 @@ onChange={(e) => {
 
 
 {/* 控制点修改/添加/保存 */}
-{drawMode !== 'none' && (
+{drawMode !== 'none' && !drawingDisabled && (
   <ControlPointsT
     ref={controlPointsTRef}
     mapReady={mapReady}
@@ -3592,6 +3878,8 @@ onChange={(e) => {
 <option value="线">线</option>
 <option value="面">面</option>
 <option value="批量">批量</option>
+<option value="GeoJSON">GeoJSON</option>
+<option value="Dynmap">Dynmap 标记</option>
 <option value="车站">车站</option>
 <option value="铁路">铁路</option>
 <option value="站台">站台</option>
@@ -3616,14 +3904,28 @@ placeholder={
     ? '坐标文本：x,z;x,z 或 x,y,z;x,y,z'
     : importFormat === '批量'
       ? '批量 JSON：支持数组或 {items:[...]} / {features:[...]}。每条必须是“新规范 JSON”(含 Type/Class/World)，且 Class 必须可映射到已支持格式。'
-      : '单类型 JSON：数组，每条为该格式的 featureInfo 对象'
+      : importFormat === 'Dynmap'
+        ? 'Dynmap 标记：粘贴服务器 markers.yml，或网页端 tiles/_markers_/marker_world.json。标记 / 线 / 区域导入为默认点 / 线 / 面草稿（仅主世界 world）。'
+      : importFormat === 'GeoJSON'
+        ? 'GeoJSON：FeatureCollection / Feature，坐标为 [x, z] 或 [x, z, y]。properties 含 Class 时按对应格式导入（同批量规则），否则作为默认点/线/面。'
+        : '单类型 JSON：数组，每条为该格式的 featureInfo 对象'
 }
                   rows={6}
                 />
 
-                <AppButton className="bg-green-600 text-white px-3 py-2 rounded-lg w-full" onClick={handleImport} type="button">
-                  导入
-                </AppButton>
+                <div className="flex gap-2">
+                  <AppButton className="flex-1 bg-green-600 text-white px-3 py-2 rounded-lg" onClick={handleImport} type="button">
+                    导入
+                  </AppButton>
+                  <AppButton
+                    className="bg-gray-200 text-gray-700 px-3 py-2 rounded-lg"
+                    onClick={handleExportSchema}
+                    title="导出当前格式的 JSON Schema，可在编辑器/外部工具中校验规则 JSON"
+                    type="button"
+                  >
+                    导出 Schema
+                  </AppButton>
+                </div>
               </div>
             </AppCard>
           </DraggablePanel>
@@ -3658,6 +3960,8 @@ placeholder={
 <option value="线">线</option>
 <option value="面">面</option>
 <option value="批量">批量</option>
+<option value="GeoJSON">GeoJSON</option>
+<option value="Dynmap">Dynmap 标记</option>
 <option value="车站">车站</option>
 <option value="铁路">铁路</option>
 <option value="站台">站台</option>
@@ -3680,9 +3984,14 @@ placeholder={
                 rows={6}
               />
 
-              <AppButton className="bg-green-600 text-white px-3 py-2 rounded-lg w-full" onClick={handleImport} type="button">
-                导入
-              </AppButton>
+              <div className="flex gap-2">
+                <AppButton className="flex-1 bg-green-600 text-white px-3 py-2 rounded-lg" onClick={handleImport} type="button">
+                  导入
+                </AppButton>
+                <AppButton className="bg-gray-200 text-gray-700 px-3 py-2 rounded-lg" onClick={handleExportSchema} type="button">
+                  导出 Schema
+                </AppButton>
+              </div>
             </div>
           </AppCard>
         </div>
@@ -3701,7 +4010,7 @@ placeholder={
   <DraggablePanel id="measuring-json-export" defaultPosition={{ x: 340, y: 260 }} zIndex={1900}>
     <AppCard className="w-[520px] max-h-[70vh] overflow-hidden border">
       <div className="flex items-center justify-between px-4 py-3 border-b">
-        <h3 className="font-bold text-gray-800">JSON 导出</h3>
+        <h3 className="font-bold text-gray-800">{JSON_EXPORT_FORMATS[jsonExportFormat].label} 导出</h3>
         <AppButton
           onClick={() => setJsonPanelOpen(false)}
           className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
@@ -3721,14 +4030,11 @@ placeholder={
             <AppButton
               type="button"
               className={`w-full px-2 py-1 text-sm rounded border ${
-                jsonExportSubType === '__ALL__'
+                jsonExportLayerId === null && jsonExportSubType === '__ALL__'
                   ? 'bg-blue-600 text-white border-blue-700'
                   : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'
               }`}
-              onClick={() => {
-                setJsonExportSubType('__ALL__');
-                setJsonPanelText(getLayersJSONOutputBySubType('__ALL__'));
-              }}
+              onClick={() => void showJsonExport('__ALL__', jsonExportFormat)}
             >
               全部
             </AppButton>
@@ -3737,23 +4043,49 @@ placeholder={
                 key={k}
                 type="button"
                 className={`w-full px-2 py-1 text-sm rounded border ${
-                  jsonExportSubType === k
+                  jsonExportLayerId === null && jsonExportSubType === k
                     ? 'bg-blue-600 text-white border-blue-700'
                     : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'
                 }`}
-                onClick={() => {
-                  setJsonExportSubType(k);
-                  setJsonPanelText(getLayersJSONOutputBySubType(k));
-                }}
+                onClick={() => void showJsonExport(k, jsonExportFormat)}
               >
                 {k}
               </AppButton>
             ))}
+            <AppButton
+              type="button"
+              className={`w-full px-2 py-1 text-sm rounded border ${
+                jsonExportSubType === '__RULES__'
+                  ? 'bg-blue-600 text-white border-blue-700'
+                  : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'
+              }`}
+              title="当前世界规则图层的全部数据（含已启用的临时挂载源）"
+              onClick={() => void showJsonExport('__RULES__', jsonExportFormat)}
+            >
+              规则图层
+            </AppButton>
           </div>
         </div>
 
         {/* 右侧：内容 + 操作 */}
         <div className="flex-1 space-y-2">
+          <div className="flex gap-1">
+            {(Object.keys(JSON_EXPORT_FORMATS) as JsonExportFormat[]).map((f) => (
+              <AppButton
+                key={f}
+                type="button"
+                className={`px-2 py-1 text-xs rounded border ${
+                  jsonExportFormat === f
+                    ? 'bg-blue-600 text-white border-blue-700'
+                    : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'
+                }`}
+                title={JSON_EXPORT_FORMATS[f].title}
+                onClick={() => void showJsonExport(jsonExportSubType, f, jsonExportLayerId)}
+              >
+                {JSON_EXPORT_FORMATS[f].label}
+              </AppButton>
+            ))}
+          </div>
           <textarea
             readOnly
             className="w-full h-64 border p-2 text-xs font-mono rounded"
@@ -3796,10 +4128,15 @@ placeholder={
                 const y = String(now.getFullYear());
                 const m = String(now.getMonth() + 1).padStart(2, '0');
                 const d = String(now.getDate()).padStart(2, '0');
-                const name = jsonExportSubType === '__ALL__' ? 'ALL' : String(jsonExportSubType);
-                const filename = `${name}_${y}${m}${d}.json`;
+                const name =
+                  jsonExportLayerId !== null ? `layer-${jsonExportLayerId}`
+                  : jsonExportSubType === '__ALL__' ? 'ALL'
+                  : jsonExportSubType === '__RULES__' ? `RULES_${currentWorldId}`
+                  : String(jsonExportSubType);
+                const { ext, mime } = JSON_EXPORT_FORMATS[jsonExportFormat];
+                const filename = `${name}_${y}${m}${d}.${ext}`;
                 try {
-                  const blob = new Blob([text], { type: 'application/json;charset=utf-8' });
+                  const blob = new Blob([text], { type: `${mime};charset=utf-8` });
                   const url = URL.createObjectURL(blob);
                   const a = document.createElement('a');
                   a.href = url;
@@ -2,6 +2,7 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import type { WorkflowComponentProps, WorldPoint, WorkflowCommitArgs } from './WorkflowHost';
 import AppButton from '@/components/ui/AppButton';
+import { getWorldPrefix } from '@/lib/worldRegistry';
 
 /**
  * RailwayWorkflow（工作流：铁路）
@@ -41,25 +42,6 @@ type InfoForm = {
 };
 
 
-const WORLD_ID_TO_CODE: Record<string, number> = {
-  zth: 0,
-  naraku: 1,
-  houtu: 2,
-  eden: 3,
-  laputa: 4,
-  yunduan: 5,
-};
-
-const WORLD_CODE_TO_PREFIX: Record<number, string> = {
-  0: 'Z',
-  1: 'N',
-  2: 'H',
-  3: 'E',
-  4: 'L',
-  5: 'Y',
-};
-
-
 function dist2(a: WorldPoint, b: WorldPoint) {
   const dx = (a.x ?? 0) - (b.x ?? 0);
   const dz = (a.z ?? 0) - (b.z ?? 0);
@@ -361,9 +343,7 @@ export default function RailwayWorkflow(props: WorkflowComponentProps) {
 
   // --------- Build ID / Values ----------
   const buildBaseLineId = () => {
-    const worldId = String(bridgeRef.current.getCurrentWorldId?.() ?? 'zth').trim() || 'zth';
-    const worldCode = Number.isFinite(WORLD_ID_TO_CODE[worldId]) ? WORLD_ID_TO_CODE[worldId] : 0;
-    const prefix = WORLD_CODE_TO_PREFIX[worldCode] ?? 'Z';
+    const prefix = getWorldPrefix(bridgeRef.current.getCurrentWorldId?.());
 
     const bureau = String(info.bureau ?? '').trim();
     const lineNo = String(info.lineNo ?? '').trim();
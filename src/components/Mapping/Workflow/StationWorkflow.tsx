@@ -2,6 +2,7 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import type { WorkflowComponentProps, WorldPoint } from './WorkflowHost';
 import AppButton from '@/components/ui/AppButton';
+import { getWorldPrefix } from '@/lib/worldRegistry';
 
 /**
  * StationWorkflow（工作流：车站和站台）
@@ -37,46 +38,11 @@ type LineEntry = {
   NextOT: boolean;
 };
 
-const WORLD_ID_TO_CODE: Record<string, number> = {
-  zth: 0,
-  naraku: 1,
-  houtu: 2,
-  eden: 3,
-  laputa: 4,
-  yunduan: 5,
-};
-
-const WORLD_CODE_TO_PREFIX: Record<number, string> = {
-  0: 'Z',
-  1: 'N',
-  2: 'H',
-  3: 'E',
-  4: 'L',
-  5: 'Y',
-};
 
 function nonEmpty(s: string) {
   return String(s ?? '').trim().length > 0;
 }
 
-function resolveWorldPrefix(worldIdRaw: string): string {
-  const w = String(worldIdRaw ?? '').trim();
-  if (!w) return 'Z';
-
-  // 允许传入 0..5
-  const asNum = Number(w);
-  if (Number.isFinite(asNum) && WORLD_CODE_TO_PREFIX[asNum as any]) return WORLD_CODE_TO_PREFIX[asNum as any];
-
-  // 允许传入 zth/naraku/... 等
-  const code = WORLD_ID_TO_CODE[w];
-  if (Number.isFinite(code)) return WORLD_CODE_TO_PREFIX[code];
-
-  // 允许传入已经是 Z/N/H/E/L/Y
-  if (/^[ZNHELY]$/i.test(w)) return w.toUpperCase();
-
-  return 'Z';
-}
-
 function firstPointOnly(pts: WorldPoint[]) {
   if (!Array.isArray(pts) || pts.length === 0) return [] as WorldPoint[];
   return [pts[0]];
@@ -206,7 +172,7 @@ export default function StationWorkflow(props: WorkflowComponentProps) {
   });
 
   // World
-  const worldPrefix = useMemo(() => resolveWorldPrefix(bridge.getCurrentWorldId?.() ?? ''), [bridge]);
+  const worldPrefix = useMemo(() => getWorldPrefix(bridge.getCurrentWorldId?.()), [bridge]);
 
   // STB page
   const [stbAbbrA, setStbAbbrA] = useState('');
@@ -0,0 +1,381 @@
+// src/components/Mapping/dynmapMarkers.ts
+
+import type { FeatureRecord } from '@/components/Rules/renderRules';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  findFormatDefByClass,
+  type Coord2D,
+  type DrawMode,
+} from '@/components/Mapping/featureFormats';
+
+// ============================
+// Dynmap 标记互转
+// - 导出：markers.yml 的 sets 结构（点 → markers，线 → lines，面 → areas），可合并进服务器的 markers.yml
+// - 导入：markers.yml，或网页端的 tiles/_markers_/marker_<world>.json；结果作为草稿图层（默认点/线/面）
+// - 坐标即 Minecraft 方块坐标，无需换算
+// ============================
+
+/** Dynmap 中的世界名（各服务器的主世界） */
+export const DYNMAP_DEFAULT_WORLD = 'world';
+
+export type DynmapMarker = {
+  world: string;
+  x: number;
+  y: number;
+  z: number;
+  icon: string;
+  label: string;
+  markup: boolean;
+  desc?: string | null;
+};
+
+export type DynmapLine = {
+  world: string;
+  x: number[];
+  y: number[];
+  z: number[];
+  label: string;
+  markup: boolean;
+  desc?: string | null;
+  strokeWeight: number;
+  strokeOpacity: number;
+  strokeColor: number;
+};
+
+export type DynmapArea = {
+  world: string;
+  x: number[];
+  z: number[];
+  ytop: number;
+  ybottom: number;
+  label: string;
+  markup: boolean;
+  desc?: string | null;
+  strokeWeight: number;
+  strokeOpacity: number;
+  strokeColor: number;
+  fillOpacity: number;
+  fillColor: number;
+};
+
+export type DynmapMarkerSet = {
+  label: string;
+  hide: boolean;
+  layerprio: number;
+  minzoom: number;
+  maxzoom: number;
+  markers: Record<string, DynmapMarker>;
+  lines: Record<string, DynmapLine>;
+  areas: Record<string, DynmapArea>;
+};
+
+export type DynmapMarkerFile = {
+  sets: Record<string, DynmapMarkerSet>;
+};
+
+/** 导出 / 导入的中间形态：一条可绘制的要素 */
+export type DynmapDraft = {
+  id: string;
+  mode: DrawMode;
+  coords: Coord2D[];
+  color: string;        // CSS 颜色
+  label: string;
+  desc?: string;        // HTML
+  icon?: string;
+  setId?: string;       // 导入时记录来源 set
+};
+
+const DEFAULT_Y = 64;
+const LINE_WEIGHT = 3;
+const LINE_OPACITY = 0.8;
+const AREA_FILL_OPACITY = 0.35;
+const DEFAULT_COLOR = '#3b82f6';
+
+// 点要素的图标（Dynmap 内置图标名）
+const ICON_BY_CLASS: Record<string, string> = {
+  STA: 'minecart',
+  PLF: 'minecart',
+  SBP: 'building',
+  ISP: 'pin',
+};
+
+// ---------- 颜色 ----------
+
+/**
+ * CSS 颜色（#rgb / #rrggbb / rgb()）→ Dynmap 的整数颜色；无法识别时返回 null
+ */
+export const cssColorToInt = (color: string | undefined | null): number | null => {
+  const s = String(color ?? '').trim();
+  let m = /^#([0-9a-f]{3})$/i.exec(s);
+  if (m) return parseInt(m[1].split('').map((c) => c + c).join(''), 16);
+  m = /^#([0-9a-f]{6})$/i.exec(s);
+  if (m) return parseInt(m[1], 16);
+  m = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i.exec(s);
+  if (m) return (Math.min(255, +m[1]) << 16) | (Math.min(255, +m[2]) << 8) | Math.min(255, +m[3]);
+  return null;
+};
+
+export const intToCssColor = (value: number): string =>
+  `#${(value & 0xffffff).toString(16).padStart(6, '0')}`;
+
+// ---------- 导出 ----------
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Dynmap 的 id 只用作键，这里统一成字母数字下划线
+const sanitizeId = (s: string) => s.replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || 'feature';
+
+// 取要素的 ID / 名称字段（按格式定义中以 ID / Name 结尾的第一个字段）
+const pickIdAndName = (featureInfo: any): { id: string; name: string } => {
+  const def = findFormatDefByClass(featureInfo?.Class);
+  const fields = def?.fields ?? [];
+  const idKey = fields.find((f) => /id$/i.test(f.key))?.key;
+  const nameKey = fields.find((f) => /name$/i.test(f.key))?.key;
+  return {
+    id: idKey ? String(featureInfo?.[idKey] ?? '').trim() : '',
+    name: nameKey ? String(featureInfo?.[nameKey] ?? '').trim() : '',
+  };
+};
+
+/**
+ * 由 featureInfo 生成标记的标签 / 描述 / 图标（无 Class 的默认要素沿用其 label / desc / icon，如从 markers.yml 导入的标记）
+ */
+export const describeFeatureInfo = (
+  featureInfo: any,
+  fallbackLabel: string
+): Pick<DynmapDraft, 'label' | 'desc' | 'icon'> => {
+  const cls = typeof featureInfo?.Class === 'string' ? featureInfo.Class.trim() : '';
+  if (!cls) {
+    const text = (v: unknown) => (typeof v === 'string' && v.trim() ? v : undefined);
+    return {
+      label: text(featureInfo?.label)?.trim() ?? fallbackLabel,
+      desc: text(featureInfo?.desc),
+      icon: text(featureInfo?.icon),
+    };
+  }
+
+  const { id, name } = pickIdAndName(featureInfo);
+  const rows = [['Class', cls], ['ID', id], ['名称', name]].filter(([, v]) => v);
+  return {
+    label: name || id || fallbackLabel,
+    desc: rows.map(([k, v]) => `<div><b>${escapeHtml(k)}</b>: ${escapeHtml(v)}</div>`).join(''),
+    icon: ICON_BY_CLASS[cls],
+  };
+};
+
+const RECORD_MODE_BY_GEO_TYPE: Record<FeatureRecord['type'], DrawMode> = {
+  Points: 'point',
+  Polyline: 'polyline',
+  Polygon: 'polygon',
+};
+
+/**
+ * 规则图层记录 → 草稿（颜色取 featureInfo.color，缺省用统一蓝色）
+ */
+export const ruleRecordsToDynmapDrafts = (records: FeatureRecord[]): DynmapDraft[] =>
+  records.map((r) => {
+    const fallback = r.meta.idValue ? `${r.meta.Class} ${r.meta.idValue}` : r.meta.Class;
+    const color = cssColorToInt(r.featureInfo?.color) !== null ? String(r.featureInfo.color) : DEFAULT_COLOR;
+    return {
+      id: r.meta.idValue ? `${r.meta.Class}_${r.meta.idValue}` : r.uid,
+      mode: RECORD_MODE_BY_GEO_TYPE[r.type],
+      coords: r.p3 ? [r.p3] : (r.coords3 ?? []),
+      color,
+      ...describeFeatureInfo(r.featureInfo, fallback),
+    };
+  });
+
+/**
+ * 草稿 → 单个 marker set（id 重复时追加序号）
+ */
+export const buildDynmapMarkerFile = (
+  drafts: DynmapDraft[],
+  opts: { setId: string; setLabel: string; world?: string }
+): DynmapMarkerFile => {
+  const world = opts.world ?? DYNMAP_DEFAULT_WORLD;
+  const set: DynmapMarkerSet = {
+    label: opts.setLabel,
+    hide: false,
+    layerprio: 0,
+    minzoom: -1,
+    maxzoom: -1,
+    markers: {},
+    lines: {},
+    areas: {},
+  };
+
+  const used = new Set<string>();
+  const uniqueId = (raw: string) => {
+    const base = sanitizeId(raw);
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+    used.add(id);
+    return id;
+  };
+
+  for (const d of drafts) {
+    if (d.coords.length === 0) continue;
+    const id = uniqueId(d.id);
+    const color = cssColorToInt(d.color) ?? cssColorToInt(DEFAULT_COLOR)!;
+    const common = { world, label: d.label, markup: false, desc: d.desc ?? null };
+
+    if (d.mode === 'point') {
+      const p = d.coords[0];
+      set.markers[id] = { ...common, x: p.x, y: p.y ?? DEFAULT_Y, z: p.z, icon: d.icon ?? 'default' };
+    } else if (d.mode === 'polyline') {
+      set.lines[id] = {
+        ...common,
+        x: d.coords.map((p) => p.x),
+        y: d.coords.map((p) => p.y ?? DEFAULT_Y),
+        z: d.coords.map((p) => p.z),
+        strokeWeight: LINE_WEIGHT,
+        strokeOpacity: LINE_OPACITY,
+        strokeColor: color,
+      };
+    } else {
+      const ys = d.coords.map((p) => p.y ?? DEFAULT_Y);
+      set.areas[id] = {
+        ...common,
+        x: d.coords.map((p) => p.x),
+        z: d.coords.map((p) => p.z),
+        ytop: Math.max(...ys),
+        ybottom: Math.min(...ys),
+        strokeWeight: LINE_WEIGHT,
+        strokeOpacity: LINE_OPACITY,
+        strokeColor: color,
+        fillOpacity: AREA_FILL_OPACITY,
+        fillColor: color,
+      };
+    }
+  }
+
+  return { sets: { [sanitizeId(opts.setId)]: set } };
+};
+
+// 与 SnakeYAML（Dynmap）默认输出一致：字符串单引号，序列与父键同级缩进，不折行
+export const stringifyDynmapMarkers = (file: DynmapMarkerFile): string =>
+  stringifyYaml(file, { defaultStringType: 'QUOTE_SINGLE', defaultKeyType: 'PLAIN', indentSeq: false, lineWidth: 0 });
+
+// ---------- 导入 ----------
+
+const asRecord = (v: unknown): Record<string, any> =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, any>) : {};
+
+const asNumberList = (v: unknown): number[] | null => {
+  if (!Array.isArray(v)) return null;
+  const out = v.map(Number);
+  return out.every(Number.isFinite) ? out : null;
+};
+
+// 网页端 JSON 的颜色为 "#rrggbb" 字符串，markers.yml 为整数
+const readColor = (...values: unknown[]): string => {
+  for (const v of values) {
+    if (typeof v === 'number' && Number.isFinite(v)) return intToCssColor(v);
+    if (typeof v === 'string' && cssColorToInt(v) !== null) return v;
+  }
+  return DEFAULT_COLOR;
+};
+
+/**
+ * 解析 markers.yml / marker_<world>.json 文本；格式无法识别时抛出错误
+ */
+export const parseDynmapMarkers = (text: string): Record<string, any> => {
+  const trimmed = text.trim();
+  const root = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed);
+  const sets = asRecord(asRecord(root).sets);
+  if (Object.keys(sets).length === 0) throw new Error('未找到 sets（需要 markers.yml 或 marker_<world>.json）');
+  return sets;
+};
+
+/**
+ * marker set → 草稿
+ * - world 指定时只保留该世界的标记（网页端 JSON 本身按世界拆分，不带 world 字段）
+ * - circles 不支持，计入 skipped
+ */
+export const dynmapSetsToDrafts = (
+  sets: Record<string, any>,
+  world?: string
+): { drafts: DynmapDraft[]; skipped: number } => {
+  const drafts: DynmapDraft[] = [];
+  let skipped = 0;
+  const inWorld = (m: any) => !world || m?.world === undefined || m.world === world;
+
+  for (const [setId, rawSet] of Object.entries(sets)) {
+    const set = asRecord(rawSet);
+
+    for (const [id, m] of Object.entries(asRecord(set.markers))) {
+      const x = Number(m?.x);
+      const y = Number(m?.y);
+      const z = Number(m?.z);
+      if (!inWorld(m) || !Number.isFinite(x) || !Number.isFinite(z)) {
+        skipped++;
+        continue;
+      }
+      drafts.push({
+        id,
+        setId,
+        mode: 'point',
+        coords: [Number.isFinite(y) ? { x, y, z } : { x, z }],
+        color: DEFAULT_COLOR,
+        label: String(m?.label ?? id).trim(),
+        desc: m?.desc ?? undefined,
+        icon: m?.icon ?? undefined,
+      });
+    }
+
+    for (const [id, l] of Object.entries(asRecord(set.lines))) {
+      const xs = asNumberList(l?.x);
+      const zs = asNumberList(l?.z);
+      const ys = asNumberList(l?.y);
+      if (!inWorld(l) || !xs || !zs || xs.length !== zs.length || xs.length < 2) {
+        skipped++;
+        continue;
+      }
+      drafts.push({
+        id,
+        setId,
+        mode: 'polyline',
+        coords: xs.map((x, i) => (ys && Number.isFinite(ys[i]) ? { x, y: ys[i], z: zs[i] } : { x, z: zs[i] })),
+        color: readColor(l?.strokeColor, l?.color),
+        label: String(l?.label ?? id).trim(),
+        desc: l?.desc ?? undefined,
+      });
+    }
+
+    for (const [id, a] of Object.entries(asRecord(set.areas))) {
+      let xs = asNumberList(a?.x);
+      let zs = asNumberList(a?.z);
+      if (!inWorld(a) || !xs || !zs || xs.length !== zs.length) {
+        skipped++;
+        continue;
+      }
+      // 只有两个角点的区域是矩形，展开成四个顶点
+      if (xs.length === 2) {
+        const [x0, x1] = xs;
+        const [z0, z1] = zs;
+        xs = [x0, x1, x1, x0];
+        zs = [z0, z0, z1, z1];
+      }
+      if (xs.length < 3) {
+        skipped++;
+        continue;
+      }
+      const y = Number(a?.ybottom);
+      const zList = zs;
+      drafts.push({
+        id,
+        setId,
+        mode: 'polygon',
+        coords: xs.map((x, i) => (Number.isFinite(y) ? { x, y, z: zList[i] } : { x, z: zList[i] })),
+        color: readColor(a?.strokeColor, a?.color),
+        label: String(a?.label ?? id).trim(),
+        desc: a?.desc ?? undefined,
+      });
+    }
+
+    skipped += Object.keys(asRecord(set.circles)).length;
+  }
+
+  return { drafts, skipped };
+};
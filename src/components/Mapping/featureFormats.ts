@@ -1,5 +1,8 @@
 // src/components/mapping/featureFormats.ts
 
+import { validateJsonSchema, type JsonSchema, type SchemaError } from '@/lib/jsonSchema';
+import { WORLD_REGISTRY, DEFAULT_WORLD_ID } from '@/lib/worldRegistry';
+
 // ============================
 // Tag Registry（软词典）
 // - tags：轻量筛选/渲染差分（支持规则显式路径：tags.xxx）
@@ -57,15 +60,10 @@ const CLASS_CODE_BY_FEATURE: Partial<Record<FeatureKey, string>> = {
   建筑楼层: 'FLR',
 };
 
-// World：按 MapContainer 的 currentWorld id 映射到新规范的整数
-const WORLD_CODE_BY_WORLD_ID: Record<string, number> = {
-  zth: 0,
-  naraku: 1,
-  houtu: 2,
-  eden: 3,
-  laputa: 4,
-  yunduan: 5,
-};
+// World：按 MapContainer 的 currentWorld id 映射到新规范的整数（取自世界注册表）
+const WORLD_CODE_BY_WORLD_ID: Record<string, number> = Object.fromEntries(
+  WORLD_REGISTRY.filter((w) => w.code !== null).map((w) => [w.id, w.code as number])
+);
 
 
 export const EXT_VALUE_TYPE_OPTIONS: Array<{ label: string; value: ExtValueType }> = [
@@ -128,49 +126,6 @@ const coerceTagPrimitive = (key: string, raw: any): TagPrimitive | undefined =>
   return String(raw);
 };
 
-const validateTagsObjectSoft = (tags: any): string | null => {
-  if (tags === undefined || tags === null) return null;
-  if (!tags || typeof tags !== 'object' || Array.isArray(tags)) return 'tags 必须是对象';
-
-  for (const [k, v] of Object.entries(tags)) {
-    // 未登记键允许存在，但 value 必须是 primitive（避免嵌套结构）
-    if (!isTagPrimitive(v)) return `tags.${k} 必须是 string/number/bool/null`;
-
-    const def = TAG_REGISTRY[k];
-    if (!def) continue;
-
-    // 轻校验：类型不匹配时不直接阻断（仍返回错误信息以提示维护者）
-    if (def.type === 'number' && typeof v !== 'number') {
-      const n = Number(String(v).trim());
-      if (!Number.isFinite(n)) return `tags.${k} 期望 number`;
-    }
-    if (def.type === 'bool' && typeof v !== 'boolean') {
-      const s = String(v).trim().toLowerCase();
-      if (s !== 'true' && s !== 'false') return `tags.${k} 期望 bool`;
-    }
-    if (def.type === 'select' && typeof v !== 'string') {
-      return `tags.${k} 期望 string`;
-    }
-  }
-  return null;
-};
-
-
-const validateExtensionsObjectSoft = (ext: any): string | null => {
-  if (ext === undefined || ext === null) return null;
-  if (!ext || typeof ext !== 'object' || Array.isArray(ext)) return 'extensions 必须是对象';
-
-  // 允许两层：extensions.<group>.<key> = primitive
-  for (const [g, v] of Object.entries(ext)) {
-    if (!v || typeof v !== 'object' || Array.isArray(v)) return `extensions.${g} 必须是对象`; 
-    for (const [k, vv] of Object.entries(v as any)) {
-      // 为了保持导入简单：仅允许 primitive（不做深层嵌套）
-      if (!isTagPrimitive(vv)) return `extensions.${g}.${k} 必须是 string/number/bool/null`;
-    }
-  }
-  return null;
-};
-
 const buildTagsFromGroupItems = (items: any[]): Record<string, TagPrimitive> => {
   const out: Record<string, TagPrimitive> = {};
   for (const it of items ?? []) {
@@ -301,6 +256,8 @@ export type ImportFormat =
   | '线'
   | '面'
   | '批量'
+  | 'GeoJSON'
+  | 'Dynmap'
   | '车站'
   | '铁路'
   | '站台'
@@ -332,8 +289,17 @@ export type FieldDef = {
   options?: Array<{ label: string; value: any }>;
   /**
    * 用于组条目新增时的默认值（尤其是 bool 的 True/False 默认）
+   * - 组条目字段带默认值时，导入 JSON 可省略（hydrate 会补全）
    */
   defaultValue?: any;
+  /**
+   * 兼容的旧字段名（导入时任一存在即可）；支持一层路径，如 tags.PointKind
+   */
+  aliases?: string[];
+  /**
+   * 过渡期：导入 JSON 允许缺省（新建/编辑仍按必填）；若显式提供则不能为空
+   */
+  importOptional?: boolean;
 };
 
 export type GroupDef = {
@@ -350,9 +316,25 @@ export type GroupDef = {
    * - optional=true 时该值不会生效
    */
   minItems?: number;
+  /**
+   * 兼容的旧字段名（如 Stations / floors）
+   */
+  aliases?: string[];
   fields: FieldDef[];
 };
 
+/**
+ * JSON 中的几何字段
+ * - object：{ x, z }（点）
+ * - objects：[{ x, z, y? }, ...]
+ * - tuples：[[x, y, z], ...]
+ * 点数下限按 modes[0]：点 1 / 线 2 / 面 3
+ */
+export type GeometryDef = {
+  key: string;
+  format: 'object' | 'objects' | 'tuples';
+};
+
 export type FormatDef = {
   key: FeatureKey;
   label: string;
@@ -363,6 +345,7 @@ export type FormatDef = {
    * - “默认/占位 subtype”可以不填。
    */
   classCode?: string;
+  geometry: GeometryDef;
   fields: FieldDef[];
   groups?: GroupDef[];
 
@@ -388,7 +371,7 @@ export type FormatDef = {
   // 导入 JSON 时：从 item 得到 coords（用于画图）
   coordsFromFeatureInfo: (featureInfo: any) => Coord2D[];
 
-  // 导入 JSON 时：校验 item，返回错误信息（undefined=通过）
+  // 导入 JSON 时：Schema 无法表达的额外检查，返回错误信息（undefined=通过）
   validateImportItem?: (item: any) => string | undefined;
 };
 
@@ -403,7 +386,7 @@ const formatYYYYMMDD = (d: Date) => {
 const resolveWorldCode = (worldId?: string, fallback?: any) => {
   if (worldId && Number.isFinite(WORLD_CODE_BY_WORLD_ID[worldId])) return WORLD_CODE_BY_WORLD_ID[worldId];
   if (fallback && Number.isFinite(Number(fallback))) return Number(fallback);
-  return WORLD_CODE_BY_WORLD_ID.zth;
+  return WORLD_CODE_BY_WORLD_ID[DEFAULT_WORLD_ID];
 };
 
 const withSystemFields = (def: FormatDef, base: any, args: {
@@ -537,7 +520,7 @@ export type MissingEntry =
   | { kind: 'field'; key: string; label: string }
   | { kind: 'group'; groupKey: string; groupLabel: string; minItems: number }
   | { kind: 'groupItemField'; groupKey: string; groupLabel: string; index: number; key: string; label: string }
-  | { kind: 'geometry'; detail: string };
+  | { kind: 'pointer'; pointer: string; detail: string }; // 导入 Schema 校验：JSON Pointer 位置
 
 export type DetailedValidationResult = { ok: boolean; missing: MissingEntry[] };
 
@@ -612,20 +595,237 @@ export const formatMissingEntries = (missing: MissingEntry[]): string => {
     if (m.kind === 'field') lines.push(`- 字段：${m.label}（${m.key}）`);
     else if (m.kind === 'group') lines.push(`- 分组：${m.groupLabel}（${m.groupKey}）至少需要 ${m.minItems} 条`);
     else if (m.kind === 'groupItemField') lines.push(`- 分组 ${m.groupLabel}（${m.groupKey}）第 ${m.index + 1} 条：${m.label}（${m.key}）`);
-    else if (m.kind === 'geometry') lines.push(`- 几何：${m.detail}`);
+    else if (m.kind === 'pointer') lines.push(`- ${m.pointer || '/'}：${m.detail}`);
   }
   return lines.join('\n');
 };
 
 // ============================
-// 导入校验（结构 + 必填 + 几何）
+// JSON Schema（由 FORMAT_REGISTRY 生成）
+// - 导出给外部工具/编辑器，在提交前校验规则 JSON
+// - 导入校验同样以 Schema 为准，错误位置为 JSON Pointer
+// ============================
+
+export type FeatureSchemaOptions = {
+  /** 指定后 World 必须等于该世界的编号 */
+  worldId?: string;
+  /** true：Type/Class/World 必须显式提供 */
+  strictSystemFields?: boolean;
+};
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// 必填文本：不能为空白
+const NON_EMPTY_PATTERN = '\\S';
+// tags 轻校验：number / bool 允许写成字符串
+const NUMERIC_STRING_PATTERN = '^\\s*-?\\d+(\\.\\d+)?\\s*$';
+const BOOL_STRING_PATTERN = '^\\s*([Tt][Rr][Uu][Ee]|[Ff][Aa][Ll][Ss][Ee])\\s*$';
+
+const PRIMITIVE_SCHEMA: JsonSchema = { type: ['string', 'number', 'boolean', 'null'] };
+
+const MIN_POINTS_BY_MODE: Record<DrawMode, number> = { point: 1, polyline: 2, polygon: 3 };
+
+const fieldSchema = (f: FieldDef, required: boolean): JsonSchema => {
+  const s: JsonSchema = { title: f.label };
+  if (f.type === 'number') s.type = 'number';
+  else if (f.type === 'bool') s.type = 'boolean';
+  else if (f.type === 'select' && f.options?.length) s.enum = f.options.map(o => o.value);
+  else s.type = 'string';
+
+  // 显式提供的必填文本不能为空（importOptional 的字段同样适用）
+  if (required && f.type === 'text') s.pattern = NON_EMPTY_PATTERN;
+  if (f.defaultValue !== undefined) s.default = f.defaultValue;
+  return s;
+};
+
+// 必填 + 别名：任一字段存在即可（别名支持一层路径，如 tags.PointKind）
+const requiredWithAliases = (key: string, aliases: string[], propSchema: JsonSchema): JsonSchema => ({
+  anyOf: [key, ...aliases].map((name): JsonSchema => {
+    const [head, child] = name.split('.', 2);
+    if (!child) return { required: [head] };
+    return {
+      required: [head],
+      properties: { [head]: { type: 'object', required: [child], properties: { [child]: propSchema } } },
+    };
+  }),
+});
+
+const geometrySchema = (def: FormatDef): JsonSchema => {
+  const mode = (def.modes?.[0] ?? 'point') as DrawMode;
+  const xz: JsonSchema = {
+    type: 'object',
+    required: ['x', 'z'],
+    properties: { x: { type: 'number' }, y: { type: 'number' }, z: { type: 'number' } },
+  };
+
+  if (def.geometry.format === 'object') return { title: '坐标', ...xz };
+
+  const minItems = MIN_POINTS_BY_MODE[mode];
+  const point: JsonSchema = def.geometry.format === 'tuples'
+    ? { type: 'array', minItems: 3, maxItems: 3, items: { type: 'number' }, description: '[x, y, z]' }
+    : xz;
+  return {
+    title: '坐标点',
+    type: 'array',
+    minItems,
+    ...(mode === 'point' ? { maxItems: 1 } : {}),
+    items: point,
+  };
+};
+
+const tagsSchema = (): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {};
+  for (const entry of Object.values(TAG_REGISTRY)) {
+    if (entry.type === 'number') {
+      properties[entry.key] = { title: entry.label, anyOf: [{ type: ['number', 'null'] }, { type: 'string', pattern: NUMERIC_STRING_PATTERN }] };
+    } else if (entry.type === 'bool') {
+      properties[entry.key] = { title: entry.label, anyOf: [{ type: ['boolean', 'null'] }, { type: 'string', pattern: BOOL_STRING_PATTERN }] };
+    } else if (entry.type === 'select') {
+      properties[entry.key] = { title: entry.label, type: ['string', 'null'] };
+    } else {
+      properties[entry.key] = { title: entry.label, ...PRIMITIVE_SCHEMA };
+    }
+  }
+  // 未登记的键允许存在，但值必须是 primitive
+  return { title: 'tags', type: ['object', 'null'], properties, additionalProperties: PRIMITIVE_SCHEMA };
+};
+
+const extensionsSchema = (): JsonSchema => ({
+  title: 'extensions',
+  type: ['object', 'null'],
+  additionalProperties: { type: 'object', additionalProperties: PRIMITIVE_SCHEMA },
+});
+
+const groupSchema = (g: GroupDef): JsonSchema => {
+  if (g.key === 'tags') return tagsSchema();
+  if (g.key === 'extensions') return extensionsSchema();
+
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const f of g.fields ?? []) {
+    // 条目字段带默认值时可省略
+    const isRequired = !f.optional && f.defaultValue === undefined;
+    properties[f.key] = fieldSchema(f, isRequired);
+    if (isRequired) required.push(f.key);
+  }
+
+  return {
+    title: g.label,
+    type: 'array',
+    ...(g.optional ? {} : { minItems: g.minItems ?? 1 }),
+    items: { type: 'object', properties, ...(required.length ? { required } : {}) },
+  };
+};
+
+// 按选项缓存（导入时每个条目都会用到）
+const featureSchemaCache = new Map<string, JsonSchema>();
+
+/**
+ * 由 FORMAT_REGISTRY 生成单个要素类型的 JSON Schema
+ */
+export const buildFeatureSchema = (key: FeatureKey, opts: FeatureSchemaOptions = {}): JsonSchema => {
+  const cacheKey = `${key}|${opts.worldId ?? ''}|${opts.strictSystemFields ? 1 : 0}`;
+  const cached = featureSchemaCache.get(cacheKey);
+  if (cached) return cached;
+
+  const def = getFormatDef(key);
+  const mode = (def.modes?.[0] ?? 'point') as DrawMode;
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  const allOf: JsonSchema[] = [];
+
+  const addProperty = (name: string, schema: JsonSchema, isRequired: boolean, aliases: string[] = []) => {
+    properties[name] = schema;
+    for (const alias of aliases) {
+      if (!alias.includes('.')) properties[alias] = schema;
+    }
+    if (!isRequired) return;
+    if (aliases.length) allOf.push(requiredWithAliases(name, aliases, schema));
+    else required.push(name);
+  };
+
+  for (const f of def.fields ?? []) {
+    addProperty(f.key, fieldSchema(f, !f.optional), !f.optional && !f.importOptional, f.aliases);
+  }
+  for (const g of def.groups ?? []) {
+    addProperty(g.key, groupSchema(g), !g.optional, g.aliases);
+  }
+  addProperty(def.geometry.key, geometrySchema(def), true);
+
+  // 系统字段（仅新规范）
+  if (def.classCode) {
+    const strict = Boolean(opts.strictSystemFields);
+    const worldCode = opts.worldId !== undefined ? WORLD_CODE_BY_WORLD_ID[opts.worldId] : undefined;
+    addProperty('Type', { title: '要素类型(Type)', const: TYPE_NAME_BY_MODE[mode] }, strict);
+    addProperty('Class', { title: '要素种类(Class)', const: def.classCode }, strict);
+    addProperty(
+      'World',
+      worldCode !== undefined
+        ? { title: '所属世界(World)', type: 'integer', const: worldCode }
+        : { title: '所属世界(World)', type: 'integer', enum: [...new Set(Object.values(WORLD_CODE_BY_WORLD_ID))] },
+      strict
+    );
+    for (const sys of ['CreateTime', 'CreateBy', 'ModifityTime', 'ModifityBy']) {
+      addProperty(sys, { type: ['string', 'number'] }, false);
+    }
+  }
+
+  const schema: JsonSchema = {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: `ria-feature-${def.classCode ?? 'default'}`,
+    title: def.label,
+    type: 'object',
+    properties,
+    ...(required.length ? { required } : {}),
+    ...(allOf.length ? { allOf } : {}),
+  };
+
+  featureSchemaCache.set(cacheKey, schema);
+  return schema;
+};
+
+/**
+ * 整个规则 JSON 文件（条目数组）的 Schema：按 Class 分派到各要素类型
+ */
+export const buildRuleFileSchema = (): JsonSchema => {
+  const defs: Record<string, JsonSchema> = {};
+  const dispatch: JsonSchema[] = [];
+
+  for (const key of Object.keys(FORMAT_REGISTRY) as FeatureKey[]) {
+    const def = FORMAT_REGISTRY[key];
+    if (!def.classCode) continue;
+    const { $schema: _dialect, $id: _id, ...schema } = buildFeatureSchema(key, { strictSystemFields: true });
+    defs[def.classCode] = schema;
+    dispatch.push({
+      if: { type: 'object', required: ['Class'], properties: { Class: { const: def.classCode } } },
+      then: { $ref: `#/$defs/${def.classCode}` },
+    });
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: 'ria-rule-file',
+    title: '规则 JSON 文件',
+    type: 'array',
+    items: {
+      type: 'object',
+      required: ['Class'],
+      properties: { Class: { enum: Object.keys(defs) } },
+      allOf: dispatch,
+    },
+    $defs: defs,
+  };
+};
+
+// ============================
+// 导入校验（Schema + hydrate）
 // ============================
 
 export type ImportValidationContext = {
   worldId?: string;
   /**
    * true：导入 JSON 必须显式包含 Type/Class/World，且不允许为空
-   * false：允许缺省（由系统生成/覆盖），但若提供且不一致仍可报错（见下方逻辑）
+   * false：允许缺省（由系统生成/覆盖），但若提供且不一致仍可报错
    */
   strictSystemFields?: boolean;
 };
@@ -634,30 +834,21 @@ export type ImportValidationResult = {
   ok: boolean;
   missing: MissingEntry[];
   structuralErrors: string[];
+  schemaErrors: SchemaError[];
   mode: DrawMode;
   coords: Coord2D[];
   hydrated: { values: Record<string, any>; groups: Record<string, any[]> } | null;
 };
 
-
-const validateGeometryForMode = (mode: DrawMode, coords: Coord2D[]): MissingEntry[] => {
-  if (mode === 'point' && coords.length !== 1) {
-    return [{ kind: 'geometry', detail: '点模式需要 1 个点（coordinate.x / coordinate.z）' }];
-  }
-  if (mode === 'polyline' && coords.length < 2) {
-    return [{ kind: 'geometry', detail: '线模式至少需要 2 个点（coordinates[]）' }];
-  }
-  if (mode === 'polygon' && coords.length < 3) {
-    return [{ kind: 'geometry', detail: '面模式至少需要 3 个点（coordinates[]）' }];
-  }
-  return [];
-};
+// 缺失 / 为空 / 条目不足归为“缺失项”，其余为结构错误
+const isMissingSchemaError = (e: SchemaError) =>
+  e.keyword === 'required' || e.keyword === 'minItems' || (e.keyword === 'pattern' && e.message === '不能为空');
 
 /**
  * JSON 导入使用的“统一校验器”：
- * - def.validateImportItem：结构/类型检查
- * - validateRequiredDetailed：必填字段/分组条目检查
- * - validateGeometryForMode：几何点数量检查
+ * - buildFeatureSchema：结构/类型/必填/几何，错误位置为 JSON Pointer
+ * - def.validateImportItem：Schema 无法表达的额外检查（可选）
+ * - hydrate：回填附加信息，失败视为结构错误
  */
 export const validateImportItemDetailed = (
   def: FormatDef,
@@ -665,6 +856,21 @@ export const validateImportItemDetailed = (
   ctx: ImportValidationContext = {}
 ): ImportValidationResult => {
   const structuralErrors: string[] = [];
+  const missing: MissingEntry[] = [];
+
+  // worldId 映射必须存在：避免默默回落到 zth
+  if (def.classCode && ctx.worldId && WORLD_CODE_BY_WORLD_ID[ctx.worldId] === undefined) {
+    structuralErrors.push(`World 映射表缺少 worldId="${ctx.worldId}"（请在 worlds.json 中补充 code）`);
+  }
+
+  const schemaErrors = validateJsonSchema(
+    buildFeatureSchema(def.key, { worldId: ctx.worldId, strictSystemFields: ctx.strictSystemFields }),
+    item
+  );
+  for (const e of schemaErrors) {
+    if (isMissingSchemaError(e)) missing.push({ kind: 'pointer', pointer: e.pointer, detail: e.message });
+    else structuralErrors.push(`${e.pointer || '/'}：${e.message}`);
+  }
 
   const err = def.validateImportItem?.(item);
   if (err) structuralErrors.push(err);
@@ -672,101 +878,15 @@ export const validateImportItemDetailed = (
   const mode = (def.modes?.[0] ?? 'point') as DrawMode;
   const coords = def.coordsFromFeatureInfo(item);
 
-  const missing: MissingEntry[] = [];
-
-  // 几何校验
-  missing.push(...validateGeometryForMode(mode, coords));
-
-  // ---- 系统字段校验：World / Type / Class（仅新规范启用）----
-  if (def.key !== '默认' && def.classCode) {
-    const strict = Boolean(ctx.strictSystemFields);
-
-    // worldId 映射必须存在：避免默默回落到 zth
-    if (ctx.worldId && WORLD_CODE_BY_WORLD_ID[ctx.worldId] === undefined) {
-      structuralErrors.push(`World 映射表缺少 worldId="${ctx.worldId}"（请补充 WORLD_CODE_BY_WORLD_ID）`);
-    }
-
-    const expectedType = TYPE_NAME_BY_MODE[mode];
-    const expectedClass = def.classCode;
-    const expectedWorld = resolveWorldCode(ctx.worldId); // 只根据当前页面 worldId 取期望值
-
-    const hasNonEmpty = (v: any) => v !== null && v !== undefined && String(v).trim() !== '';
-
-    // strict 模式：必须显式提供且不为空
-    if (strict) {
-      if (!hasNonEmpty(item?.Type)) missing.push({ kind: 'field', key: 'Type', label: '要素类型(Type)' });
-      if (!hasNonEmpty(item?.Class)) missing.push({ kind: 'field', key: 'Class', label: '要素种类(Class)' });
-      if (!isFiniteNum(item?.World)) missing.push({ kind: 'field', key: 'World', label: '所属时间(World)' });
-    }
-
-    // 若提供了值，则必须与期望一致（不管 strict 与否）
-    if (hasNonEmpty(item?.Type) && String(item.Type).trim() !== expectedType) {
-      structuralErrors.push(`Type 不匹配：期望 "${expectedType}"，输入 "${String(item.Type).trim()}"`);
-    }
-
-    if (hasNonEmpty(item?.Class) && String(item.Class).trim() !== expectedClass) {
-      structuralErrors.push(`Class 不匹配：期望 "${expectedClass}"，输入 "${String(item.Class).trim()}"`);
-    }
-
-    if (hasNonEmpty(item?.World)) {
-      const n = Number(item.World);
-      if (!Number.isFinite(n)) {
-        structuralErrors.push(`World 不是有效数字：输入 "${String(item.World).trim()}"`);
-      } else if (expectedWorld !== undefined && n !== expectedWorld) {
-        structuralErrors.push(`World 与当前页面不一致：期望 ${expectedWorld}（来自 currentWorldId="${ctx.worldId ?? 'zth'}"），输入 ${n}`);
-      }
-    }
-  }
-
-  // ---- 附加信息（fields/groups）必填校验 ----
   let hydrated: { values: Record<string, any>; groups: Record<string, any[]> } | null = null;
   try {
     hydrated = def.hydrate(item);
-    const req = validateRequiredDetailed(def, hydrated.values ?? {}, hydrated.groups ?? {});
-    missing.push(...req.missing);
   } catch {
-    hydrated = null;
     structuralErrors.push('hydrate 失败：无法解析附加信息结构');
   }
 
-  // ---- 兼容旧规范：STA 允许缺省 STBuilding（但若显式提供且为空，则仍视为缺失）----
-  const legacyAllowMissingSTBuilding =
-    def.classCode === 'STA' &&
-    item &&
-    typeof item === 'object' &&
-    !('STBuilding' in item) &&
-    !('StBuilding' in item) &&
-    !('stBuilding' in item) &&
-    !('stationBuilding' in item) &&
-    !('stationBuildingId' in item);
-
-  if (legacyAllowMissingSTBuilding) {
-    for (let i = missing.length - 1; i >= 0; i--) {
-      const m = missing[i];
-      if (m.kind === 'field' && m.key === 'STBuilding') missing.splice(i, 1);
-    }
-  }
-
-
-  // ---- 兼容旧规范：STF 允许缺省 staBuildingID（但若显式提供且为空，则仍视为缺失）----
-  const legacyAllowMissingStaBuildingID =
-    def.classCode === 'STF' &&
-    item &&
-    typeof item === 'object' &&
-    !('staBuildingID' in item) &&
-    !('staBuildingId' in item) &&
-    !('STBuilding' in item) &&
-    !('BuildingID' in item);
-
-  if (legacyAllowMissingStaBuildingID) {
-    for (let i = missing.length - 1; i >= 0; i--) {
-      const m = missing[i];
-      if (m.kind === 'field' && m.key === 'staBuildingID') missing.splice(i, 1);
-    }
-  }
-
   const ok = structuralErrors.length === 0 && missing.length === 0;
-  return { ok, missing, structuralErrors, mode, coords, hydrated };
+  return { ok, missing, structuralErrors, schemaErrors, mode, coords, hydrated };
 };
 
 
@@ -778,11 +898,15 @@ export const FORMAT_REGISTRY: Record<FeatureKey, FormatDef> = {
     label: '默认',
     modes: ['point', 'polyline', 'polygon'],
     hideTempOutput: false,
+    geometry: { key: 'coords', format: 'objects' },
     fields: [],
     groups: [],
-    buildFeatureInfo: ({ mode, coords }) => {
-      // 最小通用结构（不参与新 JSON 规范）
+    buildFeatureInfo: ({ mode, coords, prevFeatureInfo }) => {
+      // 最小通用结构（不参与新 JSON 规范）；原本就是默认要素（无可识别的 Class）时保留其附加属性，如 GeoJSON 导入的 properties
+      const keepExtra = prevFeatureInfo && !findFormatDefByClass(prevFeatureInfo.Class);
+      const { type: _type, coords: _coords, ...extra } = keepExtra ? prevFeatureInfo : {};
       return {
+        ...extra,
         type: mode,
         coords: coords.map(p => (p.y === undefined ? ({ x: p.x, z: p.z }) : ({ x: p.x, z: p.z, y: p.y }))),
       };
@@ -810,10 +934,17 @@ export const FORMAT_REGISTRY: Record<FeatureKey, FormatDef> = {
     modes: ['point'],
     hideTempOutput: true,
     classCode: CLASS_CODE_BY_FEATURE['车站'],
+    geometry: { key: 'coordinate', format: 'object' },
     fields: [
       { key: 'stationID', label: '车站ID', type: 'text' },                // [必填]
       { key: 'stationName', label: '车站名', type: 'text' },              // [必填]
-      { key: 'STBuilding', label: '车站所属车站建体(STBuilding)', type: 'text' }, // [必填]（过渡期：导入允许缺省）
+      {
+        key: 'STBuilding',
+        label: '车站所属车站建体(STBuilding)',
+        type: 'text',
+        aliases: ['StBuilding', 'stBuilding', 'stationBuilding', 'stationBuildingId'],
+        importOptional: true,
+      }, // [必填]（过渡期：导入允许缺省）
       { key: 'elevation', label: '高度(y)', type: 'number', optional: true }, // [非必填]
     ],
     groups: [
@@ -871,14 +1002,6 @@ export const FORMAT_REGISTRY: Record<FeatureKey, FormatDef> = {
       if (!c) return [];
       return [{ x: Number(c.x), z: Number(c.z) }].filter(p => isFiniteNum(p.x) && isFiniteNum(p.z));
     },
-    validateImportItem: (item) => {
-      if (!item || typeof item !== 'object') return '不是对象';
-      if (!item.stationID) return '缺少 stationID';
-      if (!item.stationName) return '缺少 stationName';
-      if (!item.coordinate || !isFiniteNum(item.coordinate.x) || !isFiniteNum(item.coordinate.z)) return '缺少合法 coordinate.x / coordinate.z';
-      if (!Array.isArray(item.platforms)) return 'platforms 必须是数组';
-      return;
-    },
   },
 
   // ===== 站台 Platform =====
@@ -888,6 +1011,7 @@ export const FORMAT_REGISTRY: Record<FeatureKey, FormatDef> = {
     modes: ['point'],
     hideTempOutput: true,
     classCode: CLASS_CODE_BY_FEATURE['站台'],
+    geometry: { key: 'coordinate', format: 'object' },
     fields: [
       { key: 'platformID', label: '站台ID', type: 'text' },                 // [必填]
       { key: 'platformName', label: '站台名称', type: 'text' },             // [必填]
@@ -972,17 +1096,6 @@ export const FORMAT_REGISTRY: Record<FeatureKey, FormatDef> = {
       if (!c) return [];
       return [{ x: Number(c.x), z: Number(c.z) }].filter(p => isFiniteNum(p.x) && isFiniteNum(p.z));
     },
-    validateImportItem: (item) => {
-      if (!item || typeof item !== 'object') return '不是对象';
-      if (!item.platformID) return '缺少 platformID';
-      if (!item.platformName) return '缺少 platformName';
-      if (!item.coordinate || !isFiniteNum(item.coordinate.x) || !isFiniteNum(item.coordinate.z)) return '缺少合法 coordinate.x / coordinate.z';
-      if (!Array.isArray(item.lines)) return 'lines 必须是数组';
-if (typeof item.Situation !== 'boolean') return '缺少或非法 Situation（boolean）';
-if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean）';
-
-      return;
-    },
   },
 
   // ===== 铁路 Line =====
@@ -992,6 +1105,7 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
     modes: ['polyline'],
     hideTempOutput: true,
     classCode: CLASS_CODE_BY_FEATURE['铁路'],
+    geometry: { key: 'PLpoints', format: 'tuples' },
     fields: [
       { key: 'LineID', label: '线路ID', type: 'text' },             // [必填]
       { key: 'LineName', label: '线路名', type: 'text' },           // [必填]
@@ -1040,14 +1154,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
         })
         .filter((p: any) => isFiniteNum(p.x) && isFiniteNum(p.z));
     },
-    validateImportItem: (item) => {
-      if (!item || typeof item !== 'object') return '不是对象';
-      if (!item.LineID) return '缺少 LineID';
-      if (!item.LineName) return '缺少 LineName';
-      if (!item.color) return '缺少 color';
-      if (!Array.isArray(item.PLpoints) || item.PLpoints.length < 2) return 'PLpoints 必须是数组且至少 2 点';
-      return;
-    },
   },
 
  // ===== 站台轮廓 Platform Round =====
@@ -1058,6 +1164,7 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
     hideTempOutput: true,
     // 新 JSON：Class 建议填写“站台轮廓”（与该 subtype 名称一致）
     classCode: CLASS_CODE_BY_FEATURE['站台轮廓'],
+    geometry: { key: 'Flrpoints', format: 'tuples' },
     fields: [
       { key: 'plfRoundID', label: '站台轮廓ID(plfRoundID)', type: 'text' },          // [必填]
       { key: 'plfRoundName', label: '站台轮廓名(plfRoundName)', type: 'text' },      // [必填]
@@ -1110,14 +1217,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
   }
   return out;
 },
-    validateImportItem: (item) => {
-      if (!item || typeof item !== 'object') return '不是对象';
-      if (!item.plfRoundID) return '缺少 plfRoundID';
-      if (!item.plfRoundName) return '缺少 plfRoundName';
-      if (!item.LineID) return '缺少 LineID';
-      if (!Array.isArray(item.Flrpoints) || item.Flrpoints.length < 3) return 'Flrpoints 必须是数组且至少 3 点';
-      return;
-    },
   },
 
   // ===== 车站建筑 Station Building =====
@@ -1127,6 +1226,7 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
     modes: ['polygon'],
     hideTempOutput: true,
     classCode: CLASS_CODE_BY_FEATURE['车站建筑'],
+    geometry: { key: 'Conpoints', format: 'tuples' },
     fields: [
       { key: 'staBuildingID', label: '车站建筑ID', type: 'text' },
       { key: 'staBuildingName', label: '车站建筑名', type: 'text' },
@@ -1192,17 +1292,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
         })
         .filter((p: any) => isFiniteNum(p.x) && isFiniteNum(p.z));
     },
-    validateImportItem: (item) => {
-      if (!item || typeof item !== 'object') return '不是对象';
-      if (!item.staBuildingID) return '缺少 staBuildingID';
-      if (!item.staBuildingName) return '缺少 staBuildingName';
-      if (!Array.isArray(item.Conpoints) || item.Conpoints.length < 3) return 'Conpoints 必须是数组且至少 3 点';
-
-      // Stations 可选：若提供则必须为数组
-      if (item.Stations !== undefined && !Array.isArray(item.Stations)) return 'Stations 必须是数组';
-
-      return;
-    },
   },
 
   // ===== 车站建筑点 Station Building Point =====
@@ -1212,9 +1301,20 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
     modes: ['point'],
     hideTempOutput: true,
     classCode: CLASS_CODE_BY_FEATURE['车站建筑点'], // SBP
+    geometry: { key: 'coordinate', format: 'object' },
     fields: [
-      { key: 'staBuildingPointID', label: '车站建筑点ID(staBuildingPointID)', type: 'text' },   // [必填]
-      { key: 'staBuildingPointName', label: '车站建筑名(staBuildingPointName)', type: 'text' }, // [必填]
+      {
+        key: 'staBuildingPointID',
+        label: '车站建筑点ID(staBuildingPointID)',
+        type: 'text',
+        aliases: ['staBuildingPointId', 'stationID', 'stationId', 'staBuildingID', 'staBuildingId'],
+      }, // [必填]
+      {
+        key: 'staBuildingPointName',
+        label: '车站建筑名(staBuildingPointName)',
+        type: 'text',
+        aliases: ['stationName', 'staBuildingName'],
+      }, // [必填]
       { key: 'elevation', label: '高度(y)', type: 'number', optional: true }, // [非必填]
     ],
     groups: [
@@ -1224,6 +1324,7 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
   label: '包含楼层 Floors',
   addButtonText: '添加楼层条目',
   optional: true, // [非必填]
+  aliases: ['floors'],
   fields: [
     { key: 'ID', label: '楼层ID', type: 'text' },
     { key: 'Group', label: '分组(Group)', type: 'text', optional: true },
@@ -1236,6 +1337,7 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
         addButtonText: '添加站台条目',
         optional: false, // [必填]
         minItems: 1,
+        aliases: ['Stations'],
         fields: [
           { key: 'ID', label: '车站ID', type: 'text' }, // [必填]
         ],
@@ -1304,25 +1406,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
       if (!c) return [];
       return [{ x: Number(c.x), z: Number(c.z) }].filter(p => isFiniteNum(p.x) && isFiniteNum(p.z));
     },
-    validateImportItem: (item) => {
-      if (!item || typeof item !== 'object') return '不是对象';
- 
-      const id = String((item as any).staBuildingPointID ?? (item as any).staBuildingPointId ?? (item as any).stationID ?? (item as any).stationId ?? (item as any).staBuildingID ?? (item as any).staBuildingId ?? '').trim();
-      if (!id) return '缺少 staBuildingPointID';
-
-      const name = String((item as any).staBuildingPointName ?? (item as any).stationName ?? (item as any).staBuildingName ?? '').trim();
-      if (!name) return '缺少 staBuildingPointName';
-
-      if (!item.coordinate || !isFiniteNum((item as any).coordinate.x) || !isFiniteNum((item as any).coordinate.z)) return '缺少合法 coordinate.x / coordinate.z';
-
-      const sts = (item as any).stations ?? (item as any).Stations;
-      if (!Array.isArray(sts)) return 'stations 必须是数组';
-
-      const fls = (item as any).Floors ?? (item as any).floors;
-      if (fls !== undefined && !Array.isArray(fls)) return 'Floors 必须是数组';
-      
-      return;
-    },
   },
 
   
@@ -1334,11 +1417,18 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
     modes: ['polygon'],
     hideTempOutput: true,
     classCode: CLASS_CODE_BY_FEATURE['车站建筑楼层'],
+    geometry: { key: 'Flrpoints', format: 'tuples' },
     fields: [
-      { key: 'staBFloorID', label: '楼层ID(staBFloorID)', type: 'text' },
-      { key: 'staBFloorName', label: '楼层名(staBFloorName)', type: 'text' },
+      { key: 'staBFloorID', label: '楼层ID(staBFloorID)', type: 'text', aliases: ['FloorID', 'floorID'] },
+      { key: 'staBFloorName', label: '楼层名(staBFloorName)', type: 'text', aliases: ['FloorName', 'floorName'] },
       { key: 'NofFloor', label: '楼层名(NofFloor)', type: 'text' },
-      { key: 'staBuildingID', label: '所属车站建筑(staBuildingID)', type: 'text' },
+      {
+        key: 'staBuildingID',
+        label: '所属车站建筑(staBuildingID)',
+        type: 'text',
+        aliases: ['staBuildingId', 'STBuilding', 'BuildingID'],
+        importOptional: true, // 兼容旧 STF
+      },
       { key: 'Situation', label: '状态(Situation)', type: 'text', optional: true },
       { key: 'elevation', label: '高度(y)', type: 'number', optional: true },
       { key: 'height', label: '层高(height)', type: 'number', optional: true },
@@ -1376,20 +1466,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
         })
         .filter((p: any) => isFiniteNum(p.x) && isFiniteNum(p.z));
     },
-    validateImportItem: (item) => {
-      if (!item || typeof item !== 'object') return '不是对象';
-      const id = String((item as any).staBFloorID ?? (item as any).FloorID ?? (item as any).floorID ?? '').trim();
-      if (!id) return '缺少 staBFloorID';
-
-      const name = String((item as any).staBFloorName ?? (item as any).FloorName ?? (item as any).floorName ?? '').trim();
-      if (!name) return '缺少 staBFloorName';
-
-      if (!String((item as any).NofFloor ?? '').trim()) return '缺少 NofFloor';
-
-      // 兼容旧 STF：允许缺省 staBuildingID（新建/编辑会在必填校验中要求）
-      if (!Array.isArray((item as any).Flrpoints) || (item as any).Flrpoints.length < 3) return 'Flrpoints 必须是数组且至少 3 点';
-      return;
-    },
   },
 
 // ===== 地物点 / 线 / 面 & 建筑 / 建筑楼层（新增） =====
@@ -1399,13 +1475,14 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
   modes: ['point'],
   hideTempOutput: true,
   classCode: CLASS_CODE_BY_FEATURE['地物点'], // ISP
+  geometry: { key: 'coordinate', format: 'object' },
   fields: [
     { key: 'PointID', label: '要素点ID(PointID)', type: 'text' },
     { key: 'PointName', label: '要素点名(PointName)', type: 'text' },
 
     // 仍保留为“硬字段”（便于大众贡献者理解）；同时会自动镜像到 tags 中，供 rules 使用
-    { key: 'PointKind', label: '要素类型(PointKind)', type: 'text' },
-    { key: 'PointSKind', label: '要素子类型(PointSKind)', type: 'text' },
+    { key: 'PointKind', label: '要素类型(PointKind)', type: 'text', aliases: ['tags.PointKind'] },
+    { key: 'PointSKind', label: '要素子类型(PointSKind)', type: 'text', aliases: ['tags.PointSKind'] },
     { key: 'PointSKind2', label: '要素三级子类型(PointSKind2)', type: 'text', optional: true },
 
     { key: 'Situation', label: '状态(Situation)', type: 'text', optional: true },
@@ -1475,20 +1552,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
     if (!c) return [];
     return [{ x: Number(c.x), z: Number(c.z) }].filter(p => isFiniteNum(p.x) && isFiniteNum(p.z));
   },
-  validateImportItem: (item) => {
-    if (!item || typeof item !== 'object') return '不是对象';
-    if (!String((item as any).PointID ?? '').trim()) return '缺少 PointID';
-    if (!String((item as any).PointName ?? '').trim()) return '缺少 PointName';
-    if (!String((item as any).PointKind ?? '').trim() && !String((item as any)?.tags?.PointKind ?? '').trim()) return '缺少 PointKind（或 tags.PointKind）';
-    if (!String((item as any).PointSKind ?? '').trim() && !String((item as any)?.tags?.PointSKind ?? '').trim()) return '缺少 PointSKind（或 tags.PointSKind）';
-    if (!item.coordinate || !isFiniteNum((item as any).coordinate.x) || !isFiniteNum((item as any).coordinate.z)) return '缺少合法 coordinate.x / coordinate.z';
-
-    const terr = validateTagsObjectSoft((item as any).tags);
-    if (terr) return terr;
-    const eerr = validateExtensionsObjectSoft((item as any).extensions);
-    if (eerr) return eerr;
-    return;
-  },
 },
 
 地物线: {
@@ -1497,12 +1560,13 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
   modes: ['polyline'],
   hideTempOutput: true,
   classCode: CLASS_CODE_BY_FEATURE['地物线'], // ISL
+  geometry: { key: 'Linepoints', format: 'tuples' },
   fields: [
     { key: 'PLineID', label: '线要素ID(PLineID)', type: 'text' },
     { key: 'PLineName', label: '线要素名(PLineName)', type: 'text' },
 
-    { key: 'PLineKind', label: '线要素类型(PLineKind)', type: 'text' },
-    { key: 'PLineSKind', label: '线要素子类型(PLineSKind)', type: 'text' },
+    { key: 'PLineKind', label: '线要素类型(PLineKind)', type: 'text', aliases: ['tags.PLineKind'] },
+    { key: 'PLineSKind', label: '线要素子类型(PLineSKind)', type: 'text', aliases: ['tags.PLineSKind'] },
     { key: 'PLineSKind2', label: '线要素三级子类型(PLineSKind2)', type: 'text', optional: true },
 
     { key: 'Situation', label: '状态(Situation)', type: 'text', optional: true },
@@ -1573,20 +1637,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
     }
     return out;
   },
-  validateImportItem: (item) => {
-    if (!item || typeof item !== 'object') return '不是对象';
-    if (!String((item as any).PLineID ?? '').trim()) return '缺少 PLineID';
-    if (!String((item as any).PLineName ?? '').trim()) return '缺少 PLineName';
-    if (!String((item as any).PLineKind ?? '').trim() && !String((item as any)?.tags?.PLineKind ?? '').trim()) return '缺少 PLineKind（或 tags.PLineKind）';
-    if (!String((item as any).PLineSKind ?? '').trim() && !String((item as any)?.tags?.PLineSKind ?? '').trim()) return '缺少 PLineSKind（或 tags.PLineSKind）';
-    if (!Array.isArray((item as any).Linepoints) || (item as any).Linepoints.length < 2) return 'Linepoints 必须是数组且至少 2 点';
-
-    const terr = validateTagsObjectSoft((item as any).tags);
-    if (terr) return terr;
-    const eerr = validateExtensionsObjectSoft((item as any).extensions);
-    if (eerr) return eerr;
-    return;
-  },
 },
 
 地物面: {
@@ -1595,12 +1645,13 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
   modes: ['polygon'],
   hideTempOutput: true,
   classCode: CLASS_CODE_BY_FEATURE['地物面'], // ISG
+  geometry: { key: 'Conpoints', format: 'tuples' },
   fields: [
     { key: 'PGonID', label: '地物面ID(PGonID)', type: 'text' },
     { key: 'PGonName', label: '地物面名(PGonName)', type: 'text' },
 
-    { key: 'PGonKind', label: '地物面类型(PGonKind)', type: 'text' },
-    { key: 'PGonSKind', label: '地物面子类型(PGonSKind)', type: 'text' },
+    { key: 'PGonKind', label: '地物面类型(PGonKind)', type: 'text', aliases: ['tags.PGonKind'] },
+    { key: 'PGonSKind', label: '地物面子类型(PGonSKind)', type: 'text', aliases: ['tags.PGonSKind'] },
     { key: 'PGonSKind2', label: '地物面三级子类型(PGonSKind2)', type: 'text', optional: true },
 
     { key: 'Situation', label: '状态(Situation)', type: 'text', optional: true },
@@ -1670,20 +1721,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
       })
       .filter((p: any) => isFiniteNum(p.x) && isFiniteNum(p.z));
   },
-  validateImportItem: (item) => {
-    if (!item || typeof item !== 'object') return '不是对象';
-    if (!String((item as any).PGonID ?? '').trim()) return '缺少 PGonID';
-    if (!String((item as any).PGonName ?? '').trim()) return '缺少 PGonName';
-    if (!String((item as any).PGonKind ?? '').trim() && !String((item as any)?.tags?.PGonKind ?? '').trim()) return '缺少 PGonKind（或 tags.PGonKind）';
-    if (!String((item as any).PGonSKind ?? '').trim() && !String((item as any)?.tags?.PGonSKind ?? '').trim()) return '缺少 PGonSKind（或 tags.PGonSKind）';
-    if (!Array.isArray((item as any).Conpoints) || (item as any).Conpoints.length < 3) return 'Conpoints 必须是数组且至少 3 点';
-
-    const terr = validateTagsObjectSoft((item as any).tags);
-    if (terr) return terr;
-    const eerr = validateExtensionsObjectSoft((item as any).extensions);
-    if (eerr) return eerr;
-    return;
-  },
 },
 
 建筑: {
@@ -1692,6 +1729,7 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
   modes: ['polygon'],
   hideTempOutput: true,
   classCode: CLASS_CODE_BY_FEATURE['建筑'], // BUD
+  geometry: { key: 'Conpoints', format: 'tuples' },
   fields: [
     { key: 'BuildingID', label: '建筑ID(BuildingID)', type: 'text' },
     { key: 'BuildingName', label: '建筑名(BuildingName)', type: 'text' },
@@ -1732,15 +1770,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
       })
       .filter((p: any) => isFiniteNum(p.x) && isFiniteNum(p.z));
   },
-  validateImportItem: (item) => {
-    if (!item || typeof item !== 'object') return '不是对象';
-    if (!String((item as any).BuildingID ?? '').trim()) return '缺少 BuildingID';
-    if (!String((item as any).BuildingName ?? '').trim()) return '缺少 BuildingName';
-    if (!String((item as any).BuildingKind ?? '').trim()) return '缺少 BuildingKind';
-    if (!String((item as any).BuildingSKind ?? '').trim()) return '缺少 BuildingSKind';
-    if (!Array.isArray((item as any).Conpoints) || (item as any).Conpoints.length < 3) return 'Conpoints 必须是数组且至少 3 点';
-    return;
-  },
 },
 
 建筑楼层: {
@@ -1749,6 +1778,7 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
   modes: ['polygon'],
   hideTempOutput: true,
   classCode: CLASS_CODE_BY_FEATURE['建筑楼层'], // FLR
+  geometry: { key: 'Flrpoints', format: 'tuples' },
   fields: [
     { key: 'FloorID', label: '楼层ID(FloorID)', type: 'text' },
     { key: 'FloorName', label: '楼层名(FloorName)', type: 'text' },
@@ -1793,17 +1823,6 @@ if (typeof item.Connect !== 'boolean') return '缺少或非法 Connect（boolean
       })
       .filter((p: any) => isFiniteNum(p.x) && isFiniteNum(p.z));
   },
-  validateImportItem: (item) => {
-    if (!item || typeof item !== 'object') return '不是对象';
-    if (!String((item as any).FloorID ?? '').trim()) return '缺少 FloorID';
-    if (!String((item as any).FloorName ?? '').trim()) return '缺少 FloorName';
-    if (!String((item as any).NofFloor ?? '').trim()) return '缺少 NofFloor';
-    if (!String((item as any).FloorKind ?? '').trim()) return '缺少 FloorKind';
-    if (!String((item as any).FloorSKind ?? '').trim()) return '缺少 FloorSKind';
-    if (!String((item as any).BuildingID ?? '').trim()) return '缺少 BuildingID';
-    if (!Array.isArray((item as any).Flrpoints) || (item as any).Flrpoints.length < 3) return 'Flrpoints 必须是数组且至少 3 点';
-    return;
-  },
 },
 };
 
@@ -1818,6 +1837,21 @@ export const getSubTypeOptions = (mode: DrawMode): FeatureKey[] => {
   return (Object.keys(FORMAT_REGISTRY) as FeatureKey[]).filter(k => FORMAT_REGISTRY[k].modes.includes(mode));
 };
 
+// 按 Class 识别格式：优先匹配 classCode，兜底允许 Class 直接写 FeatureKey（“默认”不参与）
+export const findFormatDefByClass = (cls: unknown): FormatDef | null => {
+  const code = typeof cls === 'string' ? cls.trim() : '';
+  if (!code) return null;
+
+  for (const def of Object.values(FORMAT_REGISTRY)) {
+    if (def.key === '默认') continue;
+    if (def.classCode && String(def.classCode).trim() === code) return def;
+  }
+
+  const maybeKey = code as FeatureKey;
+  if (FORMAT_REGISTRY[maybeKey] && FORMAT_REGISTRY[maybeKey].key !== '默认') return FORMAT_REGISTRY[maybeKey];
+  return null;
+};
+
 // 导出时坐标统一四舍五入到 0.5（不影响内存中编辑精度，仅影响输出）
 const round05 = (n: number) => {
   if (!Number.isFinite(n)) return n;
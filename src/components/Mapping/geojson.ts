@@ -0,0 +1,285 @@
+// src/components/Mapping/geojson.ts
+
+import type { FeatureRecord } from '@/components/Rules/renderRules';
+import {
+  FORMAT_REGISTRY,
+  findFormatDefByClass,
+  type DrawMode,
+  type FeatureKey,
+  type FormatDef,
+} from '@/components/Mapping/featureFormats';
+
+// ============================
+// GeoJSON（RFC 7946）互转
+// - 坐标直接使用 Minecraft 方块坐标：[x, z, y]（y 可缺省），不是 WGS84 经纬度；
+//   在 QGIS 等工具中请按“无投影/自定义平面坐标系”处理（z 向南增大，显示为上下翻转）
+// - geometry 来自 FormatDef.geometry 指定的字段，其余 featureInfo 原样写入 properties
+//   （Class / ID / tags / extensions 等均保留，导回时按 Class 识别格式）
+// ============================
+
+export type GeoJSONPosition = number[];
+
+export type GeoJSONGeometry =
+  | { type: 'Point'; coordinates: GeoJSONPosition }
+  | { type: 'LineString'; coordinates: GeoJSONPosition[] }
+  | { type: 'Polygon'; coordinates: GeoJSONPosition[][] };
+
+export type GeoJSONFeature = {
+  type: 'Feature';
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, any> | null;
+};
+
+export type GeoJSONFeatureCollection = {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+};
+
+export type GeoJSONImportEntry = {
+  def: FormatDef;
+  mode: DrawMode;
+  item: any;
+};
+
+export type GeoJSONImportResult = {
+  entries: GeoJSONImportEntry[];
+  errors: string[];
+};
+
+const GEOMETRY_TYPE_BY_MODE: Record<DrawMode, GeoJSONGeometry['type']> = {
+  point: 'Point',
+  polyline: 'LineString',
+  polygon: 'Polygon',
+};
+
+const MODE_BY_GEOMETRY_TYPE: Record<string, DrawMode> = {
+  Point: 'point',
+  LineString: 'polyline',
+  Polygon: 'polygon',
+};
+
+// [x, y, z] 元组缺少高度时的默认 y（与各格式 buildFeatureInfo 一致）
+const TUPLE_DEFAULT_Y: Record<DrawMode, number> = { point: -63, polyline: -64, polygon: -63 };
+
+type XYZ = { x: number; z: number; y?: number };
+
+const toFiniteNumber = (v: any): number | undefined => {
+  if (v === null || v === undefined || v === '') return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const pointFromObject = (p: any): XYZ | null => {
+  const x = toFiniteNumber(p?.x);
+  const z = toFiniteNumber(p?.z);
+  if (x === undefined || z === undefined) return null;
+  const y = toFiniteNumber(p?.y);
+  return y === undefined ? { x, z } : { x, z, y };
+};
+
+const pointFromTuple = (p: any): XYZ | null => {
+  if (!Array.isArray(p) || p.length < 3) return null;
+  const x = toFiniteNumber(p[0]);
+  const z = toFiniteNumber(p[2]);
+  if (x === undefined || z === undefined) return null;
+  const y = toFiniteNumber(p[1]);
+  return y === undefined ? { x, z } : { x, z, y };
+};
+
+const toPosition = (p: XYZ): GeoJSONPosition => (p.y === undefined ? [p.x, p.z] : [p.x, p.z, p.y]);
+
+const fromPosition = (pos: any): XYZ | null => {
+  if (!Array.isArray(pos) || pos.length < 2) return null;
+  const x = toFiniteNumber(pos[0]);
+  const z = toFiniteNumber(pos[1]);
+  if (x === undefined || z === undefined) return null;
+  const y = toFiniteNumber(pos[2]);
+  return y === undefined ? { x, z } : { x, z, y };
+};
+
+const samePoint = (a: XYZ, b: XYZ) => a.x === b.x && a.z === b.z && a.y === b.y;
+
+// 读取 featureInfo 中的几何字段（按 def.geometry 的格式）
+const readGeometryPoints = (def: FormatDef, featureInfo: any): XYZ[] => {
+  const raw = featureInfo?.[def.geometry.key];
+  if (def.geometry.format === 'object') {
+    const p = pointFromObject(raw);
+    return p ? [p] : [];
+  }
+  if (!Array.isArray(raw)) return [];
+  const read = def.geometry.format === 'tuples' ? pointFromTuple : pointFromObject;
+  return raw.map(read).filter((p): p is XYZ => p !== null);
+};
+
+// 写回几何字段：tuples 缺少 y 时补默认高度，保证导入校验（[x, y, z] 三元组）可通过
+const writeGeometryValue = (def: FormatDef, mode: DrawMode, points: XYZ[]): any => {
+  if (def.geometry.format === 'object') return points[0];
+  if (def.geometry.format === 'objects') return points;
+  return points.map((p) => [p.x, p.y ?? TUPLE_DEFAULT_Y[mode], p.z]);
+};
+
+const buildGeometry = (mode: DrawMode, points: XYZ[]): GeoJSONGeometry | null => {
+  if (points.length === 0) return null;
+  if (mode === 'point') return { type: 'Point', coordinates: toPosition(points[0]) };
+  if (mode === 'polyline') return { type: 'LineString', coordinates: points.map(toPosition) };
+
+  // GeoJSON 要求面的环首尾闭合
+  const ring = points.map(toPosition);
+  if (!samePoint(points[0], points[points.length - 1])) ring.push(toPosition(points[0]));
+  return { type: 'Polygon', coordinates: [ring] };
+};
+
+const resolveMode = (def: FormatDef, featureInfo: any): DrawMode => {
+  // “默认”格式的 featureInfo.type 记录了绘制模式
+  if (def.key === '默认' && def.modes.includes(featureInfo?.type)) return featureInfo.type as DrawMode;
+  return (def.modes?.[0] ?? 'point') as DrawMode;
+};
+
+/**
+ * 单条 featureInfo → GeoJSON Feature
+ */
+export const featureInfoToGeoJSON = (def: FormatDef, featureInfo: any): GeoJSONFeature => {
+  const { [def.geometry.key]: _geometry, ...properties } = featureInfo ?? {};
+  return {
+    type: 'Feature',
+    geometry: buildGeometry(resolveMode(def, featureInfo), readGeometryPoints(def, featureInfo)),
+    properties,
+  };
+};
+
+/**
+ * 测绘图层（subType + featureInfo）→ FeatureCollection
+ */
+export const featureInfosToGeoJSON = (
+  items: Array<{ subType: FeatureKey; featureInfo: any }>
+): GeoJSONFeatureCollection => ({
+  type: 'FeatureCollection',
+  features: items.map(({ subType, featureInfo }) =>
+    featureInfoToGeoJSON(FORMAT_REGISTRY[subType] ?? FORMAT_REGISTRY['默认'], featureInfo)
+  ),
+});
+
+const RECORD_MODE_BY_GEO_TYPE: Record<FeatureRecord['type'], DrawMode> = {
+  Points: 'point',
+  Polyline: 'polyline',
+  Polygon: 'polygon',
+};
+
+/**
+ * 规则图层记录 → FeatureCollection
+ * - Class 可识别：按格式定义取几何字段
+ * - 否则（或几何字段用了旧名）：使用记录解析出的 p3 / coords3，featureInfo 整体作为 properties
+ */
+export const ruleRecordsToGeoJSON = (records: FeatureRecord[]): GeoJSONFeatureCollection => ({
+  type: 'FeatureCollection',
+  features: records.map((r) => {
+    const def = findFormatDefByClass(r.meta.Class);
+    if (def) {
+      const feature = featureInfoToGeoJSON(def, r.featureInfo);
+      if (feature.geometry) return feature;
+    }
+    const points = r.p3 ? [r.p3] : (r.coords3 ?? []);
+    return {
+      type: 'Feature',
+      geometry: buildGeometry(RECORD_MODE_BY_GEO_TYPE[r.type], points),
+      properties: { ...(r.featureInfo ?? {}) },
+    };
+  }),
+});
+
+export const isGeoJSON = (root: any): boolean =>
+  root?.type === 'FeatureCollection' || root?.type === 'Feature';
+
+// 外部工具（如 QGIS）会把嵌套对象/数组存成 JSON 字符串，并为缺少该列的要素补 null
+const normalizeProperties = (def: FormatDef, properties: Record<string, any>): Record<string, any> => {
+  const nestedKeys = new Set<string>();
+  for (const g of def.groups ?? []) {
+    nestedKeys.add(g.key);
+    for (const alias of g.aliases ?? []) nestedKeys.add(alias);
+  }
+
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === null || value === undefined) continue;
+    if (nestedKeys.has(key) && typeof value === 'string' && /^\s*[[{]/.test(value)) {
+      try {
+        out[key] = JSON.parse(value);
+        continue;
+      } catch {
+        // 保留原字符串，交给导入校验报错
+      }
+    }
+    out[key] = value;
+  }
+  return out;
+};
+
+const readGeometry = (geometry: any): { mode: DrawMode; points: XYZ[] } | string => {
+  const mode = MODE_BY_GEOMETRY_TYPE[geometry?.type];
+  if (!mode) return `不支持的几何类型 ${String(geometry?.type ?? '空')}（仅支持 Point / LineString / Polygon）`;
+
+  let positions: any[];
+  if (mode === 'point') {
+    positions = [geometry.coordinates];
+  } else if (mode === 'polyline') {
+    positions = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+  } else {
+    const rings = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+    if (rings.length > 1) return '不支持带内环（洞）的面';
+    positions = Array.isArray(rings[0]) ? rings[0] : [];
+  }
+
+  const points: XYZ[] = [];
+  for (const pos of positions) {
+    const p = fromPosition(pos);
+    if (!p) return `坐标无效：${JSON.stringify(pos)}`;
+    points.push(p);
+  }
+
+  // 去掉闭合环末尾的重复点
+  if (mode === 'polygon' && points.length > 1 && samePoint(points[0], points[points.length - 1])) points.pop();
+  return { mode, points };
+};
+
+/**
+ * GeoJSON（FeatureCollection / Feature）→ 可直接送入导入校验的 featureInfo 条目
+ * - properties.Class 可识别时按该格式还原几何字段；否则按几何类型作为“默认”点/线/面（properties 原样保留）
+ * - 几何类型与格式不符、含 Multi* / 内环等无法还原的要素记为错误
+ */
+export const geoJSONToFeatureInfos = (root: any): GeoJSONImportResult => {
+  const features: any[] = root?.type === 'Feature'
+    ? [root]
+    : (Array.isArray(root?.features) ? root.features : []);
+  const entries: GeoJSONImportEntry[] = [];
+  const errors: string[] = [];
+
+  features.forEach((feature, i) => {
+    const label = `第 ${i + 1} 个要素`;
+    if (feature?.type !== 'Feature') {
+      errors.push(`${label}：不是 GeoJSON Feature`);
+      return;
+    }
+
+    const geometry = readGeometry(feature.geometry);
+    if (typeof geometry === 'string') {
+      errors.push(`${label}：${geometry}`);
+      return;
+    }
+
+    const properties = feature.properties && typeof feature.properties === 'object' ? feature.properties : {};
+    const def = findFormatDefByClass(properties.Class) ?? FORMAT_REGISTRY['默认'];
+    const mode = def.key === '默认' ? geometry.mode : resolveMode(def, properties);
+    if (mode !== geometry.mode) {
+      errors.push(`${label}：${def.label} 需要 ${GEOMETRY_TYPE_BY_MODE[mode]}，实际为 ${feature.geometry.type}`);
+      return;
+    }
+
+    // 默认要素保留全部 properties（导入时并入 featureInfo）
+    const item = def.key === '默认'
+      ? { ...properties, type: mode, [def.geometry.key]: geometry.points }
+      : { ...normalizeProperties(def, properties), [def.geometry.key]: writeGeometryValue(def, mode, geometry.points) };
+    entries.push({ def, mode, item });
+  });
+
+  return { entries, errors };
+};
@@ -10,6 +10,8 @@
  *     - 每个铁路段右侧独立开关展开“途经站”
  *     - 概览区以线路 color 分段展示（类似你提供的截图）
  *     - onRouteFound 仍保持传回 Array<{coord}>，但会额外挂载 styledSegments / stationMarkers（后续 MapContainer/RouteHighlightLayer 可直接复用）
+ * - 可达性（isochrone）：从出发点计算到每个车站（站体）的时间，交给地图绘制等时圈；无规则数据时回退旧版线路图
+ * - 多站行程（itinerary）：有序站点列表，逐段调用铁路（新）或旧版综合寻路，合并为一条多色高亮
  */
 
 import { useState, useRef, useEffect, useMemo } from 'react';
@@ -26,11 +28,18 @@ import {
   Shield,
   ChevronDown,
   ChevronRight,
+  MapPin,
+  Route,
+  Plus,
+  ArrowUp,
+  ArrowDown,
+  Timer,
+  Copy,
 } from 'lucide-react';
 import type { ParsedStation, ParsedLine, Coordinate, Player, TravelMode } from '@/types';
 import type { ParsedLandmark } from '@/lib/landmarkParser';
 import {
-  buildRailwayGraph,
+  getCachedRailwayGraph,
   simplifyPath,
   findAutoPath,
   findRailOnlyPath,
@@ -38,31 +47,54 @@ import {
   calculateEstimatedTime,
   calculateElytraConsumption,
   calculateWalkTime,
-  calculateRailTime,
+  estimateRailRuns,
+  computeStationReachability,
+  getWalkSpeed,
   MultiModePathResult,
 } from '@/lib/pathfinding';
 import { findTeleportPath, extractToriiList } from '@/lib/toriiTeleport';
 
 
-import { computeRailPlanFromCoords, type NavRailNewIntegratedPlan, type TransferType } from './Navigation_RailNewIntegrated';
+import {
+  computeRailPlanFromCoords,
+  computeRailPlansFromCoords,
+  computeRailReachabilityFromCoord,
+  type NavRailNewIntegratedPlan,
+  type RailRouteConstraintOptions,
+} from './Navigation_RailNewIntegrated';
 import { listRailNewStaBuildingsForSearch, type RailNewStaBuildingSearchItem } from './Navigation_RailNewIntegrated';
+import { RailRouteConstraintsEditor, countRouteConstraints } from './RailRouteConstraintsEditor';
+import {
+  optimizeStopOrder,
+  summarizeItinerary,
+  mergeLegHighlights,
+  type ItineraryEngine,
+  type ItineraryLegResult,
+  type ItineraryResult,
+} from './itinerary';
+import {
+  transferTypeLabel,
+  formatTime,
+  directionsFromRailPlan,
+  directionsFromMultiModeResult,
+  formatDirectionsText,
+  formatDirectionsMarkdown,
+  formatDirectionsShare,
+  type RouteDirections,
+} from './directions';
 import type { RouteHighlightData, RouteStyledSegment, RouteStationMarker } from '@/components/Map/RouteHighlightLayer';
+import { ISOCHRONE_BANDS, isochroneBandColor, type IsochroneData } from '@/components/Map/IsochroneLayer';
 import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
+import { useDataStore } from '@/store/dataStore';
+import { createLineServiceLookup } from '@/lib/lineServices';
+import { URL_NAV_MODES, type UrlNavMode, type UrlNavState } from '@/lib/urlState';
 
 
 // ---------------------------
 // utils
 // ---------------------------
 
-function formatTime(seconds: number): string {
-  if (!Number.isFinite(seconds)) return '-';
-  if (seconds < 60) return `${Math.round(seconds)}秒`;
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.round(seconds % 60);
-  return secs > 0 ? `${mins}分${secs}秒` : `${mins}分钟`;
-}
-
 function formatArrivalTime(secondsFromNow: number): string {
   if (!Number.isFinite(secondsFromNow)) return '';
   const t = new Date(Date.now() + Math.max(0, secondsFromNow) * 1000);
@@ -71,11 +103,36 @@ function formatArrivalTime(secondsFromNow: number): string {
   return `${hh}:${mm}`;
 }
 
+async function copyText(text: string): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    // fallback
+    const ta = document.createElement('textarea');
+    ta.value = text;
+    ta.style.position = 'fixed';
+    ta.style.left = '-9999px';
+    document.body.appendChild(ta);
+    ta.focus();
+    ta.select();
+    try {
+      document.execCommand('copy');
+    } finally {
+      document.body.removeChild(ta);
+    }
+  }
+}
+
 
 // ---------------------------
 // types
 // ---------------------------
 
+/** 深链接恢复请求：nonce 变化即按给定起终点/模式重新规划 */
+export interface NavigationLinkRequest extends UrlNavState {
+  nonce: number;
+}
+
 interface NavigationPanelProps {
   stations: ParsedStation[];
   lines: ParsedLine[];
@@ -83,12 +140,18 @@ interface NavigationPanelProps {
   players?: Player[];
   worldId: string;
   onRouteFound?: (route: RouteHighlightData | Array<{ coord: Coordinate }>) => void;
+  /** 可达性模式：传 null 表示清除等时圈 */
+  onIsochroneFound?: (data: IsochroneData | null) => void;
   onClose: () => void;
   onPointClick?: (coord: Coordinate) => void;
+  /** 从链接恢复导航（起终点 + 模式），面板会自动规划一次 */
+  navRequest?: NavigationLinkRequest | null;
+  /** 用户发起规划时回报起终点与模式（用于写入 URL） */
+  onNavigate?: (nav: UrlNavState) => void;
 }
 
 interface SearchItem {
-  type: 'station' | 'landmark' | 'player' | 'StaBuilding';
+  type: 'station' | 'landmark' | 'player' | 'StaBuilding' | 'coord';
   name: string;
   coord: Coordinate;
 
@@ -98,8 +161,8 @@ interface SearchItem {
 }
 
 
-// UI：在 TravelMode 的基础上增加 rail_new
-type TravelModePanel = TravelMode | 'rail_new';
+// UI：在 TravelMode 的基础上增加 rail_new / itinerary（多站行程）
+type TravelModePanel = TravelMode | 'rail_new' | 'isochrone' | 'itinerary';
 
 // 新铁路：最小化依赖的显示结构
 type RailNewLegKind = 'access' | 'walk' | 'rail' | 'transfer';
@@ -128,6 +191,8 @@ interface RailNewRailLeg extends RailNewLegBase {
   viaStations: string[];
   distance: number;
   timeSeconds: number;
+  /** 上车前期望候车时间（配置了线路运营参数时） */
+  waitSeconds?: number;
   // 用于联络线“xxx/xxx/xxx”拼接显示
   lineNameChain?: string[];
 }
@@ -140,6 +205,8 @@ interface RailNewPlan {
   totalDistance: number;
   totalTransfers: number;
   legs: RailNewLeg[];
+  /** 失败原因（found=false 时由计算模块给出） */
+  reason?: string;
   // 可选：由 Navigation_Rail 返回的高亮数据
   routeHighlight?: {
     path?: Array<{ coord: Coordinate }>;
@@ -148,6 +215,36 @@ interface RailNewPlan {
   };
 }
 
+// 新铁路：备选方案（raw 用于地图高亮，plan 用于面板展示）
+interface RailNewAlternative {
+  raw: NavRailNewIntegratedPlan;
+  plan: RailNewPlan;
+}
+
+// 可达性：面板展示用（地图部分见 IsochroneData）
+interface IsochroneResult {
+  /** rule：规则铁路（站体）；legacy：旧版线路图（车站） */
+  engine: 'rule' | 'legacy';
+  originLabel: string;
+  reason?: string;
+  items: Array<{ name: string; coord: Coordinate; timeSeconds: number; viaRail: boolean }>;
+}
+
+// 多站行程：编辑中的站点（id 用作列表 key，上下移动时保持输入框状态）
+interface ItineraryStopSlot {
+  id: number;
+  item: SearchItem | null;
+}
+
+let itineraryStopSeq = 0;
+const newItineraryStopSlot = (item: SearchItem | null): ItineraryStopSlot => ({ id: ++itineraryStopSeq, item });
+
+// 多站行程：按实际计算顺序保存站点（可能经过“优化顺序”重排）
+interface ItineraryState {
+  stops: SearchItem[];
+  result: ItineraryResult;
+}
+
 // 让 onRouteFound 仍传 Array<{coord}>，但在数组对象上挂载更多字段。
 export type RoutePathV2 = Array<{ coord: Coordinate }> & {
   styledSegments?: unknown[];
@@ -163,6 +260,8 @@ const TRAVEL_MODES: Array<{ mode: TravelModePanel; label: string; icon: typeof T
   { mode: 'rail', label: '铁路', icon: Train },
   { mode: 'teleport', label: '传送', icon: Zap },
   { mode: 'walk', label: '步行', icon: Footprints },
+  { mode: 'isochrone', label: '可达', icon: Timer },
+  { mode: 'itinerary', label: '行程', icon: Route },
 ];
 
 // 新铁路：可调整参数（默认值可按你的需要随时改）
@@ -175,12 +274,25 @@ const DEFAULT_RAIL_NEW_CONFIG = {
   transferCostFactor: 1.0,
   // 正常站台同台换乘成本（用于让联络线连接节点优先）
   normalPlatformTransferCost: 5.0,
+  // 备选方案数量（含最优方案）
+  alternatives: 3,
 };
 
 // ---------------------------
 // Search input
 // ---------------------------
 
+/**
+ * 直接输入坐标：「x, z」或「x, y, z」（逗号/空格分隔）
+ */
+function parseCoordSearchItem(text: string): SearchItem | null {
+  const m = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,，\s]\s*(-?\d+(?:\.\d+)?)(?:\s*[,，\s]\s*(-?\d+(?:\.\d+)?))?$/);
+  if (!m) return null;
+  const nums = m.slice(1).filter((v) => v !== undefined).map(Number);
+  const coord = nums.length === 3 ? { x: nums[0], y: nums[1], z: nums[2] } : { x: nums[0], y: 64, z: nums[1] };
+  return { type: 'coord', name: `坐标 (${Math.round(coord.x)}, ${Math.round(coord.z)})`, coord };
+}
+
 interface PointSearchInputProps {
   value: SearchItem | null;
   onChange: (item: SearchItem | null) => void;
@@ -197,7 +309,9 @@ function PointSearchInput({ value, onChange, items, placeholder, label }: PointS
   const filteredItems = useMemo(() => {
     if (query.length === 0) return [];
     const q = query.toLowerCase();
-    return items.filter((item) => item.name.toLowerCase().includes(q)).slice(0, 10);
+    const coordItem = parseCoordSearchItem(query);
+    const matched = items.filter((item) => item.name.toLowerCase().includes(q)).slice(0, 10);
+    return coordItem ? [coordItem, ...matched] : matched;
   }, [query, items]);
 
   useEffect(() => {
@@ -229,7 +343,7 @@ function PointSearchInput({ value, onChange, items, placeholder, label }: PointS
         onChange={(e) => {
           setQuery(e.target.value);
           setIsOpen(true);
-          const match = items.find((item) => item.name === e.target.value);
+          const match = items.find((item) => item.name === e.target.value) ?? parseCoordSearchItem(e.target.value);
           onChange(match || null);
         }}
         onFocus={() => setIsOpen(true)}
@@ -253,7 +367,9 @@ function PointSearchInput({ value, onChange, items, placeholder, label }: PointS
                       ? 'bg-cyan-500 text-white'
                         : item.type === 'StaBuilding'
                         ? 'bg-purple-500 text-white'
-                        : 'bg-orange-500 text-white'
+                        : item.type === 'coord'
+                          ? 'bg-gray-500 text-white'
+                          : 'bg-orange-500 text-white'
                 }`}
               >
                 {item.type === 'station' ? (
@@ -262,6 +378,8 @@ function PointSearchInput({ value, onChange, items, placeholder, label }: PointS
                   <User className="w-3 h-3" />
                 ) : item.type === 'StaBuilding' ? (
                   <Shield className="w-3 h-3" />
+                ) : item.type === 'coord' ? (
+                  <MapPin className="w-3 h-3" />
                 ) : (
                   <Home className="w-3 h-3" />
                 )}
@@ -269,7 +387,15 @@ function PointSearchInput({ value, onChange, items, placeholder, label }: PointS
               </span>
               <span>{item.name}</span>
               <span className="text-xs text-gray-400 ml-auto">
-                {item.type === 'station' ? '站点' : item.type === 'player' ? '玩家' : item.type === 'StaBuilding' ? '站体' : '地标'}
+                {item.type === 'station'
+                  ? '站点'
+                  : item.type === 'player'
+                    ? '玩家'
+                    : item.type === 'StaBuilding'
+                      ? '站体'
+                      : item.type === 'coord'
+                        ? '坐标'
+                        : '地标'}
               </span>
             </AppButton>
           ))}
@@ -279,6 +405,49 @@ function PointSearchInput({ value, onChange, items, placeholder, label }: PointS
   );
 }
 
+// ---------------------------
+// Directions export
+// ---------------------------
+
+const DIRECTIONS_FORMATS: Array<{ key: 'text' | 'markdown' | 'share'; label: string; format: (d: RouteDirections) => string }> = [
+  { key: 'text', label: '文本', format: formatDirectionsText },
+  { key: 'markdown', label: 'Markdown', format: formatDirectionsMarkdown },
+  { key: 'share', label: '分享', format: formatDirectionsShare },
+];
+
+/** 复制文字版路线（纯文本 / Markdown / 单行分享串） */
+function DirectionsCopyBar({ directions }: { directions: RouteDirections | null }) {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = window.setTimeout(() => setCopied(null), 1500);
+    return () => window.clearTimeout(t);
+  }, [copied]);
+
+  if (!directions) return null;
+
+  return (
+    <div className="flex items-center gap-1 mt-2 text-[10px]">
+      <Copy className="w-3 h-3 text-gray-400" />
+      <span className="text-gray-500 mr-1">复制路线</span>
+      {DIRECTIONS_FORMATS.map((f) => (
+        <AppButton
+          key={f.key}
+          className="px-2 py-0.5 rounded border border-gray-200 text-gray-600 hover:bg-gray-50"
+          onClick={async () => {
+            await copyText(f.format(directions));
+            setCopied(f.key);
+          }}
+          title={f.format(directions)}
+        >
+          {copied === f.key ? '已复制' : f.label}
+        </AppButton>
+      ))}
+    </div>
+  );
+}
+
 // [修改 3] 替换整个 “New Rail: adapters” 区块
 // 位置：从
 //   // ---------------------------
@@ -287,25 +456,6 @@ function PointSearchInput({ value, onChange, items, placeholder, label }: PointS
 // 到 callNavRailPlan(...) 结束
 // 全部删掉，并替换为下面这一段（helper 只负责：label + 组装 RailNewPlan + 组装 RouteHighlightData）
 
-function transferTypeLabel(t: TransferType): string {
-  switch (t) {
-    case 'stationTransfer':
-      return '站内换乘';
-    case 'samePlatformTransfer':
-      return '同台换乘';
-    case 'throughRun':
-      return '直通运行';
-    case 'mergeMainline':
-      return '并入主线';
-    case 'leaveMainline':
-      return '并出主线';
-    case 'enterConnector':
-      return '驶入联络线';
-    default:
-      return '换乘';
-  }
-}
-
 function buildRouteHighlightFromIntegrated(raw: NavRailNewIntegratedPlan, startCoord: Coordinate, endCoord: Coordinate, useElytra: boolean): RouteHighlightData | null {
   const styledSegments: RouteStyledSegment[] = [];
   const stationMarkers: RouteStationMarker[] = [];
@@ -384,7 +534,7 @@ function buildRouteHighlightFromIntegrated(raw: NavRailNewIntegratedPlan, startC
 
 function buildRailNewPlanFromIntegrated(raw: NavRailNewIntegratedPlan, startCoord: Coordinate, endCoord: Coordinate, useElytra: boolean): RailNewPlan {
   if (!raw.ok) {
-    return { found: false, totalTimeSeconds: 0, totalDistance: 0, totalTransfers: 0, legs: [] };
+    return { found: false, totalTimeSeconds: 0, totalDistance: 0, totalTransfers: 0, legs: [], reason: raw.reason };
   }
 
   const startB = raw.startResolvedBuilding?.point;
@@ -425,6 +575,7 @@ function buildRailNewPlanFromIntegrated(raw: NavRailNewIntegratedPlan, startCoor
         viaStations: seg.viaStations ?? [],
         distance: seg.distance ?? 0,
         timeSeconds: seg.timeSeconds ?? 0,
+        waitSeconds: seg.waitSeconds,
         lineNameChain: seg.lines?.length > 1 ? seg.lines.map((l) => l.lineName) : undefined,
       });
     } else if (seg.kind === 'transfer') {
@@ -474,8 +625,84 @@ function buildRailNewPlanFromIntegrated(raw: NavRailNewIntegratedPlan, startCoor
   };
 }
 
+/**
+ * 旧版多模式结果 -> RouteHighlightData（多段上色）
+ * - 铁路：按连续 lineId 切段，颜色取 ParsedLine.color
+ * - 步行/鞘翅：access 虚线；传送：紫色虚线
+ */
+function buildRouteHighlightFromLegacy(
+  result: MultiModePathResult,
+  startCoord: Coordinate,
+  endCoord: Coordinate,
+  lineInfo: (lineId: string) => { lineName: string; color: string },
+  useElytra: boolean
+): { highlight: RouteHighlightData | null; lineChips: Array<{ lineName: string; color: string }> } {
+  const styledSegments: RouteStyledSegment[] = [];
+  const stationMarkers: RouteStationMarker[] = [];
+  const lineChips: Array<{ lineName: string; color: string }> = [];
+
+  for (const seg of result.segments) {
+    if (seg.type === 'walk') {
+      styledSegments.push({
+        kind: 'access',
+        coords: [seg.from, seg.to],
+        dashed: true,
+        color: '#22c55e',
+        tooltip: `${useElytra ? '鞘翅' : '步行'} ${Math.round(seg.distance)}m`,
+      });
+    } else if (seg.type === 'teleport') {
+      styledSegments.push({
+        kind: 'transfer',
+        coords: [seg.torii.coord, seg.destination],
+        dashed: true,
+        color: '#a855f7',
+        tooltip: `传送 → ${seg.destinationName}`,
+      });
+    } else {
+      const path = seg.railPath.path;
+      let i = 0;
+      while (i < path.length) {
+        let j = i;
+        while (j + 1 < path.length && path[j + 1].lineId === path[i].lineId) j++;
+        const run = path.slice(i, j + 1);
+        if (run.length > 1) {
+          const info = lineInfo(path[i].lineId);
+          styledSegments.push({ kind: 'rail', coords: run.map((n) => n.coord), color: info.color, tooltip: info.lineName });
+          lineChips.push(info);
+          stationMarkers.push({ kind: 'station', coord: run[0].coord, label: run[0].stationName, color: info.color, radius: 5 });
+          stationMarkers.push({ kind: 'station', coord: run[run.length - 1].coord, label: run[run.length - 1].stationName, color: info.color, radius: 5 });
+        }
+        i = j + 1;
+      }
+    }
+  }
+
+  if (styledSegments.length === 0) return { highlight: null, lineChips };
 
+  stationMarkers.push({ kind: 'start', coord: startCoord, label: '起点', color: '#2563eb', radius: 6 });
+  stationMarkers.push({ kind: 'end', coord: endCoord, label: '终点', color: '#ef4444', radius: 6 });
 
+  return {
+    highlight: { styledSegments, stationMarkers, startCoord, endCoord, startLabel: '起点', endLabel: '终点' },
+    lineChips,
+  };
+}
+
+/**
+ * 备选方案标签：最快 / 少换乘（同一方案可同时拥有两个标签）
+ */
+function railNewAlternativeTags(alts: RailNewAlternative[], index: number): string[] {
+  if (alts.length < 2) return [];
+  const minTime = Math.min(...alts.map((a) => a.plan.totalTimeSeconds));
+  const minTransfers = Math.min(...alts.map((a) => a.plan.totalTransfers));
+  const maxTransfers = Math.max(...alts.map((a) => a.plan.totalTransfers));
+
+  const plan = alts[index].plan;
+  const tags: string[] = [];
+  if (plan.totalTimeSeconds <= minTime + 1e-6) tags.push('最快');
+  if (minTransfers < maxTransfers && plan.totalTransfers === minTransfers) tags.push('少换乘');
+  return tags;
+}
 
 
 // ---------------------------
@@ -489,8 +716,11 @@ export function NavigationPanel({
   players = [],
   worldId,
   onRouteFound,
+  onIsochroneFound,
   onClose,
   onPointClick,
+  navRequest,
+  onNavigate,
 }: NavigationPanelProps) {
   const [startPoint, setStartPoint] = useState<SearchItem | null>(null);
   const [endPoint, setEndPoint] = useState<SearchItem | null>(null);
@@ -500,6 +730,33 @@ export function NavigationPanel({
 
   const [resultLegacy, setResultLegacy] = useState<MultiModePathResult | null>(null);
   const [resultRailNew, setResultRailNew] = useState<RailNewPlan | null>(null);
+  const [railNewAlternatives, setRailNewAlternatives] = useState<RailNewAlternative[]>([]);
+  const [selectedRailNewAlternative, setSelectedRailNewAlternative] = useState(0);
+  const [railConstraints, setRailConstraints] = useState<RailRouteConstraintOptions>({});
+
+  // 多站行程
+  const [itineraryStops, setItineraryStops] = useState<ItineraryStopSlot[]>(() => [newItineraryStopSlot(null), newItineraryStopSlot(null)]);
+  const [itineraryEngine, setItineraryEngine] = useState<ItineraryEngine>('rail_new');
+  const [optimizeItineraryOrder, setOptimizeItineraryOrder] = useState(false);
+  const [resultItinerary, setResultItinerary] = useState<ItineraryState | null>(null);
+
+  // 可达性
+  const [resultIsochrone, setResultIsochrone] = useState<IsochroneResult | null>(null);
+
+  // 约束中的线路/车站 ID 只在当前世界有效
+  useEffect(() => {
+    setRailConstraints({});
+  }, [worldId]);
+
+  // 深链接：填入起终点与模式，待 state 生效后自动规划
+  const [pendingLinkSearch, setPendingLinkSearch] = useState(false);
+  useEffect(() => {
+    if (!navRequest) return;
+    setStartPoint({ type: 'coord', name: navRequest.start.name, coord: navRequest.start.coord });
+    setEndPoint({ type: 'coord', name: navRequest.end.name, coord: navRequest.end.coord });
+    setTravelMode(navRequest.mode);
+    setPendingLinkSearch(true);
+  }, [navRequest]);
   const [searching, setSearching] = useState(false);
 
   const [railNewStaBuildingItems, setRailNewStaBuildingItems] = useState<SearchItem[]>([]);
@@ -588,9 +845,39 @@ useEffect(() => {
     return items;
   }, [stations, landmarks, players, railNewStaBuildingItems]);
 
-  const railwayGraph = useMemo(() => buildRailwayGraph(lines), [lines]);
+  // 铁路网络图按「世界 + 数据版本」缓存：数据刷新（lastUpdated 变化）后才重建
+  const dataVersion = useDataStore((s) => s.cacheInfo.lastUpdated ?? 0);
+  const railwayGraph = useMemo(
+    () => getCachedRailwayGraph(worldId, dataVersion, lines),
+    [worldId, dataVersion, lines]
+  );
   const toriiList = useMemo(() => extractToriiList(landmarks), [landmarks]);
 
+  // 线路运营参数（时刻表 / 发车间隔）；未配置时为 undefined，沿用固定速度估算
+  const lineServices = useDataStore((s) => s.lineServices);
+  const lineServiceLookup = useMemo(() => createLineServiceLookup(lineServices, lines), [lineServices, lines]);
+
+  // 文字版路线（当前展示的方案）
+  const routeDirections = useMemo((): RouteDirections | null => {
+    if (!startPoint || !endPoint) return null;
+    const labels = { fromLabel: startPoint.name, toLabel: endPoint.name, useElytra };
+
+    if (travelMode === 'rail_new') {
+      const raw = railNewAlternatives[selectedRailNewAlternative]?.raw;
+      return raw?.ok ? directionsFromRailPlan(raw, labels) : null;
+    }
+    if (!resultLegacy?.found) return null;
+    return directionsFromMultiModeResult(resultLegacy, {
+      ...labels,
+      lineInfo: (lineId) => ({
+        lineName: formatLineName(lineId),
+        stations: lines.find((l) => l.lineId === lineId)?.stations.map((st) => st.name),
+      }),
+      services: lineServiceLookup,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [travelMode, railNewAlternatives, selectedRailNewAlternative, resultLegacy, startPoint, endPoint, useElytra, lines, lineServiceLookup]);
+
   // 交换起终点
   const handleSwap = () => {
     const temp = startPoint;
@@ -605,6 +892,187 @@ useEffect(() => {
     setExpandedRailLegs((prev) => ({ ...prev, [key]: !prev[key] }));
   };
 
+  // 新铁路：切换备选方案（面板详情 + 地图高亮一起切换）
+  const selectRailNewAlternative = (index: number) => {
+    const alt = railNewAlternatives[index];
+    if (!alt || !startPoint || !endPoint) return;
+
+    setSelectedRailNewAlternative(index);
+    setResultRailNew(alt.plan);
+    setExpandedRailLegs({});
+
+    if (onRouteFound && alt.raw.ok) {
+      const rh = buildRouteHighlightFromIntegrated(alt.raw, startPoint.coord, endPoint.coord, useElytra);
+      if (rh) onRouteFound(rh);
+    }
+  };
+
+  // 新铁路：计算参数（单次导航与多站行程共用）
+  const railNewComputeOptions = (constraints: RailRouteConstraintOptions = railConstraints) => ({
+    worldId,
+    mode: preferLessTransfer ? ('transfers' as const) : ('time' as const),
+
+    // 参数映射：保持你原 UI config 不动
+    transferWalkSpeed: DEFAULT_RAIL_NEW_CONFIG.transferWalkSpeed,
+    railSpeed: DEFAULT_RAIL_NEW_CONFIG.railRideSpeed,
+    stationTransferCostDivisor: DEFAULT_RAIL_NEW_CONFIG.transferCostFactor,
+    normalSamePlatformTransferCost: DEFAULT_RAIL_NEW_CONFIG.normalPlatformTransferCost,
+    lineServices,
+
+    // 避让 / 偏好 / 途经
+    ...constraints,
+  });
+
+  // 可达性：优先规则铁路（站体），无规则数据或失败时回退旧版线路图
+  const handleIsochroneSearch = async () => {
+    if (!startPoint) return;
+
+    setSearching(true);
+    try {
+      const origin = startPoint.coord;
+      const accessSpeed = getWalkSpeed(useElytra);
+
+      let result: IsochroneResult | null = null;
+      try {
+        // 等时圈按最短到达时间扩散，不套用避让 / 偏好 / 途经约束（结果区有提示）
+        const r = await computeRailReachabilityFromCoord({ ...railNewComputeOptions({}), originCoord: origin, accessSpeed });
+        if (r.ok && r.items.length > 0) {
+          result = {
+            engine: 'rule',
+            originLabel: startPoint.name,
+            items: r.items.map((it) => ({ name: it.name, coord: it.coord, timeSeconds: it.timeSeconds, viaRail: it.viaRail })),
+          };
+        }
+      } catch (err) {
+        console.warn('[isochrone] rule reachability unavailable, fallback to legacy graph', err);
+      }
+
+      if (!result) {
+        const items = computeStationReachability(origin, railwayGraph, useElytra, lineServiceLookup);
+        result = {
+          engine: 'legacy',
+          originLabel: startPoint.name,
+          reason: items.length ? undefined : '当前世界没有可用的铁路数据',
+          items: items.map((it) => ({ name: it.stationName, coord: it.coord, timeSeconds: it.timeSeconds, viaRail: it.viaRail })),
+        };
+      }
+
+      setResultIsochrone(result);
+      setResultLegacy(null);
+      setResultRailNew(null);
+
+      onIsochroneFound?.(
+        result.items.length
+          ? {
+              origin,
+              originLabel: startPoint.name,
+              accessSpeed,
+              points: result.items.map((it) => ({ coord: it.coord, timeSeconds: it.timeSeconds, label: it.name })),
+            }
+          : null
+      );
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // 多站行程：编辑站点（任何改动都会清空旧结果）
+  const updateItineraryStops = (updater: (prev: ItineraryStopSlot[]) => ItineraryStopSlot[]) => {
+    setItineraryStops(updater);
+    setResultItinerary(null);
+  };
+
+  const moveItineraryStop = (index: number, delta: number) => {
+    updateItineraryStops((prev) => {
+      const j = index + delta;
+      if (j < 0 || j >= prev.length) return prev;
+      const next = prev.slice();
+      [next[index], next[j]] = [next[j], next[index]];
+      return next;
+    });
+  };
+
+  // 多站行程：单段计算（沿用现有引擎）
+  const computeItineraryLeg = async (from: SearchItem, to: SearchItem): Promise<ItineraryLegResult> => {
+    if (from.coord.x === to.coord.x && from.coord.z === to.coord.z) {
+      return { found: true, timeSeconds: 0, distance: 0, transfers: 0, lineChips: [], highlight: null };
+    }
+
+    if (itineraryEngine === 'rail_new') {
+      // 途经车站是单次导航的约束；行程的途经点由站点列表表达，不强加到每一段
+      const { viaStationIds: _via, ...legConstraints } = railConstraints;
+      const raw = await computeRailPlanFromCoords({
+        ...railNewComputeOptions(legConstraints),
+        startCoord: from.coord,
+        endCoord: to.coord,
+      });
+      const plan = buildRailNewPlanFromIntegrated(raw, from.coord, to.coord, useElytra);
+      return {
+        found: plan.found,
+        reason: plan.reason,
+        timeSeconds: plan.totalTimeSeconds,
+        distance: plan.totalDistance,
+        transfers: plan.totalTransfers,
+        lineChips: raw.usedLineChips ?? [],
+        highlight: raw.ok ? buildRouteHighlightFromIntegrated(raw, from.coord, to.coord, useElytra) : null,
+      };
+    }
+
+    const r = findAutoPath(from.coord, to.coord, railwayGraph, landmarks, stations, worldId, preferLessTransfer, lineServiceLookup);
+    const lineInfo = (lineId: string) => ({
+      lineName: formatLineName(lineId),
+      color: lines.find((l) => l.lineId === lineId)?.color ?? '#3b82f6',
+    });
+    const { highlight, lineChips } = buildRouteHighlightFromLegacy(r, from.coord, to.coord, lineInfo, useElytra);
+    return {
+      found: r.found,
+      timeSeconds: r.found ? calculateEstimatedTime(r, useElytra, lineServiceLookup) : 0,
+      distance: r.totalWalkDistance + r.totalRailDistance,
+      transfers: r.totalTransfers,
+      lineChips,
+      highlight,
+    };
+  };
+
+  // 多站行程：逐段计算并合并高亮
+  const handleItinerarySearch = async () => {
+    const filledSlots = itineraryStops.filter((s): s is ItineraryStopSlot & { item: SearchItem } => !!s.item);
+    const filled = filledSlots.map((s) => s.item);
+    if (filled.length < 2) return;
+
+    setSearching(true);
+    try {
+      const ordered = optimizeItineraryOrder ? optimizeStopOrder(filled) : filled;
+
+      const legs: ItineraryLegResult[] = [];
+      for (let i = 0; i + 1 < ordered.length; i++) {
+        legs.push(await computeItineraryLeg(ordered[i], ordered[i + 1]));
+      }
+
+      setItineraryStops(ordered.map((item) => filledSlots.find((s) => s.item === item)!));
+      setResultItinerary({ stops: ordered, result: summarizeItinerary(legs) });
+      setResultLegacy(null);
+      setResultRailNew(null);
+
+      const rh = mergeLegHighlights(legs, ordered);
+      if (onRouteFound && rh) onRouteFound(rh);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // 点击规划：先回报起终点/模式（写入 URL），再规划
+  const handleSearchClick = () => {
+    if (startPoint && endPoint && (URL_NAV_MODES as readonly string[]).includes(travelMode)) {
+      onNavigate?.({
+        start: { name: startPoint.name, coord: startPoint.coord },
+        end: { name: endPoint.name, coord: endPoint.coord },
+        mode: travelMode as UrlNavMode,
+      });
+    }
+    return handleSearch();
+  };
+
   // 搜索
   const handleSearch = async () => {
     if (!startPoint || !endPoint) return;
@@ -633,22 +1101,23 @@ useEffect(() => {
 // 用下面替换掉原来的 “callNavStartNearestBuildings + callNavRailPlan + 数组挂载 styledSegments” 的实现
 
 if (travelMode === 'rail_new') {
-  const raw = await computeRailPlanFromCoords({
-    worldId,
+  const raws = await computeRailPlansFromCoords({
+    ...railNewComputeOptions(),
     startCoord: startPoint.coord,
     endCoord: endPoint.coord,
-    mode: preferLessTransfer ? 'transfers' : 'time',
-
-    // 参数映射：保持你原 UI config 不动
-    transferWalkSpeed: DEFAULT_RAIL_NEW_CONFIG.transferWalkSpeed,
-    railSpeed: DEFAULT_RAIL_NEW_CONFIG.railRideSpeed,
-    stationTransferCostDivisor: DEFAULT_RAIL_NEW_CONFIG.transferCostFactor,
-    normalSamePlatformTransferCost: DEFAULT_RAIL_NEW_CONFIG.normalPlatformTransferCost,
+    alternatives: DEFAULT_RAIL_NEW_CONFIG.alternatives,
   });
 
-  const plan = buildRailNewPlanFromIntegrated(raw, startPoint.coord, endPoint.coord, useElytra);
+  const alts: RailNewAlternative[] = raws.map((r) => ({
+    raw: r,
+    plan: buildRailNewPlanFromIntegrated(r, startPoint.coord, endPoint.coord, useElytra),
+  }));
+  const raw = raws[0];
 
-  setResultRailNew(plan);
+  setRailNewAlternatives(alts);
+  setSelectedRailNewAlternative(0);
+  setExpandedRailLegs({});
+  setResultRailNew(alts[0].plan);
   setResultLegacy(null);
 
   // 通知地图高亮：务必传 RouteHighlightData（不要再传 Array，否则 MapContainer 会归一化为 generic）
@@ -708,7 +1177,7 @@ if (travelMode === 'rail_new') {
 
         case 'auto':
         default:
-          pathResult = findAutoPath(startPoint.coord, endPoint.coord, railwayGraph, landmarks, stations, worldId, preferLessTransfer);
+          pathResult = findAutoPath(startPoint.coord, endPoint.coord, railwayGraph, landmarks, stations, worldId, preferLessTransfer, lineServiceLookup);
           break;
       }
 
@@ -735,11 +1204,24 @@ if (travelMode === 'rail_new') {
     }
   };
 
+  useEffect(() => {
+    if (!pendingLinkSearch || !startPoint || !endPoint) return;
+    setPendingLinkSearch(false);
+    void handleSearch();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingLinkSearch, startPoint, endPoint, travelMode]);
+
   // ---------------------------
   // Render
   // ---------------------------
 
-  const hasResult = !!(resultLegacy || resultRailNew);
+  const hasResult = !!(
+    resultLegacy ||
+    resultRailNew ||
+    (travelMode === 'itinerary' && resultItinerary) ||
+    (travelMode === 'isochrone' && resultIsochrone)
+  );
+  const itineraryFilledCount = itineraryStops.filter((s) => s.item).length;
 
   return (
     <AppCard className="w-full sm:w-72 max-h-[60vh] sm:max-h-[70vh] flex flex-col">
@@ -765,6 +1247,13 @@ if (travelMode === 'rail_new') {
               setTravelMode(mode);
               setResultLegacy(null);
               setResultRailNew(null);
+              setResultItinerary(null);
+              setResultIsochrone(null);
+              onIsochroneFound?.(null);
+              // 首次进入行程：沿用已选的起终点
+              if (mode === 'itinerary' && itineraryStops.every((s) => !s.item)) {
+                setItineraryStops([newItineraryStopSlot(startPoint), newItineraryStopSlot(endPoint)]);
+              }
             }}
           >
             <Icon className="w-4 h-4" />
@@ -775,46 +1264,142 @@ if (travelMode === 'rail_new') {
 
       {/* 输入区域 */}
       <div className="p-3 border-b">
-        <div className="flex items-start gap-2 mb-2">
-          <div className="flex-1">
-            <PointSearchInput
-              value={startPoint}
-              onChange={(v) => {
-                setStartPoint(v);
-                setResultLegacy(null);
-                setResultRailNew(null);
-              }}
-              items={searchItems}
-              placeholder="输入起点（站点/地标）..."
-              label="起点"
-            />
+        {travelMode === 'itinerary' ? (
+          <div className="mb-2 space-y-1.5">
+            {itineraryStops.map((stop, index) => (
+              <div key={stop.id} className="flex items-end gap-1">
+                <div className="flex-1">
+                  <PointSearchInput
+                    value={stop.item}
+                    onChange={(v) => updateItineraryStops((prev) => prev.map((p) => (p.id === stop.id ? { ...p, item: v } : p)))}
+                    items={searchItems}
+                    placeholder="站点/地标/玩家/坐标 x, z..."
+                    label={index === 0 ? '起点' : index === itineraryStops.length - 1 ? '终点' : `第${index}站`}
+                  />
+                </div>
+                <div className="flex flex-col">
+                  <AppButton
+                    onClick={() => moveItineraryStop(index, -1)}
+                    disabled={index === 0}
+                    className="p-0.5 text-gray-400 hover:text-gray-600"
+                    title="上移"
+                  >
+                    <ArrowUp className="w-3 h-3" />
+                  </AppButton>
+                  <AppButton
+                    onClick={() => moveItineraryStop(index, 1)}
+                    disabled={index === itineraryStops.length - 1}
+                    className="p-0.5 text-gray-400 hover:text-gray-600"
+                    title="下移"
+                  >
+                    <ArrowDown className="w-3 h-3" />
+                  </AppButton>
+                </div>
+                <AppButton
+                  onClick={() => updateItineraryStops((prev) => prev.filter((p) => p.id !== stop.id))}
+                  disabled={itineraryStops.length <= 2}
+                  className="p-1.5 text-gray-400 hover:text-red-500"
+                  title="移除"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </AppButton>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <AppButton
+                onClick={() => updateItineraryStops((prev) => [...prev.slice(0, -1), newItineraryStopSlot(null), prev[prev.length - 1]])}
+                className="px-2 py-1 text-blue-600 hover:bg-blue-50 !gap-1"
+              >
+                <Plus className="w-3 h-3" />
+                添加途经站
+              </AppButton>
+
+              <div className="flex items-center gap-1">
+                {([
+                  ['rail_new', '铁路(新)'],
+                  ['auto', '综合'],
+                ] as const).map(([engine, label]) => (
+                  <AppButton
+                    key={engine}
+                    onClick={() => {
+                      setItineraryEngine(engine);
+                      setResultItinerary(null);
+                    }}
+                    className={`px-2 py-0.5 border ${
+                      itineraryEngine === engine ? 'border-blue-300 bg-blue-50 text-blue-600' : 'border-gray-200 text-gray-500'
+                    }`}
+                  >
+                    {label}
+                  </AppButton>
+                ))}
+              </div>
+            </div>
+
+            {itineraryStops.length > 3 && (
+              <label className="flex items-center gap-1.5 cursor-pointer text-xs">
+                <input
+                  type="checkbox"
+                  checked={optimizeItineraryOrder}
+                  onChange={(e) => {
+                    setOptimizeItineraryOrder(e.target.checked);
+                    setResultItinerary(null);
+                  }}
+                  className="w-3 h-3"
+                />
+                <span className="text-gray-600">优化途经站顺序（起终点不变）</span>
+              </label>
+            )}
           </div>
-          <AppButton
-            onClick={handleSwap}
-            className="mt-6 p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
-            title="交换起终点"
-          >
-            <ArrowUpDown className="w-4 h-4" />
-          </AppButton>
-        </div>
-
-        <div className="mb-2">
-          <PointSearchInput
-            value={endPoint}
-            onChange={(v) => {
-              setEndPoint(v);
-              setResultLegacy(null);
-              setResultRailNew(null);
-            }}
-            items={searchItems}
-            placeholder="输入终点（站点/地标）..."
-            label="终点"
-          />
-        </div>
+        ) : (
+          <>
+            <div className="flex items-start gap-2 mb-2">
+              <div className="flex-1">
+                <PointSearchInput
+                  value={startPoint}
+                  onChange={(v) => {
+                    setStartPoint(v);
+                    setResultLegacy(null);
+                    setResultRailNew(null);
+                    setResultIsochrone(null);
+                  }}
+                  items={searchItems}
+                  placeholder={travelMode === 'isochrone' ? '输入出发点（站点/地标/坐标）...' : '输入起点（站点/地标）...'}
+                  label={travelMode === 'isochrone' ? '出发点' : '起点'}
+                />
+              </div>
+              {travelMode !== 'isochrone' && (
+                <AppButton
+                  onClick={handleSwap}
+                  className="mt-6 p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                  title="交换起终点"
+                >
+                  <ArrowUpDown className="w-4 h-4" />
+                </AppButton>
+              )}
+            </div>
+
+            {travelMode !== 'isochrone' && (
+              <div className="mb-2">
+                <PointSearchInput
+                  value={endPoint}
+                  onChange={(v) => {
+                    setEndPoint(v);
+                    setResultLegacy(null);
+                    setResultRailNew(null);
+                  }}
+                  items={searchItems}
+                  placeholder="输入终点（站点/地标）..."
+                  label="终点"
+                />
+              </div>
+            )}
+          </>
+        )}
 
         <div className="flex items-center justify-between flex-wrap gap-2">
           <div className="flex items-center gap-3">
-            {(travelMode === 'rail' || travelMode === 'auto' || travelMode === 'rail_new') && (
+            {(travelMode === 'rail' || travelMode === 'auto' || travelMode === 'rail_new' || travelMode === 'itinerary') && (
               <label className="flex items-center gap-1.5 cursor-pointer text-xs">
                 <input
                   type="checkbox"
@@ -823,6 +1408,7 @@ if (travelMode === 'rail_new') {
                     setPreferLessTransfer(e.target.checked);
                     setResultLegacy(null);
                     setResultRailNew(null);
+                    setResultItinerary(null);
                   }}
                   className="w-3 h-3"
                 />
@@ -838,6 +1424,8 @@ if (travelMode === 'rail_new') {
                   setUseElytra(e.target.checked);
                   setResultLegacy(null);
                   setResultRailNew(null);
+                  setResultItinerary(null);
+                  setResultIsochrone(null);
                 }}
                 className="w-3 h-3"
               />
@@ -846,13 +1434,38 @@ if (travelMode === 'rail_new') {
           </div>
 
           <AppButton
-            onClick={() => void handleSearch()}
-            disabled={!startPoint || !endPoint || searching}
+            onClick={() =>
+              void (travelMode === 'itinerary'
+                ? handleItinerarySearch()
+                : travelMode === 'isochrone'
+                  ? handleIsochroneSearch()
+                  : handleSearchClick())
+            }
+            disabled={
+              (travelMode === 'itinerary'
+                ? itineraryFilledCount < 2
+                : travelMode === 'isochrone'
+                  ? !startPoint
+                  : !startPoint || !endPoint) || searching
+            }
             className="px-4 py-1.5 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-xs font-medium"
           >
             {searching ? '搜索中...' : '搜索'}
           </AppButton>
         </div>
+
+        {(travelMode === 'rail_new' || (travelMode === 'itinerary' && itineraryEngine === 'rail_new')) && (
+          <RailRouteConstraintsEditor
+            worldId={worldId}
+            value={railConstraints}
+            allowVia={travelMode !== 'itinerary'}
+            onChange={(v) => {
+              setRailConstraints(v);
+              setResultRailNew(null);
+              setResultItinerary(null);
+            }}
+          />
+        )}
       </div>
 
       {/* 结果区域 */}
@@ -863,6 +1476,47 @@ if (travelMode === 'rail_new') {
             <>
               {resultRailNew.found ? (
                 <>
+                  {/* 备选方案卡片（点击切换详情与地图高亮） */}
+                  {railNewAlternatives.length > 1 && (
+                    <div className="space-y-1.5 mb-3">
+                      {railNewAlternatives.map((alt, idx) => {
+                        const selected = idx === selectedRailNewAlternative;
+                        const tags = railNewAlternativeTags(railNewAlternatives, idx);
+                        return (
+                          <AppButton
+                            key={`alt-${idx}`}
+                            className={`w-full text-left rounded-lg border p-2 transition-colors ${
+                              selected ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                            }`}
+                            onClick={() => selectRailNewAlternative(idx)}
+                          >
+                            <div className="flex items-center gap-1.5 text-xs">
+                              <span className="font-semibold text-gray-800">方案 {idx + 1}</span>
+                              {tags.map((t) => (
+                                <span key={t} className="px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 text-[10px]">
+                                  {t}
+                                </span>
+                              ))}
+                              <span className="ml-auto font-medium text-gray-800">{formatTime(alt.plan.totalTimeSeconds)}</span>
+                            </div>
+                            <div className="flex items-center gap-1 mt-1 flex-wrap">
+                              {alt.raw.usedLineChips.map((chip, ci) => (
+                                <span
+                                  key={`alt-${idx}-chip-${ci}`}
+                                  className="px-1.5 py-0.5 rounded text-[10px] text-white"
+                                  style={{ backgroundColor: chip.color || '#3b82f6' }}
+                                >
+                                  {chip.lineName}
+                                </span>
+                              ))}
+                              <span className="ml-auto text-[10px] text-gray-500">换乘 {alt.plan.totalTransfers} 次</span>
+                            </div>
+                          </AppButton>
+                        );
+                      })}
+                    </div>
+                  )}
+
                   {/* 概览（截图风格简化版） */}
                   <div className="bg-gray-50 rounded-lg p-3 mb-3">
                     <div className="flex items-center justify-between">
@@ -897,6 +1551,8 @@ if (travelMode === 'rail_new') {
                         <span className="ml-3">换乘 <span className="font-medium text-blue-600">{resultRailNew.totalTransfers}</span> 次</span>
                       )}
                     </div>
+
+                    <DirectionsCopyBar directions={routeDirections} />
                   </div>
 
                   {/* 详情 timeline */}
@@ -937,6 +1593,9 @@ if (travelMode === 'rail_new') {
                                   <div className="text-[10px] font-medium mb-0.5" style={{ color: leg.color || '#3b82f6' }}>
                                     {displayLineName}
                                     <span className="text-gray-400 ml-1">({formatTime(leg.timeSeconds)})</span>
+                                    {!!leg.waitSeconds && (
+                                      <span className="text-gray-400 ml-1">候车约 {formatTime(leg.waitSeconds)}</span>
+                                    )}
                                   </div>
                                   {!isConnectorLeg && (
   <div className="text-xs text-gray-800 truncate">
@@ -1025,14 +1684,126 @@ if (travelMode === 'rail_new') {
                 <div className="text-center text-gray-500 py-4 text-sm">
                   {startPoint?.coord.x === endPoint?.coord.x && startPoint?.coord.z === endPoint?.coord.z
                     ? '起点和终点相同'
-                    : '未找到可用路线（请检查：站台 Situation/Available、线路方向、换乘归属 STB/SBP 等）'}
+                    : resultRailNew.reason ?? '未找到可用路线（请检查：站台 Situation/Available、线路方向、换乘归属 STB/SBP 等）'}
                 </div>
               )}
             </>
           )}
 
+          {/* 可达性结果 */}
+          {travelMode === 'isochrone' && resultIsochrone && (
+            <>
+              <div className="flex items-center gap-2 mb-2 text-xs flex-wrap">
+                {ISOCHRONE_BANDS.map((band, i) => {
+                  const lower = i > 0 ? ISOCHRONE_BANDS[i - 1].minutes * 60 : -1;
+                  const count = resultIsochrone.items.filter((it) => it.timeSeconds > lower && it.timeSeconds <= band.minutes * 60).length;
+                  return (
+                    <div key={band.minutes} className="flex items-center gap-1">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: band.color }} />
+                      <span className="text-gray-500">≤{band.minutes}分</span>
+                      <span className="font-medium">{count}</span>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="mb-2 text-[10px] text-gray-400">
+                {resultIsochrone.engine === 'rule' ? '规则铁路（站体）' : '旧版线路图（车站）'} · 出站后按{useElytra ? '鞘翅' : '步行'}速度扩散
+                {countRouteConstraints(railConstraints) > 0 && ' · 路线约束不适用于可达性分析'}
+              </div>
+
+              {resultIsochrone.reason ? (
+                <div className="text-center text-gray-500 py-4 text-sm">{resultIsochrone.reason}</div>
+              ) : (
+                <div className="space-y-0.5">
+                  {resultIsochrone.items.map((it, i) => (
+                    <AppButton
+                      key={`${it.name}-${i}`}
+                      onClick={() => onPointClick?.(it.coord)}
+                      className="w-full !justify-start !gap-1.5 px-1.5 py-1 text-xs hover:bg-gray-50 !rounded"
+                    >
+                      <span
+                        className="w-2 h-2 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: isochroneBandColor(it.timeSeconds) ?? '#9ca3af' }}
+                      />
+                      <span className="text-gray-800 truncate">{it.name}</span>
+                      {it.viaRail && <Train className="w-3 h-3 text-blue-400 flex-shrink-0" />}
+                      <span className="ml-auto text-gray-500">{formatTime(it.timeSeconds)}</span>
+                    </AppButton>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {/* 多站行程结果 */}
+          {travelMode === 'itinerary' && resultItinerary && (
+            <>
+              <div className="flex items-center gap-3 mb-3 text-xs flex-wrap">
+                <div className="flex items-center gap-1">
+                  <Clock className="w-3 h-3 text-gray-400" />
+                  <span className="text-gray-500">总计:</span>
+                  <span className="font-medium text-orange-600">{formatTime(resultItinerary.result.totalTimeSeconds)}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-gray-500">距离:</span>
+                  <span className="font-medium">{Math.round(resultItinerary.result.totalDistance)}m</span>
+                </div>
+                {resultItinerary.result.totalTransfers > 0 && (
+                  <div className="flex items-center gap-1">
+                    <span className="text-gray-500">换乘:</span>
+                    <span className="font-medium text-blue-600">{resultItinerary.result.totalTransfers}次</span>
+                  </div>
+                )}
+              </div>
+
+              {!resultItinerary.result.found && (
+                <div className="mb-2 text-xs text-red-500">部分路段未找到路线，总计仅包含可达路段</div>
+              )}
+
+              <div className="space-y-2">
+                {resultItinerary.result.legs.map((leg, index) => {
+                  const from = resultItinerary.stops[index];
+                  const to = resultItinerary.stops[index + 1];
+                  return (
+                    <div key={index} className={`rounded p-2 text-xs ${leg.found ? 'bg-gray-50' : 'bg-red-50'}`}>
+                      <div className="flex items-center gap-1 text-gray-800">
+                        <span className="text-gray-400">{index + 1}.</span>
+                        <AppButton className="hover:underline hover:text-blue-600" onClick={() => onPointClick?.(from.coord)}>
+                          {from.name}
+                        </AppButton>
+                        <span className="text-gray-400">→</span>
+                        <AppButton className="hover:underline hover:text-blue-600" onClick={() => onPointClick?.(to.coord)}>
+                          {to.name}
+                        </AppButton>
+                      </div>
+                      {leg.found ? (
+                        <>
+                          <div className="text-[10px] text-gray-500 mt-0.5">
+                            {formatTime(leg.timeSeconds)} · {Math.round(leg.distance)}m
+                            {leg.transfers > 0 && ` · 换乘${leg.transfers}次`}
+                          </div>
+                          {leg.lineChips.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {leg.lineChips.map((c, i) => (
+                                <span key={i} className="px-1.5 py-0.5 rounded text-white text-[10px]" style={{ backgroundColor: c.color }}>
+                                  {c.lineName}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <div className="text-[10px] text-red-500 mt-0.5">{leg.reason ?? '未找到可用路线'}</div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
           {/* 旧模式结果 */}
-          {travelMode !== 'rail_new' && resultLegacy && (
+          {travelMode !== 'rail_new' && travelMode !== 'itinerary' && travelMode !== 'isochrone' && resultLegacy && (
             <>
               {resultLegacy.found ? (
                 <>
@@ -1040,7 +1811,7 @@ if (travelMode === 'rail_new') {
                     <div className="flex items-center gap-1">
                       <Clock className="w-3 h-3 text-gray-400" />
                       <span className="text-gray-500">预计:</span>
-                      <span className="font-medium text-orange-600">{formatTime(calculateEstimatedTime(resultLegacy, useElytra))}</span>
+                      <span className="font-medium text-orange-600">{formatTime(calculateEstimatedTime(resultLegacy, useElytra, lineServiceLookup))}</span>
                     </div>
                     {resultLegacy.totalTransfers > 0 && (
                       <div className="flex items-center gap-1">
@@ -1066,6 +1837,10 @@ if (travelMode === 'rail_new') {
                     )}
                   </div>
 
+                  <div className="mb-3 -mt-2">
+                    <DirectionsCopyBar directions={routeDirections} />
+                  </div>
+
                   {useElytra && resultLegacy.totalWalkDistance > 0 && (() => {
                     const consumption = calculateElytraConsumption(resultLegacy.totalWalkDistance);
                     return (
@@ -1177,14 +1952,11 @@ if (travelMode === 'rail_new') {
 
                       if (segment.type === 'rail') {
                         const railSegments = simplifyPath(segment.railPath.path);
-                        const totalRailDist = segment.railPath.totalDistance;
-                        const avgDistPerSeg = railSegments.length > 0 ? totalRailDist / railSegments.length : 0;
+                        // 与总时间（calculateEstimatedTime）同一口径
+                        const railEstimates = estimateRailRuns(segment, lineServiceLookup);
 
                         return railSegments.map((railSeg, railIndex) => {
-                          const segDist = Math.sqrt(
-                            Math.pow(railSeg.endCoord.x - railSeg.startCoord.x, 2) + Math.pow(railSeg.endCoord.z - railSeg.startCoord.z, 2)
-                          );
-                          const segTime = calculateRailTime(segDist || avgDistPerSeg);
+                          const { rideSeconds: segTime, waitSeconds: segWait } = railEstimates[railIndex];
 
                           return (
                             <div key={`${index}-${railIndex}`} className="relative pl-5">
@@ -1198,6 +1970,7 @@ if (travelMode === 'rail_new') {
                                 <div className="text-[10px] text-blue-600 font-medium mb-0.5">
                                   {formatLineName(railSeg.lineId)}
                                   <span className="text-gray-400 ml-1">({formatTime(segTime)})</span>
+                                  {segWait > 0 && <span className="text-gray-400 ml-1">候车约 {formatTime(segWait)}</span>}
                                 </div>
                                 <div className="text-xs text-gray-800">
                                   <AppButton className="hover:underline hover:text-blue-600" onClick={() => onPointClick?.(railSeg.startCoord)}>
@@ -35,6 +35,11 @@
 
 import type { Coordinate } from '@/types';
 import { RULE_DATA_SOURCES, type WorldRuleDataSource } from '@/components/Rules/ruleDataSources';
+import { resolveWorldId } from '@/lib/worldRegistry';
+import { MinHeap } from '@/lib/MinHeap';
+import { resolveLineService, type ResolvedLineService } from '@/lib/lineServices';
+import { loadSource } from '@/lib/sourceCache';
+import type { LineServicesConfig } from '@/types';
 
 // ------------------------------
 // 公共输出类型：供 NavigationPanel / RouteHighlightLayer 使用
@@ -111,6 +116,41 @@ export async function listRailNewStaBuildingsForSearch(opt: {
   return out;
 }
 
+export type RailNewRouteOptionItems = {
+  lines: Array<{ lineId: string; lineName: string; color: string; bureau?: string }>;
+  bureaus: string[];
+  stations: Array<{ stationId: string; stationName: string }>;
+};
+
+/**
+ * 供“避让/偏好/途经”编辑器使用：列出规则数据中的线路、路局与车站
+ */
+export async function listRailNewRouteOptionItems(opt: {
+  worldId: string;
+  dataSourceOverride?: Partial<WorldRuleDataSource>;
+  filesOverride?: string[];
+  fetcher?: (url: string) => Promise<any[]>;
+}): Promise<RailNewRouteOptionItems> {
+  const { stas, rles } = await loadRuleParsed(opt.worldId, {
+    dataSourceOverride: opt.dataSourceOverride,
+    filesOverride: opt.filesOverride,
+    fetcher: opt.fetcher,
+    strict: true,
+  });
+
+  const lines = Array.from(rles.values())
+    .map((l) => ({ lineId: l.lineId, lineName: l.lineName || l.lineId, color: l.color, bureau: l.bureau }))
+    .sort((a, b) => a.lineName.localeCompare(b.lineName, 'zh-CN'));
+
+  const bureaus = Array.from(new Set(lines.map((l) => l.bureau).filter((b): b is string => !!b))).sort();
+
+  const stations = Array.from(stas.values())
+    .map((s) => ({ stationId: s.stationID, stationName: s.stationName || s.stationID }))
+    .sort((a, b) => a.stationName.localeCompare(b.stationName, 'zh-CN'));
+
+  return { lines, bureaus, stations };
+}
+
 
 export type NavRailSegmentRail = {
   kind: 'rail';
@@ -125,9 +165,16 @@ export type NavRailSegmentRail = {
   }>;
   fromStation: string;
   toStation: string;
+  /** 上/下车站台名（PLF.platformName；缺失则不提供） */
+  fromPlatform?: string;
+  toPlatform?: string;
+  /** 开往方向：末条线路沿行进方向的最后一个可停靠车站 */
+  towards?: string;
   viaStations: string[]; // 可折叠列表（按 Connect=true 的 STA）
   distance: number; // blocks
   timeSeconds: number;
+  /** 本段上车前的期望候车时间（仅配置了线路运营参数时存在；不含在 timeSeconds 内） */
+  waitSeconds?: number;
 };
 
 export type NavRailSegmentTransfer = {
@@ -168,7 +215,35 @@ export type NavRailPlan = {
 // 输入参数与可调接口
 // ------------------------------
 
-export type NavigationRailComputeOptions = {
+/** 避让约束：命中的线路/车站/换乘方式不参与搜索 */
+export type RailRouteAvoidOptions = {
+  /** RLE LineID */
+  lineIds?: string[];
+  /** 路局（RLE.bureau） */
+  bureaus?: string[];
+  /** STA stationID：不在这些车站上下车、换乘或停站通过 */
+  stationIds?: string[];
+  /** 不使用的换乘方式（仅作用于可见换乘；同 STA 步行、连接节点切线等隐藏边不受影响） */
+  transferTypes?: TransferType[];
+};
+
+/** 偏好约束：命中的乘车段/换乘在比较时按折扣代价计 */
+export type RailRoutePreferOptions = {
+  lineIds?: string[];
+  bureaus?: string[];
+  transferTypes?: TransferType[];
+  /** 偏好折扣（0..1，默认 0.6）：偏好边按 原代价 × factor 参与比较；展示的时间/距离不变 */
+  factor?: number;
+};
+
+export type RailRouteConstraintOptions = {
+  avoid?: RailRouteAvoidOptions;
+  prefer?: RailRoutePreferOptions;
+  /** 按顺序途经的 STA stationID（到达该站任一站台即视为经过） */
+  viaStationIds?: string[];
+};
+
+export type NavigationRailComputeOptions = RailRouteConstraintOptions & {
   worldId: string;
 
   startBuildingId: string;
@@ -197,6 +272,25 @@ export type NavigationRailComputeOptions = {
    */
   normalSamePlatformTransferCost?: number;
 
+  /**
+   * 线路运营参数（/data/line_services.json；可选）
+   * - 配置后：乘车按线路巡航速度 + 停站时间计时；上车与同台换乘另加期望候车时间
+   * - 不传或为 null：沿用 railSpeed 与 normalSamePlatformTransferCost
+   */
+  lineServices?: LineServicesConfig | null;
+
+  /**
+   * 备选方案数量（K 短路，含最优方案；默认 1）
+   * - 仅 computeRailPlansBetweenBuildings / computeRailPlansFromCoords 生效
+   */
+  alternatives?: number;
+
+  /**
+   * 备选方案去重阈值（0..1，默认 0.7）
+   * - 与已选方案乘车线路序列相同，或共用乘车里程占比 ≥ 该值，视为近似重复而丢弃
+   */
+  alternativeOverlapThreshold?: number;
+
   /**
    * 计算用文件范畴接口：覆盖 RULE_DATA_SOURCES
    * - 不传则使用 RULE_DATA_SOURCES[worldId]
@@ -426,7 +520,10 @@ function centroidPolygonXZ(poly: Coordinate[]): Coordinate {
 // Polyline 投影与切片（用于“相邻站真实铁路里程 + 高亮走形”）
 // ------------------------------
 
-function buildCumLen(points: Coordinate[]): number[] {
+// 带累计里程的折线（Rle 的几何部分；玩家乘车识别也复用下面的投影函数）
+export type MeasuredPolyline = Pick<Rle, 'points' | 'cumlen' | 'totalLen'>;
+
+export function buildCumLen(points: Coordinate[]): number[] {
   const cum: number[] = [];
   let acc = 0;
   cum.push(0);
@@ -437,7 +534,7 @@ function buildCumLen(points: Coordinate[]): number[] {
   return cum;
 }
 
-function projectPointToPolylineMeasure(p: Coordinate, line: Rle): { m: number; nearest: Coordinate } {
+export function projectPointToPolylineMeasure(p: Coordinate, line: MeasuredPolyline): { m: number; nearest: Coordinate } {
   // 返回：最近投影点 + 沿线里程 m（0..totalLen）
   let bestD = Infinity;
   let bestM = 0;
@@ -537,38 +634,18 @@ function concatCoordsSafe(a: Coordinate[], b: Coordinate[]): Coordinate[] {
 // 加载 Rule JSON（只读 STA/PLF/STB/SBP/RLE）
 // ------------------------------
 
+// 规则 JSON 每次都校验（未变化时直接用 IndexedDB 中的副本，离线时回退到旧缓存）
 async function defaultFetcher(url: string): Promise<any[]> {
-  const resp = await fetch(url);
-  if (!resp.ok) throw new Error(`HTTP ${resp.status} ${resp.statusText}`);
-  const data = await resp.json();
+  const { data, error } = await loadSource<unknown>({ key: `rule:${url}`, urls: [url], maxAge: 0 });
+  if (data === null) throw new Error(error ?? `Failed to load ${url}`);
   return Array.isArray(data) ? data : [];
 }
 
 function normalizeWorldId(worldId: string): string {
   const wid = String(worldId ?? '').trim();
 
-  // 1) 已经是内部 key（zth/eden/naraku/houtu）直接返回
-  if (wid && (RULE_DATA_SOURCES as any)[wid]) return wid;
-
-  // 2) 兼容数字世界：0..5（你 JSON 规范里 World 是 integer）
-  if (/^\d+$/.test(wid)) {
-    const n = parseInt(wid, 10);
-    if (n === 0) return 'zth';
-    if (n === 1) return 'naraku';
-    if (n === 2) return 'houtu';
-    if (n === 3) return 'eden';
-    // 4/5 你后续可补：laputa / yunduan 等
-    return wid;
-  }
-
-  // 3) 兼容中文世界名（如果 UI 传的是中文）
-  const map: Record<string, string> = {
-    零洲: 'zth',
-    奈落: 'naraku',
-    后土: 'houtu',
-    伊甸: 'eden',
-  };
-  return map[wid] ?? wid;
+  // 内部 key（zth/eden/...）、数字世界（JSON 规范里 World 是 integer）、中文世界名均由世界注册表解析
+  return resolveWorldId(wid) ?? wid;
 }
 
 type RuleLoadOptions = Pick<NavigationRailComputeOptions, 'dataSourceOverride' | 'filesOverride' | 'fetcher'> & {
@@ -968,6 +1045,9 @@ type Edge = {
   transferType?: TransferType;
   hidden?: boolean; // 默认不展示（Connect=false 或 同 STA 步行等）
 
+  /** 本边包含的期望候车时间（board / 同台换乘；已计入 timeSeconds） */
+  waitSeconds?: number;
+
   /** overlay 片段（ride/transfer） */
   overlayCoords?: Coordinate[];
 };
@@ -977,48 +1057,6 @@ type Prev = {
   edge: Edge | null;
 };
 
-class MinHeap<T> {
-  private a: Array<{ k: number; v: T }> = [];
-  push(k: number, v: T) {
-    this.a.push({ k, v });
-    this.up(this.a.length - 1);
-  }
-  pop(): { k: number; v: T } | null {
-    if (this.a.length === 0) return null;
-    const top = this.a[0];
-    const last = this.a.pop()!;
-    if (this.a.length > 0) {
-      this.a[0] = last;
-      this.down(0);
-    }
-    return top;
-  }
-  get size() {
-    return this.a.length;
-  }
-  private up(i: number) {
-    while (i > 0) {
-      const p = (i - 1) >> 1;
-      if (this.a[p].k <= this.a[i].k) break;
-      [this.a[p], this.a[i]] = [this.a[i], this.a[p]];
-      i = p;
-    }
-  }
-  private down(i: number) {
-    const n = this.a.length;
-    while (true) {
-      let m = i;
-      const l = i * 2 + 1;
-      const r = l + 1;
-      if (l < n && this.a[l].k < this.a[m].k) m = l;
-      if (r < n && this.a[r].k < this.a[m].k) m = r;
-      if (m === i) break;
-      [this.a[m], this.a[i]] = [this.a[i], this.a[m]];
-      i = m;
-    }
-  }
-}
-
 function platformNode(pid: string): NodeKey {
   return `P:${pid}`;
 }
@@ -1265,7 +1303,7 @@ function buildGraph(
   options: Required<Pick<
     NavigationRailComputeOptions,
     'transferWalkSpeed' | 'railSpeed' | 'stationTransferCostDivisor' | 'normalSamePlatformTransferCost'
-  >>
+  >> & { lineServices?: LineServicesConfig | null }
 ): {
   graph: Graph;
   rideInfo: Map<NodeKey, RideNodeInfo>;
@@ -1275,6 +1313,14 @@ function buildGraph(
   const g: Graph = { nodes: new Set(), edgesFrom: new Map() };
   const rideInfo = new Map<NodeKey, RideNodeInfo>();
 
+  // 线路运营参数（按 RLE 缓存；未配置时全部为 null）
+  const serviceCache = new Map<Rle, ResolvedLineService | null>();
+  const serviceOf = (line: Rle): ResolvedLineService | null => {
+    if (!options.lineServices) return null;
+    if (!serviceCache.has(line)) serviceCache.set(line, resolveLineService(options.lineServices, line));
+    return serviceCache.get(line)!;
+  };
+
   // 车站归属：优先 STA.STBuilding（向上索引），再用 STB/SBP.Stations(stations) 向下补全
   const idx = buildStationBuildingIndex(stas, buildings);
   const stationToBuildings = idx.stationToBuildings;
@@ -1363,7 +1409,11 @@ function buildGraph(
       const to = rideNode(b.platformId, b.lineId);
 
       const dist = Math.max(0, b.m - a.m); // 单向：m 必须递增（若数据异常则 clamp）
-      const physicalTime = dist / Math.max(1e-6, options.railSpeed);
+      // 运营参数：线路巡航速度；停站时间计在驶离该站的边上（终到站不停站）
+      const service = serviceOf(a.line);
+      const speed = service?.speed ?? options.railSpeed;
+      const dwell = service && a.stopAllowed ? service.dwellSeconds : 0;
+      const physicalTime = dist / Math.max(1e-6, speed) + dwell;
       const coords = slicePolylineByMeasure(a.line, a.m, b.m);
 
       addEdge(g, {
@@ -1406,13 +1456,15 @@ function buildGraph(
     const canOut = asBool(info.ref.getout, true);
 
     if (canIn) {
+      const wait = serviceOf(info.line)?.expectedWaitSeconds ?? 0;
       addEdge(g, {
         from: pk,
         to: rk,
         kind: 'board',
         distance: 0,
-        timeSeconds: 0,
-        physicalTimeSeconds: 0,
+        timeSeconds: wait,
+        physicalTimeSeconds: wait,
+        waitSeconds: wait || undefined,
         transferInc: 0,
         lineId: info.line.lineId,
         lineName: info.line.lineName,
@@ -1596,6 +1648,14 @@ if (aDir === 4 && isMainlineDir(bDir)) {
           // samePlatformTransfer 显示并计换乘
         }
 
+        // 同台换乘需等下一班车：另加期望候车时间（直通/连接节点为同一列车，不候车）
+        let wait = 0;
+        if (transferType === 'samePlatformTransfer' && countsAsTransfer > 0) {
+          wait = serviceOf(B.line)?.expectedWaitSeconds ?? 0;
+          time += wait;
+          physTime += wait;
+        }
+
         addEdge(g, {
           from,
           to,
@@ -1606,6 +1666,7 @@ if (aDir === 4 && isMainlineDir(bDir)) {
           transferInc: countsAsTransfer,
           transferType,
           hidden,
+          waitSeconds: wait || undefined,
           lineId: B.line.lineId,
           lineName: B.line.lineName,
           color: B.line.color,
@@ -1629,24 +1690,53 @@ type DistState = {
   time: number;
   distance: number;
   transfers: number;
+  /** 偏好修正量（只影响比较用的 scalar，不计入展示的时间/距离） */
+  bias: number;
+};
+
+/**
+ * 边策略：由避让/偏好约束生成
+ * - filter：返回 false 的边不参与松弛
+ * - bias：附加到 scalar 的修正量（偏好为负，但保证单边总代价不为负）
+ */
+type EdgePolicy = {
+  filter?: (e: Edge) => boolean;
+  bias?: (e: Edge) => number;
+};
+
+type DijkstraOptions = {
+  /** 约束策略（避让/偏好） */
+  policy?: EdgePolicy;
+  /** 额外的边过滤（K 短路删边） */
+  edgeFilter?: (e: Edge) => boolean;
+  /** 禁止进入的节点（K 短路中 root path 上的节点） */
+  blockedNodes?: Set<NodeKey>;
+  /** 起点初始累计值（K 短路从 spur 节点续算时使用 root path 的累计值） */
+  init?: Omit<DistState, 'scalar'>;
 };
 
 function dijkstra(
   graph: Graph,
   startNodes: NodeKey[],
   isGoal: (n: NodeKey) => boolean,
-  mode: RailSearchMode
+  mode: RailSearchMode,
+  opts: DijkstraOptions = {}
 ): { goal: NodeKey | null; prev: Map<NodeKey, Prev>; dist: Map<NodeKey, DistState> } {
   const prev = new Map<NodeKey, Prev>();
   const dist = new Map<NodeKey, DistState>();
   const heap = new MinHeap<NodeKey>();
 
-  const init: DistState = { scalar: 0, time: 0, distance: 0, transfers: 0 };
+  const base = opts.init ?? { time: 0, distance: 0, transfers: 0, bias: 0 };
+  const init: DistState = {
+    ...base,
+    scalar: computeScalarWeight(mode, base.transfers, base.time, base.distance) + base.bias,
+  };
+  const policy = opts.policy ?? {};
 
   for (const s of startNodes) {
     dist.set(s, { ...init });
     prev.set(s, { prev: null, edge: null });
-    heap.push(0, s);
+    heap.push(init.scalar, s);
   }
 
   let goal: NodeKey | null = null;
@@ -1667,16 +1757,20 @@ function dijkstra(
 
     const outs = graph.edgesFrom.get(u) ?? [];
     for (const e of outs) {
+      if (opts.edgeFilter && !opts.edgeFilter(e)) continue;
+      if (policy.filter && !policy.filter(e)) continue;
       const v = e.to;
+      if (opts.blockedNodes?.has(v)) continue;
       const dv = dist.get(v);
 
       const time = du.time + e.timeSeconds;
       const distance = du.distance + e.distance;
       const transfers = du.transfers + (e.transferInc ?? 0);
-      const scalar = computeScalarWeight(mode, transfers, time, distance);
+      const bias = du.bias + (policy.bias ? policy.bias(e) : 0);
+      const scalar = computeScalarWeight(mode, transfers, time, distance) + bias;
 
       if (!dv || scalar < dv.scalar - 1e-12) {
-        dist.set(v, { scalar, time, distance, transfers });
+        dist.set(v, { scalar, time, distance, transfers, bias });
         prev.set(v, { prev: u, edge: e });
         heap.push(scalar, v);
       }
@@ -1686,6 +1780,347 @@ function dijkstra(
   return { goal, prev, dist };
 }
 
+// ------------------------------
+// K 短路（Yen）+ 备选方案去重
+// ------------------------------
+
+/** 虚拟起点：连向起点站体内所有 passenger 平台，使多源起点也能参与 Yen 的 spur 展开 */
+const VIRTUAL_SOURCE: NodeKey = '__SRC__';
+
+type FoundPath = {
+  edges: Edge[];
+  state: DistState;
+};
+
+function withVirtualSource(graph: Graph, startNodes: NodeKey[]): Graph {
+  const edgesFrom = new Map(graph.edgesFrom);
+  edgesFrom.set(
+    VIRTUAL_SOURCE,
+    startNodes.map((to) => ({
+      from: VIRTUAL_SOURCE,
+      to,
+      kind: 'board' as const,
+      distance: 0,
+      timeSeconds: 0,
+      physicalTimeSeconds: 0,
+      transferInc: 0,
+      hidden: true,
+    }))
+  );
+  return { nodes: graph.nodes, edgesFrom };
+}
+
+function accumulateEdges(edges: Edge[], policy: EdgePolicy): Omit<DistState, 'scalar'> {
+  let time = 0;
+  let distance = 0;
+  let transfers = 0;
+  let bias = 0;
+  for (const e of edges) {
+    time += e.timeSeconds;
+    distance += e.distance;
+    transfers += e.transferInc ?? 0;
+    if (policy.bias) bias += policy.bias(e);
+  }
+  return { time, distance, transfers, bias };
+}
+
+function sameEdgePrefix(a: Edge[], b: Edge[], len: number): boolean {
+  if (a.length < len || b.length < len) return false;
+  for (let i = 0; i < len; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+function edgePathKey(edges: Edge[]): string {
+  return edges.map((e) => `${e.from}>${e.to}`).join('|');
+}
+
+/**
+ * Yen 算法：按代价从小到大依次产出无环路径（调用方按需停止迭代）
+ * - source 通常为 VIRTUAL_SOURCE
+ * - 每条路径都在第一次到达终点平台时结束
+ */
+function* yenKShortestPaths(
+  graph: Graph,
+  source: NodeKey,
+  isGoal: (n: NodeKey) => boolean,
+  mode: RailSearchMode,
+  policy: EdgePolicy = {}
+): Generator<FoundPath> {
+  const first = dijkstra(graph, [source], isGoal, mode, { policy });
+  if (!first.goal) return;
+
+  const accepted: FoundPath[] = [
+    { edges: reconstructEdges(first.prev, first.goal), state: first.dist.get(first.goal)! },
+  ];
+  yield accepted[0];
+
+  const candidates: FoundPath[] = [];
+  const seen = new Set<string>([edgePathKey(accepted[0].edges)]);
+
+  while (true) {
+    const last = accepted[accepted.length - 1];
+    const nodes = [source, ...last.edges.map((e) => e.to)];
+
+    for (let i = 0; i < nodes.length - 1; i++) {
+      const spur = nodes[i];
+      const rootEdges = last.edges.slice(0, i);
+
+      // 删除：与当前 root path 相同前缀的已选路径，在 spur 处使用过的边
+      const removed = new Set<Edge>();
+      for (const p of accepted) {
+        if (p.edges.length > i && sameEdgePrefix(p.edges, rootEdges, i)) removed.add(p.edges[i]);
+      }
+
+      // 屏蔽：root path 上 spur 之前的节点（保证无环）
+      const blockedNodes = new Set(nodes.slice(0, i));
+
+      const r = dijkstra(graph, [spur], isGoal, mode, {
+        policy,
+        edgeFilter: (e) => !removed.has(e),
+        blockedNodes,
+        init: accumulateEdges(rootEdges, policy),
+      });
+      if (!r.goal) continue;
+
+      const edges = rootEdges.concat(reconstructEdges(r.prev, r.goal));
+      const key = edgePathKey(edges);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push({ edges, state: r.dist.get(r.goal)! });
+    }
+
+    if (candidates.length === 0) return;
+
+    candidates.sort((a, b) => a.state.scalar - b.state.scalar);
+    const next = candidates.shift()!;
+    accepted.push(next);
+    yield next;
+  }
+}
+
+/** 乘车线路序列（连续相同线路折叠），用于判断“换了站台但线路完全相同”的近似重复 */
+function rideLineSequence(edges: Edge[]): string {
+  const seq: string[] = [];
+  for (const e of edges) {
+    if (e.kind !== 'ride' || !e.lineId) continue;
+    if (seq[seq.length - 1] !== e.lineId) seq.push(e.lineId);
+  }
+  return seq.join('>');
+}
+
+/** 两条路径共用乘车区间的里程 / 较短一条的乘车里程 */
+function rideOverlapRatio(a: Edge[], b: Edge[]): number {
+  const rideA = a.filter((e) => e.kind === 'ride');
+  const rideB = b.filter((e) => e.kind === 'ride');
+  const keysB = new Set(rideB.map((e) => `${e.from}>${e.to}`));
+
+  let shared = 0;
+  let totalA = 0;
+  for (const e of rideA) {
+    totalA += e.distance;
+    if (keysB.has(`${e.from}>${e.to}`)) shared += e.distance;
+  }
+  let totalB = 0;
+  for (const e of rideB) totalB += e.distance;
+
+  const base = Math.min(totalA, totalB);
+  if (base <= 1e-9) return rideLineSequence(a) === rideLineSequence(b) ? 1 : 0;
+  return shared / base;
+}
+
+function isNearDuplicatePath(candidate: Edge[], chosen: Edge[][], overlapThreshold: number): boolean {
+  const seq = rideLineSequence(candidate);
+  for (const c of chosen) {
+    if (rideLineSequence(c) === seq) return true;
+    if (rideOverlapRatio(candidate, c) >= overlapThreshold) return true;
+  }
+  return false;
+}
+
+/**
+ * 搜索最多 k 条互不近似重复的方案（第 1 条即最优方案）
+ * - 第 2 条优先取另一目标（用时 ↔ 换乘）下的最优方案，保证“最快 / 少换乘”两种取舍都出现在备选中
+ * - 其余名额取主目标下的 Yen 偏离路径；每条 Yen 路径要做一轮 spur 搜索，
+ *   为避免在大量“仅换站台/换入口”的变体上空转，最多检查 ALTERNATIVE_SCAN_LIMIT 条
+ * - unwrap：分层图（途经约束）上的边映射回原图边，去重与输出都基于原图边
+ */
+const ALTERNATIVE_SCAN_LIMIT = 6;
+
+function searchDistinctPaths(
+  graph: Graph,
+  startNodes: NodeKey[],
+  isGoal: (n: NodeKey) => boolean,
+  mode: RailSearchMode,
+  k: number,
+  overlapThreshold: number,
+  policy: EdgePolicy = {},
+  unwrap?: (e: Edge) => Edge
+): FoundPath[] {
+  const want = Math.max(1, Math.floor(k));
+  const searchGraph = withVirtualSource(graph, startNodes);
+
+  const out: FoundPath[] = [];
+  const accept = (found: FoundPath) => {
+    const p = unwrap ? { edges: found.edges.map(unwrap), state: found.state } : found;
+    if (out.length === 0 || !isNearDuplicatePath(p.edges, out.map((x) => x.edges), overlapThreshold)) {
+      out.push(p);
+    }
+  };
+
+  const primary = yenKShortestPaths(searchGraph, VIRTUAL_SOURCE, isGoal, mode, policy);
+  const best = primary.next();
+  if (best.done) return out;
+  accept(best.value);
+
+  if (want > 1 && mode !== 'distance') {
+    const other: RailSearchMode = mode === 'time' ? 'transfers' : 'time';
+    const alt = yenKShortestPaths(searchGraph, VIRTUAL_SOURCE, isGoal, other, policy).next();
+    if (!alt.done) accept(alt.value);
+  }
+
+  for (let scanned = 1; out.length < want && scanned < ALTERNATIVE_SCAN_LIMIT; scanned++) {
+    const next = primary.next();
+    if (next.done) break;
+    accept(next.value);
+  }
+  return out;
+}
+
+// ------------------------------
+// 路线约束：避让 / 偏好 / 途经
+// ------------------------------
+
+function platformIdOfNode(n: NodeKey): string {
+  if (n.startsWith('P:')) return n.slice(2);
+  if (n.startsWith('R:')) {
+    const idx = n.indexOf('@@');
+    return idx >= 0 ? n.slice(2, idx) : n.slice(2);
+  }
+  return '';
+}
+
+function toIdSet(ids: string[] | undefined): Set<string> {
+  return new Set((ids ?? []).map((x) => str(x)).filter(Boolean));
+}
+
+function hasRouteConstraints(opt: RailRouteConstraintOptions): boolean {
+  const a = opt.avoid;
+  const p = opt.prefer;
+  return !!(
+    a?.lineIds?.length ||
+    a?.bureaus?.length ||
+    a?.stationIds?.length ||
+    a?.transferTypes?.length ||
+    p?.lineIds?.length ||
+    p?.bureaus?.length ||
+    p?.transferTypes?.length ||
+    opt.viaStationIds?.length
+  );
+}
+
+/**
+ * 由避让/偏好约束生成边策略
+ * - 避让线路/路局：不乘坐、不上车、不切入
+ * - 避让车站：该 STA 下所有平台节点均不可进出（含停站通过）
+ * - 避让换乘方式：仅过滤可见换乘（hidden 的同 STA 步行 / 连接节点切线不受影响）
+ * - 偏好：偏好边在比较时按 原代价 × factor 计（不改变展示的时间/距离）
+ */
+function buildEdgePolicy(
+  opt: RailRouteConstraintOptions,
+  platformToStation: Map<string, string>,
+  mode: RailSearchMode
+): EdgePolicy {
+  const avoidLines = toIdSet(opt.avoid?.lineIds);
+  const avoidBureaus = toIdSet(opt.avoid?.bureaus);
+  const avoidStations = toIdSet(opt.avoid?.stationIds);
+  const avoidTransfers = new Set<TransferType>(opt.avoid?.transferTypes ?? []);
+
+  const preferLines = toIdSet(opt.prefer?.lineIds);
+  const preferBureaus = toIdSet(opt.prefer?.bureaus);
+  const preferTransfers = new Set<TransferType>(opt.prefer?.transferTypes ?? []);
+  const factor = Math.max(0, Math.min(1, opt.prefer?.factor ?? 0.6));
+
+  const stationOfNode = (n: NodeKey): string | undefined => platformToStation.get(platformIdOfNode(n));
+
+  const policy: EdgePolicy = {};
+
+  if (avoidLines.size || avoidBureaus.size || avoidStations.size || avoidTransfers.size) {
+    policy.filter = (e) => {
+      if (e.lineId && (e.kind === 'ride' || e.kind === 'board' || e.kind === 'switch')) {
+        if (avoidLines.has(e.lineId)) return false;
+        if (e.bureau && avoidBureaus.has(e.bureau)) return false;
+      }
+      if (avoidStations.size) {
+        const sa = stationOfNode(e.from);
+        const sb = stationOfNode(e.to);
+        if ((sa && avoidStations.has(sa)) || (sb && avoidStations.has(sb))) return false;
+      }
+      if (e.transferType && !e.hidden && avoidTransfers.has(e.transferType)) return false;
+      return true;
+    };
+  }
+
+  if (factor < 1 && (preferLines.size || preferBureaus.size || preferTransfers.size)) {
+    const weightOf = (e: Edge) => (mode === 'distance' ? e.distance : e.timeSeconds);
+    policy.bias = (e) => {
+      let preferred = false;
+      if (e.kind === 'ride' && e.lineId) {
+        preferred = preferLines.has(e.lineId) || (!!e.bureau && preferBureaus.has(e.bureau));
+      } else if (e.transferType && !e.hidden) {
+        preferred = preferTransfers.has(e.transferType);
+      }
+      return preferred ? -(1 - factor) * weightOf(e) : 0;
+    };
+  }
+
+  return policy;
+}
+
+/**
+ * 途经约束：把图复制为 (途经数 + 1) 层
+ * - 第 k 层表示已按顺序经过前 k 个途经站；进入第 k 个途经站的平台节点即跳到第 k+1 层
+ * - 仅最后一层的终点平台视为终点
+ */
+function withViaLayers(
+  graph: Graph,
+  startNodes: NodeKey[],
+  isGoal: (n: NodeKey) => boolean,
+  viaPlatforms: Set<string>[]
+): { graph: Graph; startNodes: NodeKey[]; isGoal: (n: NodeKey) => boolean; unwrap: (e: Edge) => Edge } {
+  const layers = viaPlatforms.length;
+  const layered: Graph = { nodes: new Set(), edgesFrom: new Map() };
+  const original = new Map<Edge, Edge>();
+
+  const advance = (k: number, n: NodeKey): number => {
+    const pid = platformIdOfNode(n);
+    while (k < layers && viaPlatforms[k].has(pid)) k++;
+    return k;
+  };
+  const key = (k: number, n: NodeKey): NodeKey => `${k}|${n}`;
+
+  for (let k = 0; k <= layers; k++) {
+    for (const edges of graph.edgesFrom.values()) {
+      for (const e of edges) {
+        const le: Edge = { ...e, from: key(k, e.from), to: key(advance(k, e.to), e.to) };
+        original.set(le, e);
+        addEdge(layered, le);
+      }
+    }
+  }
+
+  return {
+    graph: layered,
+    startNodes: startNodes.map((n) => key(advance(0, n), n)),
+    isGoal: (n) => {
+      const i = n.indexOf('|');
+      return i >= 0 && Number(n.slice(0, i)) === layers && isGoal(n.slice(i + 1));
+    },
+    unwrap: (e) => original.get(e) ?? e,
+  };
+}
+
 // ------------------------------
 // 路径重建与分段输出（segments + overlay）
 // ------------------------------
@@ -1723,10 +2158,28 @@ function buildRailPlanOutput(args: {
   const usedLineChips: Array<{ lineName: string; color: string }> = [];
   const chipSet = new Set<string>();
 
+  // 候车时间挂到下一个 rail 段上（board / 同台换乘边携带）
+  let pendingWait = 0;
+
+  // 开往方向：ride 边沿 m 递增，取该线路 m 最大的可停靠站台所属车站
+  const terminusByLine = new Map<string, string>();
+  const terminusOf = (lineId: string): string => {
+    if (terminusByLine.has(lineId)) return terminusByLine.get(lineId)!;
+    let best: RideNodeInfo | null = null;
+    for (const info of rideInfo.values()) {
+      if (info.line.lineId !== lineId || !info.stopAllowed || info.isJunction) continue;
+      if (!best || info.m > best.m) best = info;
+    }
+    const name = best ? stationNameOfPlatform(best.platformId, stas, platformToStation) : '';
+    terminusByLine.set(lineId, name);
+    return name;
+  };
+
   // 归并 rail 段：连续 ride edges（同一条 lineId）合并
   let i = 0;
   while (i < edges.length) {
     const e = edges[i];
+    if (e.waitSeconds) pendingWait += e.waitSeconds;
 
     // 过滤 hidden transfer（不输出也不绘制）
     if ((e.kind === 'walk' || e.kind === 'switch') && e.hidden) {
@@ -1835,10 +2288,15 @@ function buildRailPlanOutput(args: {
         lines,
         fromStation: fromStation || '(未知车站)',
         toStation: toStation || '(未知车站)',
+        fromPlatform: fromRideInfo?.platform.platformName || undefined,
+        toPlatform: toRideInfo?.platform.platformName || undefined,
+        towards: terminusOf(lastRide.lineId!) || undefined,
         viaStations: via,
         distance: dist,
         timeSeconds: time,
+        waitSeconds: pendingWait > 0 ? pendingWait : undefined,
       });
+      pendingWait = 0;
 
       i = j;
       continue;
@@ -1909,9 +2367,18 @@ function buildRailPlanOutput(args: {
 // 主入口：计算两车站建筑之间铁路方案
 // ------------------------------
 
-export async function computeRailPlanBetweenBuildings(opt: NavigationRailComputeOptions): Promise<NavRailPlan> {
-  const mode: RailSearchMode = opt.mode ?? 'time';
+type RailSearchPrepareOptions = Omit<NavigationRailComputeOptions, 'startBuildingId' | 'endBuildingId'>;
+
+type RailSearchContext = {
+  stas: Map<string, Sta>;
+  buildings: Map<string, Building>;
+  graph: Graph;
+  rideInfo: Map<NodeKey, RideNodeInfo>;
+  buildingPlatforms: Map<string, string[]>;
+  platformToStation: Map<string, string>;
+};
 
+async function prepareRailSearch(opt: RailSearchPrepareOptions): Promise<RailSearchContext> {
   // 默认参数（可随时由 UI 调整）
   const transferWalkSpeed = opt.transferWalkSpeed ?? 1.2; // blocks/s
   const railSpeed = opt.railSpeed ?? 16; // blocks/s（按你的实际 Minecraft 设定可调）
@@ -1920,23 +2387,6 @@ export async function computeRailPlanBetweenBuildings(opt: NavigationRailCompute
 
   const { stas, plfs, rles, buildings } = await loadRuleParsed(opt.worldId, opt);
 
-  const startBuilding = buildings.get(opt.startBuildingId);
-  const endBuilding = buildings.get(opt.endBuildingId);
-
-  if (!startBuilding || !endBuilding) {
-    return {
-      ok: false,
-      reason: `未找到起点/终点车站建筑：start=${opt.startBuildingId} end=${opt.endBuildingId}`,
-      mode,
-      totalDistance: 0,
-      totalTimeSeconds: 0,
-      transferCount: 0,
-      segments: [],
-      overlay: { segments: [], allCoords: [] },
-      usedLineChips: [],
-    };
-  }
-
   const { occsByLine, platformToStation } = makeOccs(plfs, stas, rles);
 
   const { graph, rideInfo, buildingPlatforms } = buildGraph(
@@ -1945,73 +2395,163 @@ export async function computeRailPlanBetweenBuildings(opt: NavigationRailCompute
     stas,
     buildings,
     platformToStation,
-    { transferWalkSpeed, railSpeed, stationTransferCostDivisor, normalSamePlatformTransferCost }
+    {
+      transferWalkSpeed,
+      railSpeed,
+      stationTransferCostDivisor,
+      normalSamePlatformTransferCost,
+      lineServices: opt.lineServices,
+    }
   );
 
-  const startPlatforms = buildingPlatforms.get(startBuilding.id) ?? [];
-  const endPlatforms = new Set(buildingPlatforms.get(endBuilding.id) ?? []);
+  return { stas, buildings, graph, rideInfo, buildingPlatforms, platformToStation };
+}
 
-  if (startPlatforms.length === 0 || endPlatforms.size === 0) {
-    return {
-      ok: false,
-      reason:
-        `起点或终点车站建筑下未找到可用站台（请检查：` +
-        `STA.STBuilding（优先）/ STB|SBP.Stations(stations)（兜底） -> STA.platforms -> PLF.Situation/Connect）`,
-      mode,
-      totalDistance: 0,
-      totalTimeSeconds: 0,
-      transferCount: 0,
-      segments: [],
-      overlay: { segments: [], allCoords: [] },
-      usedLineChips: [],
-    };
-  }
+const CONSTRAINED_NO_ROUTE_REASON = '在当前避让/途经约束下未找到可行路线，请尝试放宽约束。';
+
+function emptyRailPlan(mode: RailSearchMode, reason: string): NavRailPlan {
+  return {
+    ok: false,
+    reason,
+    mode,
+    totalDistance: 0,
+    totalTimeSeconds: 0,
+    transferCount: 0,
+    segments: [],
+    overlay: { segments: [], allCoords: [] },
+    usedLineChips: [],
+  };
+}
+
+/**
+ * 在两车站建筑之间搜索方案（第 1 条为最优，其余为去重后的备选）
+ * - noPlatforms：起终站体下没有 passenger 平台
+ * - badVia：途经站不存在或没有平台
+ * - noRoute：图上不可达（constrained=true 表示启用了避让/途经约束）
+ */
+function searchRailPlans(
+  ctx: RailSearchContext,
+  startBuilding: Building,
+  endBuilding: Building,
+  mode: RailSearchMode,
+  opt: Pick<NavigationRailComputeOptions, 'alternatives' | 'alternativeOverlapThreshold'> & RailRouteConstraintOptions
+):
+  | { status: 'ok'; plans: NavRailPlan[] }
+  | { status: 'noPlatforms' }
+  | { status: 'badVia'; stationIds: string[] }
+  | { status: 'noRoute'; constrained: boolean } {
+  const startPlatforms = ctx.buildingPlatforms.get(startBuilding.id) ?? [];
+  const endPlatforms = new Set(ctx.buildingPlatforms.get(endBuilding.id) ?? []);
+
+  if (startPlatforms.length === 0 || endPlatforms.size === 0) return { status: 'noPlatforms' };
+
+  const viaIds = (opt.viaStationIds ?? []).map((x) => str(x)).filter(Boolean);
+  const viaPlatforms = viaIds.map((id) => new Set(ctx.stas.get(id)?.platformIds ?? []));
+  const badVia = viaIds.filter((_, i) => viaPlatforms[i].size === 0);
+  if (badVia.length) return { status: 'badVia', stationIds: badVia };
 
   // 多源起点：从 start building 的 passenger 平台节点开始
-  const startNodes = startPlatforms.map(platformNode);
+  let startNodes = startPlatforms.map(platformNode);
 
   // 终点：到达 end building 的任一 passenger 平台节点即可
-  const isGoal = (n: NodeKey) => n.startsWith('P:') && endPlatforms.has(n.slice(2));
+  let isGoal = (n: NodeKey) => n.startsWith('P:') && endPlatforms.has(n.slice(2));
+
+  let graph = ctx.graph;
+  let unwrap: ((e: Edge) => Edge) | undefined;
+  if (viaPlatforms.length) {
+    const layered = withViaLayers(graph, startNodes, isGoal, viaPlatforms);
+    graph = layered.graph;
+    startNodes = layered.startNodes;
+    isGoal = layered.isGoal;
+    unwrap = layered.unwrap;
+  }
 
-  const { goal, prev, dist } = dijkstra(graph, startNodes, isGoal, mode);
+  const paths = searchDistinctPaths(
+    graph,
+    startNodes,
+    isGoal,
+    mode,
+    opt.alternatives ?? 1,
+    opt.alternativeOverlapThreshold ?? 0.7,
+    buildEdgePolicy(opt, ctx.platformToStation, mode),
+    unwrap
+  );
+
+  if (paths.length === 0) return { status: 'noRoute', constrained: hasRouteConstraints(opt) };
+
+  const plans = paths.map(({ edges, state }): NavRailPlan => {
+    const built = buildRailPlanOutput({
+      edges,
+      rideInfo: ctx.rideInfo,
+      stas: ctx.stas,
+      platformToStation: ctx.platformToStation,
+    });
 
-  if (!goal) {
     return {
-      ok: false,
-      reason:
-        `未找到可行路线（请检查：PLF.Situation/Available、线路单向、` +
-        `换乘归属（优先 STA.STBuilding / 兜底 STB|SBP.Stations(stations)）、` +
-        `getin/getout/Overtaking/NextOT）`,
+      ok: true,
       mode,
-      totalDistance: 0,
-      totalTimeSeconds: 0,
-      transferCount: 0,
-      segments: [],
-      overlay: { segments: [], allCoords: [] },
-      usedLineChips: [],
+      totalDistance: state.distance,
+      totalTimeSeconds: state.time,
+      transferCount: state.transfers,
+      segments: built.segments,
+      overlay: built.overlay,
+      usedLineChips: built.usedLineChips,
     };
+  });
+
+  return { status: 'ok', plans };
+}
+
+/**
+ * 计算两车站建筑之间的前 K 条方案（K = opt.alternatives，默认 1）
+ * - 失败时返回仅含一条 ok=false 方案的数组
+ */
+export async function computeRailPlansBetweenBuildings(opt: NavigationRailComputeOptions): Promise<NavRailPlan[]> {
+  const mode: RailSearchMode = opt.mode ?? 'time';
+
+  const ctx = await prepareRailSearch(opt);
+
+  const startBuilding = ctx.buildings.get(opt.startBuildingId);
+  const endBuilding = ctx.buildings.get(opt.endBuildingId);
+
+  if (!startBuilding || !endBuilding) {
+    return [emptyRailPlan(mode, `未找到起点/终点车站建筑：start=${opt.startBuildingId} end=${opt.endBuildingId}`)];
   }
 
-  const edges = reconstructEdges(prev, goal);
-  const ds = dist.get(goal)!;
+  const result = searchRailPlans(ctx, startBuilding, endBuilding, mode, opt);
 
-  const built = buildRailPlanOutput({
-    edges,
-    rideInfo,
-    stas,
-    platformToStation,
-  });
+  if (result.status === 'noPlatforms') {
+    return [
+      emptyRailPlan(
+        mode,
+        `起点或终点车站建筑下未找到可用站台（请检查：` +
+          `STA.STBuilding（优先）/ STB|SBP.Stations(stations)（兜底） -> STA.platforms -> PLF.Situation/Connect）`
+      ),
+    ];
+  }
 
-  return {
-    ok: true,
-    mode,
-    totalDistance: ds.distance,
-    totalTimeSeconds: ds.time,
-    transferCount: ds.transfers,
-    segments: built.segments,
-    overlay: built.overlay,
-    usedLineChips: built.usedLineChips,
-  };
+  if (result.status === 'badVia') {
+    return [emptyRailPlan(mode, `途经车站不存在或没有可用站台：${result.stationIds.join(', ')}`)];
+  }
+
+  if (result.status === 'noRoute') {
+    if (result.constrained) return [emptyRailPlan(mode, CONSTRAINED_NO_ROUTE_REASON)];
+    return [
+      emptyRailPlan(
+        mode,
+        `未找到可行路线（请检查：PLF.Situation/Available、线路单向、` +
+          `换乘归属（优先 STA.STBuilding / 兜底 STB|SBP.Stations(stations)）、` +
+          `getin/getout/Overtaking/NextOT）`
+      ),
+    ];
+  }
+
+  return result.plans;
+}
+
+export async function computeRailPlanBetweenBuildings(opt: NavigationRailComputeOptions): Promise<NavRailPlan> {
+  const plans = await computeRailPlansBetweenBuildings({ ...opt, alternatives: 1 });
+  return plans[0];
 }
 
 /**
@@ -2064,17 +2604,13 @@ export type NavRailNewIntegratedPlan = NavRailPlan & {
  * - 起终点若不在站体内，则先走到最近站体代表点（STB centroid / SBP coordinate）
  * - 车站归属优先使用 STA.STBuilding（向上索引），再用 STB|SBP.Stations(stations) 兜底补全
  * - 之后在 PLF+RLE 有向图上运行最短路（与 Navigation_Rail.ts 保持一致）
+ * - 返回前 K 条方案（K = opt.alternatives，默认 1）；失败时返回仅含一条 ok=false 方案的数组
  */
-export async function computeRailPlanFromCoords(opt: NavigationRailNewIntegratedComputeOptions): Promise<NavRailNewIntegratedPlan> {
+export async function computeRailPlansFromCoords(opt: NavigationRailNewIntegratedComputeOptions): Promise<NavRailNewIntegratedPlan[]> {
   const mode: RailSearchMode = opt.mode ?? 'time';
 
-  // 默认参数（可随时由 UI 调整）
-  const transferWalkSpeed = opt.transferWalkSpeed ?? 1.2; // blocks/s
-  const railSpeed = opt.railSpeed ?? 16; // blocks/s
-  const stationTransferCostDivisor = opt.stationTransferCostDivisor ?? 10;
-  const normalSamePlatformTransferCost = opt.normalSamePlatformTransferCost ?? 30; // seconds
-
-  const { stas, plfs, rles, buildings } = await loadRuleParsed(opt.worldId, opt);
+  const ctx = await prepareRailSearch(opt);
+  const { buildings } = ctx;
 
   const startBuilding =
     (opt.startBuildingId ? buildings.get(opt.startBuildingId) : null) ?? nearestBuildingForCoord(buildings, opt.startCoord);
@@ -2082,105 +2618,141 @@ export async function computeRailPlanFromCoords(opt: NavigationRailNewIntegrated
     (opt.endBuildingId ? buildings.get(opt.endBuildingId) : null) ?? nearestBuildingForCoord(buildings, opt.endCoord);
 
   if (!startBuilding || !endBuilding) {
-    return {
-      ok: false,
-      reason:
-        '未找到可用车站建筑（STB/SBP）用于起点或终点，请检查规则数据是否已加载，以及 STB/SBP 是否存在。',
-      mode,
-      totalDistance: 0,
-      totalTimeSeconds: 0,
-      transferCount: 0,
-      segments: [],
-      overlay: { segments: [], allCoords: [] },
-      usedLineChips: [],
-    };
+    return [
+      emptyRailPlan(
+        mode,
+        '未找到可用车站建筑（STB/SBP）用于起点或终点，请检查规则数据是否已加载，以及 STB/SBP 是否存在。'
+      ),
+    ];
   }
 
   // 计算输入点到站体代表点距离：若点在 STB 多边形内则距离=0
   const startD = startBuilding.polygon?.length ? distPointToPolygonXZ(opt.startCoord, startBuilding.polygon) : distXZ(opt.startCoord, startBuilding.representativePoint);
   const endD = endBuilding.polygon?.length ? distPointToPolygonXZ(opt.endCoord, endBuilding.polygon) : distXZ(opt.endCoord, endBuilding.representativePoint);
 
-  // ---- 以下核心逻辑与 computeRailPlanBetweenBuildings 保持一致 ----
+  const resolved = {
+    startResolvedBuilding: { id: startBuilding.id, name: startBuilding.name, point: startBuilding.representativePoint, distanceToInput: startD },
+    endResolvedBuilding: { id: endBuilding.id, name: endBuilding.name, point: endBuilding.representativePoint, distanceToInput: endD },
+    access: { startToBuildingDistance: startD, endToBuildingDistance: endD },
+  };
 
-  const { occsByLine, platformToStation } = makeOccs(plfs, stas, rles);
+  // ---- 以下核心逻辑与 computeRailPlansBetweenBuildings 保持一致 ----
 
-  const { graph, rideInfo, buildingPlatforms } = buildGraph(
-    occsByLine,
-    plfs,
-    stas,
-    buildings,
-    platformToStation,
-    { transferWalkSpeed, railSpeed, stationTransferCostDivisor, normalSamePlatformTransferCost }
-  );
+  const result = searchRailPlans(ctx, startBuilding, endBuilding, mode, opt);
 
-  const startPlatforms = buildingPlatforms.get(startBuilding.id) ?? [];
-  const endPlatforms = new Set(buildingPlatforms.get(endBuilding.id) ?? []);
+  if (result.status === 'noPlatforms') {
+    return [
+      {
+        ...emptyRailPlan(
+          mode,
+          '起点或终点车站建筑下未找到可用站台（请检查：STA.STBuilding（优先）/ STB|SBP.Stations(stations)（兜底） -> STA.platforms -> PLF.Situation/Connect）。'
+        ),
+        ...resolved,
+      },
+    ];
+  }
 
-  if (startPlatforms.length === 0 || endPlatforms.size === 0) {
-    return {
-      ok: false,
-      reason:
-        '起点或终点车站建筑下未找到可用站台（请检查：STA.STBuilding（优先）/ STB|SBP.Stations(stations)（兜底） -> STA.platforms -> PLF.Situation/Connect）。',
-      mode,
-      totalDistance: 0,
-      totalTimeSeconds: 0,
-      transferCount: 0,
-      segments: [],
-      overlay: { segments: [], allCoords: [] },
-      usedLineChips: [],
-      startResolvedBuilding: { id: startBuilding.id, name: startBuilding.name, point: startBuilding.representativePoint, distanceToInput: startD },
-      endResolvedBuilding: { id: endBuilding.id, name: endBuilding.name, point: endBuilding.representativePoint, distanceToInput: endD },
-      access: { startToBuildingDistance: startD, endToBuildingDistance: endD },
-    };
+  if (result.status === 'badVia') {
+    return [{ ...emptyRailPlan(mode, `途经车站不存在或没有可用站台：${result.stationIds.join(', ')}`), ...resolved }];
   }
 
-  // 多源起点：从 start building 的 passenger 平台节点开始
-  const startNodes = startPlatforms.map(platformNode);
+  if (result.status === 'noRoute') {
+    if (result.constrained) return [{ ...emptyRailPlan(mode, CONSTRAINED_NO_ROUTE_REASON), ...resolved }];
+    return [
+      {
+        ...emptyRailPlan(
+          mode,
+          '未找到可行路线（请检查：PLF.Situation/Available、线路单向、换乘归属链路（STA.STBuilding 优先 / STB|SBP.Stations(stations) 兜底）、getin/getout/Overtaking/NextOT）。'
+        ),
+        ...resolved,
+      },
+    ];
+  }
 
-  // 终点：到达 end building 的任一 passenger 平台节点即可
-  const isGoal = (n: NodeKey) => n.startsWith('P:') && endPlatforms.has(n.slice(2));
+  return result.plans.map((plan) => ({ ...plan, ...resolved }));
+}
 
-  const { goal, prev, dist } = dijkstra(graph, startNodes, isGoal, mode);
+export async function computeRailPlanFromCoords(opt: NavigationRailNewIntegratedComputeOptions): Promise<NavRailNewIntegratedPlan> {
+  const plans = await computeRailPlansFromCoords({ ...opt, alternatives: 1 });
+  return plans[0];
+}
 
-  if (!goal) {
-    return {
-      ok: false,
-      reason:
-        '未找到可行路线（请检查：PLF.Situation/Available、线路单向、换乘归属链路（STA.STBuilding 优先 / STB|SBP.Stations(stations) 兜底）、getin/getout/Overtaking/NextOT）。',
-      mode,
-      totalDistance: 0,
-      totalTimeSeconds: 0,
-      transferCount: 0,
-      segments: [],
-      overlay: { segments: [], allCoords: [] },
-      usedLineChips: [],
-      startResolvedBuilding: { id: startBuilding.id, name: startBuilding.name, point: startBuilding.representativePoint, distanceToInput: startD },
-      endResolvedBuilding: { id: endBuilding.id, name: endBuilding.name, point: endBuilding.representativePoint, distanceToInput: endD },
-      access: { startToBuildingDistance: startD, endToBuildingDistance: endD },
-    };
+
+// ------------------------------
+// 可达性（等时圈）：从任意坐标到每个车站建筑的最短时间
+// ------------------------------
+
+export type NavigationRailReachabilityOptions = RailSearchPrepareOptions & {
+  /** 出发坐标 */
+  originCoord: Coordinate;
+  /** 接驳速度（blocks/s）：起点 -> 起点站体、以及直接前往目标站体 */
+  accessSpeed: number;
+};
+
+export type RailReachabilityItem = {
+  buildingId: string;
+  name: string;
+  coord: Coordinate;
+  timeSeconds: number;
+  /** 是否需要乘车（否则直接步行/飞行更快） */
+  viaRail: boolean;
+};
+
+export type RailReachabilityResult = {
+  ok: boolean;
+  reason?: string;
+  originBuilding?: { id: string; name: string; point: Coordinate; distanceToInput: number };
+  /** 按 timeSeconds 升序 */
+  items: RailReachabilityItem[];
+};
+
+function distToBuildingXZ(p: Coordinate, b: Building): number {
+  return b.polygon?.length ? distPointToPolygonXZ(p, b.polygon) : distXZ(p, b.representativePoint);
+}
+
+/**
+ * 单源全图 Dijkstra：从起点最近的车站建筑出发，计算到每个车站建筑的到达时间
+ * - 以真实时间（physicalTimeSeconds）为权重：站内换乘的折扣只用于选路偏好，不应缩短等时圈
+ * - 每个站体取其任一平台的最早到达时间，并与“直接前往”的时间取较小值
+ */
+export async function computeRailReachabilityFromCoord(opt: NavigationRailReachabilityOptions): Promise<RailReachabilityResult> {
+  const ctx = await prepareRailSearch(opt);
+  const speed = Math.max(1e-6, opt.accessSpeed);
+
+  const origin = nearestBuildingForCoord(ctx.buildings, opt.originCoord);
+  if (!origin) {
+    return { ok: false, reason: '未找到可用车站建筑（STB/SBP），请检查规则数据是否已加载。', items: [] };
   }
 
-  const edges = reconstructEdges(prev, goal);
-  const ds = dist.get(goal)!;
+  const accessD = distToBuildingXZ(opt.originCoord, origin);
+  const startNodes = (ctx.buildingPlatforms.get(origin.id) ?? []).map(platformNode);
 
-  const built = buildRailPlanOutput({
-    edges,
-    rideInfo,
-    stas,
-    platformToStation,
+  const { dist } = dijkstra(ctx.graph, startNodes, () => false, 'time', {
+    policy: { bias: (e) => e.physicalTimeSeconds - e.timeSeconds },
+    init: { time: accessD / speed, distance: accessD, transfers: 0, bias: 0 },
   });
 
+  const items: RailReachabilityItem[] = [];
+  for (const b of ctx.buildings.values()) {
+    let railT = Number.POSITIVE_INFINITY;
+    for (const pid of ctx.buildingPlatforms.get(b.id) ?? []) {
+      const d = dist.get(platformNode(pid));
+      if (d && d.scalar < railT) railT = d.scalar;
+    }
+    const directT = distToBuildingXZ(opt.originCoord, b) / speed;
+    items.push({
+      buildingId: b.id,
+      name: b.name,
+      coord: b.representativePoint,
+      timeSeconds: Math.min(railT, directT),
+      viaRail: railT < directT - 1e-6,
+    });
+  }
+  items.sort((a, b) => a.timeSeconds - b.timeSeconds);
+
   return {
     ok: true,
-    mode,
-    totalDistance: ds.distance,
-    totalTimeSeconds: ds.time,
-    transferCount: ds.transfers,
-    segments: built.segments,
-    overlay: built.overlay,
-    usedLineChips: built.usedLineChips,
-    startResolvedBuilding: { id: startBuilding.id, name: startBuilding.name, point: startBuilding.representativePoint, distanceToInput: startD },
-    endResolvedBuilding: { id: endBuilding.id, name: endBuilding.name, point: endBuilding.representativePoint, distanceToInput: endD },
-    access: { startToBuildingDistance: startD, endToBuildingDistance: endD },
+    originBuilding: { id: origin.id, name: origin.name, point: origin.representativePoint, distanceToInput: accessD },
+    items,
   };
 }
@@ -0,0 +1,334 @@
+/**
+ * 铁路（新）路线约束编辑器
+ * - 线路/路局 chip：点击在「不限 → 避开 → 偏好」之间循环
+ * - 换乘方式：勾选即避开
+ * - 车站：避开车站（无序） / 途经车站（按添加顺序；多站行程中不适用，隐藏）
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, X, ArrowUp } from 'lucide-react';
+import {
+  listRailNewRouteOptionItems,
+  type RailNewRouteOptionItems,
+  type RailRouteConstraintOptions,
+  type TransferType,
+} from './Navigation_RailNewIntegrated';
+import AppButton from '@/components/ui/AppButton';
+
+type ChipState = 'none' | 'avoid' | 'prefer';
+
+const AVOIDABLE_TRANSFER_TYPES: Array<{ type: TransferType; label: string }> = [
+  { type: 'stationTransfer', label: '站内换乘' },
+  { type: 'samePlatformTransfer', label: '同台换乘' },
+  { type: 'mergeMainline', label: '并入主线' },
+  { type: 'leaveMainline', label: '并出主线' },
+  { type: 'enterConnector', label: '驶入联络线' },
+];
+
+const EMPTY_ITEMS: RailNewRouteOptionItems = { lines: [], bureaus: [], stations: [] };
+
+function nextChipState(s: ChipState): ChipState {
+  return s === 'none' ? 'avoid' : s === 'avoid' ? 'prefer' : 'none';
+}
+
+function chipClass(s: ChipState): string {
+  if (s === 'avoid') return 'border-red-300 bg-red-50 text-red-600 line-through';
+  if (s === 'prefer') return 'border-green-300 bg-green-50 text-green-700';
+  return 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50';
+}
+
+function without(arr: string[] | undefined, id: string): string[] {
+  return (arr ?? []).filter((x) => x !== id);
+}
+
+/** 空数组/空对象一律去掉，便于判断“是否启用约束” */
+function compactConstraints(v: RailRouteConstraintOptions): RailRouteConstraintOptions {
+  const out: RailRouteConstraintOptions = {};
+  const a = v.avoid ?? {};
+  const p = v.prefer ?? {};
+  const avoid = {
+    ...(a.lineIds?.length ? { lineIds: a.lineIds } : {}),
+    ...(a.bureaus?.length ? { bureaus: a.bureaus } : {}),
+    ...(a.stationIds?.length ? { stationIds: a.stationIds } : {}),
+    ...(a.transferTypes?.length ? { transferTypes: a.transferTypes } : {}),
+  };
+  const prefer = {
+    ...(p.lineIds?.length ? { lineIds: p.lineIds } : {}),
+    ...(p.bureaus?.length ? { bureaus: p.bureaus } : {}),
+    ...(p.transferTypes?.length ? { transferTypes: p.transferTypes } : {}),
+  };
+  if (Object.keys(avoid).length) out.avoid = avoid;
+  if (Object.keys(prefer).length) out.prefer = { ...prefer, ...(p.factor != null ? { factor: p.factor } : {}) };
+  if (v.viaStationIds?.length) out.viaStationIds = v.viaStationIds;
+  return out;
+}
+
+export function countRouteConstraints(v: RailRouteConstraintOptions): number {
+  const a = v.avoid;
+  const p = v.prefer;
+  return (
+    (a?.lineIds?.length ?? 0) +
+    (a?.bureaus?.length ?? 0) +
+    (a?.stationIds?.length ?? 0) +
+    (a?.transferTypes?.length ?? 0) +
+    (p?.lineIds?.length ?? 0) +
+    (p?.bureaus?.length ?? 0) +
+    (p?.transferTypes?.length ?? 0) +
+    (v.viaStationIds?.length ?? 0)
+  );
+}
+
+interface StationPickerProps {
+  stations: RailNewRouteOptionItems['stations'];
+  exclude: string[];
+  placeholder: string;
+  onPick: (stationId: string) => void;
+}
+
+function StationPicker({ stations, exclude, placeholder, onPick }: StationPickerProps) {
+  const [query, setQuery] = useState('');
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    const ex = new Set(exclude);
+    return stations.filter((s) => !ex.has(s.stationId) && s.stationName.toLowerCase().includes(q)).slice(0, 8);
+  }, [query, stations, exclude]);
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={placeholder}
+        className="w-full px-2 py-1 text-xs border rounded focus:outline-none focus:ring-1 focus:ring-blue-400"
+      />
+      {matches.length > 0 && (
+        <div className="absolute z-10 left-0 right-0 mt-0.5 bg-white border rounded shadow max-h-40 overflow-y-auto">
+          {matches.map((s) => (
+            <AppButton
+              key={s.stationId}
+              onClick={() => {
+                onPick(s.stationId);
+                setQuery('');
+              }}
+              className="w-full !justify-start px-2 py-1 text-xs text-gray-700 hover:bg-gray-100 !rounded-none"
+            >
+              {s.stationName}
+            </AppButton>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface RailRouteConstraintsEditorProps {
+  worldId: string;
+  value: RailRouteConstraintOptions;
+  onChange: (value: RailRouteConstraintOptions) => void;
+  // 是否提供「途经车站」（多站行程由站点列表表达途经点）
+  allowVia?: boolean;
+}
+
+export function RailRouteConstraintsEditor({ worldId, value, onChange, allowVia = true }: RailRouteConstraintsEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<RailNewRouteOptionItems>(EMPTY_ITEMS);
+
+  useEffect(() => {
+    let alive = true;
+    listRailNewRouteOptionItems({ worldId })
+      .then((r) => {
+        if (alive) setItems(r);
+      })
+      .catch((err) => {
+        console.error('[rail_new] listRailNewRouteOptionItems failed', err);
+        if (alive) setItems(EMPTY_ITEMS);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [worldId]);
+
+  const stationName = useMemo(() => {
+    const m = new Map(items.stations.map((s) => [s.stationId, s.stationName]));
+    return (id: string) => m.get(id) ?? id;
+  }, [items.stations]);
+
+  const emit = (v: RailRouteConstraintOptions) => onChange(compactConstraints(v));
+
+  const lineState = (id: string): ChipState =>
+    value.avoid?.lineIds?.includes(id) ? 'avoid' : value.prefer?.lineIds?.includes(id) ? 'prefer' : 'none';
+  const bureauState = (id: string): ChipState =>
+    value.avoid?.bureaus?.includes(id) ? 'avoid' : value.prefer?.bureaus?.includes(id) ? 'prefer' : 'none';
+
+  const cycleChip = (key: 'lineIds' | 'bureaus', id: string, current: ChipState) => {
+    const next = nextChipState(current);
+    const avoid = { ...value.avoid, [key]: without(value.avoid?.[key], id) };
+    const prefer = { ...value.prefer, [key]: without(value.prefer?.[key], id) };
+    if (next === 'avoid') avoid[key] = [...(avoid[key] ?? []), id];
+    if (next === 'prefer') prefer[key] = [...(prefer[key] ?? []), id];
+    emit({ ...value, avoid, prefer });
+  };
+
+  const toggleAvoidTransfer = (t: TransferType, checked: boolean) => {
+    const cur = (value.avoid?.transferTypes ?? []).filter((x) => x !== t);
+    emit({ ...value, avoid: { ...value.avoid, transferTypes: checked ? [...cur, t] : cur } });
+  };
+
+  const avoidStations = value.avoid?.stationIds ?? [];
+  const viaStations = value.viaStationIds ?? [];
+
+  const moveViaUp = (i: number) => {
+    if (i <= 0) return;
+    const next = viaStations.slice();
+    [next[i - 1], next[i]] = [next[i], next[i - 1]];
+    emit({ ...value, viaStationIds: next });
+  };
+
+  // 隐藏途经车站时保留其设置（切回单次导航仍生效），但不计入数量、不被清除
+  const count = countRouteConstraints(allowVia ? value : { ...value, viaStationIds: undefined });
+
+  return (
+    <div className="mt-2 border rounded">
+      <AppButton
+        onClick={() => setOpen((v) => !v)}
+        className="w-full !justify-between px-2 py-1.5 text-xs text-gray-600 hover:bg-gray-50 !rounded"
+      >
+        <span className="flex items-center gap-1">
+          {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+          路线约束
+          {count > 0 && <span className="px-1.5 rounded-full bg-blue-100 text-blue-600">{count}</span>}
+        </span>
+        {count > 0 && (
+          <span
+            role="button"
+            className="text-gray-400 hover:text-gray-600"
+            onClick={(e) => {
+              e.stopPropagation();
+              emit(allowVia ? {} : { viaStationIds: value.viaStationIds });
+            }}
+          >
+            清除
+          </span>
+        )}
+      </AppButton>
+
+      {open && (
+        <div className="px-2 pb-2 space-y-2 text-xs">
+          <div className="text-[11px] text-gray-400">点击线路/路局：不限 → 避开 → 偏好</div>
+
+          {items.bureaus.length > 0 && (
+            <div>
+              <div className="text-gray-500 mb-1">路局</div>
+              <div className="flex flex-wrap gap-1">
+                {items.bureaus.map((b) => {
+                  const s = bureauState(b);
+                  return (
+                    <AppButton
+                      key={b}
+                      onClick={() => cycleChip('bureaus', b, s)}
+                      className={`px-2 py-0.5 border !rounded ${chipClass(s)}`}
+                    >
+                      {b}
+                    </AppButton>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="text-gray-500 mb-1">线路</div>
+            <div className="flex flex-wrap gap-1 max-h-28 overflow-y-auto">
+              {items.lines.map((l) => {
+                const s = lineState(l.lineId);
+                return (
+                  <AppButton
+                    key={l.lineId}
+                    onClick={() => cycleChip('lineIds', l.lineId, s)}
+                    className={`px-2 py-0.5 border !rounded !gap-1 ${chipClass(s)}`}
+                    title={l.lineId}
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: l.color }} />
+                    {l.lineName}
+                  </AppButton>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-gray-500 mb-1">避开换乘方式</div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {AVOIDABLE_TRANSFER_TYPES.map(({ type, label }) => (
+                <label key={type} className="flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="w-3 h-3"
+                    checked={!!value.avoid?.transferTypes?.includes(type)}
+                    onChange={(e) => toggleAvoidTransfer(type, e.target.checked)}
+                  />
+                  <span className="text-gray-600">{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-gray-500 mb-1">避开车站</div>
+            <StationPicker
+              stations={items.stations}
+              exclude={avoidStations}
+              placeholder="搜索车站..."
+              onPick={(id) => emit({ ...value, avoid: { ...value.avoid, stationIds: [...avoidStations, id] } })}
+            />
+            {avoidStations.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {avoidStations.map((id) => (
+                  <span key={id} className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-red-50 text-red-600">
+                    {stationName(id)}
+                    <X
+                      className="w-3 h-3 cursor-pointer"
+                      onClick={() => emit({ ...value, avoid: { ...value.avoid, stationIds: without(avoidStations, id) } })}
+                    />
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {allowVia && (
+            <div>
+              <div className="text-gray-500 mb-1">途经车站（按顺序）</div>
+              <StationPicker
+                stations={items.stations}
+                exclude={viaStations}
+                placeholder="搜索车站..."
+                onPick={(id) => emit({ ...value, viaStationIds: [...viaStations, id] })}
+              />
+              {viaStations.length > 0 && (
+                <div className="space-y-0.5 mt-1">
+                  {viaStations.map((id, i) => (
+                    <div key={id} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">
+                      <span className="w-4 text-blue-400">{i + 1}.</span>
+                      <span className="flex-1 truncate">{stationName(id)}</span>
+                      {i > 0 && <ArrowUp className="w-3 h-3 cursor-pointer" onClick={() => moveViaUp(i)} />}
+                      <X
+                        className="w-3 h-3 cursor-pointer"
+                        onClick={() => emit({ ...value, viaStationIds: without(viaStations, id) })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RailRouteConstraintsEditor;
@@ -0,0 +1,329 @@
+/**
+ * 文字版导航指引（纯计算，不依赖 React）
+ * - fromRailPlan：规则铁路方案（NavRailPlan / NavRailNewIntegratedPlan）-> 分步指引
+ * - fromMultiModeResult：旧版多模式结果（MultiModePathResult）-> 分步指引
+ * - 输出三种格式：纯文本 / Markdown / 单行分享串（便于贴到聊天里）
+ */
+
+import type { Coordinate } from '@/types';
+import type { LineServiceLookup } from '@/lib/lineServices';
+import { calculateEstimatedTime, calculateWalkTime, estimateRailRuns, type MultiModePathResult } from '@/lib/pathfinding';
+import type { NavRailNewIntegratedPlan, NavRailSegmentRail, TransferType } from './Navigation_RailNewIntegrated';
+
+export type DirectionStepKind = 'access' | 'rail' | 'transfer' | 'walk' | 'teleport';
+
+export interface DirectionStep {
+  kind: DirectionStepKind;
+  /** 完整描述（纯文本 / Markdown 使用） */
+  text: string;
+  /** 精简描述（分享串使用） */
+  short: string;
+  /** rail 段线路名（Markdown 加粗） */
+  lineName?: string;
+  distance?: number;
+  timeSeconds?: number;
+}
+
+export interface RouteDirections {
+  from: string;
+  to: string;
+  totalTimeSeconds: number;
+  totalDistance: number;
+  transfers: number;
+  steps: DirectionStep[];
+}
+
+export function transferTypeLabel(t: TransferType): string {
+  switch (t) {
+    case 'stationTransfer':
+      return '站内换乘';
+    case 'samePlatformTransfer':
+      return '同台换乘';
+    case 'throughRun':
+      return '直通运行';
+    case 'mergeMainline':
+      return '并入主线';
+    case 'leaveMainline':
+      return '并出主线';
+    case 'enterConnector':
+      return '驶入联络线';
+    default:
+      return '换乘';
+  }
+}
+
+/** 时长文字：45秒 / 3分20秒 / 5分钟（导航面板与分步指引共用） */
+export function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds)) return '-';
+  // 先取整再拆分，避免出现「1分60秒」
+  const total = Math.round(seconds);
+  if (total < 60) return `${total}秒`;
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return secs > 0 ? `${mins}分${secs}秒` : `${mins}分钟`;
+}
+
+function formatDistance(blocks: number): string {
+  if (blocks >= 1000) return `${(blocks / 1000).toFixed(1)} km`;
+  return `${Math.round(blocks)} m`;
+}
+
+function formatCoord(c: Coordinate): string {
+  return `(${Math.round(c.x)}, ${Math.round(c.z)})`;
+}
+
+/** 站台名多为「xx站-4站台」形式，已带后缀时不再追加 */
+function platformLabel(platform: string): string {
+  return /站台$/.test(platform) ? platform : `${platform} 站台`;
+}
+
+function stationWithPlatform(station: string, platform?: string): string {
+  return platform ? `${station}（${platformLabel(platform)}）` : station;
+}
+
+/** 乘车段：在 A（Y 站台）乘坐 H-3 开往 X 方向，乘 5 站，在 Z 下车 */
+function railStep(args: {
+  lineName: string;
+  fromStation: string;
+  toStation: string;
+  stops: number;
+  fromPlatform?: string;
+  toPlatform?: string;
+  towards?: string;
+  distance: number;
+  timeSeconds: number;
+  waitSeconds?: number;
+}): DirectionStep {
+  const towards = args.towards && args.towards !== args.fromStation ? ` 开往${args.towards}方向` : '';
+  const wait = args.waitSeconds ? `（候车约 ${formatTime(args.waitSeconds)}）` : '';
+  return {
+    kind: 'rail',
+    lineName: args.lineName,
+    text:
+      `在 ${stationWithPlatform(args.fromStation, args.fromPlatform)} 乘坐 ${args.lineName}${towards}${wait}，` +
+      `乘 ${args.stops} 站，在 ${stationWithPlatform(args.toStation, args.toPlatform)} 下车`,
+    short: `${args.lineName} ${args.fromStation}→${args.toStation}(${args.stops}站)`,
+    distance: args.distance,
+    timeSeconds: args.timeSeconds,
+  };
+}
+
+function accessStep(kind: 'access' | 'walk', distance: number, target: string, useElytra: boolean): DirectionStep {
+  const verb = useElytra ? '飞行' : '步行';
+  return {
+    kind,
+    text: `${verb} ${formatDistance(distance)} 至 ${target}`,
+    short: `${verb}${formatDistance(distance).replace(' ', '')}`,
+    distance,
+    timeSeconds: calculateWalkTime(distance, useElytra),
+  };
+}
+
+/** 停站数：viaStations 含首末站 */
+function stopCount(seg: NavRailSegmentRail): number {
+  return Math.max(1, (seg.viaStations?.length ?? 0) - 1);
+}
+
+/**
+ * 规则铁路方案 -> 分步指引
+ * - 接驳段取自 NavRailNewIntegratedPlan.access（纯 NavRailPlan 无接驳段）
+ * - 站内换乘的目标站台取下一段的上车站台
+ */
+export function directionsFromRailPlan(
+  plan: NavRailNewIntegratedPlan,
+  opt: { fromLabel: string; toLabel: string; useElytra: boolean }
+): RouteDirections {
+  const steps: DirectionStep[] = [];
+  const startD = plan.access?.startToBuildingDistance ?? plan.startResolvedBuilding?.distanceToInput ?? 0;
+  const endD = plan.access?.endToBuildingDistance ?? plan.endResolvedBuilding?.distanceToInput ?? 0;
+
+  if (startD > 0.01) {
+    steps.push(accessStep('access', startD, plan.startResolvedBuilding?.name ?? '车站', opt.useElytra));
+  }
+
+  plan.segments.forEach((seg, idx) => {
+    if (seg.kind === 'rail') {
+      const lineName = seg.lines.length > 1 ? seg.lines.map((l) => l.lineName).join('/') : seg.lines[0]?.lineName ?? '线路';
+      steps.push(
+        railStep({
+          lineName,
+          fromStation: seg.fromStation,
+          toStation: seg.toStation,
+          stops: stopCount(seg),
+          fromPlatform: seg.fromPlatform,
+          toPlatform: seg.toPlatform,
+          towards: seg.towards,
+          distance: seg.distance,
+          timeSeconds: seg.timeSeconds,
+          waitSeconds: seg.waitSeconds,
+        })
+      );
+      return;
+    }
+
+    const label = transferTypeLabel(seg.transferType);
+    const next = plan.segments.slice(idx + 1).find((s): s is NavRailSegmentRail => s.kind === 'rail');
+    let text: string;
+    switch (seg.transferType) {
+      case 'stationTransfer': {
+        const target = next?.fromPlatform ? platformLabel(next.fromPlatform) : next ? `${next.fromStation} 站台` : '下一站台';
+        text = seg.distance > 0.5 ? `${label}：步行 ${formatDistance(seg.distance)} 至 ${target}` : `${label}：前往 ${target}`;
+        break;
+      }
+      case 'samePlatformTransfer':
+        text = `在 ${seg.atStation} ${label}${next ? `，改乘 ${next.lines[0]?.lineName ?? ''}` : ''}`;
+        break;
+      default:
+        // 直通 / 并入并出主线 / 联络线：同一列车，无需下车
+        text = `${seg.atStation} ${label}，无需下车`;
+        break;
+    }
+    steps.push({
+      kind: 'transfer',
+      text,
+      short: seg.countsAsTransfer ? label : '',
+      distance: seg.distance,
+      timeSeconds: seg.timeSeconds,
+    });
+  });
+
+  if (endD > 0.01) {
+    steps.push(accessStep('access', endD, opt.toLabel, opt.useElytra));
+  }
+
+  const accessTime = (startD > 0.01 ? calculateWalkTime(startD, opt.useElytra) : 0) + (endD > 0.01 ? calculateWalkTime(endD, opt.useElytra) : 0);
+
+  return {
+    from: opt.fromLabel,
+    to: opt.toLabel,
+    totalTimeSeconds: (plan.totalTimeSeconds ?? 0) + accessTime,
+    totalDistance: (plan.totalDistance ?? 0) + startD + endD,
+    transfers: plan.transferCount ?? 0,
+    steps,
+  };
+}
+
+/**
+ * 旧版多模式结果 -> 分步指引
+ * - rail 段按 simplified（连续 lineId）拆成多次乘车，相邻两次之间视为换乘
+ * - 开往方向由线路站序推断（lineInfo 未提供站序时省略）
+ */
+export function directionsFromMultiModeResult(
+  result: MultiModePathResult,
+  opt: {
+    fromLabel: string;
+    toLabel: string;
+    useElytra: boolean;
+    lineInfo: (lineId: string) => { lineName: string; stations?: string[] };
+    services?: LineServiceLookup;
+  }
+): RouteDirections {
+  const steps: DirectionStep[] = [];
+  const segs = result.segments;
+
+  const nextTargetName = (idx: number): string => {
+    const next = segs[idx + 1];
+    if (!next) return opt.toLabel;
+    if (next.type === 'rail') return next.simplified[0]?.stations[0] ?? '车站';
+    if (next.type === 'teleport') return next.isReverse ? `#${next.torii.id} ${next.torii.name}` : formatCoord(next.torii.coord);
+    return formatCoord(next.to);
+  };
+
+  segs.forEach((seg, idx) => {
+    if (seg.type === 'walk') {
+      steps.push(accessStep('walk', seg.distance, nextTargetName(idx), opt.useElytra));
+      return;
+    }
+
+    if (seg.type === 'teleport') {
+      const isReverse = seg.isReverse || seg.destinationName === seg.torii.name;
+      const toName = isReverse ? `#${seg.torii.id} ${seg.torii.name}` : seg.destinationName;
+      steps.push({
+        kind: 'teleport',
+        text: `传送至 ${toName}${isReverse ? '（+30秒）' : ''}`,
+        short: `传送${toName}`,
+      });
+      return;
+    }
+
+    // 里程与时间与总时间（calculateEstimatedTime）同一口径
+    const estimates = estimateRailRuns(seg, opt.services);
+    seg.simplified.forEach((run, runIdx) => {
+      const info = opt.lineInfo(run.lineId);
+      const first = run.stations[0] ?? '';
+      const last = run.stations[run.stations.length - 1] ?? '';
+
+      if (runIdx > 0) {
+        const prevLast = seg.simplified[runIdx - 1].stations.slice(-1)[0] ?? '';
+        steps.push({
+          kind: 'transfer',
+          text: prevLast && prevLast !== first ? `步行换乘至 ${first}，改乘 ${info.lineName}` : `在 ${first} 换乘 ${info.lineName}`,
+          short: '换乘',
+        });
+      }
+
+      let towards: string | undefined;
+      const order = info.stations ?? [];
+      const a = order.indexOf(first);
+      const b = order.indexOf(last);
+      if (a >= 0 && b >= 0 && a !== b) towards = b > a ? order[order.length - 1] : order[0];
+
+      const estimate = estimates[runIdx];
+      steps.push(
+        railStep({
+          lineName: info.lineName,
+          fromStation: first,
+          toStation: last,
+          stops: Math.max(1, run.stations.length - 1),
+          towards,
+          distance: estimate.distance,
+          timeSeconds: estimate.rideSeconds,
+          waitSeconds: estimate.waitSeconds,
+        })
+      );
+    });
+  });
+
+  return {
+    from: opt.fromLabel,
+    to: opt.toLabel,
+    totalTimeSeconds: calculateEstimatedTime(result, opt.useElytra, opt.services),
+    totalDistance: result.totalWalkDistance + result.totalRailDistance,
+    transfers: result.totalTransfers,
+    steps,
+  };
+}
+
+function summaryLine(d: RouteDirections): string {
+  const parts = [`约 ${formatTime(d.totalTimeSeconds)}`, formatDistance(d.totalDistance)];
+  if (d.transfers > 0) parts.push(`换乘 ${d.transfers} 次`);
+  return parts.join(' · ');
+}
+
+/** 纯文本：标题 + 概要 + 编号步骤 */
+export function formatDirectionsText(d: RouteDirections): string {
+  const lines = [`${d.from} → ${d.to}`, summaryLine(d), ''];
+  d.steps.forEach((s, i) => lines.push(`${i + 1}. ${s.text}`));
+  lines.push(`${d.steps.length + 1}. 到达 ${d.to}`);
+  return lines.join('\n');
+}
+
+/** Markdown：线路名加粗，步骤为有序列表 */
+export function formatDirectionsMarkdown(d: RouteDirections): string {
+  const lines = [`### ${d.from} → ${d.to}`, '', `*${summaryLine(d)}*`, ''];
+  d.steps.forEach((s, i) => {
+    const text = s.lineName ? s.text.replace(s.lineName, `**${s.lineName}**`) : s.text;
+    lines.push(`${i + 1}. ${text}`);
+  });
+  lines.push(`${d.steps.length + 1}. 到达 ${d.to}`);
+  return lines.join('\n');
+}
+
+/** 单行分享串：A→B 约X｜H-3 A→Z(5站) › 站内换乘 › … */
+export function formatDirectionsShare(d: RouteDirections): string {
+  const body = d.steps
+    .map((s) => s.short)
+    .filter(Boolean)
+    .join(' › ');
+  return `${d.from}→${d.to} 约${formatTime(d.totalTimeSeconds)}｜${body}`;
+}
@@ -0,0 +1,146 @@
+/**
+ * 多站行程：纯计算辅助（不依赖 React）
+ * - optimizeStopOrder：起终点固定，重排中间站（最近邻 + 2-opt，按 XZ 直线距离估算）
+ * - mergeLegHighlights：把各段 RouteHighlightData 合并为一条多色行程高亮
+ */
+
+import type { Coordinate } from '@/types';
+import type { RouteHighlightData, RouteStationMarker, RouteStyledSegment } from '@/components/Map/RouteHighlightLayer';
+
+export type ItineraryEngine = 'rail_new' | 'auto';
+
+export interface ItineraryStop {
+  name: string;
+  coord: Coordinate;
+}
+
+export interface ItineraryLegResult {
+  found: boolean;
+  /** 失败原因（found=false） */
+  reason?: string;
+  timeSeconds: number;
+  distance: number;
+  transfers: number;
+  /** 用于面板的线路摘要 chip */
+  lineChips: Array<{ lineName: string; color: string }>;
+  highlight: RouteHighlightData | null;
+}
+
+export interface ItineraryResult {
+  found: boolean;
+  legs: ItineraryLegResult[];
+  totalTimeSeconds: number;
+  totalDistance: number;
+  totalTransfers: number;
+}
+
+function distXZ(a: Coordinate, b: Coordinate): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
+
+function tourLength<T extends ItineraryStop>(tour: T[]): number {
+  let s = 0;
+  for (let i = 1; i < tour.length; i++) s += distXZ(tour[i - 1].coord, tour[i].coord);
+  return s;
+}
+
+/**
+ * 重排中间站顺序（小规模 TSP 启发式）
+ * - 第一站与最后一站保持不动
+ * - 先最近邻构造，再做 2-opt 反转直到不再缩短
+ * - 代价用直线距离近似：逐对调用路径规划代价过高
+ */
+export function optimizeStopOrder<T extends ItineraryStop>(stops: T[]): T[] {
+  if (stops.length <= 3) return stops.slice();
+
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  const rest = stops.slice(1, -1);
+
+  // 最近邻
+  const tour: T[] = [first];
+  let cur = first;
+  while (rest.length) {
+    let bi = 0;
+    let bd = Infinity;
+    for (let i = 0; i < rest.length; i++) {
+      const d = distXZ(cur.coord, rest[i].coord);
+      if (d < bd) {
+        bd = d;
+        bi = i;
+      }
+    }
+    cur = rest.splice(bi, 1)[0];
+    tour.push(cur);
+  }
+  tour.push(last);
+
+  // 2-opt（端点固定：只反转 [i..j]，1 <= i < j <= n-2）
+  let best = tourLength(tour);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < tour.length - 2; i++) {
+      for (let j = i + 1; j < tour.length - 1; j++) {
+        const next = tour.slice(0, i).concat(tour.slice(i, j + 1).reverse(), tour.slice(j + 1));
+        const len = tourLength(next);
+        if (len < best - 1e-9) {
+          tour.splice(0, tour.length, ...next);
+          best = len;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return tour;
+}
+
+/** 汇总各段：任一段失败即整体 found=false，但仍保留成功段用于展示 */
+export function summarizeItinerary(legs: ItineraryLegResult[]): ItineraryResult {
+  return {
+    found: legs.length > 0 && legs.every((l) => l.found),
+    legs,
+    totalTimeSeconds: legs.reduce((s, l) => s + (l.found ? l.timeSeconds : 0), 0),
+    totalDistance: legs.reduce((s, l) => s + (l.found ? l.distance : 0), 0),
+    totalTransfers: legs.reduce((s, l) => s + (l.found ? l.transfers : 0), 0),
+  };
+}
+
+/**
+ * 合并各段高亮
+ * - 线段直接拼接（各段已按线路 color 上色）
+ * - 各段自带的起终点 marker 去掉，统一换成：起点 / 第 N 站 / 终点
+ */
+export function mergeLegHighlights(legs: ItineraryLegResult[], stops: ItineraryStop[]): RouteHighlightData | null {
+  const styledSegments: RouteStyledSegment[] = [];
+  const stationMarkers: RouteStationMarker[] = [];
+
+  for (const leg of legs) {
+    if (!leg.highlight) continue;
+    styledSegments.push(...leg.highlight.styledSegments);
+    for (const m of leg.highlight.stationMarkers ?? []) {
+      if (m.kind !== 'start' && m.kind !== 'end') stationMarkers.push(m);
+    }
+  }
+
+  if (styledSegments.length === 0 || stops.length < 2) return null;
+
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+
+  stationMarkers.push({ kind: 'start', coord: first.coord, label: `起点 ${first.name}`, color: '#2563eb', radius: 6 });
+  stops.slice(1, -1).forEach((s, i) => {
+    stationMarkers.push({ kind: 'transfer', coord: s.coord, label: `第${i + 1}站 ${s.name}`, color: '#f59e0b', radius: 6 });
+  });
+  stationMarkers.push({ kind: 'end', coord: last.coord, label: `终点 ${last.name}`, color: '#ef4444', radius: 6 });
+
+  return {
+    styledSegments,
+    stationMarkers,
+    startCoord: first.coord,
+    endCoord: last.coord,
+    startLabel: '起点',
+    endLabel: '终点',
+  };
+}
@@ -3,16 +3,22 @@
  * 展示选中玩家的详细信息及附近信息
  */
 
-import { X, User, Heart, Shield, Train, Home } from 'lucide-react';
+import { X, User, Heart, Shield, Train, Home, Gauge, Locate, LocateFixed } from 'lucide-react';
 import type { Player, ParsedStation } from '@/types';
 import type { ParsedLandmark } from '@/lib/landmarkParser';
+import { estimateSpeed, type PlayerSample } from '@/store/playerStore';
+import { formatRideEta, type PlayerRide } from '@/components/Players/rideDetection';
 import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
 
 interface PlayerDetailCardProps {
   player: Player;
+  history?: PlayerSample[]; // 最近的位置历史（用于速度估算）
+  ride?: PlayerRide | null; // 正在乘坐的线路（推断）
   nearbyStations: ParsedStation[];
   nearbyLandmarks: ParsedLandmark[];
+  following?: boolean;          // 是否处于跟随模式
+  onToggleFollow?: () => void;
   onClose: () => void;
   onStationClick?: (station: ParsedStation) => void;
   onLandmarkClick?: (landmark: ParsedLandmark) => void;
@@ -27,8 +33,12 @@ function getDistance(a: { x: number; z: number }, b: { x: number; z: number }):
 
 export function PlayerDetailCard({
   player,
+  history,
+  ride,
   nearbyStations,
   nearbyLandmarks,
+  following = false,
+  onToggleFollow,
   onClose,
   onStationClick,
   onLandmarkClick,
@@ -42,6 +52,9 @@ export function PlayerDetailCard({
   // 护甲条 (满护甲20)
   const armorPercent = (player.armor / 20) * 100;
 
+  // 水平速度（blocks/s），需至少两次位置更新
+  const speed = estimateSpeed(history);
+
   return (
     <AppCard className="w-full sm:w-72 max-h-[60vh] flex flex-col">
       {/* 头部 */}
@@ -55,16 +68,48 @@ export function PlayerDetailCard({
             X: {Math.round(player.x)}, Y: {Math.round(player.y)}, Z: {Math.round(player.z)}
           </p>
         </div>
-        <AppButton
-          onClick={onClose}
-          className="text-white/80 hover:text-white p-1"
-        >
-          <X className="w-5 h-5" />
-        </AppButton>
+        <div className="flex items-center gap-1">
+          {onToggleFollow && (
+            <AppButton
+              onClick={onToggleFollow}
+              className={`p-1 rounded ${following ? 'bg-white/25 text-white' : 'text-white/80 hover:text-white'}`}
+              title={following ? '停止跟随' : '跟随玩家（拖动地图即退出）'}
+            >
+              {following ? <LocateFixed className="w-5 h-5" /> : <Locate className="w-5 h-5" />}
+            </AppButton>
+          )}
+          <AppButton
+            onClick={onClose}
+            className="text-white/80 hover:text-white p-1"
+          >
+            <X className="w-5 h-5" />
+          </AppButton>
+        </div>
       </div>
 
       {/* 详情内容 */}
       <div className="flex-1 overflow-y-auto">
+        {/* 乘车状态 */}
+        {ride && (
+          <div className="px-4 py-3 border-b bg-cyan-50">
+            <div className="flex items-center gap-2 text-sm text-gray-800">
+              <Train className="w-4 h-4 text-cyan-600" />
+              <span>乘坐</span>
+              <span
+                className="px-1.5 py-0.5 rounded text-xs text-white font-medium"
+                style={{ backgroundColor: ride.line.color }}
+              >
+                {ride.lineName}
+              </span>
+              <span className="truncate">往 {ride.towards.name}</span>
+            </div>
+            <div className="flex items-center justify-between mt-1 text-xs text-gray-600">
+              <span className="truncate">下一站 <span className="font-medium text-gray-800">{ride.nextStation.name}</span></span>
+              <span className="ml-2 flex-shrink-0">{formatRideEta(ride.etaSeconds)}</span>
+            </div>
+          </div>
+        )}
+
         {/* 状态信息 */}
         <div className="px-4 py-3 border-b">
           {/* 生命值 */}
@@ -85,7 +130,7 @@ export function PlayerDetailCard({
           </div>
 
           {/* 护甲值 */}
-          <div>
+          <div className="mb-3">
             <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
               <Shield className="w-4 h-4 text-blue-500" />
               <span>护甲值</span>
@@ -100,6 +145,15 @@ export function PlayerDetailCard({
               />
             </div>
           </div>
+
+          {/* 移动速度 */}
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Gauge className="w-4 h-4 text-cyan-500" />
+            <span>速度</span>
+            <span className="ml-auto text-gray-800 font-medium">
+              {speed === null ? '测量中…' : speed < 0.1 ? '静止' : `${speed.toFixed(1)} 格/秒`}
+            </span>
+          </div>
         </div>
 
         {/* 附近站点 */}
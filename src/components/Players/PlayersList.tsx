@@ -4,10 +4,12 @@
  * 以模态框形式展示在左侧面板下方
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { X, MapPin, Navigation, RefreshCw, Users } from 'lucide-react';
+import { useMemo } from 'react';
+import { X, MapPin, Navigation, RefreshCw, Users, Train } from 'lucide-react';
 import type { Player } from '@/types';
-import { fetchPlayers } from '@/lib/playerApi';
+import { usePlayerStore, useWorldPlayers } from '@/store/playerStore';
+import { useDataStore } from '@/store/dataStore';
+import { detectPlayerRide, formatRideEta, type PlayerRide } from './rideDetection';
 import { getPlayerAvatarUrl } from '@/components/Map/PlayerLayer';
 import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
@@ -25,24 +27,16 @@ export function PlayersList({
   onPlayerSelect,
   onNavigateToPlayer,
 }: PlayersListProps) {
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  // 加载玩家数据
-  const loadPlayers = useCallback(async () => {
-    const data = await fetchPlayers(worldId);
-    setPlayers(data);
-    setLoading(false);
-  }, [worldId]);
-
-  // 初始加载和自动刷新
-  useEffect(() => {
-    loadPlayers();
-
-    // 5秒自动刷新
-    const interval = setInterval(loadPlayers, 5000);
-    return () => clearInterval(interval);
-  }, [loadPlayers]);
+  // 与玩家图层共享轮询
+  const { players, history, isLoading, lastUpdated } = useWorldPlayers(worldId);
+  const lines = useDataStore((s) => s.worldData[worldId]?.lines);
+  const refresh = usePlayerStore((s) => s.refresh);
+  const loading = isLoading || lastUpdated === null;
+  // 乘车识别只在轨迹或线路变化时重算
+  const rides = useMemo(
+    () => new Map(players.map((p) => [p.name, detectPlayerRide(history[p.name], lines)])),
+    [players, history, lines]
+  );
 
   return (
     <AppCard className="w-full sm:w-72 max-h-[50vh] flex flex-col">
@@ -57,7 +51,7 @@ export function PlayersList({
         </div>
         <div className="flex items-center gap-1">
           <AppButton
-            onClick={loadPlayers}
+            onClick={() => refresh(worldId)}
             disabled={loading}
             className={`p-1.5 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-600 ${loading ? 'animate-spin' : ''}`}
             title="刷新"
@@ -88,6 +82,7 @@ export function PlayersList({
                 key={player.name}
                 player={player}
                 worldId={worldId}
+                ride={rides.get(player.name) ?? null}
                 onSelect={onPlayerSelect}
                 onNavigate={onNavigateToPlayer}
               />
@@ -103,11 +98,12 @@ export function PlayersList({
 interface PlayerItemProps {
   player: Player;
   worldId: string;
+  ride: PlayerRide | null; // 正在乘坐的线路（推断）
   onSelect?: (player: Player) => void;
   onNavigate?: (player: Player) => void;
 }
 
-function PlayerItem({ player, worldId, onSelect, onNavigate }: PlayerItemProps) {
+function PlayerItem({ player, worldId, ride, onSelect, onNavigate }: PlayerItemProps) {
   const avatarUrl = getPlayerAvatarUrl(player.name, 32, worldId);
 
   // 生命值百分比
@@ -150,6 +146,15 @@ function PlayerItem({ player, worldId, onSelect, onNavigate }: PlayerItemProps)
             {Math.round(player.x)}, {Math.round(player.z)}
           </span>
         </div>
+        {/* 乘车状态 */}
+        {ride && (
+          <div className="flex items-center gap-1 mt-0.5 text-[10px] text-gray-500 min-w-0">
+            <Train className="w-3 h-3 flex-shrink-0" style={{ color: ride.line.color }} />
+            <span className="truncate">
+              {ride.lineName} 往 {ride.towards.name} · 下一站 {ride.nextStation.name} {formatRideEta(ride.etaSeconds)}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* 操作按钮 */}
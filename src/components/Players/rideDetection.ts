@@ -0,0 +1,180 @@
+/**
+ * 玩家乘车识别
+ * 用最近的位置历史与线路走向（edgePaths / 站点坐标）比对，推断玩家正在乘坐的线路、方向、下一站与到站时间
+ */
+
+import type { Coordinate, ParsedLine, ParsedStation, PathSegment } from '@/types';
+import type { PlayerSample } from '@/store/playerStore';
+import {
+  buildCumLen,
+  projectPointToPolylineMeasure,
+  type MeasuredPolyline,
+} from '@/components/Navigation/Navigation_RailNewIntegrated';
+
+// 玩家到线路的最大偏离（方块）
+const RIDE_TOLERANCE = 8;
+// 判定为乘车的最低沿线速度（blocks/s）：高于步行 / 疾跑
+const MIN_RIDE_SPEED = 6;
+// 比较区间：取最近 MAX_WINDOW 内、至少移动 MIN_MOVE 的较早采样
+const MAX_WINDOW = 30000;
+const MIN_MOVE = 8;
+// 沿线位移至少占直线位移的比例（排除横穿线路）
+const MIN_ALONG_RATIO = 0.6;
+// 已到达（或刚驶过）站点的判定距离
+const STATION_PASS_DISTANCE = 4;
+
+export interface PlayerRide {
+  line: ParsedLine;
+  lineName: string;
+  towards: ParsedStation;      // 行驶方向的终点站
+  nextStation: ParsedStation;
+  distanceToNext: number;      // 沿线距离（方块）
+  etaSeconds: number;          // 按当前速度估算
+  speed: number;               // 沿线速度（blocks/s）
+}
+
+interface LineGeometry extends MeasuredPolyline {
+  stationMeasures: number[];   // 与 line.stations 等长
+}
+
+// 线路几何缓存（ParsedLine 对象在数据刷新前不变）
+const geometryCache = new WeakMap<ParsedLine, LineGeometry | null>();
+
+function sampleSegment(segment: PathSegment, steps: number = 8): Coordinate[] {
+  if (segment.type !== 'quadratic' || segment.points.length < 3) return segment.points;
+  const [p0, p1, p2] = segment.points;
+  const out: Coordinate[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const mt = 1 - t;
+    out.push({
+      x: mt * mt * p0.x + 2 * mt * t * p1.x + t * t * p2.x,
+      y: mt * mt * (p0.y ?? 64) + 2 * mt * t * (p1.y ?? 64) + t * t * (p2.y ?? 64),
+      z: mt * mt * p0.z + 2 * mt * t * p1.z + t * t * p2.z,
+    });
+  }
+  return out;
+}
+
+function getLineGeometry(line: ParsedLine): LineGeometry | null {
+  if (geometryCache.has(line)) return geometryCache.get(line)!;
+
+  let geometry: LineGeometry | null = null;
+  if (line.stations.length >= 2) {
+    const points: Coordinate[] = [];
+    const boundaries: number[] = []; // 每个站点对应的 points 下标
+    const edges = line.edgePaths && line.edgePaths.length === line.stations.length - 1 ? line.edgePaths : null;
+
+    for (let i = 0; i < line.stations.length - 1; i++) {
+      const edgePoints = edges ? edges[i].segments.flatMap((seg) => sampleSegment(seg)) : [];
+      boundaries.push(points.length);
+      // 边路径缺失时按站点直线连接；相邻边路径首尾不完全重合时自然连成短线段
+      points.push(...(edgePoints.length >= 2 ? edgePoints : [line.stations[i].coord, line.stations[i + 1].coord]));
+    }
+    boundaries.push(points.length - 1);
+
+    const cumlen = buildCumLen(points);
+    geometry = {
+      points,
+      cumlen,
+      totalLen: cumlen[cumlen.length - 1],
+      stationMeasures: boundaries.map((idx) => cumlen[idx]),
+    };
+  }
+
+  geometryCache.set(line, geometry);
+  return geometry;
+}
+
+function lineDisplayName(line: ParsedLine): string {
+  return line.bureau === 'RMP' ? line.line : `${line.bureau}-${line.line}`;
+}
+
+/**
+ * 推断玩家正在乘坐的线路；未在乘车（静止、步行、偏离线路）时返回 null
+ */
+export function detectPlayerRide(
+  samples: PlayerSample[] | undefined,
+  lines: ParsedLine[] | undefined
+): PlayerRide | null {
+  if (!samples || samples.length < 2 || !lines || lines.length === 0) return null;
+
+  const last = samples[samples.length - 1];
+  let prev: PlayerSample | null = null;
+  for (let i = samples.length - 2; i >= 0; i--) {
+    if (last.t - samples[i].t > MAX_WINDOW) break;
+    if (Math.hypot(last.x - samples[i].x, last.z - samples[i].z) >= MIN_MOVE) {
+      prev = samples[i];
+      break;
+    }
+  }
+  if (!prev) return null;
+
+  const dt = (last.t - prev.t) / 1000;
+  const moved = Math.hypot(last.x - prev.x, last.z - prev.z);
+  if (dt <= 0) return null;
+
+  let best: { line: ParsedLine; geometry: LineGeometry; m: number; dm: number; offset: number } | null = null;
+
+  for (const line of lines) {
+    const geometry = getLineGeometry(line);
+    if (!geometry) continue;
+
+    const cur = projectPointToPolylineMeasure(last, geometry);
+    const curOffset = Math.hypot(last.x - cur.nearest.x, last.z - cur.nearest.z);
+    if (curOffset > RIDE_TOLERANCE) continue;
+
+    const before = projectPointToPolylineMeasure(prev, geometry);
+    const prevOffset = Math.hypot(prev.x - before.nearest.x, prev.z - before.nearest.z);
+    if (prevOffset > RIDE_TOLERANCE) continue;
+
+    const dm = cur.m - before.m;
+    if (Math.abs(dm) < moved * MIN_ALONG_RATIO || Math.abs(dm) / dt < MIN_RIDE_SPEED) continue;
+
+    const offset = curOffset + prevOffset;
+    if (!best || offset < best.offset) {
+      best = { line, geometry, m: cur.m, dm, offset };
+    }
+  }
+
+  if (!best) return null;
+
+  const { line, geometry, m, dm } = best;
+  const forward = dm > 0;
+  const stations = line.stations;
+
+  // 行驶方向上的下一站（刚驶过的站点不算）
+  let nextIdx = -1;
+  if (forward) {
+    nextIdx = geometry.stationMeasures.findIndex((sm) => sm > m + STATION_PASS_DISTANCE);
+  } else {
+    for (let i = stations.length - 1; i >= 0; i--) {
+      if (geometry.stationMeasures[i] < m - STATION_PASS_DISTANCE) {
+        nextIdx = i;
+        break;
+      }
+    }
+  }
+  if (nextIdx < 0) return null; // 已到终点
+
+  const speed = Math.abs(dm) / dt;
+  const distanceToNext = Math.abs(geometry.stationMeasures[nextIdx] - m);
+
+  return {
+    line,
+    lineName: lineDisplayName(line),
+    towards: forward ? stations[stations.length - 1] : stations[0],
+    nextStation: stations[nextIdx],
+    distanceToNext,
+    etaSeconds: distanceToNext / speed,
+    speed,
+  };
+}
+
+/**
+ * 到站时间文字：~40秒 / ~3分钟
+ */
+export function formatRideEta(seconds: number): string {
+  if (seconds < 60) return `~${Math.max(5, Math.round(seconds / 5) * 5)}秒`;
+  return `~${Math.round(seconds / 60)}分钟`;
+}
@@ -13,6 +13,7 @@ import { DEFAULT_FLOOR_VIEW, buildFeatureMeta, findFirstRule, toZoomLevel, type
 import { layoutLabelsOnMap, type LabelRequest, type AvoidRectPx } from './labelLayout';
 import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
+import { loadSource } from '@/lib/sourceCache';
 
 
 const FLOOR_VIEW_MIN_LEVEL = Math.max(0, DEFAULT_FLOOR_VIEW.minLevel);
@@ -286,10 +287,10 @@ function makeLabelMarker(
 
 
 
+// 与导航共用 IndexedDB 缓存键（rule:<url>），每次校验、离线回退
 async function fetchJsonArray(url: string): Promise<any[]> {
-  const resp = await fetch(url);
-  if (!resp.ok) throw new Error(`HTTP ${resp.status} ${resp.statusText}`);
-  const data = await resp.json();
+  const { data, error } = await loadSource<unknown>({ key: `rule:${url}`, urls: [url], maxAge: 0 });
+  if (data === null) throw new Error(error ?? `Failed to load ${url}`);
   if (!Array.isArray(data)) return [];
   return data;
 }
@@ -304,7 +305,7 @@ function detectGeoType(featureInfo: any): GeoType | null {
   return null;
 }
 
-function buildRecordsFromJson(items: any[], sourceFile: string): FeatureRecord[] {
+export function buildRecordsFromJson(items: any[], sourceFile: string): FeatureRecord[] {
   const out: FeatureRecord[] = [];
   let uidSeq = 1;
 
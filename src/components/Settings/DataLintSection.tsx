@@ -0,0 +1,184 @@
+/**
+ * 数据校验：检查铁路数据与规则 JSON，列出问题并导出报告
+ */
+
+import { useState, useMemo } from 'react';
+import { ShieldCheck, Play, FileDown, Loader2 } from 'lucide-react';
+import AppButton from '@/components/ui/AppButton';
+import { useDataStore } from '@/store/dataStore';
+import { loadSource } from '@/lib/sourceCache';
+import { getRailwaySource } from '@/lib/railwayParser';
+import { RULE_DATA_SOURCES } from '@/components/Rules/ruleDataSources';
+import {
+  validateRailwayStations,
+  validateRuleFiles,
+  createLintReport,
+  formatLintLocation,
+  type LintIssue,
+  type LintReport,
+  type LintSeverity,
+  type RuleFileItems,
+} from '@/lib/dataValidator';
+
+const SEVERITY_LABELS: Record<LintSeverity, { text: string; className: string }> = {
+  error: { text: '错误', className: 'text-red-600' },
+  warning: { text: '警告', className: 'text-orange-600' },
+  info: { text: '提示', className: 'text-gray-500' },
+};
+
+// 列表最多渲染的条数（完整内容见导出的 JSON）
+const MAX_VISIBLE_ISSUES = 200;
+
+// 校验一个世界：铁路数据走缓存，规则文件逐个读取（失败的文件记为错误）
+async function lintWorld(worldId: string): Promise<LintIssue[]> {
+  const issues: LintIssue[] = [];
+
+  const railway = await loadSource<unknown>(getRailwaySource(worldId));
+  if (railway.data === null) {
+    issues.push({
+      severity: 'error',
+      code: 'railway/unavailable',
+      message: `铁路数据加载失败：${railway.error ?? '未知错误'}`,
+      location: { source: 'railway', world: worldId },
+    });
+  } else {
+    issues.push(...validateRailwayStations(railway.data, worldId));
+  }
+
+  const ds = RULE_DATA_SOURCES[worldId];
+  if (ds && ds.files.length > 0) {
+    const files: RuleFileItems[] = [];
+    for (const file of ds.files) {
+      const url = `${ds.baseUrl}/${file}`;
+      const { data, error } = await loadSource<unknown>({ key: `rule:${url}`, urls: [url], maxAge: 0 });
+      if (data === null) {
+        issues.push({
+          severity: 'error',
+          code: 'rule/unavailable',
+          message: `文件加载失败：${error ?? '未知错误'}`,
+          location: { source: 'rule', world: worldId, file },
+        });
+        continue;
+      }
+      files.push({ file, items: data });
+    }
+    issues.push(...validateRuleFiles(files, worldId));
+  }
+
+  return issues;
+}
+
+function downloadReport(report: LintReport) {
+  const d = new Date(report.generatedAt);
+  const stamp = `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+  const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `data-lint_${stamp}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function DataLintSection() {
+  const worldData = useDataStore((s) => s.worldData);
+  const [report, setReport] = useState<LintReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [filter, setFilter] = useState<LintSeverity | 'all'>('all');
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const issues: LintIssue[] = [];
+      for (const worldId of Object.keys(worldData)) {
+        issues.push(...await lintWorld(worldId));
+      }
+      setReport(createLintReport(issues));
+    } catch (e) {
+      console.error('Data lint failed:', e);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const visible = useMemo(() => {
+    if (!report) return [];
+    return filter === 'all' ? report.issues : report.issues.filter((i) => i.severity === filter);
+  }, [report, filter]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <ShieldCheck className="w-4 h-4" />
+        <span>数据校验</span>
+      </div>
+
+      {report && (
+        <div className="bg-gray-50 rounded-lg p-3 space-y-2 text-sm">
+          <div className="flex gap-1">
+            {(['all', 'error', 'warning', 'info'] as const).map((key) => (
+              <AppButton
+                key={key}
+                onClick={() => setFilter(key)}
+                className={`flex-1 px-1 py-0.5 rounded text-xs ${filter === key ? 'bg-white shadow text-gray-800' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {key === 'all'
+                  ? `全部 ${report.issues.length}`
+                  : `${SEVERITY_LABELS[key].text} ${report.summary[key]}`}
+              </AppButton>
+            ))}
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-xs text-gray-400 text-center py-2">没有发现问题</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {visible.slice(0, MAX_VISIBLE_ISSUES).map((issue, i) => (
+                <div key={i} className="border-t border-gray-200 pt-2 first:border-t-0 first:pt-0">
+                  <div className="flex gap-2">
+                    <span className={`shrink-0 text-xs ${SEVERITY_LABELS[issue.severity].className}`}>
+                      {SEVERITY_LABELS[issue.severity].text}
+                    </span>
+                    <span className="text-xs text-gray-700 break-all">{issue.message}</span>
+                  </div>
+                  <div className="text-xs text-gray-400 break-all" title={issue.code}>
+                    {formatLintLocation(issue.location)}
+                  </div>
+                </div>
+              ))}
+              {visible.length > MAX_VISIBLE_ISSUES && (
+                <p className="text-xs text-gray-400 text-center">
+                  另有 {visible.length - MAX_VISIBLE_ISSUES} 条，请导出查看
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <AppButton
+          onClick={handleRun}
+          disabled={isRunning}
+          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white text-sm rounded-lg transition-colors"
+        >
+          {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          <span>{report ? '重新校验' : '开始校验'}</span>
+        </AppButton>
+
+        <AppButton
+          onClick={() => report && downloadReport(report)}
+          disabled={!report || isRunning}
+          className="flex items-center justify-center gap-1.5 px-3 py-2 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 text-gray-700 text-sm rounded-lg transition-colors"
+        >
+          <FileDown className="w-4 h-4" />
+          <span>导出 JSON</span>
+        </AppButton>
+      </div>
+    </div>
+  );
+}
+
+export default DataLintSection;
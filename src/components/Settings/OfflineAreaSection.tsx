@@ -0,0 +1,254 @@
+/**
+ * 离线地图：下载当前视野范围的瓦片
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import * as L from 'leaflet';
+import { WifiOff, CloudDownload, Trash2, Loader2 } from 'lucide-react';
+import AppButton from '@/components/ui/AppButton';
+import {
+  MAX_OFFLINE_TILES,
+  collectTileUrls,
+  downloadTiles,
+  countOfflineTiles,
+  clearOfflineTiles,
+  isOfflineCacheSupported,
+  type TileDownloadProgress,
+} from '@/lib/offlineCache';
+
+export interface OfflineAreaTarget {
+  map: L.Map;
+  layer: L.TileLayer;
+}
+
+interface OfflineAreaSectionProps {
+  getTarget: () => OfflineAreaTarget | null;
+}
+
+// 瓦片图层的原生缩放范围（超出部分只做前端缩放，无需下载）
+function nativeZoomRange(layer: L.TileLayer): [number, number] {
+  const { minZoom = 0, maxZoom = 0, minNativeZoom, maxNativeZoom } = layer.options;
+  return [minNativeZoom ?? minZoom, maxNativeZoom ?? maxZoom];
+}
+
+export function OfflineAreaSection({ getTarget }: OfflineAreaSectionProps) {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+  const [zoomRange, setZoomRange] = useState<[number, number] | null>(null);
+  const [minZoom, setMinZoom] = useState(0);
+  const [maxZoom, setMaxZoom] = useState(0);
+  const [tileCount, setTileCount] = useState(0);
+  const [viewTick, setViewTick] = useState(0);
+  const [progress, setProgress] = useState<TileDownloadProgress | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const supported = isOfflineCacheSupported();
+
+  const refreshCount = useCallback(() => {
+    countOfflineTiles().then(setCachedCount).catch(() => setCachedCount(null));
+  }, []);
+
+  // 在线状态
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // 初始缩放范围：当前缩放级别向下两级
+  useEffect(() => {
+    refreshCount();
+    const target = getTarget();
+    if (!target) return;
+
+    const range = nativeZoomRange(target.layer);
+    const current = Math.min(range[1], Math.max(range[0], Math.round(target.map.getZoom())));
+    setZoomRange(range);
+    setMaxZoom(current);
+    setMinZoom(Math.max(range[0], current - 2));
+
+    // 视野变化时重新估算瓦片数
+    const onMove = () => setViewTick((t) => t + 1);
+    target.map.on('moveend', onMove);
+    return () => {
+      target.map.off('moveend', onMove);
+    };
+  }, [getTarget, refreshCount]);
+
+  useEffect(() => {
+    const target = getTarget();
+    if (!target || !zoomRange) return;
+    const urls = collectTileUrls(target.map, target.layer, target.map.getBounds(), minZoom, maxZoom);
+    setTileCount(urls.length);
+  }, [getTarget, zoomRange, minZoom, maxZoom, viewTick]);
+
+  // 组件卸载时中止下载
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleDownload = async () => {
+    const target = getTarget();
+    if (!target) return;
+
+    const urls = collectTileUrls(target.map, target.layer, target.map.getBounds(), minZoom, maxZoom);
+    if (urls.length > MAX_OFFLINE_TILES) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setProgress({ done: 0, failed: 0, total: urls.length });
+
+    try {
+      const final = await downloadTiles(urls, { signal: controller.signal, onProgress: setProgress });
+      if (controller.signal.aborted) {
+        setResult(`已取消（已下载 ${final.done - final.failed} 张）`);
+      } else {
+        setResult(final.failed > 0 ? `完成，${final.failed} 张失败` : '下载完成');
+      }
+    } catch (e) {
+      console.error('Offline tile download failed:', e);
+      setResult('下载失败');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      refreshCount();
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('确定要清除所有离线瓦片吗？')) return;
+    await clearOfflineTiles();
+    setResult(null);
+    refreshCount();
+  };
+
+  const zoomOptions = zoomRange
+    ? Array.from({ length: zoomRange[1] - zoomRange[0] + 1 }, (_, i) => zoomRange[0] + i)
+    : [];
+  const tooMany = tileCount > MAX_OFFLINE_TILES;
+  const isDownloading = progress !== null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <WifiOff className="w-4 h-4" />
+        <span>离线地图</span>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-3 space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-500">网络</span>
+          <span className={isOnline ? 'text-green-600' : 'text-orange-600'}>{isOnline ? '在线' : '离线'}</span>
+        </div>
+
+        <div className="flex justify-between">
+          <span className="text-gray-500">离线瓦片</span>
+          <span className="text-gray-700">{cachedCount === null ? '-' : `${cachedCount} 张`}</span>
+        </div>
+
+        {!supported ? (
+          <p className="text-xs text-gray-400">当前浏览器不支持离线缓存</p>
+        ) : zoomRange && (
+          <>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-500">缩放级别</span>
+              <span className="flex items-center gap-1">
+                <select
+                  value={minZoom}
+                  disabled={isDownloading}
+                  onChange={(e) => {
+                    const v = Number(e.target.value);
+                    setMinZoom(v);
+                    if (v > maxZoom) setMaxZoom(v);
+                  }}
+                  className="px-1 py-0.5 border rounded text-xs bg-white"
+                >
+                  {zoomOptions.map((z) => <option key={z} value={z}>{z}</option>)}
+                </select>
+                <span className="text-gray-400">~</span>
+                <select
+                  value={maxZoom}
+                  disabled={isDownloading}
+                  onChange={(e) => {
+                    const v = Number(e.target.value);
+                    setMaxZoom(v);
+                    if (v < minZoom) setMinZoom(v);
+                  }}
+                  className="px-1 py-0.5 border rounded text-xs bg-white"
+                >
+                  {zoomOptions.map((z) => <option key={z} value={z}>{z}</option>)}
+                </select>
+              </span>
+            </div>
+
+            <div className="flex justify-between">
+              <span className="text-gray-500">当前视野</span>
+              <span className={tooMany ? 'text-orange-600' : 'text-gray-700'}>
+                {tooMany ? `超过 ${MAX_OFFLINE_TILES} 张` : `${tileCount} 张瓦片`}
+              </span>
+            </div>
+
+            {tooMany && (
+              <p className="text-xs text-orange-600">范围过大，请放大地图或降低最高缩放级别</p>
+            )}
+
+            {progress && (
+              <div className="space-y-1">
+                <div className="h-1.5 bg-gray-200 rounded overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all"
+                    style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <div className="text-xs text-gray-500 text-right">
+                  {progress.done} / {progress.total}
+                  {progress.failed > 0 && `（失败 ${progress.failed}）`}
+                </div>
+              </div>
+            )}
+
+            {result && <p className="text-xs text-gray-500">{result}</p>}
+          </>
+        )}
+      </div>
+
+      {supported && zoomRange && (
+        <div className="flex gap-2">
+          {isDownloading ? (
+            <AppButton
+              onClick={() => abortRef.current?.abort()}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm rounded-lg transition-colors"
+            >
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>取消下载</span>
+            </AppButton>
+          ) : (
+            <AppButton
+              onClick={handleDownload}
+              disabled={!isOnline || tooMany || tileCount === 0}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white text-sm rounded-lg transition-colors"
+            >
+              <CloudDownload className="w-4 h-4" />
+              <span>下载当前区域</span>
+            </AppButton>
+          )}
+
+          <AppButton
+            onClick={handleClear}
+            disabled={isDownloading || !cachedCount}
+            className="flex items-center justify-center gap-1.5 px-3 py-2 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 text-gray-700 text-sm rounded-lg transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>清除</span>
+          </AppButton>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OfflineAreaSection;
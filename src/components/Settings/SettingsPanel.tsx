@@ -1,6 +1,6 @@
 /**
  * 设置面板组件
- * 显示缓存状态、PWA 状态等信息
+ * 显示缓存状态、离线地图、数据校验、PWA 状态等信息
  */
 
 import { useState, useEffect } from 'react';
@@ -11,17 +11,36 @@ interface BeforeInstallPromptEvent extends Event {
   prompt: () => Promise<void>;
   userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
 }
-import { useDataStore } from '@/store/dataStore';
+import { useDataStore, getDataLoadingStages, type DataSourceInfo } from '@/store/dataStore';
 import { useLoadingStore } from '@/store/loadingStore';
 import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
+import { OfflineAreaSection, type OfflineAreaTarget } from './OfflineAreaSection';
+import { DataLintSection } from './DataLintSection';
+
+// 数据源状态文字与颜色
+const SOURCE_STATUS_LABELS: Record<string, { text: string; className: string }> = {
+  new: { text: '新下载', className: 'text-green-600' },
+  updated: { text: '已更新', className: 'text-green-600' },
+  unchanged: { text: '未变化', className: 'text-gray-600' },
+  cached: { text: '缓存', className: 'text-gray-600' },
+  stale: { text: '离线缓存', className: 'text-orange-600' },
+  missing: { text: '未提供', className: 'text-gray-400' },
+  error: { text: '失败', className: 'text-red-600' },
+};
+
+function sourceStatusLabel(source: DataSourceInfo): { text: string; className: string } {
+  return source.status ? SOURCE_STATUS_LABELS[source.status] : SOURCE_STATUS_LABELS.cached;
+}
 
 interface SettingsPanelProps {
   onClose: () => void;
+  // 离线区域下载所需的地图与瓦片图层
+  getOfflineTarget?: () => OfflineAreaTarget | null;
 }
 
-export function SettingsPanel({ onClose }: SettingsPanelProps) {
-  const { cacheInfo, clearCache, forceRefresh, updateCacheInfo } = useDataStore();
+export function SettingsPanel({ onClose, getOfflineTarget }: SettingsPanelProps) {
+  const { cacheInfo, sources, clearCache, forceRefresh, updateCacheInfo } = useDataStore();
   const { startLoading, updateStage, finishLoading } = useLoadingStore();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [pwaStatus, setPwaStatus] = useState<{
@@ -35,6 +54,7 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
   });
   const [deferredPrompt, setDeferredPrompt] = useState<BeforeInstallPromptEvent | null>(null);
   const [isInstalling, setIsInstalling] = useState(false);
+  const [showSources, setShowSources] = useState(false);
 
   // 检查 PWA 状态
   useEffect(() => {
@@ -125,19 +145,7 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
   const handleRefresh = async () => {
     setIsRefreshing(true);
 
-    startLoading([
-      { name: 'bureaus', label: '铁路局配置' },
-      { name: 'zth-railway', label: '零洲铁路数据' },
-      { name: 'zth-rmp', label: '零洲 RMP 数据' },
-      { name: 'zth-landmark', label: '零洲地标数据' },
-      { name: 'houtu-railway', label: '后土洲铁路数据' },
-      { name: 'houtu-rmp', label: '后土洲 RMP 数据' },
-      { name: 'houtu-landmark', label: '后土洲地标数据' },
-      { name: 'naraku-railway', label: '奈落洲铁路数据' },
-      { name: 'naraku-landmark', label: '奈落洲地标数据' },
-      { name: 'eden-railway', label: '伊甸铁路数据' },
-      { name: 'eden-landmark', label: '伊甸地标数据' },
-    ]);
+    startLoading(getDataLoadingStages());
 
     await forceRefresh((stage, status) => {
       updateStage(stage, status);
@@ -150,10 +158,10 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
   };
 
   // 清除缓存
-  const handleClearCache = () => {
+  const handleClearCache = async () => {
     if (confirm('确定要清除所有缓存数据吗？下次打开时需要重新加载。')) {
-      clearCache();
-      updateCacheInfo();
+      await clearCache();
+      await updateCacheInfo();
     }
   };
 
@@ -234,6 +242,44 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
             </div>
           </div>
 
+          {/* 各数据源状态 */}
+          {Object.keys(sources).length > 0 && (
+            <div className="bg-gray-50 rounded-lg text-sm">
+              <AppButton
+                onClick={() => setShowSources(v => !v)}
+                className="w-full flex justify-between px-3 py-2 text-gray-500 hover:text-gray-700"
+              >
+                <span>数据源（{Object.keys(sources).length}）</span>
+                <span>{showSources ? '收起' : '展开'}</span>
+              </AppButton>
+
+              {showSources && (
+                <div className="px-3 pb-3 space-y-2">
+                  {Object.values(sources)
+                    .sort((a, b) => a.key.localeCompare(b.key))
+                    .map((source) => {
+                      const status = sourceStatusLabel(source);
+                      return (
+                        <div key={source.key} className="border-t border-gray-200 pt-2 first:border-t-0 first:pt-0">
+                          <div className="flex justify-between gap-2">
+                            <span className="text-gray-700 truncate" title={source.key}>{source.label}</span>
+                            <span className={`shrink-0 ${status.className}`} title={source.error}>{status.text}</span>
+                          </div>
+                          <div className="flex justify-between text-xs text-gray-400">
+                            <span>
+                              {formatSize(source.size)}
+                              {source.validator && ` · ${source.validator}`}
+                            </span>
+                            <span>校验 {formatDate(source.checkedAt)}</span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* 操作按钮 */}
           <div className="flex gap-2">
             <AppButton
@@ -260,6 +306,12 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           </div>
         </div>
 
+        {/* 离线地图 */}
+        {getOfflineTarget && <OfflineAreaSection getTarget={getOfflineTarget} />}
+
+        {/* 数据校验 */}
+        <DataLintSection />
+
         {/* PWA 状态 */}
         <div className="space-y-3">
           <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
@@ -316,8 +368,8 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
 
         {/* 关于 */}
         <div className="text-xs text-gray-400 text-center pt-2">
-          <p>数据每 7 天自动更新一次</p>
-          <p>也可以手动刷新获取最新数据</p>
+          <p>各数据源每 7 天自动校验一次，仅下载有变化的部分</p>
+          <p>也可以手动刷新立即校验全部数据源</p>
         </div>
       </div>
     </AppCard>
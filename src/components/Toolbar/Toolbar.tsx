@@ -4,8 +4,9 @@
  */
 
 import { useState, useRef, useEffect } from 'react';
-import { Navigation, List, HelpCircle, Train, Home, Moon, X, User, Users, Map, Palette, Pencil, Settings, Layers } from 'lucide-react';
-import type { MapStyle } from '@/lib/cookies';
+import { Navigation, List, HelpCircle, Train, Home, Moon, X, User, Users, Map, Palette, Pencil, Settings, Layers, Clock, Sun, MoonStar, Contrast, Printer, Eye } from 'lucide-react';
+import type { MapStyle, TileTimeMode } from '@/lib/cookies';
+import { MAP_STYLES } from '@/lib/mapStyles';
 import ToolIconButton from '@/components/Toolbar/ToolIconButton';
 import AppButton from '@/components/ui/AppButton';
 import AppCard from '@/components/ui/AppCard';
@@ -92,33 +93,58 @@ export function Toolbar({
   );
 }
 
-/**
- * 地图风格选项
- */
-const MAP_STYLE_OPTIONS: Array<{
-  value: MapStyle;
+interface SelectorOption<T extends string> {
+  value: T;
   label: string;
   icon: React.ReactNode;
   description: string;
-}> = [
-  { value: 'default', label: '原版', icon: <Map className="w-5 h-5" />, description: '卫星原始渲染' },
-  { value: 'watercolor', label: '淡彩', icon: <Palette className="w-5 h-5" />, description: '柔和水彩风格' },
-  { value: 'sketch', label: '素描', icon: <Pencil className="w-5 h-5" />, description: '手绘地图风格' },
+}
+
+// 地图风格图标（未列出的风格使用 Palette）
+const MAP_STYLE_ICONS: Partial<Record<MapStyle, React.ReactNode>> = {
+  default: <Map className="w-5 h-5" />,
+  watercolor: <Palette className="w-5 h-5" />,
+  sketch: <Pencil className="w-5 h-5" />,
+  highContrast: <Contrast className="w-5 h-5" />,
+  grayscale: <Printer className="w-5 h-5" />,
+  colorBlindSafe: <Eye className="w-5 h-5" />,
+};
+
+/**
+ * 地图风格选项（来自风格注册表）
+ */
+const MAP_STYLE_OPTIONS: Array<SelectorOption<MapStyle>> = MAP_STYLES.map((style) => ({
+  value: style.id,
+  label: style.label,
+  icon: MAP_STYLE_ICONS[style.id] ?? <Palette className="w-5 h-5" />,
+  description: style.description,
+}));
+
+/**
+ * 昼夜瓦片选项
+ */
+const TILE_TIME_OPTIONS: Array<SelectorOption<TileTimeMode>> = [
+  { value: 'auto', label: '自动昼夜', icon: <Clock className="w-5 h-5" />, description: '跟随游戏时间' },
+  { value: 'day', label: '白天', icon: <Sun className="w-5 h-5" />, description: '始终显示白天瓦片' },
+  { value: 'night', label: '夜晚', icon: <MoonStar className="w-5 h-5" />, description: '始终显示夜间瓦片' },
 ];
 
 /**
- * 地图风格下拉选择器
+ * 图标下拉选择器（地图风格、昼夜瓦片）
+ * 选中非默认项（options[0]）时按钮高亮
  */
-interface MapStyleSelectorProps {
-  mapStyle: MapStyle;
-  onToggleMapStyle: (style: MapStyle) => void;
+interface OptionSelectorProps<T extends string> {
+  title: string;
+  options: Array<SelectorOption<T>>;
+  value: T;
+  onChange: (value: T) => void;
 }
 
-function MapStyleSelector({ mapStyle, onToggleMapStyle }: MapStyleSelectorProps) {
+function OptionSelector<T extends string>({ title, options, value, onChange }: OptionSelectorProps<T>) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  const currentStyle = MAP_STYLE_OPTIONS.find(s => s.value === mapStyle) || MAP_STYLE_OPTIONS[0];
+  const current = options.find(o => o.value === value) || options[0];
 
   // 点击外部关闭下拉菜单
   useEffect(() => {
@@ -142,15 +168,15 @@ function MapStyleSelector({ mapStyle, onToggleMapStyle }: MapStyleSelectorProps)
       <AppButton
         onClick={() => setIsOpen(!isOpen)}
         className={`h-9 w-9 p-1.5 transition-colors group relative ${
-          mapStyle !== 'default'
+          value !== options[0].value
             ? 'bg-amber-100 text-amber-600'
             : 'hover:bg-gray-100 text-gray-400'
         }`}
-        title="地图风格"
+        title={title}
       >
-        {currentStyle.icon}
+        {current.icon}
         <span className="absolute right-full mr-2 top-1/2 -translate-y-1/2 text-xs bg-gray-800 text-white px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none max-md:hidden">
-          {currentStyle.label}
+          {current.label}
         </span>
       </AppButton>
 
@@ -162,19 +188,20 @@ function MapStyleSelector({ mapStyle, onToggleMapStyle }: MapStyleSelectorProps)
             : 'opacity-0 scale-95 pointer-events-none'
         }`}
       >
-        {MAP_STYLE_OPTIONS.map((option) => (
+        {options.map((option) => (
           <AppButton
             key={option.value}
             onClick={() => {
-              onToggleMapStyle(option.value);
+              onChange(option.value);
               setIsOpen(false);
             }}
+            title={option.description}
             className={`w-full px-3 py-2 text-left text-sm flex items-center gap-2 hover:bg-gray-50 transition-colors ${
-              mapStyle === option.value ? 'bg-amber-50 text-amber-700' : 'text-gray-700'
+              value === option.value ? 'bg-amber-50 text-amber-700' : 'text-gray-700'
             }`}
           >
             {option.icon}
-            <span className={mapStyle === option.value ? 'font-medium' : ''}>{option.label}</span>
+            <span className={value === option.value ? 'font-medium' : ''}>{option.label}</span>
           </AppButton>
         ))}
       </AppCard>
@@ -247,12 +274,15 @@ interface LayerControlProps {
   showRuleLayers?: boolean;
   dimBackground: boolean;
   mapStyle: MapStyle;
+  // 昼夜瓦片（不传时不显示选择器）
+  tileTime?: TileTimeMode;
   onToggleRailway: (show: boolean) => void;
   onToggleLandmark: (show: boolean) => void;
   onTogglePlayers: (show: boolean) => void;
   onToggleRuleLayers?: (show: boolean) => void;
   onToggleDimBackground: (dim: boolean) => void;
   onToggleMapStyle: (style: MapStyle) => void;
+  onChangeTileTime?: (mode: TileTimeMode) => void;
   children?: React.ReactNode;
 }
 
@@ -263,12 +293,14 @@ export function LayerControl({
   showRuleLayers,
   dimBackground,
   mapStyle,
+  tileTime,
   onToggleRailway,
   onToggleLandmark,
   onTogglePlayers,
   onToggleRuleLayers,
   onToggleDimBackground,
   onToggleMapStyle,
+  onChangeTileTime,
   children,
 }: LayerControlProps) {
   const hasExtra = !!children;
@@ -336,7 +368,12 @@ export function LayerControl({
         />
 
         {/* 地图风格下拉选择器 */}
-        <MapStyleSelector mapStyle={mapStyle} onToggleMapStyle={onToggleMapStyle} />
+        <OptionSelector title="地图风格" options={MAP_STYLE_OPTIONS} value={mapStyle} onChange={onToggleMapStyle} />
+
+        {/* 昼夜瓦片下拉选择器 */}
+        {tileTime && onChangeTileTime && (
+          <OptionSelector title="昼夜瓦片" options={TILE_TIME_OPTIONS} value={tileTime} onChange={onChangeTileTime} />
+        )}
       </div>
     </AppCard>
   );
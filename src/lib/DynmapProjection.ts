@@ -9,6 +9,8 @@
  */
 
 import * as L from 'leaflet';
+import type { DynmapMapConfig } from '@/types';
+import { getDynmapMapConfig } from './dynmapConfig';
 
 export interface DynmapProjectionOptions {
   // 世界坐标 -> 地图坐标 的变换矩阵 (3x3, 行优先)
@@ -80,6 +82,20 @@ export class DynmapProjection {
     this.tilescale = options.tilescale || 0;
   }
 
+  /**
+   * 当前投影参数
+   */
+  getOptions(): DynmapProjectionOptions {
+    return {
+      worldToMap: this.worldToMap,
+      mapToWorld: this.mapToWorld,
+      mapzoomin: this.mapzoomin,
+      mapzoomout: this.mapzoomout,
+      tileSize: this.tileSize,
+      tilescale: this.tilescale,
+    };
+  }
+
   /**
    * 将世界坐标转换为 Leaflet LatLng
    *
@@ -127,7 +143,11 @@ export class DynmapProjection {
    * hdmap.js fromLatLngToLocation 的逆运算:
    *   mapLng = leaflet_lng * (1 << mapzoomout)
    *   mapLat = (128 << tilescale) + leaflet_lat * (1 << mapzoomout)
-   *   然后应用 map_to_world 矩阵
+   *
+   * 已知 y 时由 world_to_map 前两行解出 x / z（等距视角下 y 项不为 0，同一像素对应的 x/z 随 y 变化）：
+   *   mapLng - wtp[1]*y = wtp[0]*x + wtp[2]*z
+   *   mapLat - wtp[4]*y = wtp[3]*x + wtp[5]*z
+   * 方程奇异时退回 hdmap.js 的 map_to_world 近似
    */
   latLngToLocation(latLng: L.LatLng, y: number = 64): { x: number; y: number; z: number } {
     const worldY = Number(y);
@@ -144,6 +164,18 @@ export class DynmapProjection {
     const mapLng = latLng.lng * zoomOutScale;
     const mapLat = tileSize + latLng.lat * zoomOutScale;
 
+    const wtp = this.worldToMap;
+    const det = wtp[0] * wtp[5] - wtp[2] * wtp[3];
+    if (Math.abs(det) > 1e-9) {
+      const u = mapLng - wtp[1] * worldY;
+      const v = mapLat - wtp[4] * worldY;
+      return {
+        x: (u * wtp[5] - wtp[2] * v) / det,
+        y: worldY,
+        z: (wtp[0] * v - wtp[3] * u) / det,
+      };
+    }
+
     // 应用 map_to_world 矩阵
     // ptw = [0.25, 0, 0, 0, 0, 1, 0, -0.25, 0]
     // worldX = 0.25 * mapLng
@@ -218,34 +250,47 @@ export function createDynmapCRS(options: DynmapProjectionOptions): L.CRS {
 }
 
 /**
- * 零洲 flat 地图的默认配置
- * 从 satellite.ria.red API 获取
+ * 由 Dynmap 地图配置（up/configuration 中的一张地图）生成投影参数
+ * mapzoomout 缺失时由 worldtomap 推导（flat: basemodscale=4 → floor(log2(4))+1 = 3）
+ */
+export function createProjectionOptions(map: DynmapMapConfig): DynmapProjectionOptions {
+  return {
+    worldToMap: map.worldtomap,
+    mapToWorld: map.maptoworld,
+    mapzoomin: map.mapzoomin,
+    mapzoomout: Number.isFinite(map.mapzoomout) ? map.mapzoomout : deriveMapzoomout(map.worldtomap),
+    tileSize: 128,
+    tilescale: map.tilescale ?? 0,
+  };
+}
+
+/**
+ * 获取世界配置（当前已加载的 Dynmap 配置，未加载时为随包配置）
  */
-export const ZTH_FLAT_CONFIG: DynmapProjectionOptions = {
-  // worldtomap: [4.0, 0.0, ~0, ~0, 0.0, -4.0, 0.0, 1.0, 0.0]
-  // lng = 4*x, lat = -4*z
-  worldToMap: [4, 0, 0, 0, 0, -4, 0, 1, 0],
-  // maptoworld: [0.25, ~0, 0, 0, 0, 1, ~0, -0.25, 0]
-  mapToWorld: [0.25, 0, 0, 0, 0, 1, 0, -0.25, 0],
-  // Dynmap 默认 mapzoomin=2（超采样放大 2 级）
-  mapzoomin: 2,
-  // mapzoomout 由 basemodscale(=4) 推导：floor(log2(4))+1 = 3
-  mapzoomout: deriveMapzoomout([4, 0, 0, 0, 0, -4, 0, 1, 0]),
-  tileSize: 128,
-  tilescale: 0
-};
-
-// 世界中心点配置（仅用于初始视图，不影响瓦片坐标）
-export const WORLD_CENTERS = {
-  zth: { x: -643, y: 35, z: -1562 },
-  naraku: { x: 0, y: 64, z: 0 },
-  houtu: { x: 0, y: 64, z: 0 }
-};
+export function getWorldConfig(worldId: string, mapName?: string): DynmapProjectionOptions {
+  return createProjectionOptions(getDynmapMapConfig(worldId, mapName));
+}
+
+/**
+ * 是否为俯视投影（平面地图）：world_to_map 的 y 列为 0，同一像素对应的 x/z 与高度无关；
+ * 等距视角下点击位置无法确定高度，绘制类工具需据此停用
+ */
+export function isTopDownProjection(options: DynmapProjectionOptions): boolean {
+  const m = options.worldToMap;
+  return Math.abs(m[1]) < 1e-9 && Math.abs(m[4]) < 1e-9;
+}
 
 /**
- * 获取世界配置
+ * 两份投影配置是否一致（一致时切换世界无需重建 CRS）
  */
-export function getWorldConfig(worldId: string): DynmapProjectionOptions {
-  void worldId;
-  return ZTH_FLAT_CONFIG;
+export function isSameProjection(a: DynmapProjectionOptions, b: DynmapProjectionOptions): boolean {
+  const sameMatrix = (m: number[], n: number[]) => m.length === n.length && m.every((v, i) => v === n[i]);
+  return (
+    sameMatrix(a.worldToMap, b.worldToMap) &&
+    sameMatrix(a.mapToWorld, b.mapToWorld) &&
+    a.mapzoomin === b.mapzoomin &&
+    a.mapzoomout === b.mapzoomout &&
+    a.tileSize === b.tileSize &&
+    (a.tilescale || 0) === (b.tilescale || 0)
+  );
 }
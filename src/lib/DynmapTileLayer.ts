@@ -6,6 +6,7 @@
  */
 
 import * as L from 'leaflet';
+import { getTileBaseUrl } from './worldRegistry';
 
 export interface DynmapTileLayerOptions extends L.TileLayerOptions {
   // 基础 URL，如 https://satellite.ria.red/tiles/_zth/
@@ -80,7 +81,7 @@ export class DynmapTileLayer extends L.TileLayer {
     this._imageFormat = options.imageFormat || 'jpg';
     this._extraZoomLevels = options.extraZoomLevels || 0;
     this._nightAndDay = options.nightAndDay || false;
-    this._isNight = options.isNight || true;
+    this._isNight = options.isNight ?? true;
     this._maxRetries = options.maxRetries ?? 3;
     this._retryDelay = options.retryDelay ?? 1000;
   }
@@ -88,7 +89,7 @@ export class DynmapTileLayer extends L.TileLayer {
   /**
    * 重写 createTile 方法，添加重试逻辑
    */
-  createTile(coords: L.Coords, done: L.DoneCallback): HTMLImageElement {
+  createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
     const tile = document.createElement('img');
     const tileKey = `${coords.x}:${coords.y}:${coords.z}`;
 
@@ -272,7 +273,7 @@ export function createDynmapTileLayer(
 ): DynmapTileLayer {
   const defaultOptions: DynmapTileLayerOptions = {
     // 正确的 URL 格式: https://satellite.ria.red/map/_zth/tiles/world/flat/5_-1/zzzzz_160_-32.jpg
-    baseUrl: `https://satellite.ria.red/map/_${worldId}/tiles/world/`,
+    baseUrl: getTileBaseUrl(worldId),
     prefix: mapName,
     imageFormat: 'jpg',
     // Dynmap 默认 mapzoomin=2（超采样）
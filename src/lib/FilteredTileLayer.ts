@@ -0,0 +1,101 @@
+/**
+ * 滤镜风格瓦片图层
+ * 基于 DynmapTileLayer（沿用其瓦片 URL 生成与昼夜切换），瓦片经 tilePipeline 在 Worker 中应用地图风格滤镜后绘制到 Canvas
+ */
+
+import * as L from 'leaflet';
+import { DynmapTileLayer, DynmapTileLayerOptions } from './DynmapTileLayer';
+import { getMapStyle, type MapStyle } from './mapStyles';
+import { renderFilteredTile } from './tilePipeline';
+import { getDynmapWorldName } from './worldRegistry';
+
+export interface FilteredTileLayerOptions extends DynmapTileLayerOptions {
+  // 地图风格（见 mapStyles）
+  style: MapStyle;
+}
+
+const TILE_SIZE = 128;
+
+/**
+ * 滤镜风格瓦片图层类
+ */
+export class FilteredTileLayer extends DynmapTileLayer {
+  private _style: MapStyle;
+  // 处理中的瓦片，移除 / 中止时取消对应任务
+  private _tileAborts = new WeakMap<HTMLElement, AbortController>();
+
+  constructor(options: FilteredTileLayerOptions) {
+    super(options);
+    this._style = options.style;
+    this.on('tileunload tileabort', this._abortTile, this);
+  }
+
+  /**
+   * 重写 createTile 方法，返回 Canvas 而非 img
+   */
+  createTile(coords: L.Coords, done: L.DoneCallback): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = TILE_SIZE;
+    canvas.height = TILE_SIZE;
+
+    const controller = new AbortController();
+    this._tileAborts.set(canvas, controller);
+
+    renderFilteredTile(
+      { url: this.getTileUrl(coords), style: this._style, size: TILE_SIZE, tileX: coords.x, tileY: coords.y },
+      canvas,
+      controller.signal
+    ).then(
+      () => done(undefined, canvas),
+      (error: Error) => {
+        if (!controller.signal.aborted) done(error, canvas);
+      }
+    ).finally(() => this._tileAborts.delete(canvas));
+
+    return canvas;
+  }
+
+  private _abortTile(event: L.LeafletEvent) {
+    const tile = (event as L.TileEvent).tile;
+    this._tileAborts.get(tile)?.abort();
+    this._tileAborts.delete(tile);
+  }
+}
+
+/**
+ * 创建滤镜风格瓦片图层的工厂函数
+ */
+export function createFilteredTileLayer(
+  worldId: string,
+  style: MapStyle,
+  mapName: string = 'flat',
+  options?: Partial<DynmapTileLayerOptions>
+): FilteredTileLayer {
+  const attribution = getMapStyle(style).attribution;
+  const defaultOptions: FilteredTileLayerOptions = {
+    // 滤镜需要读取像素，使用同源的 Vercel 代理路径来避免 CORS 问题
+    baseUrl: `/api/dynmap/${getDynmapWorldName(worldId)}/tiles/world/`,
+    prefix: mapName,
+    imageFormat: 'jpg',
+    extraZoomLevels: 2,
+    maxZoom: 5,
+    maxNativeZoom: 3,
+    minZoom: 0,
+    nightAndDay: false,
+    isNight: true,
+    style,
+    attribution: `&copy; <a href="https://satellite.ria.red">RIA Satellite</a>${attribution ? ` | ${attribution}` : ''}`
+  };
+
+  const merged: FilteredTileLayerOptions = {
+    ...defaultOptions,
+    ...options,
+    style,
+  };
+
+  if (merged.maxNativeZoom === undefined && typeof merged.maxZoom === 'number') {
+    merged.maxNativeZoom = Math.max(0, merged.maxZoom - (merged.extraZoomLevels || 0));
+  }
+
+  return new FilteredTileLayer(merged);
+}
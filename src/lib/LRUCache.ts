@@ -0,0 +1,50 @@
+/**
+ * 最近最少使用（LRU）缓存
+ * 利用 Map 的插入顺序：命中时重新插入到末尾，超出容量时淘汰最前面的条目
+ */
+
+export class LRUCache<K, V> {
+  private map = new Map<K, V>();
+  constructor(
+    private readonly capacity: number,
+    // 条目被淘汰 / 删除时回调（如释放 ImageBitmap）
+    private readonly onEvict?: (value: V, key: K) => void
+  ) {}
+  get(key: K): V | undefined {
+    const value = this.map.get(key);
+    if (value === undefined) return undefined;
+    this.map.delete(key);
+    this.map.set(key, value);
+    return value;
+  }
+  has(key: K): boolean {
+    return this.map.has(key);
+  }
+  set(key: K, value: V) {
+    const prev = this.map.get(key);
+    if (prev !== undefined) {
+      this.map.delete(key);
+      if (prev !== value) this.onEvict?.(prev, key);
+    }
+    this.map.set(key, value);
+    while (this.map.size > this.capacity) {
+      const [oldestKey, oldest] = this.map.entries().next().value as [K, V];
+      this.map.delete(oldestKey);
+      this.onEvict?.(oldest, oldestKey);
+    }
+  }
+  delete(key: K): boolean {
+    const value = this.map.get(key);
+    if (value === undefined) return false;
+    this.map.delete(key);
+    this.onEvict?.(value, key);
+    return true;
+  }
+  clear() {
+    for (const [key, value] of this.map) this.onEvict?.(value, key);
+    this.map.clear();
+  }
+  get size() {
+    return this.map.size;
+  }
+}
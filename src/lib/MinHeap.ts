@@ -0,0 +1,46 @@
+/**
+ * 二叉小顶堆（优先队列）
+ * 供 Dijkstra 类最短路使用：旧条目不做删除，由调用方在出堆时比对 key 跳过
+ */
+
+export class MinHeap<T> {
+  private a: Array<{ k: number; v: T }> = [];
+  push(k: number, v: T) {
+    this.a.push({ k, v });
+    this.up(this.a.length - 1);
+  }
+  pop(): { k: number; v: T } | null {
+    if (this.a.length === 0) return null;
+    const top = this.a[0];
+    const last = this.a.pop()!;
+    if (this.a.length > 0) {
+      this.a[0] = last;
+      this.down(0);
+    }
+    return top;
+  }
+  get size() {
+    return this.a.length;
+  }
+  private up(i: number) {
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (this.a[p].k <= this.a[i].k) break;
+      [this.a[p], this.a[i]] = [this.a[i], this.a[p]];
+      i = p;
+    }
+  }
+  private down(i: number) {
+    const n = this.a.length;
+    while (true) {
+      let m = i;
+      const l = i * 2 + 1;
+      const r = l + 1;
+      if (l < n && this.a[l].k < this.a[m].k) m = l;
+      if (r < n && this.a[r].k < this.a[m].k) m = r;
+      if (m === i) break;
+      [this.a[m], this.a[i]] = [this.a[i], this.a[m]];
+      i = m;
+    }
+  }
+}
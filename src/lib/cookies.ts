@@ -2,7 +2,12 @@
  * Cookie 工具函数
  */
 
-export type MapStyle = 'default' | 'watercolor' | 'sketch';
+import { isMapStyle, type MapStyle } from './mapStyles';
+
+export type { MapStyle } from './mapStyles';
+
+// 昼夜瓦片：跟随游戏时间 / 固定白天 / 固定夜晚
+export type TileTimeMode = 'auto' | 'day' | 'night';
 
 export interface MapSettings {
   currentWorld: string;
@@ -11,6 +16,9 @@ export interface MapSettings {
   showPlayers: boolean;
   dimBackground: boolean;
   mapStyle: MapStyle;
+  // 地图视角（Dynmap 地图名，如 flat / surface）
+  mapName: string;
+  tileTime: TileTimeMode;
 }
 
 const COOKIE_NAME = 'map_settings';
@@ -59,7 +67,10 @@ export function loadMapSettings(): Partial<MapSettings> | null {
   try {
     const json = getCookie(COOKIE_NAME);
     if (!json) return null;
-    return JSON.parse(json) as Partial<MapSettings>;
+    const settings = JSON.parse(json) as Partial<MapSettings>;
+    // 已下线的地图风格回退为默认
+    if (settings.mapStyle !== undefined && !isMapStyle(settings.mapStyle)) delete settings.mapStyle;
+    return settings;
   } catch (e) {
     console.warn('Failed to load map settings from cookie:', e);
     return null;
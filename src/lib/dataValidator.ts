@@ -0,0 +1,458 @@
+/**
+ * 数据校验器
+ * 检查 RIA_Data 铁路数据（Station[]）与规则 JSON（STA/PLF/RLE/STB/SBP）中会被解析器静默丢弃或合并的问题，
+ * 生成带严重级别与位置的结构化报告（设置面板展示 / 导出 JSON）
+ */
+
+import type { Station, SpecialCase } from '@/types';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintLocation {
+  source: 'railway' | 'rule';
+  world: string;
+  file?: string;        // 规则 JSON 文件名
+  station?: string;     // 站名（铁路数据）
+  line?: string;        // 线路 ID（bureau-line / RLE LineID）
+  recordId?: string;    // 规则要素 ID
+  path?: string;        // 字段路径，如 lines[2].distance
+}
+
+export interface LintIssue {
+  severity: LintSeverity;
+  code: string;
+  message: string;
+  location: LintLocation;
+}
+
+export interface LintReport {
+  generatedAt: number;
+  summary: Record<LintSeverity, number>;
+  issues: LintIssue[];
+}
+
+export interface RuleFileItems {
+  file: string;
+  items: unknown;
+}
+
+// 规范拼写（沿用数据中的 Avaliable）
+const SPECIAL_CASE_TYPES: SpecialCase['type'][] = [
+  'directionNotAvaliable',
+  'lineNotAvaliable',
+  'throughTrain',
+  'lineOvertaking',
+];
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+function str(v: any): string {
+  return String(v ?? '').trim();
+}
+
+function isFiniteNumber(v: any): boolean {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+// 忽略大小写与 Available/Avaliable 拼写差异后匹配规范类型
+function suggestSpecialCaseType(type: string): SpecialCase['type'] | null {
+  const key = type.toLowerCase().replace('available', 'avaliable');
+  return SPECIAL_CASE_TYPES.find((t) => t.toLowerCase() === key) ?? null;
+}
+
+// ------------------------------
+// 铁路数据（RIA_Data Station[]）
+// ------------------------------
+
+/**
+ * 校验单个世界的原始铁路数据
+ */
+export function validateRailwayStations(stations: unknown, world: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const push = (severity: LintSeverity, code: string, message: string, loc: Omit<LintLocation, 'source' | 'world'> = {}) => {
+    issues.push({ severity, code, message, location: { source: 'railway', world, ...loc } });
+  };
+
+  if (!Array.isArray(stations)) {
+    push('error', 'railway/not-array', '铁路数据不是数组');
+    return issues;
+  }
+
+  // lineId -> stationCode -> 站名（检查重复编号）
+  const codesByLine = new Map<string, Map<number, string>>();
+  // lineId -> 各站点是否开通（检查 distance: -1 混用）
+  const openByLine = new Map<string, { code: number; open: boolean; station: string }[]>();
+  const seenNames = new Map<string, number>();
+
+  (stations as Station[]).forEach((station, si) => {
+    const name = str(station?.stationName);
+    const stationPath = `[${si}]`;
+    if (!name) {
+      push('error', 'station/missing-name', '站点缺少 stationName', { path: stationPath });
+      return;
+    }
+
+    seenNames.set(name, (seenNames.get(name) ?? 0) + 1);
+
+    if (!Array.isArray(station.lines) || station.lines.length === 0) {
+      push('warning', 'station/no-lines', '站点没有任何线路', { station: name, path: `${stationPath}.lines` });
+      return;
+    }
+
+    // lineId -> 已出现的 stationCode
+    const linesHere = new Map<string, unknown>();
+    station.lines.forEach((line, li) => {
+      const path = `${stationPath}.lines[${li}]`;
+      const bureau = str(line?.bureau);
+      const lineNo = str(line?.line);
+      if (!bureau || !lineNo) {
+        push('error', 'line/missing-id', '线路缺少 bureau 或 line', { station: name, path });
+        return;
+      }
+
+      const lineId = `${bureau}-${lineNo}`;
+      if (linesHere.has(lineId)) {
+        // 解析时按 (线路, stationCode) 建索引：编号相同则后者覆盖前者，编号不同则该站在线路上出现两次
+        const message = linesHere.get(lineId) === line?.stationCode
+          ? `站点重复列出线路 ${lineId}（stationCode 相同），解析时只保留最后一条`
+          : `站点重复列出线路 ${lineId}（stationCode ${JSON.stringify(linesHere.get(lineId))} 与 ${JSON.stringify(line?.stationCode)}），解析后该站会在线路上出现两次`;
+        push('error', 'line/duplicate-in-station', message, { station: name, line: lineId, path });
+      }
+      linesHere.set(lineId, line?.stationCode);
+
+      if (!isFiniteNumber(line.stationCode)) {
+        push('error', 'line/invalid-station-code', `stationCode 无效：${JSON.stringify(line.stationCode)}`, { station: name, line: lineId, path: `${path}.stationCode` });
+        return;
+      }
+      if (!line.coord || !isFiniteNumber(line.coord.x) || !isFiniteNumber(line.coord.z)) {
+        push('error', 'line/invalid-coord', '坐标缺失或无效', { station: name, line: lineId, path: `${path}.coord` });
+      }
+
+      const distance = line.distance;
+      if (distance !== undefined && distance !== -1 && (!isFiniteNumber(distance) || distance < 0)) {
+        push('warning', 'line/invalid-distance', `distance 应为非负数或 -1（未开通），实际为 ${JSON.stringify(distance)}`, { station: name, line: lineId, path: `${path}.distance` });
+      }
+
+      const open = distance !== -1;
+      if (!openByLine.has(lineId)) openByLine.set(lineId, []);
+      openByLine.get(lineId)!.push({ code: line.stationCode, open, station: name });
+
+      // 未开通的站点不参与解析，不会覆盖
+      if (!open) return;
+      if (!codesByLine.has(lineId)) codesByLine.set(lineId, new Map());
+      const codes = codesByLine.get(lineId)!;
+      const existing = codes.get(line.stationCode);
+      if (existing !== undefined && existing !== name) {
+        push('error', 'line/duplicate-station-code', `线路 ${lineId} 的站点编号 ${line.stationCode} 同时属于「${existing}」和「${name}」，解析时前者被覆盖`, { station: name, line: lineId, path: `${path}.stationCode` });
+      }
+      codes.set(line.stationCode, name);
+    });
+
+    validateSpecialCases(station, stationPath, push);
+  });
+
+  for (const [name, count] of seenNames) {
+    if (count > 1) {
+      push('info', 'station/duplicate-name', `站名出现 ${count} 次，解析时合并为同一站点`, { station: name });
+    }
+  }
+
+  // distance: -1 混用：夹在已开通站点之间的未开通站点会让前后两站直接相连
+  for (const [lineId, entries] of openByLine) {
+    const openCodes = entries.filter((e) => e.open).map((e) => e.code);
+    if (openCodes.length === 0) continue;
+    const min = Math.min(...openCodes);
+    const max = Math.max(...openCodes);
+    for (const e of entries) {
+      if (e.open) continue;
+      if (e.code > min && e.code < max) {
+        push('warning', 'line/unopened-in-middle', `线路 ${lineId} 中间站 ${e.code} 未开通（distance: -1），前后两站将直接相连`, { station: e.station, line: lineId });
+      }
+    }
+  }
+
+  for (const [lineId, codes] of codesByLine) {
+    if (codes.size < 2) {
+      push('warning', 'line/single-station', `线路 ${lineId} 只有 ${codes.size} 个已开通站点，不会生成线路`, { line: lineId });
+    }
+  }
+
+  return issues;
+}
+
+function validateSpecialCases(
+  station: Station,
+  stationPath: string,
+  push: (severity: LintSeverity, code: string, message: string, loc?: Omit<LintLocation, 'source' | 'world'>) => void
+) {
+  if (station.specialCases === undefined) return;
+  const name = station.stationName;
+  if (!Array.isArray(station.specialCases)) {
+    push('error', 'special/not-array', 'specialCases 不是数组', { station: name, path: `${stationPath}.specialCases` });
+    return;
+  }
+
+  const linesHere = new Set(
+    (Array.isArray(station.lines) ? station.lines : []).map((l) => `${str(l?.bureau)}-${str(l?.line)}`)
+  );
+
+  station.specialCases.forEach((sc, ci) => {
+    const path = `${stationPath}.specialCases[${ci}]`;
+    const type = str(sc?.type);
+    const target: SpecialCase['target'] = sc?.target ?? {};
+
+    if (!SPECIAL_CASE_TYPES.includes(type as SpecialCase['type'])) {
+      const suggestion = suggestSpecialCaseType(type);
+      push(
+        'error',
+        'special/unknown-type',
+        suggestion ? `未知类型「${type}」，应为「${suggestion}」` : `未知类型「${type}」，该规则会被忽略`,
+        { station: name, path: `${path}.type` }
+      );
+      return;
+    }
+
+    const checkLine = (bureauKey: keyof SpecialCase['target'], lineKey: keyof SpecialCase['target']) => {
+      const bureau = str(target[bureauKey]);
+      const line = str(target[lineKey]);
+      if (!bureau || !line) {
+        push('error', 'special/missing-target', `${type} 缺少 target.${bureauKey} / target.${lineKey}`, { station: name, path: `${path}.target` });
+        return;
+      }
+      const lineId = `${bureau}-${line}`;
+      if (!linesHere.has(lineId)) {
+        push('error', 'special/line-not-at-station', `${type} 指向的线路 ${lineId} 不经过本站`, { station: name, line: lineId, path: `${path}.target` });
+      }
+    };
+
+    if (type === 'throughTrain') {
+      checkLine('bureau1', 'line1');
+      checkLine('bureau2', 'line2');
+      return;
+    }
+
+    checkLine('bureau', 'line');
+    if (type === 'directionNotAvaliable' && typeof target.isTrainUp !== 'boolean') {
+      push('warning', 'special/missing-direction', '未指定 target.isTrainUp，默认按下行处理', { station: name, path: `${path}.target.isTrainUp` });
+    }
+    if (type === 'lineOvertaking' && !isFiniteNumber(target.stationCode)) {
+      push('error', 'special/missing-overtake-code', 'lineOvertaking 缺少 target.stationCode（越行后下一站编号）', { station: name, path: `${path}.target.stationCode` });
+    }
+  });
+}
+
+// ------------------------------
+// 规则 JSON（STA / PLF / RLE / STB / SBP）
+// 字段别名与 Navigation_RailNewIntegrated 的解析器保持一致
+// ------------------------------
+
+type RuleRef = { file: string; index: number; item: any };
+
+function hasCoordinate(v: any): boolean {
+  if (Array.isArray(v)) return Number.isFinite(Number(v[0])) && Number.isFinite(Number(v[2] ?? v[1]));
+  return !!v && typeof v === 'object' && Number.isFinite(Number(v.x)) && Number.isFinite(Number(v.z));
+}
+
+function countCoordinates(v: any): number {
+  return Array.isArray(v) ? v.filter(hasCoordinate).length : 0;
+}
+
+function idList(v: any, pick: (x: any) => any): string[] {
+  return Array.isArray(v) ? v.map((x) => str(pick(x))).filter(Boolean) : [];
+}
+
+function ruleRecordId(cls: string, it: any): string {
+  switch (cls) {
+    case 'STA':
+      return str(it.stationID ?? it.stationId ?? it.ID ?? it.id);
+    case 'PLF':
+      return str(it.platformID ?? it.platformId ?? it.ID ?? it.id);
+    case 'RLE':
+      return str(it.LineID ?? it.lineID ?? it.lineId ?? it.ID ?? it.id);
+    case 'SBP':
+      return str(it.staBuildingPointID ?? it.staBuildingPointId ?? it.stationID ?? it.stationId ?? it.staBuildingID ?? it.staBuildingId ?? it.ID ?? it.id);
+    default:
+      return str(it.staBuildingID ?? it.staBuildingId ?? it.buildingID ?? it.BuildingID ?? it.buildingId ?? it.ID ?? it.id);
+  }
+}
+
+// 站台名比较：去掉“-n站台”后缀与末尾的“站”
+function normalizePlatformName(name: string): string {
+  return name.replace(/-[^-]*站台$/, '').replace(/站$/, '').trim();
+}
+
+/**
+ * 校验单个世界的规则 JSON（跨文件检查引用关系）
+ */
+export function validateRuleFiles(files: RuleFileItems[], world: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const push = (severity: LintSeverity, code: string, message: string, ref: RuleRef | null, loc: Omit<LintLocation, 'source' | 'world' | 'file'> = {}) => {
+    issues.push({
+      severity,
+      code,
+      message,
+      location: { source: 'rule', world, ...(ref ? { file: ref.file, path: `[${ref.index}]` } : {}), ...loc },
+    });
+  };
+
+  const byClass: Record<string, Map<string, RuleRef>> = {
+    STA: new Map(),
+    PLF: new Map(),
+    RLE: new Map(),
+    STB: new Map(),
+  };
+
+  // 第一遍：收集 ID，检查重复 / 缺失
+  for (const { file, items } of files) {
+    if (!Array.isArray(items)) {
+      issues.push({ severity: 'error', code: 'rule/not-array', message: '文件内容不是数组', location: { source: 'rule', world, file } });
+      continue;
+    }
+    items.forEach((item: any, index) => {
+      const rawCls = str(item?.Class);
+      if (!['STA', 'PLF', 'RLE', 'STB', 'SBP'].includes(rawCls)) return;
+      // STB 与 SBP 共用站体 ID 空间
+      const cls = rawCls === 'SBP' ? 'STB' : rawCls;
+      const ref: RuleRef = { file, index, item };
+      const id = ruleRecordId(rawCls, item);
+      if (!id) {
+        push('error', 'rule/missing-id', `${rawCls} 缺少 ID，解析时被忽略`, ref);
+        return;
+      }
+
+      const prev = byClass[cls].get(id);
+      if (prev) {
+        push('error', 'rule/duplicate-id', `${rawCls} ID 重复（另见 ${prev.file}[${prev.index}]），解析时前者被覆盖`, ref, { recordId: id });
+      }
+      byClass[cls].set(id, ref);
+    });
+  }
+
+  // 站台名索引：供 RLE startplf / endplf 匹配
+  const platformNames = new Set<string>();
+  for (const [id, { item }] of byClass.PLF) {
+    platformNames.add(id);
+    const name = str(item.platformName ?? item.name);
+    if (name) {
+      platformNames.add(name);
+      platformNames.add(normalizePlatformName(name));
+    }
+  }
+  for (const { item } of byClass.STA.values()) {
+    const name = str(item.stationName ?? item.name);
+    if (name) platformNames.add(normalizePlatformName(name));
+  }
+
+  const referencedPlatforms = new Set<string>();
+
+  for (const [id, ref] of byClass.STA) {
+    const it = ref.item;
+    if (!hasCoordinate(it.coordinate)) {
+      push('error', 'sta/invalid-coordinate', '车站坐标缺失或无效，解析时被忽略', ref, { recordId: id, path: `[${ref.index}].coordinate` });
+    }
+    const platformIds = idList(it.platforms ?? it.Platforms ?? it.PLFS, (p) => p?.ID ?? p?.platformID ?? p?.platformId ?? p);
+    if (platformIds.length === 0) {
+      push('warning', 'sta/no-platforms', '车站没有关联任何站台', ref, { recordId: id });
+    }
+    for (const pid of platformIds) {
+      referencedPlatforms.add(pid);
+      if (!byClass.PLF.has(pid)) {
+        push('warning', 'sta/unknown-platform', `关联的站台 ${pid} 不存在`, ref, { recordId: id });
+      }
+    }
+    const building = str(it.STBuilding ?? it.StBuilding ?? it.stBuilding ?? it.stationBuilding ?? it.stationBuildingId);
+    if (building && !byClass.STB.has(building)) {
+      push('warning', 'sta/unknown-building', `所属车站建体 ${building} 不存在`, ref, { recordId: id });
+    }
+  }
+
+  for (const [id, ref] of byClass.PLF) {
+    const it = ref.item;
+    if (!hasCoordinate(it.coordinate)) {
+      push('error', 'plf/invalid-coordinate', '站台坐标缺失或无效，解析时被忽略', ref, { recordId: id, path: `[${ref.index}].coordinate` });
+    }
+    const lines = it.lines ?? it.Lines;
+    if (!Array.isArray(lines) || lines.length === 0) {
+      push('warning', 'plf/no-lines', '站台没有停靠任何线路', ref, { recordId: id });
+    } else {
+      lines.forEach((lr: any, li: number) => {
+        const lineId = str(lr?.ID ?? lr?.LineID ?? lr?.lineID ?? lr?.id);
+        const path = `[${ref.index}].lines[${li}]`;
+        if (!lineId) {
+          push('error', 'plf/missing-line-id', '停靠线路缺少 ID', ref, { recordId: id, path });
+        } else if (!byClass.RLE.has(lineId)) {
+          push('error', 'plf/unknown-line', `停靠线路 ${lineId} 没有对应的 RLE`, ref, { recordId: id, line: lineId, path });
+        }
+      });
+    }
+    if (!referencedPlatforms.has(id)) {
+      push('info', 'plf/orphan', '站台未被任何车站（STA）引用', ref, { recordId: id });
+    }
+  }
+
+  for (const [id, ref] of byClass.RLE) {
+    const it = ref.item;
+    if (countCoordinates(it.PLpoints ?? it.plpoints ?? it.points) < 2) {
+      push('error', 'rle/too-few-points', 'PLpoints 少于 2 个有效点，解析时被忽略', ref, { recordId: id, line: id, path: `[${ref.index}].PLpoints` });
+    }
+    for (const key of ['startplf', 'endplf'] as const) {
+      const name = str(it[key]);
+      if (!name) {
+        push('warning', 'rle/missing-terminal', `缺少 ${key}`, ref, { recordId: id, line: id, path: `[${ref.index}].${key}` });
+      } else if (!platformNames.has(name) && !platformNames.has(normalizePlatformName(name))) {
+        push('warning', 'rle/unknown-terminal', `${key}「${name}」没有匹配的站台或车站`, ref, { recordId: id, line: id, path: `[${ref.index}].${key}` });
+      }
+    }
+  }
+
+  for (const [id, ref] of byClass.STB) {
+    const it = ref.item;
+    const cls = str(it.Class);
+    const hasPoint = hasCoordinate(it.coordinate ?? it.center ?? it.Coord ?? it.coord);
+    const hasPolygon = countCoordinates(it.Conpoints ?? it.conpoints ?? it.Flrpoints ?? it.flrpoints ?? it.points ?? it.Points) >= 3;
+    if (!hasPoint && (cls === 'SBP' || !hasPolygon)) {
+      push('error', 'stb/no-geometry', `${cls} 缺少可用的坐标或轮廓，解析时被忽略`, ref, { recordId: id });
+    }
+    const stationIds = idList(
+      it.Stations ?? it.stations ?? it.stationsgroup ?? it.stationsGroup ?? it.StationsGroup ?? it.Stationsgroup,
+      (x) => x?.ID ?? x?.id ?? x?.stationID ?? x?.stationId ?? x
+    );
+    for (const sid of stationIds) {
+      if (!byClass.STA.has(sid)) {
+        push('warning', 'stb/unknown-station', `包含的车站 ${sid} 不存在`, ref, { recordId: id });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// ------------------------------
+// 报告
+// ------------------------------
+
+export function createLintReport(issues: LintIssue[]): LintReport {
+  const summary: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) summary[issue.severity]++;
+
+  const sorted = [...issues].sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+    a.location.world.localeCompare(b.location.world) ||
+    a.location.source.localeCompare(b.location.source)
+  );
+
+  return { generatedAt: Date.now(), summary, issues: sorted };
+}
+
+/**
+ * 问题位置的简短文字：zth · ZRT13_Stas.json · ZRT13PLF_01_D · [0].lines[0]
+ */
+export function formatLintLocation(location: LintLocation): string {
+  const parts: string[] = [location.world];
+  if (location.file) parts.push(location.file);
+  if (location.station) parts.push(location.station);
+  if (location.recordId) parts.push(location.recordId);
+  else if (location.line) parts.push(location.line);
+  if (location.path) parts.push(location.path);
+  return parts.join(' · ');
+}
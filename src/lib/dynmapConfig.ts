@@ -0,0 +1,159 @@
+/**
+ * Dynmap 运行时配置
+ * 通过 /api/dynmap 代理读取各世界的 up/configuration，解析出每张地图的投影参数（worldtomap / maptoworld / 缩放级别）；
+ * 请求失败（离线、本地桩服务器未实现该接口等）时使用随包附带的配置 src/config/dynmapConfiguration.json
+ */
+
+import type { Coordinate, DynmapMapConfig, DynmapWorldConfig } from '@/types';
+import bundledConfiguration from '@/config/dynmapConfiguration.json';
+import { loadSource, DEFAULT_SOURCE_MAX_AGE } from './sourceCache';
+import { getWorld } from './worldRegistry';
+
+// up/configuration 响应中用到的字段
+interface RawDynmapMap {
+  name?: string;
+  title?: string;
+  prefix?: string;
+  'image-format'?: string;
+  nightandday?: boolean;
+  scale?: number;
+  azimuth?: number;
+  inclination?: number;
+  mapzoomin?: number;
+  mapzoomout?: number;
+  tilescale?: number;
+  worldtomap?: number[];
+  maptoworld?: number[];
+}
+
+interface RawDynmapWorld {
+  name?: string;
+  title?: string;
+  center?: Partial<Coordinate>;
+  maps?: RawDynmapMap[];
+}
+
+interface RawDynmapConfiguration {
+  defaultworld?: string;
+  worlds?: RawDynmapWorld[];
+}
+
+const isMatrix = (m: unknown): m is number[] =>
+  Array.isArray(m) && m.length === 9 && m.every((v) => Number.isFinite(Number(v)));
+
+const finiteOr = (v: unknown, fallback: number) => (Number.isFinite(Number(v)) ? Number(v) : fallback);
+
+function parseMap(raw: RawDynmapMap): DynmapMapConfig | null {
+  // 只支持 HDMap（有投影矩阵的地图）
+  if (!raw.name || !isMatrix(raw.worldtomap) || !isMatrix(raw.maptoworld)) return null;
+  return {
+    name: raw.name,
+    title: raw.title ?? raw.name,
+    prefix: raw.prefix ?? raw.name,
+    scale: finiteOr(raw.scale, 0),
+    azimuth: finiteOr(raw.azimuth, 0),
+    inclination: finiteOr(raw.inclination, 90),
+    mapzoomin: finiteOr(raw.mapzoomin, 0),
+    // 缺失时为 NaN，交由 deriveMapzoomout 按 worldtomap 推导
+    mapzoomout: finiteOr(raw.mapzoomout, Number.NaN),
+    worldtomap: raw.worldtomap.map(Number),
+    maptoworld: raw.maptoworld.map(Number),
+    imageFormat: raw['image-format'] ?? 'png',
+    tilescale: finiteOr(raw.tilescale, 0),
+    nightAndDay: Boolean(raw.nightandday),
+  };
+}
+
+/**
+ * 解析 up/configuration，按 defaultworld 优先排序；没有可用地图的世界会被跳过
+ */
+export function parseDynmapConfiguration(raw: unknown): DynmapWorldConfig[] {
+  const config = (raw && typeof raw === 'object' ? raw : {}) as RawDynmapConfiguration;
+  const worlds = (Array.isArray(config.worlds) ? config.worlds : [])
+    .map((w): DynmapWorldConfig | null => {
+      const maps = (Array.isArray(w.maps) ? w.maps : [])
+        .map(parseMap)
+        .filter((m): m is DynmapMapConfig => m !== null);
+      if (!w.name || maps.length === 0) return null;
+      return {
+        name: w.name,
+        title: w.title ?? w.name,
+        center: { x: finiteOr(w.center?.x, 0), y: finiteOr(w.center?.y, 64), z: finiteOr(w.center?.z, 0) },
+        maps,
+      };
+    })
+    .filter((w): w is DynmapWorldConfig => w !== null);
+
+  return worlds.sort((a, b) => Number(b.name === config.defaultworld) - Number(a.name === config.defaultworld));
+}
+
+const BUNDLED_WORLD: DynmapWorldConfig = (() => {
+  const [world] = parseDynmapConfiguration(bundledConfiguration);
+  if (!world) throw new Error('dynmapConfiguration.json 缺少可用的地图配置');
+  return world;
+})();
+
+// worldId -> 运行时读取到的配置
+const loadedConfigs = new Map<string, DynmapWorldConfig>();
+const pending = new Map<string, Promise<DynmapWorldConfig>>();
+
+/**
+ * Dynmap 配置数据源（IndexedDB 缓存键 + 地址）
+ */
+export function getDynmapConfigSource(worldId: string): { key: string; urls: string[] } {
+  const url = getWorld(worldId)?.dynmap.configurationUrl ?? `/api/dynmap/_${worldId}/up/configuration`;
+  return { key: `dynmap:${worldId}`, urls: [url] };
+}
+
+/**
+ * 读取世界的 Dynmap 配置（同一世界只请求一次；失败时返回随包配置，不抛错）
+ */
+export function loadDynmapWorldConfig(worldId: string, force = false): Promise<DynmapWorldConfig> {
+  if (!force) {
+    const loaded = loadedConfigs.get(worldId);
+    if (loaded) return Promise.resolve(loaded);
+    const inflight = pending.get(worldId);
+    if (inflight) return inflight;
+  }
+
+  const promise = loadSource<unknown>({
+    ...getDynmapConfigSource(worldId),
+    maxAge: DEFAULT_SOURCE_MAX_AGE,
+    force,
+    optional: true,
+  })
+    .then((result) => {
+      const [world] = parseDynmapConfiguration(result.data);
+      if (!world) {
+        console.warn(`Dynmap configuration unavailable for ${worldId} (${result.error ?? result.status}), using bundled config`);
+        return BUNDLED_WORLD;
+      }
+      loadedConfigs.set(worldId, world);
+      return world;
+    })
+    .catch((e) => {
+      console.warn(`Failed to load Dynmap configuration for ${worldId}:`, e);
+      return BUNDLED_WORLD;
+    })
+    .finally(() => pending.delete(worldId));
+
+  pending.set(worldId, promise);
+  return promise;
+}
+
+/**
+ * 世界当前可用的全部地图（平面 / 等距表面等视角）
+ */
+export function getDynmapMaps(worldId: string): DynmapMapConfig[] {
+  return (loadedConfigs.get(worldId) ?? BUNDLED_WORLD).maps;
+}
+
+/**
+ * 当前可用的地图配置（同步）：已读取到的运行时配置，否则为随包配置；
+ * 找不到 mapName 时依次取世界注册表的默认地图、该世界的第一张地图
+ */
+export function getDynmapMapConfig(worldId: string, mapName?: string): DynmapMapConfig {
+  const maps = getDynmapMaps(worldId);
+  const defaultName = getWorld(worldId)?.dynmap.mapName;
+  return maps.find((m) => m.name === mapName) ?? maps.find((m) => m.name === defaultName) ?? maps[0];
+}
@@ -44,6 +44,13 @@ function convertToMirrorUrl(originalUrl: string, mirror: string): string {
   return originalUrl;
 }
 
+/**
+ * GitHub raw URL -> 全部镜像地址（按优先级）；非 GitHub raw 地址原样返回
+ */
+export function getMirrorUrls(url: string): string[] {
+  return Array.from(new Set(GITHUB_RAW_MIRRORS.map((mirror) => convertToMirrorUrl(url, mirror))));
+}
+
 // 加载进度回调类型
 export interface LoadingProgress {
   stage: string;
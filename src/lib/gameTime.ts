@@ -0,0 +1,42 @@
+/**
+ * 游戏内时间
+ * Dynmap 的 servertime 为当天刻数（0-23999，0 = 早上 6 点）；换算规则与 dynmaputils.js getMinecraftTime 一致
+ */
+
+// 一天的刻数
+export const MINECRAFT_DAY_TICKS = 24000;
+// 每秒 20 刻
+const TICKS_PER_SECOND = 20;
+// 13700 刻（约 19:42）之后 Dynmap 使用夜间瓦片
+const NIGHT_START_TICKS = 13700;
+
+export interface MinecraftTime {
+  ticks: number;
+  hours: number;
+  minutes: number;
+  day: boolean;
+}
+
+/**
+ * 刻数换算为时:分与昼夜
+ */
+export function getMinecraftTime(ticks: number): MinecraftTime {
+  const t = ((Math.floor(ticks) % MINECRAFT_DAY_TICKS) + MINECRAFT_DAY_TICKS) % MINECRAFT_DAY_TICKS;
+  return {
+    ticks: t,
+    hours: (Math.floor(t / 1000) + 6) % 24,
+    minutes: Math.floor(((t / 1000) % 1) * 60),
+    day: t < NIGHT_START_TICKS,
+  };
+}
+
+/**
+ * 由上次获取的 servertime 推算当前刻数（按每秒 20 刻前进，两次轮询之间时钟也能走动）
+ */
+export function estimateServerTicks(serverTime: number, sampledAt: number, now: number = Date.now()): number {
+  return serverTime + Math.max(0, now - sampledAt) / 1000 * TICKS_PER_SECOND;
+}
+
+export function formatMinecraftTime(time: MinecraftTime): string {
+  return `${String(time.hours).padStart(2, '0')}:${String(time.minutes).padStart(2, '0')}`;
+}
@@ -0,0 +1,182 @@
+/**
+ * JSON Schema（draft 2020-12）子集
+ * - 类型定义：供 featureFormats 按 FORMAT_REGISTRY 生成 Schema 并导出给外部工具/编辑器
+ * - 校验器：仅实现生成结果用到的关键字（type/const/enum/pattern/properties/required/
+ *   additionalProperties/items/minItems/maxItems/anyOf/allOf），错误位置为 JSON Pointer（RFC 6901）
+ * - $ref / if / then 仅出现在导出的整文件 Schema 中，校验器不处理
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  default?: unknown;
+
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+  pattern?: string;
+
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+}
+
+export interface SchemaError {
+  pointer: string;   // 出错位置，如 /lines/0/ID（根为 ''）
+  keyword: string;   // 触发的关键字
+  message: string;
+}
+
+const TYPE_LABELS: Record<JsonSchemaType, string> = {
+  string: '字符串',
+  number: '数字',
+  integer: '整数',
+  boolean: '布尔值',
+  object: '对象',
+  array: '数组',
+  null: 'null',
+};
+
+// 编译后的正则缓存（Schema 在导入时会被反复使用）
+const patternCache = new Map<string, RegExp>();
+
+function getPattern(pattern: string): RegExp {
+  let re = patternCache.get(pattern);
+  if (!re) {
+    re = new RegExp(pattern, 'u');
+    patternCache.set(pattern, re);
+  }
+  return re;
+}
+
+export function escapeJsonPointer(token: string | number): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describe(value: unknown): string {
+  const text = JSON.stringify(value);
+  if (text === undefined) return String(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function validateAt(schema: JsonSchema, value: unknown, pointer: string, errors: SchemaError[]): void {
+  const push = (keyword: string, message: string, at: string = pointer) => {
+    errors.push({ pointer: at, keyword, message });
+  };
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      push('type', `应为${types.map((t) => TYPE_LABELS[t]).join('或')}，实际为 ${describe(value)}`);
+      return; // 类型不符时不再检查其余关键字，避免连带错误
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    push('const', `应为 ${describe(schema.const)}，实际为 ${describe(value)}`);
+  }
+
+  if (schema.enum && !schema.enum.some((v) => isEqual(v, value))) {
+    push('enum', `应为 ${schema.enum.map(describe).join(' / ')} 之一，实际为 ${describe(value)}`);
+  }
+
+  if (schema.pattern !== undefined && typeof value === 'string' && !getPattern(schema.pattern).test(value)) {
+    push('pattern', value.trim() === '' ? '不能为空' : `格式不符（${schema.pattern}）`);
+  }
+
+  if (matchesType(value, 'object')) {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) {
+        push('required', `缺少必填字段 ${key}`, `${pointer}/${escapeJsonPointer(key)}`);
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const at = `${pointer}/${escapeJsonPointer(key)}`;
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        validateAt(propSchema, child, at, errors);
+      } else if (schema.additionalProperties === false) {
+        push('additionalProperties', `不允许的字段 ${key}`, at);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateAt(schema.additionalProperties, child, at, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      push('minItems', `至少需要 ${schema.minItems} 项，实际 ${value.length} 项`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      push('maxItems', `最多 ${schema.maxItems} 项，实际 ${value.length} 项`);
+    }
+    if (schema.items) {
+      value.forEach((child, i) => validateAt(schema.items!, child, `${pointer}/${i}`, errors));
+    }
+  }
+
+  for (const sub of schema.allOf ?? []) {
+    validateAt(sub, value, pointer, errors);
+  }
+
+  if (schema.anyOf && schema.anyOf.length > 0) {
+    // 全部分支失败时，报告错误最少的分支（通常最接近用户意图）
+    let best: SchemaError[] | null = null;
+    for (const sub of schema.anyOf) {
+      const branch: SchemaError[] = [];
+      validateAt(sub, value, pointer, branch);
+      if (branch.length === 0) {
+        best = null;
+        break;
+      }
+      if (!best || branch.length < best.length) best = branch;
+    }
+    if (best) errors.push(...best);
+  }
+}
+
+/**
+ * 按 Schema 校验数据，返回全部错误（空数组表示通过）
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateAt(schema, value, '', errors);
+  return errors;
+}
@@ -3,7 +3,9 @@
  * 从 RIA_Data 仓库获取地标数据
  */
 
-import { fetchWithMirror, type ProgressCallback } from './fetchWithMirror';
+import { getMirrorUrls, type ProgressCallback } from './fetchWithMirror';
+import { loadSource } from './sourceCache';
+import { getWorld } from './worldRegistry';
 
 export interface LandmarkCoord {
   x: number;
@@ -56,6 +58,19 @@ export const GRADE_SIZES: Record<string, number> = {
   'Unknown': 4,
 };
 
+/**
+ * 地标数据源（IndexedDB 缓存键 + 候选地址）
+ */
+export function getLandmarkSource(worldId: string): { key: string; urls: string[] } {
+  return {
+    key: `landmark:${worldId}`,
+    urls: getMirrorUrls(
+      getWorld(worldId)?.data.landmarkUrl ??
+        `https://raw.githubusercontent.com/RainC7/RIA_Data/main/data/landmark/${worldId}.json`
+    ),
+  };
+}
+
 /**
  * 获取地标数据
  */
@@ -63,14 +78,17 @@ export async function fetchLandmarkData(
   worldId: string,
   onProgress?: ProgressCallback
 ): Promise<Landmark[]> {
-  const url = `https://raw.githubusercontent.com/RainC7/RIA_Data/main/data/landmark/${worldId}.json`;
+  onProgress?.({ stage: '地标数据', status: 'loading' });
 
-  try {
-    return await fetchWithMirror<Landmark[]>(url, '地标数据', onProgress);
-  } catch (error) {
-    console.error('Error fetching landmark data:', error);
-    return [];
+  const result = await loadSource<Landmark[]>(getLandmarkSource(worldId));
+  if (result.data) {
+    onProgress?.({ stage: '地标数据', status: 'success' });
+    return result.data;
   }
+
+  onProgress?.({ stage: '地标数据', status: 'error', message: result.error });
+  console.error('Error fetching landmark data:', result.error);
+  return [];
 }
 
 /**
@@ -0,0 +1,108 @@
+/**
+ * 线路运营模型（时刻表 / 发车间隔）
+ * 从 /data/line_services.json 加载；文件不存在时返回 null，导航沿用固定速度与固定换乘惩罚
+ */
+
+import type { LineServiceSpec, LineServicesConfig } from '@/types';
+
+const LINE_SERVICES_URL = '/data/line_services.json';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// 数据源（可选文件；由 dataStore 经 IndexedDB 缓存加载）
+export const LINE_SERVICES_SOURCE = { key: 'line-services', urls: [LINE_SERVICES_URL], optional: true };
+
+// 解析后的单条线路运营参数
+export interface ResolvedLineService {
+  speed: number | null;         // 巡航速度（blocks/s）；null 表示未配置，沿用调用方默认速度
+  dwellSeconds: number;         // 每站停站时间（秒）
+  expectedWaitSeconds: number;  // 期望候车时间（秒）
+}
+
+/**
+ * "HH:MM[:SS]" -> 当日秒数
+ */
+function parseClock(text: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(text.trim());
+  if (!m) return null;
+  const sec = Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3] ?? 0);
+  return sec < DAY_SECONDS ? sec : null;
+}
+
+/**
+ * 期望候车时间（乘客随机到站）
+ * - 时刻表：按一天循环计算相邻发车间隔 g，E[wait] = Σg² / (2·Σg)
+ * - 等间隔：headway / 2
+ */
+export function expectedWaitSeconds(spec: LineServiceSpec): number {
+  const times = (spec.departures ?? [])
+    .map(parseClock)
+    .filter((t): t is number => t !== null)
+    .sort((a, b) => a - b);
+
+  if (times.length > 0) {
+    let sumG = 0;
+    let sumG2 = 0;
+    for (let i = 0; i < times.length; i++) {
+      const next = i + 1 < times.length ? times[i + 1] : times[0] + DAY_SECONDS;
+      const g = next - times[i];
+      sumG += g;
+      sumG2 += g * g;
+    }
+    return sumG > 0 ? sumG2 / (2 * sumG) : 0;
+  }
+
+  const headway = Number(spec.headwaySeconds);
+  return Number.isFinite(headway) && headway > 0 ? headway / 2 : 0;
+}
+
+/**
+ * 查找线路运营参数
+ * 顺序：lines[lineId] -> lines[`${bureau}-${line}`] -> bureaus[bureau] -> defaults（逐字段覆盖）
+ */
+export function resolveLineService(
+  config: LineServicesConfig | null | undefined,
+  ref: { lineId?: string; bureau?: string; line?: string }
+): ResolvedLineService | null {
+  if (!config) return null;
+
+  const layers: Array<LineServiceSpec | undefined> = [
+    config.defaults,
+    ref.bureau ? config.bureaus?.[ref.bureau] : undefined,
+    ref.bureau && ref.line ? config.lines?.[`${ref.bureau}-${ref.line}`] : undefined,
+    ref.lineId ? config.lines?.[ref.lineId] : undefined,
+  ];
+  if (!layers.some(Boolean)) return null;
+
+  const spec: LineServiceSpec = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    // 更具体的层只给了发车间隔时，不再继承上层时刻表
+    if (layer.headwaySeconds !== undefined && layer.departures === undefined) delete spec.departures;
+    Object.assign(spec, layer);
+  }
+  const speed = Number(spec.speed);
+  const dwell = Number(spec.dwellSeconds);
+
+  return {
+    speed: Number.isFinite(speed) && speed > 0 ? speed : null,
+    dwellSeconds: Number.isFinite(dwell) && dwell > 0 ? dwell : 0,
+    expectedWaitSeconds: expectedWaitSeconds(spec),
+  };
+}
+
+// 按 lineId 查询运营参数（旧版线路图只携带 lineId）
+export type LineServiceLookup = (lineId: string) => ResolvedLineService | null;
+
+/**
+ * 为旧版线路（ParsedLine）建立查询函数；未配置时返回 undefined，调用方沿用原有估算
+ */
+export function createLineServiceLookup(
+  config: LineServicesConfig | null | undefined,
+  lines: Array<{ lineId: string; bureau: string; line: string }>
+): LineServiceLookup | undefined {
+  if (!config) return undefined;
+  const byId = new Map<string, ResolvedLineService | null>();
+  for (const l of lines) byId.set(l.lineId, resolveLineService(config, l));
+  return (lineId) => (byId.has(lineId) ? byId.get(lineId)! : resolveLineService(config, { lineId }));
+}
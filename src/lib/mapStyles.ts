@@ -0,0 +1,51 @@
+/**
+ * 地图风格注册表
+ * 每种风格是一个滤镜定义：没有 filter 的风格直接显示原始瓦片，其余风格的瓦片经过 tilePipeline 处理；
+ * 新增风格只需在 MAP_STYLE_DEFINITIONS 中添加一项（工具栏图标见 Toolbar 的 MAP_STYLE_ICONS）
+ *
+ * 注意：本模块会被打包进瓦片滤镜 Worker，不能引入 DOM / React 依赖
+ */
+
+import {
+  colorBlindSafeFilter,
+  grayscaleFilter,
+  highContrastFilter,
+  sketchFilter,
+  watercolorFilter,
+  type TileFilter,
+} from './tileFilters';
+
+export interface MapStyleDefinition {
+  label: string;
+  description: string;
+  // 瓦片滤镜；为空时使用原始瓦片
+  filter?: TileFilter;
+  // 追加在图层版权信息后的说明
+  attribution?: string;
+}
+
+const MAP_STYLE_DEFINITIONS = {
+  default: { label: '原版', description: '卫星原始渲染' },
+  watercolor: { label: '淡彩', description: '柔和水彩风格', filter: watercolorFilter, attribution: '淡彩风格' },
+  sketch: { label: '素描', description: '手绘地图风格', filter: sketchFilter, attribution: '素描风格' },
+  highContrast: { label: '高对比', description: '强化明暗与边缘', filter: highContrastFilter, attribution: '高对比风格' },
+  grayscale: { label: '灰度打印', description: '适合黑白打印', filter: grayscaleFilter, attribution: '灰度风格' },
+  colorBlindSafe: { label: '色盲友好', description: 'Okabe-Ito 配色，不依赖红绿区分', filter: colorBlindSafeFilter, attribution: '色盲友好配色' },
+} satisfies Record<string, MapStyleDefinition>;
+
+export type MapStyle = keyof typeof MAP_STYLE_DEFINITIONS;
+
+export const DEFAULT_MAP_STYLE: MapStyle = 'default';
+
+// 按注册顺序排列的风格列表（第一项为默认风格）
+export const MAP_STYLES: Array<{ id: MapStyle } & MapStyleDefinition> = (
+  Object.keys(MAP_STYLE_DEFINITIONS) as MapStyle[]
+).map((id) => ({ id, ...MAP_STYLE_DEFINITIONS[id] }));
+
+export function isMapStyle(value: unknown): value is MapStyle {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MAP_STYLE_DEFINITIONS, value);
+}
+
+export function getMapStyle(style: MapStyle): MapStyleDefinition {
+  return MAP_STYLE_DEFINITIONS[style] ?? MAP_STYLE_DEFINITIONS[DEFAULT_MAP_STYLE];
+}
@@ -0,0 +1,474 @@
+/**
+ * 八方向（octilinear）线路示意图布局
+ * 输入站点地理坐标与线路站序，输出网格化的示意图坐标与每段线段的走线方式：
+ * 1) 线路合并为无向图，换乘站 / 端点 / 分岔点为关键节点，其间的普通站组成链
+ * 2) 关键节点按度数从高到低、广度优先贪心放置到网格，代价综合地理偏移、
+ *    与已放置邻居的方向（保持相对方位）、八方向偏差与链所需长度
+ * 3) 每条链在 diagonal / perpendicular 走线（rmpPathCalculator）中选择最贴近原走向、且与已放置站点
+ *    冲突最少的一种，普通站按弧长均匀分布在走线上，因此站序与换乘关系保持不变
+ * 4) 任意两站不会落在同一网格：普通站的位置已被占用时沿走线前后挪动，仍无空位时吸附到最近的空格
+ */
+
+import type { EdgePath } from '@/types';
+import {
+  calculateDiagonalPath,
+  calculatePerpendicularPath,
+  type CoordTransformConfig,
+} from './rmpPathCalculator';
+
+interface Point2D {
+  x: number;
+  y: number;
+}
+
+export interface OctilinearStation {
+  id: string;
+  /** 游戏 x 坐标 */
+  x: number;
+  /** 游戏 z 坐标（示意图 y 轴） */
+  z: number;
+}
+
+export interface OctilinearLayoutInput {
+  stations: OctilinearStation[];
+  /** 每条线路的站点 id 序列 */
+  lines: string[][];
+}
+
+export interface OctilinearLayoutOptions {
+  /** 网格间距（输出坐标单位），即相邻两站的最小间距，默认 25 */
+  gridSize?: number;
+  /** 关键节点在地理位置周围的搜索半径（格），默认 3 */
+  searchRadius?: number;
+}
+
+export type OctilinearEdgeType = 'simple' | 'diagonal' | 'perpendicular';
+
+// 两站之间的走线方式（方向为 from → to）
+export interface OctilinearEdgeRoute {
+  from: string;
+  to: string;
+  type: OctilinearEdgeType;
+  startFrom: 'from' | 'to';
+}
+
+export interface OctilinearLayoutResult {
+  positions: Map<string, Point2D>;
+  edges: OctilinearEdgeRoute[];
+}
+
+// 关键节点之间的一条链（intermediates 不含两端）
+interface Chain {
+  from: string;
+  to: string;
+  intermediates: string[];
+}
+
+interface ChainRoute {
+  type: 'diagonal' | 'perpendicular';
+  startFrom: 'from' | 'to';
+}
+
+const DEFAULT_GRID_SIZE = 25;
+const DEFAULT_SEARCH_RADIUS = 3;
+
+// 放置代价权重
+const W_GEO = 1;
+const W_SHORT = 100;
+const W_DIRECTION = 4;
+const W_OCTILINEAR = 3;
+// 走线选择时每个冲突站点的代价（远大于位置误差）
+const W_COLLISION = 1e4;
+// 普通站沿走线挪动时，在相邻两站之间尝试的分段数
+const NUDGE_STEPS = 8;
+
+const OCTANT = Math.PI / 4;
+// 在网格坐标中直接取路径，不做坐标缩放
+const IDENTITY_TRANSFORM: CoordTransformConfig = { scale: 1, offset: 0, multiplier: 1 };
+const CHAIN_ROUTES: ChainRoute[] = [
+  { type: 'diagonal', startFrom: 'from' },
+  { type: 'diagonal', startFrom: 'to' },
+  { type: 'perpendicular', startFrom: 'from' },
+  { type: 'perpendicular', startFrom: 'to' },
+];
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+}
+
+function octantOf(v: Point2D): number {
+  return ((Math.round(Math.atan2(v.y, v.x) / OCTANT) % 8) + 8) % 8;
+}
+
+function octantDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 8;
+  return Math.min(d, 8 - d);
+}
+
+// 与最近八方向的夹角（弧度，0 ~ π/8）
+function octilinearDeviation(v: Point2D): number {
+  const angle = Math.atan2(v.y, v.x);
+  return Math.abs(angle - Math.round(angle / OCTANT) * OCTANT);
+}
+
+function isOctilinear(v: Point2D): boolean {
+  const ax = Math.abs(v.x);
+  const ay = Math.abs(v.y);
+  return ax < 1e-6 || ay < 1e-6 || Math.abs(ax - ay) < 1e-6;
+}
+
+function cellKey(p: Point2D): string {
+  return `${Math.round(p.x)},${Math.round(p.y)}`;
+}
+
+// 离 p 最近的空网格（按切比雪夫距离逐圈扩大）
+function nearestFreeCell(p: Point2D, occupied: Set<string>): Point2D {
+  const cx = Math.round(p.x);
+  const cy = Math.round(p.y);
+  for (let radius = 0; ; radius++) {
+    let best: Point2D | null = null;
+    let bestDist = Infinity;
+    for (let ox = -radius; ox <= radius; ox++) {
+      for (let oy = -radius; oy <= radius; oy++) {
+        if (Math.max(Math.abs(ox), Math.abs(oy)) !== radius) continue;
+        const cell = { x: cx + ox, y: cy + oy };
+        if (occupied.has(cellKey(cell))) continue;
+        const dist = Math.hypot(cell.x - p.x, cell.y - p.y);
+        if (dist < bestDist) {
+          bestDist = dist;
+          best = cell;
+        }
+      }
+    }
+    if (best) return best;
+  }
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * 以关键节点切分图中的链；环路（首尾为同一节点）与重复连接同一对节点的链
+ * 会把中间站提升为关键节点，保证每对关键节点之间至多一条链
+ */
+function extractChains(adjacency: Map<string, Set<string>>, keys: Set<string>): Chain[] {
+  for (;;) {
+    const chains: Chain[] = [];
+    const walked = new Set<string>();
+
+    const walk = (start: string, next: string) => {
+      const intermediates: string[] = [];
+      let prev = start;
+      let cur = next;
+      walked.add(pairKey(prev, cur));
+      while (!keys.has(cur)) {
+        intermediates.push(cur);
+        const following = [...adjacency.get(cur)!].find((n) => n !== prev && !walked.has(pairKey(cur, n)));
+        if (following === undefined) break;
+        prev = cur;
+        cur = following;
+        walked.add(pairKey(prev, cur));
+      }
+      chains.push({ from: start, to: cur, intermediates });
+    };
+
+    for (const key of keys) {
+      for (const n of adjacency.get(key) ?? []) {
+        if (!walked.has(pairKey(key, n))) walk(key, n);
+      }
+    }
+    // 没有关键节点的纯环线：任取一站作为关键节点
+    for (const [id, neighbors] of adjacency) {
+      for (const n of neighbors) {
+        if (walked.has(pairKey(id, n))) continue;
+        keys.add(id);
+        walk(id, n);
+      }
+    }
+
+    const promoted: string[] = [];
+    const byPair = new Map<string, Chain[]>();
+    for (const chain of chains) {
+      if (chain.from === chain.to) {
+        const k = chain.intermediates.length;
+        promoted.push(chain.intermediates[Math.floor(k / 3)], chain.intermediates[Math.floor((2 * k) / 3)]);
+        continue;
+      }
+      const key = pairKey(chain.from, chain.to);
+      byPair.set(key, [...(byPair.get(key) ?? []), chain]);
+    }
+    for (const group of byPair.values()) {
+      if (group.length < 2) continue;
+      group.sort((a, b) => a.intermediates.length - b.intermediates.length);
+      for (const chain of group.slice(1)) {
+        promoted.push(chain.intermediates[Math.floor(chain.intermediates.length / 2)]);
+      }
+    }
+
+    const fresh = promoted.filter((id) => id !== undefined && !keys.has(id));
+    if (fresh.length === 0) return chains;
+    fresh.forEach((id) => keys.add(id));
+  }
+}
+
+function routePath(from: Point2D, to: Point2D, route: ChainRoute): EdgePath {
+  const config = { startFrom: route.startFrom, offsetFrom: 0, offsetTo: 0, roundCornerFactor: 0 };
+  return route.type === 'diagonal'
+    ? calculateDiagonalPath(from, to, config, IDENTITY_TRANSFORM)
+    : calculatePerpendicularPath(from, to, config, IDENTITY_TRANSFORM);
+}
+
+// 在走线上按弧长比例取点（EdgePath 的游戏坐标 x/z 即网格 x/y）
+function sampleAlong(path: EdgePath, from: Point2D, fractions: number[]): Point2D[] {
+  const pieces = path.segments
+    .map((s) => {
+      const a = s.points[0];
+      const b = s.points[s.points.length - 1];
+      return { a: { x: a.x, y: a.z }, b: { x: b.x, y: b.z }, len: Math.hypot(b.x - a.x, b.z - a.z) };
+    })
+    .filter((p) => p.len > 1e-9);
+  const total = pieces.reduce((sum, p) => sum + p.len, 0);
+  if (total === 0) return fractions.map(() => ({ ...from }));
+
+  return fractions.map((f) => {
+    let remaining = f * total;
+    for (const p of pieces) {
+      if (remaining <= p.len) {
+        const t = remaining / p.len;
+        return { x: p.a.x + (p.b.x - p.a.x) * t, y: p.a.y + (p.b.y - p.a.y) * t };
+      }
+      remaining -= p.len;
+    }
+    const last = pieces[pieces.length - 1];
+    return { ...last.b };
+  });
+}
+
+/**
+ * 计算八方向示意图布局
+ */
+export function computeOctilinearLayout(
+  input: OctilinearLayoutInput,
+  options: OctilinearLayoutOptions = {}
+): OctilinearLayoutResult {
+  const gridSize = options.gridSize ?? DEFAULT_GRID_SIZE;
+  const searchRadius = options.searchRadius ?? DEFAULT_SEARCH_RADIUS;
+
+  const geo = new Map<string, Point2D>(input.stations.map((s) => [s.id, { x: s.x, y: s.z }]));
+
+  // 合并为无向图，并统计每站所属线路数
+  const adjacency = new Map<string, Set<string>>();
+  const lineCount = new Map<string, number>();
+  for (const line of input.lines) {
+    const ids = line.filter((id) => geo.has(id));
+    new Set(ids).forEach((id) => lineCount.set(id, (lineCount.get(id) ?? 0) + 1));
+    ids.forEach((id) => {
+      if (!adjacency.has(id)) adjacency.set(id, new Set());
+    });
+    for (let i = 0; i < ids.length - 1; i++) {
+      if (ids[i] === ids[i + 1]) continue;
+      adjacency.get(ids[i])!.add(ids[i + 1]);
+      adjacency.get(ids[i + 1])!.add(ids[i]);
+    }
+  }
+
+  const keys = new Set<string>();
+  for (const [id, neighbors] of adjacency) {
+    if (neighbors.size !== 2 || (lineCount.get(id) ?? 0) > 1) keys.add(id);
+  }
+  const chains = extractChains(adjacency, keys);
+
+  // 以链上中位站间距的一半作为一格，把地理坐标换算到网格（留出绕行与拉开站距的余地）
+  const spacings = chains.map((c) => {
+    const ids = [c.from, ...c.intermediates, c.to];
+    let len = 0;
+    for (let i = 0; i < ids.length - 1; i++) {
+      const a = geo.get(ids[i])!;
+      const b = geo.get(ids[i + 1])!;
+      len += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+    return len / (ids.length - 1);
+  });
+  const unit = median(spacings.filter((s) => s > 0)) / 2 || 1;
+  const target = new Map<string, Point2D>();
+  for (const [id, p] of geo) target.set(id, { x: p.x / unit, y: p.y / unit });
+
+  // 关键节点之间的链（用于放置代价）
+  const keyLinks = new Map<string, Array<{ other: string; length: number }>>();
+  for (const c of chains) {
+    const length = c.intermediates.length + 1;
+    keyLinks.set(c.from, [...(keyLinks.get(c.from) ?? []), { other: c.to, length }]);
+    keyLinks.set(c.to, [...(keyLinks.get(c.to) ?? []), { other: c.from, length }]);
+  }
+
+  // 放置顺序：度数高的优先，按链广度优先展开
+  const placed = new Map<string, Point2D>();
+  const occupied = new Set<string>();
+  const order: string[] = [];
+  const queued = new Set<string>();
+  const byDegree = [...keys].sort((a, b) => (adjacency.get(b)?.size ?? 0) - (adjacency.get(a)?.size ?? 0) || (a < b ? -1 : 1));
+  for (const root of byDegree) {
+    if (queued.has(root)) continue;
+    const queue = [root];
+    queued.add(root);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      const links = [...(keyLinks.get(id) ?? [])].sort(
+        (a, b) => (adjacency.get(b.other)?.size ?? 0) - (adjacency.get(a.other)?.size ?? 0)
+      );
+      for (const { other } of links) {
+        if (queued.has(other)) continue;
+        queued.add(other);
+        queue.push(other);
+      }
+    }
+  }
+
+  const placementCost = (id: string, cell: Point2D): number => {
+    const t = target.get(id)!;
+    let cost = W_GEO * Math.hypot(cell.x - t.x, cell.y - t.y);
+    for (const { other, length } of keyLinks.get(id) ?? []) {
+      const p = placed.get(other);
+      if (!p) continue;
+      const d = { x: cell.x - p.x, y: cell.y - p.y };
+      const cheb = Math.max(Math.abs(d.x), Math.abs(d.y));
+      if (cheb < length) cost += W_SHORT * (length - cheb);
+      if (cheb > 0) {
+        const to = target.get(other)!;
+        cost += W_DIRECTION * octantDistance(octantOf(d), octantOf({ x: t.x - to.x, y: t.y - to.y }));
+        cost += W_OCTILINEAR * octilinearDeviation(d);
+      }
+    }
+    return cost;
+  };
+
+  for (const id of order) {
+    const t = target.get(id)!;
+    const cx = Math.round(t.x);
+    const cy = Math.round(t.y);
+    let best: Point2D | null = null;
+    let bestCost = Infinity;
+    // 搜索范围内都被占用时逐步扩大
+    for (let radius = searchRadius; best === null; radius += searchRadius) {
+      for (let ox = -radius; ox <= radius; ox++) {
+        for (let oy = -radius; oy <= radius; oy++) {
+          const cell = { x: cx + ox, y: cy + oy };
+          if (occupied.has(cellKey(cell))) continue;
+          const cost = placementCost(id, cell);
+          if (cost < bestCost) {
+            bestCost = cost;
+            best = cell;
+          }
+        }
+      }
+    }
+    placed.set(id, best);
+    occupied.add(cellKey(best));
+  }
+
+  // 走线上与已放置站点（或彼此）落在同一网格的点数
+  const countCollisions = (points: Point2D[]): number => {
+    const seen = new Set<string>();
+    let count = 0;
+    for (const p of points) {
+      const key = cellKey(p);
+      if (occupied.has(key) || seen.has(key)) count++;
+      seen.add(key);
+    }
+    return count;
+  };
+
+  // 链上普通站：选择最贴近原走向的走线，并按弧长均分
+  const positions = new Map<string, Point2D>(placed);
+  const edges: OctilinearEdgeRoute[] = [];
+  for (const chain of chains) {
+    const from = placed.get(chain.from)!;
+    const to = placed.get(chain.to)!;
+    const k = chain.intermediates.length;
+    const fractions = chain.intermediates.map((_, i) => (i + 1) / (k + 1));
+
+    // 中间站的目标位置随两端的平移量一起平移
+    const shiftFrom = { x: from.x - target.get(chain.from)!.x, y: from.y - target.get(chain.from)!.y };
+    const shiftTo = { x: to.x - target.get(chain.to)!.x, y: to.y - target.get(chain.to)!.y };
+    const wanted = chain.intermediates.map((id, i) => {
+      const t = target.get(id)!;
+      const f = fractions[i];
+      return { x: t.x + shiftFrom.x * (1 - f) + shiftTo.x * f, y: t.y + shiftFrom.y * (1 - f) + shiftTo.y * f };
+    });
+
+    let route = CHAIN_ROUTES[0];
+    let path = routePath(from, to, route);
+    let points = sampleAlong(path, from, fractions);
+    if (k > 0) {
+      let bestError = Infinity;
+      for (const candidate of CHAIN_ROUTES) {
+        const candidatePath = routePath(from, to, candidate);
+        const sampled = sampleAlong(candidatePath, from, fractions);
+        const error =
+          sampled.reduce((sum, p, i) => sum + (p.x - wanted[i].x) ** 2 + (p.y - wanted[i].y) ** 2, 0) +
+          W_COLLISION * countCollisions(sampled);
+        if (error < bestError) {
+          bestError = error;
+          route = candidate;
+          path = candidatePath;
+          points = sampled;
+        }
+      }
+    }
+
+    // 冲突的站点在前后两站之间沿走线挪动；找不到空位时吸附到最近的空格
+    let prevFraction = 0;
+    chain.intermediates.forEach((id, i) => {
+      let point = points[i];
+      let fraction = fractions[i];
+      if (occupied.has(cellKey(point))) {
+        const nextFraction = i + 1 < k ? fractions[i + 1] : 1;
+        const step = (nextFraction - prevFraction) / NUDGE_STEPS;
+        const tries: number[] = [];
+        for (let j = 1; j < NUDGE_STEPS; j++) tries.push(fraction + j * step, fraction - j * step);
+        const candidates = tries.filter((f) => f > prevFraction && f < nextFraction);
+        const sampled = sampleAlong(path, from, candidates);
+        const free = sampled.findIndex((p) => !occupied.has(cellKey(p)));
+        if (free >= 0) {
+          point = sampled[free];
+          fraction = candidates[free];
+        } else {
+          point = nearestFreeCell(point, occupied);
+        }
+      }
+      prevFraction = fraction;
+      positions.set(id, point);
+      occupied.add(cellKey(point));
+    });
+
+    // 每段走线：落在同一直线段上为 simple，跨过转角时沿用链的走线方式
+    const routeFirstHorizontal = Math.abs(to.x - from.x) >= Math.abs(to.y - from.y) === (route.startFrom === 'from');
+    const ids = [chain.from, ...chain.intermediates, chain.to];
+    for (let i = 0; i < ids.length - 1; i++) {
+      const a = positions.get(ids[i])!;
+      const b = positions.get(ids[i + 1])!;
+      const d = { x: b.x - a.x, y: b.y - a.y };
+      if (isOctilinear(d)) {
+        edges.push({ from: ids[i], to: ids[i + 1], type: 'simple', startFrom: 'from' });
+      } else if (route.type === 'perpendicular') {
+        // perpendicular 的 startFrom 为 from 时先走主方向，据此还原链的转角顺序
+        const subFirstHorizontal = Math.abs(d.x) >= Math.abs(d.y);
+        edges.push({
+          from: ids[i],
+          to: ids[i + 1],
+          type: 'perpendicular',
+          startFrom: subFirstHorizontal === routeFirstHorizontal ? 'from' : 'to',
+        });
+      } else {
+        edges.push({ from: ids[i], to: ids[i + 1], type: 'diagonal', startFrom: route.startFrom });
+      }
+    }
+  }
+
+  for (const [id, p] of positions) positions.set(id, { x: p.x * gridSize, y: p.y * gridSize });
+  return { positions, edges };
+}
@@ -0,0 +1,140 @@
+/**
+ * 离线模式
+ * - 注册 Service Worker（public/sw.js，仅生产构建）
+ * - 下载离线区域：按范围与缩放级别枚举瓦片，通过瓦片图层的 getTileUrl 生成地址并写入 Cache Storage，
+ *   Service Worker 在离线（或网络不稳定）时直接返回这些瓦片
+ */
+
+import * as L from 'leaflet';
+
+// 缓存名需与 public/sw.js 保持一致
+const TILE_CACHE = 'ria-tiles-v1';
+
+// 单次下载的瓦片数上限（约 10KB/张）
+export const MAX_OFFLINE_TILES = 3000;
+
+const DOWNLOAD_CONCURRENCY = 4;
+
+export interface TileDownloadProgress {
+  done: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * 注册 Service Worker
+ * 开发环境不注册，避免缓存干扰 Vite 热更新
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
+
+export function isOfflineCacheSupported(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+/**
+ * 枚举范围内各缩放级别的瓦片地址
+ * 瓦片坐标按 Leaflet 的方式计算（map.project / tileSize），地址由图层自身的 getTileUrl 生成
+ */
+export function collectTileUrls(
+  map: L.Map,
+  layer: L.TileLayer,
+  bounds: L.LatLngBounds,
+  minZoom: number,
+  maxZoom: number
+): string[] {
+  const tileSize = layer.getTileSize();
+  const urls: string[] = [];
+
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const nw = map.project(bounds.getNorthWest(), z).unscaleBy(tileSize).floor();
+    const se = map.project(bounds.getSouthEast(), z).unscaleBy(tileSize).floor();
+    const [x0, x1] = [Math.min(nw.x, se.x), Math.max(nw.x, se.x)];
+    const [y0, y1] = [Math.min(nw.y, se.y), Math.max(nw.y, se.y)];
+
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        const coords = L.point(x, y) as L.Coords;
+        coords.z = z;
+        urls.push(layer.getTileUrl(coords));
+        // 超过上限时提前返回，调用方据此提示缩小范围
+        if (urls.length > MAX_OFFLINE_TILES) return urls;
+      }
+    }
+  }
+
+  return urls;
+}
+
+// 跨域瓦片先尝试 CORS（体积小、可被任意请求复用），失败再退回不透明响应
+async function fetchTile(url: string, signal?: AbortSignal): Promise<Response> {
+  const sameOrigin = new URL(url, window.location.href).origin === window.location.origin;
+  if (!sameOrigin) {
+    try {
+      const response = await fetch(url, { mode: 'cors', cache: 'reload', signal });
+      if (response.ok) return response;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+    }
+    return fetch(url, { mode: 'no-cors', cache: 'reload', signal });
+  }
+  return fetch(url, { cache: 'reload', signal });
+}
+
+/**
+ * 下载瓦片到离线缓存（已缓存的瓦片会被重新下载覆盖）
+ */
+export async function downloadTiles(
+  urls: string[],
+  opts: { onProgress?: (progress: TileDownloadProgress) => void; signal?: AbortSignal } = {}
+): Promise<TileDownloadProgress> {
+  const cache = await caches.open(TILE_CACHE);
+  const progress: TileDownloadProgress = { done: 0, failed: 0, total: urls.length };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < urls.length && !opts.signal?.aborted) {
+      const url = urls[next++];
+      try {
+        const response = await fetchTile(url, opts.signal);
+        if (response.ok || response.type === 'opaque') {
+          await cache.put(url, response);
+        } else {
+          progress.failed++;
+        }
+      } catch {
+        if (opts.signal?.aborted) break;
+        progress.failed++;
+      }
+      progress.done++;
+      opts.onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  return progress;
+}
+
+/**
+ * 已缓存的离线瓦片数量
+ */
+export async function countOfflineTiles(): Promise<number> {
+  if (!isOfflineCacheSupported()) return 0;
+  const cache = await caches.open(TILE_CACHE);
+  return (await cache.keys()).length;
+}
+
+/**
+ * 清除全部离线瓦片
+ */
+export async function clearOfflineTiles(): Promise<void> {
+  if (!isOfflineCacheSupported()) return;
+  await caches.delete(TILE_CACHE);
+}
@@ -4,6 +4,8 @@
  */
 
 import type { ParsedLine, Coordinate, Station, ParsedStation, Torii } from '@/types';
+import { MinHeap } from './MinHeap';
+import type { LineServiceLookup, ResolvedLineService } from './lineServices';
 
 // 路径节点
 interface PathNode {
@@ -262,6 +264,64 @@ function calculateDistance(a: Coordinate, b: Coordinate): number {
   return Math.sqrt(dx * dx + dz * dz);
 }
 
+/**
+ * 站名 -> 图节点 key 索引（按图实例缓存，图不变则只建一次）
+ */
+const STATION_NODE_INDEX = new WeakMap<Map<string, GraphNode>, Map<string, string[]>>();
+
+function getStationNodeIndex(graph: Map<string, GraphNode>): Map<string, string[]> {
+  const cached = STATION_NODE_INDEX.get(graph);
+  if (cached) return cached;
+
+  const index = new Map<string, string[]>();
+  for (const [key, node] of graph) {
+    const keys = index.get(node.stationName);
+    if (keys) keys.push(key);
+    else index.set(node.stationName, [key]);
+  }
+  STATION_NODE_INDEX.set(graph, index);
+  return index;
+}
+
+// 已构建的铁路网络图：每个世界保留一份，数据版本变化时重建
+const RAILWAY_GRAPH_CACHE = new Map<string, {
+  version: string;
+  lines: ParsedLine[];
+  rawStations?: Station[];
+  graph: Map<string, GraphNode>;
+}>();
+
+/**
+ * 获取铁路网络图（带缓存）
+ * @param worldId 世界 ID
+ * @param version 数据版本（数据刷新后变化即可，例如缓存更新时间）
+ * - 同一世界、同一版本、同一份线路数据时直接复用，避免面板每次重算都重新建图
+ */
+export function getCachedRailwayGraph(
+  worldId: string,
+  version: string | number,
+  lines: ParsedLine[],
+  rawStations?: Station[]
+): Map<string, GraphNode> {
+  const v = String(version);
+  const cached = RAILWAY_GRAPH_CACHE.get(worldId);
+  if (cached && cached.version === v && cached.lines === lines && cached.rawStations === rawStations) {
+    return cached.graph;
+  }
+
+  const graph = buildRailwayGraph(lines, rawStations);
+  RAILWAY_GRAPH_CACHE.set(worldId, { version: v, lines, rawStations, graph });
+  return graph;
+}
+
+/**
+ * 清除铁路网络图缓存（不传 worldId 则全部清除）
+ */
+export function clearRailwayGraphCache(worldId?: string): void {
+  if (worldId) RAILWAY_GRAPH_CACHE.delete(worldId);
+  else RAILWAY_GRAPH_CACHE.clear();
+}
+
 /**
  * 使用 Dijkstra 算法查找最短路径
  * @param graph 铁路网络图
@@ -276,19 +336,11 @@ export function findShortestPath(
   preferLessTransfer: boolean = true
 ): PathResult {
   // 找到起始站的所有线路入口
-  const startNodes: string[] = [];
-  const endNodes: string[] = [];
-
-  for (const [key, node] of graph) {
-    if (node.stationName === startStation) {
-      startNodes.push(key);
-    }
-    if (node.stationName === endStation) {
-      endNodes.push(key);
-    }
-  }
+  const stationIndex = getStationNodeIndex(graph);
+  const startNodes = stationIndex.get(startStation) ?? [];
+  const endNodes = new Set(stationIndex.get(endStation) ?? []);
 
-  if (startNodes.length === 0 || endNodes.length === 0) {
+  if (startNodes.length === 0 || endNodes.size === 0) {
     return {
       found: false,
       path: [],
@@ -298,54 +350,42 @@ export function findShortestPath(
     };
   }
 
-  // Dijkstra 算法
+  const costOf = (distance: number, transferCount: number) =>
+    preferLessTransfer
+      ? transferCount * 100000 + distance
+      : distance + transferCount * 100;
+
+  // Dijkstra 算法（未出现在 Map 中的节点视为距离无穷大）
   const distances = new Map<string, number>();
   const transfers = new Map<string, number>();
+  const costs = new Map<string, number>();
   const previous = new Map<string, string | null>();
   const visited = new Set<string>();
-
-  // 初始化
-  for (const key of graph.keys()) {
-    distances.set(key, Infinity);
-    transfers.set(key, Infinity);
-    previous.set(key, null);
-  }
+  const heap = new MinHeap<string>();
 
   // 从所有起始点开始
   for (const start of startNodes) {
     distances.set(start, 0);
     transfers.set(start, 0);
+    costs.set(start, 0);
+    previous.set(start, null);
+    heap.push(0, start);
   }
 
-  // 优先队列（简化版，使用数组）
-  const queue = [...startNodes];
-
-  while (queue.length > 0) {
-    // 找到距离最小的节点
-    let minIdx = 0;
-    let minCost = Infinity;
-
-    for (let i = 0; i < queue.length; i++) {
-      const key = queue[i];
-      const cost = preferLessTransfer
-        ? transfers.get(key)! * 100000 + distances.get(key)!
-        : distances.get(key)! + transfers.get(key)! * 100;
-
-      if (cost < minCost) {
-        minCost = cost;
-        minIdx = i;
-      }
-    }
-
-    const currentKey = queue.splice(minIdx, 1)[0];
+  while (heap.size > 0) {
+    const top = heap.pop()!;
+    const currentKey = top.v;
 
+    // 堆中可能残留旧条目
     if (visited.has(currentKey)) continue;
+    if (top.k !== costs.get(currentKey)) continue;
     visited.add(currentKey);
 
-    const current = graph.get(currentKey)!;
+    const current = graph.get(currentKey);
+    if (!current) continue;
 
     // 检查是否到达终点
-    if (endNodes.includes(currentKey)) {
+    if (endNodes.has(currentKey)) {
       // 回溯路径
       const path: PathNode[] = [];
       let key: string | null = currentKey;
@@ -375,31 +415,25 @@ export function findShortestPath(
       };
     }
 
+    const currentDist = distances.get(currentKey)!;
+    const currentTransfers = transfers.get(currentKey)!;
+
     // 遍历邻居
     for (const neighbor of current.neighbors) {
       const neighborKey = `${neighbor.stationName}@${neighbor.lineId}`;
 
       if (visited.has(neighborKey)) continue;
 
-      const newDist = distances.get(currentKey)! + neighbor.distance;
-      const newTransfers = transfers.get(currentKey)! + (neighbor.isTransfer ? 1 : 0);
-
-      const currentCost = preferLessTransfer
-        ? transfers.get(neighborKey)! * 100000 + distances.get(neighborKey)!
-        : distances.get(neighborKey)! + transfers.get(neighborKey)! * 100;
-
-      const newCost = preferLessTransfer
-        ? newTransfers * 100000 + newDist
-        : newDist + newTransfers * 100;
+      const newDist = currentDist + neighbor.distance;
+      const newTransfers = currentTransfers + (neighbor.isTransfer ? 1 : 0);
+      const newCost = costOf(newDist, newTransfers);
 
-      if (newCost < currentCost) {
+      if (newCost < (costs.get(neighborKey) ?? Infinity)) {
         distances.set(neighborKey, newDist);
         transfers.set(neighborKey, newTransfers);
+        costs.set(neighborKey, newCost);
         previous.set(neighborKey, currentKey);
-
-        if (!queue.includes(neighborKey)) {
-          queue.push(neighborKey);
-        }
+        heap.push(newCost, neighborKey);
       }
     }
   }
@@ -719,7 +753,8 @@ export function findAutoPath(
   landmarks: ParsedLandmark[],
   stations: ParsedStation[],
   worldId: string,
-  preferLessTransfer: boolean = true
+  preferLessTransfer: boolean = true,
+  services?: LineServiceLookup
 ): MultiModePathResult {
   const toriiList = extractToriiList(landmarks);
 
@@ -751,8 +786,8 @@ export function findAutoPath(
   // 优先级：传送次数少 > 换乘次数少 > 总步行距离短
   let best = candidates[0];
   for (const candidate of candidates) {
-    const bestScore = scoreResult(best);
-    const candidateScore = scoreResult(candidate);
+    const bestScore = scoreResult(best, true, services);
+    const candidateScore = scoreResult(candidate, true, services);
     if (candidateScore < bestScore) {
       best = candidate;
     }
@@ -818,16 +853,53 @@ export function calculateElytraConsumption(walkDistance: number): ElytraConsumpt
   };
 }
 
+/**
+ * 铁路段按 simplifyPath 切成的单线子段：里程与时间（分步指引与总时间共用，保证两者一致）
+ * - 里程按子段直线距离占比分摊 railPath.totalDistance
+ * - 乘车时间含停站（途经站数）；配置了线路运营参数时另给出上车候车时间
+ */
+export function estimateRailRuns(
+  segment: Extract<MultiModeSegment, { type: 'rail' }>,
+  services?: LineServiceLookup
+): Array<{ distance: number; rideSeconds: number; waitSeconds: number }> {
+  const parts = segment.simplified;
+  const straight = parts.map((p) => calculateDistance(p.startCoord, p.endCoord));
+  const straightSum = straight.reduce((a, b) => a + b, 0);
+
+  return parts.map((part, i) => {
+    const share = straightSum > 0 ? straight[i] / straightSum : 1 / parts.length;
+    const distance = segment.railPath.totalDistance * share;
+    const service = services?.(part.lineId);
+    return {
+      distance,
+      rideSeconds: calculateRailTime(distance, service, Math.max(0, part.stations.length - 1)),
+      waitSeconds: service?.expectedWaitSeconds ?? 0,
+    };
+  });
+}
+
+/**
+ * 按线路运营参数估算铁路段时间（含停站与候车）
+ */
+function estimateRailTimeWithServices(result: MultiModePathResult, services: LineServiceLookup): number {
+  let total = 0;
+  for (const segment of result.segments) {
+    if (segment.type !== 'rail') continue;
+    for (const run of estimateRailRuns(segment, services)) total += run.rideSeconds + run.waitSeconds;
+  }
+  return total;
+}
+
 /**
  * 计算路径评分（基于预估时间，秒，越低越好）
  */
-function scoreResult(result: MultiModePathResult, useElytra: boolean = true): number {
+function scoreResult(result: MultiModePathResult, useElytra: boolean = true, services?: LineServiceLookup): number {
   // 步行时间
   const walkSpeed = useElytra ? SPEEDS.ELYTRA : SPEEDS.WALK;
   const walkTime = result.totalWalkDistance / walkSpeed;
 
-  // 铁路时间
-  const railTime = result.totalRailDistance / SPEEDS.RAIL;
+  // 铁路时间（配置了线路运营参数时按线路估算，否则按统一速度）
+  const railTime = services ? estimateRailTimeWithServices(result, services) : result.totalRailDistance / SPEEDS.RAIL;
 
   // 换乘时间惩罚
   const transferTime = result.totalTransfers * TIME_PENALTIES.TRANSFER;
@@ -844,22 +916,107 @@ function scoreResult(result: MultiModePathResult, useElytra: boolean = true): nu
 /**
  * 计算路径预估时间（秒，用于 UI 显示）
  */
-export function calculateEstimatedTime(result: MultiModePathResult, useElytra: boolean = true): number {
-  return scoreResult(result, useElytra);
+export function calculateEstimatedTime(
+  result: MultiModePathResult,
+  useElytra: boolean = true,
+  services?: LineServiceLookup
+): number {
+  return scoreResult(result, useElytra, services);
 }
 
 /**
  * 计算步行/飞行段时间
  */
 export function calculateWalkTime(distance: number, useElytra: boolean = true): number {
-  const speed = useElytra ? SPEEDS.ELYTRA : SPEEDS.WALK;
-  return distance / speed;
+  return distance / getWalkSpeed(useElytra);
+}
+
+/**
+ * 步行/飞行速度（blocks/s）
+ */
+export function getWalkSpeed(useElytra: boolean = true): number {
+  return useElytra ? SPEEDS.ELYTRA : SPEEDS.WALK;
 }
 
 /**
  * 计算铁路段时间
+ * - 传入线路运营参数时：按线路巡航速度，并为每个停站加停站时间
  */
-export function calculateRailTime(distance: number): number {
-  return distance / SPEEDS.RAIL;
+export function calculateRailTime(distance: number, service?: ResolvedLineService | null, stops: number = 0): number {
+  if (!service) return distance / SPEEDS.RAIL;
+  return distance / (service.speed ?? SPEEDS.RAIL) + service.dwellSeconds * stops;
 }
 
+
+// ============== 可达性（等时圈） ==============
+
+// 单站可达时间
+export interface StationReachability {
+  stationName: string;
+  coord: Coordinate;
+  timeSeconds: number;
+  viaRail: boolean;  // 是否需要乘车（否则直接步行/飞行更快）
+}
+
+/**
+ * 计算从任意起点到每个车站的最短时间（供等时圈使用）
+ * - 起点可步行/飞行到任一车站节点（多源：初始代价 = 接驳时间）
+ * - 乘车按 SPEEDS.RAIL 计时，换乘另加 TIME_PENALTIES.TRANSFER
+ * - 配置了线路运营参数时：按线路速度 + 停站计时，上车/换乘另加期望候车时间
+ * - 同名车站取各线路节点最小值；若直接前往更快则取直达时间
+ */
+export function computeStationReachability(
+  origin: Coordinate,
+  graph: Map<string, GraphNode>,
+  useElytra: boolean = true,
+  services?: LineServiceLookup
+): StationReachability[] {
+  const costs = new Map<string, number>();
+  const heap = new MinHeap<string>();
+  const waitOf = (lineId: string) => services?.(lineId)?.expectedWaitSeconds ?? 0;
+
+  for (const [key, node] of graph) {
+    const t = calculateWalkTime(calculateDistance(origin, node.coord), useElytra) + waitOf(node.lineId);
+    costs.set(key, t);
+    heap.push(t, key);
+  }
+
+  while (heap.size > 0) {
+    const { k, v: key } = heap.pop()!;
+    if (k !== costs.get(key)) continue;
+
+    const node = graph.get(key)!;
+    for (const nb of node.neighbors) {
+      const nbKey = `${nb.stationName}@${nb.lineId}`;
+      if (!graph.has(nbKey)) continue;
+      const t =
+        k +
+        (nb.isTransfer
+          ? TIME_PENALTIES.TRANSFER + waitOf(nb.lineId)
+          : calculateRailTime(nb.distance, services?.(node.lineId), 1));
+      if (t < (costs.get(nbKey) ?? Infinity)) {
+        costs.set(nbKey, t);
+        heap.push(t, nbKey);
+      }
+    }
+  }
+
+  const byStation = new Map<string, StationReachability>();
+  for (const [key, t] of costs) {
+    const node = graph.get(key)!;
+    const direct = calculateWalkTime(calculateDistance(origin, node.coord), useElytra);
+    // 种子代价含候车时间，直接前往更快时取直达时间
+    const time = Math.min(t, direct);
+    const prev = byStation.get(node.stationName);
+    if (!prev || time < prev.timeSeconds) {
+      byStation.set(node.stationName, {
+        stationName: node.stationName,
+        coord: node.coord,
+        timeSeconds: time,
+        viaRail: t < direct - 1e-6,
+      });
+    }
+  }
+
+  return Array.from(byStation.values()).sort((a, b) => a.timeSeconds - b.timeSeconds);
+}
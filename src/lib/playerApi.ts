@@ -1,17 +1,10 @@
 /**
  * 玩家数据 API
- * 从 Dynmap API 获取在线玩家位置信息
+ * 从 Dynmap API 获取在线玩家位置信息与游戏时间
  */
 
 import type { Player } from '@/types';
-
-// 世界ID映射 (前端 -> API)
-const WORLD_MAP: Record<string, string> = {
-  zth: '_zth',
-  eden: '_eden',
-  naraku: '_naraku',
-  houtu: '_houtu',
-};
+import { getDynmapWorldName } from './worldRegistry';
 
 interface DynmapUpdateResponse {
   currentcount: number;
@@ -38,12 +31,21 @@ interface DynmapUpdateResponse {
   }>;
 }
 
+// 一次 Dynmap 更新中用到的信息
+export interface WorldUpdate {
+  players: Player[];
+  // 当天刻数（0-23999），见 gameTime
+  serverTime: number | null;
+  hasStorm: boolean;
+  isThundering: boolean;
+}
+
 /**
- * 获取指定世界的在线玩家列表
- * 通过 Vercel 代理绕过 CORS 限制
+ * 获取指定世界的在线玩家与游戏时间 / 天气
+ * 通过 Vercel 代理绕过 CORS 限制；失败时返回 null
  */
-export async function fetchPlayers(worldId: string): Promise<Player[]> {
-  const apiWorld = WORLD_MAP[worldId] || `_${worldId}`;
+export async function fetchWorldUpdate(worldId: string): Promise<WorldUpdate | null> {
+  const apiWorld = getDynmapWorldName(worldId);
   const timestamp = Date.now();
   // 使用 Vercel 代理路径
   const url = `/api/dynmap/${apiWorld}/up/world/world/${timestamp}`;
@@ -53,13 +55,13 @@ export async function fetchPlayers(worldId: string): Promise<Player[]> {
 
     if (!res.ok) {
       console.warn(`Failed to fetch players: ${res.status}`);
-      return [];
+      return null;
     }
 
     const data: DynmapUpdateResponse = await res.json();
 
     // 转换为 Player 类型
-    return (data.players || []).map(p => ({
+    const players = (data.players || []).map(p => ({
       name: p.name,
       account: p.account,
       x: p.x,
@@ -69,8 +71,22 @@ export async function fetchPlayers(worldId: string): Promise<Player[]> {
       armor: p.armor,
       world: p.world,
     }));
+
+    return {
+      players,
+      serverTime: Number.isFinite(data.servertime) ? data.servertime : null,
+      hasStorm: Boolean(data.hasStorm),
+      isThundering: Boolean(data.isThundering),
+    };
   } catch (error) {
     console.warn('Error fetching players:', error);
-    return [];
+    return null;
   }
 }
+
+/**
+ * 获取指定世界的在线玩家列表
+ */
+export async function fetchPlayers(worldId: string): Promise<Player[]> {
+  return (await fetchWorldUpdate(worldId))?.players ?? [];
+}
@@ -4,14 +4,21 @@
  */
 
 import type { Station, LineInfo, ParsedLine, ParsedStation, Coordinate, BureausConfig } from '@/types';
-import { fetchWithMirror, fetchLocal, type ProgressCallback } from './fetchWithMirror';
+import { getMirrorUrls, type ProgressCallback } from './fetchWithMirror';
+import { loadSource } from './sourceCache';
+import { getWorld } from './worldRegistry';
 
-// 数据源 URL (GitHub raw)
+// 数据源 URL (GitHub raw)；各世界地址以世界注册表为准，未登记的世界回退到此目录
 const RAILWAY_DATA_BASE_URL = 'https://raw.githubusercontent.com/RainC7/RIA_Data/main/data/railway';
 const BUREAUS_CONFIG_URL = '/data/bureaus.json';
 
-// 铁路局配置缓存
-let bureausCache: BureausConfig | null = null;
+// 数据源（IndexedDB 缓存键 + 候选地址）
+export const BUREAUS_SOURCE = { key: 'bureaus', urls: [BUREAUS_CONFIG_URL] };
+
+export function getRailwaySource(worldId: string): { key: string; urls: string[] } {
+  const url = getWorld(worldId)?.data.railwayUrl ?? `${RAILWAY_DATA_BASE_URL}/${worldId}.json`;
+  return { key: `railway:${worldId}`, urls: getMirrorUrls(url) };
+}
 
 // 线路颜色映射
 const LINE_COLORS: Record<string, string> = {
@@ -52,7 +59,7 @@ const LINE_COLORS: Record<string, string> = {
  * 根据线路 ID 生成颜色
  * 如果没有预定义颜色，则根据 hash 生成
  */
-function getLineColor(lineId: string): string {
+export function getLineColor(lineId: string): string {
   if (LINE_COLORS[lineId]) {
     return LINE_COLORS[lineId];
   }
@@ -74,29 +81,34 @@ export async function fetchRailwayData(
   worldId: string,
   onProgress?: ProgressCallback
 ): Promise<Station[]> {
-  const url = `${RAILWAY_DATA_BASE_URL}/${worldId}.json`;
+  onProgress?.({ stage: '铁路数据', status: 'loading' });
 
-  try {
-    return await fetchWithMirror<Station[]>(url, '铁路数据', onProgress);
-  } catch (error) {
-    console.error(`Error fetching railway data for ${worldId}:`, error);
-    return [];
+  const result = await loadSource<Station[]>(getRailwaySource(worldId));
+  if (result.data) {
+    onProgress?.({ stage: '铁路数据', status: 'success' });
+    return result.data;
   }
+
+  onProgress?.({ stage: '铁路数据', status: 'error', message: result.error });
+  console.error(`Error fetching railway data for ${worldId}:`, result.error);
+  return [];
 }
 
 /**
  * 获取铁路局配置
  */
 export async function fetchBureausConfig(onProgress?: ProgressCallback): Promise<BureausConfig> {
-  if (bureausCache) return bureausCache;
-
-  try {
-    bureausCache = await fetchLocal<BureausConfig>(BUREAUS_CONFIG_URL, '铁路局配置', onProgress);
-    return bureausCache!;
-  } catch (error) {
-    console.error('Error fetching bureaus config:', error);
-    return {};
+  onProgress?.({ stage: '铁路局配置', status: 'loading' });
+
+  const result = await loadSource<BureausConfig>(BUREAUS_SOURCE);
+  if (result.data) {
+    onProgress?.({ stage: '铁路局配置', status: 'success' });
+    return result.data;
   }
+
+  onProgress?.({ stage: '铁路局配置', status: 'error', message: result.error });
+  console.error('Error fetching bureaus config:', result.error);
+  return {};
 }
 
 /**
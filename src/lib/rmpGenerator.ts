@@ -0,0 +1,193 @@
+/**
+ * RMP (Rail Map Painter) 数据生成器
+ * 由 parseRailwayData 得到的线路生成 RMP 兼容的图数据（站点节点 + 单色线段），
+ * 并使用八方向布局（octilinearLayout）生成示意图，供 RMPMapView 展示或在 Rail Map Painter 中继续手工调整
+ */
+
+import type { ParsedLine, Coordinate } from '@/types';
+import type { RMPData, RMPNode, RMPEdge } from './rmpParser';
+import { computeOctilinearLayout, type OctilinearEdgeRoute } from './octilinearLayout';
+
+// 与 rmp_zth.json 一致：RMP 坐标 ≈ 游戏坐标 / 10
+const GEO_SCALE = 10;
+// 示意图网格间距（RMP 单位）
+const GRID_SIZE = 25;
+// 共线段的平行间距
+const PARALLEL_SPACING = 5;
+const ROUND_CORNER_FACTOR = 10;
+// Rail Map Painter 的存档版本（与 rmp_zth.json 相同）
+const RMP_SAVE_VERSION = 66;
+
+export interface RMPGenerateOptions {
+  /** 非八方向线段的类型（仅 schematic 关闭时使用），默认 diagonal */
+  edgeType?: 'diagonal' | 'perpendicular';
+  /** 关闭时保留地理位置（仅缩放），否则使用八方向示意图布局 */
+  schematic?: boolean;
+}
+
+interface StationEntry {
+  name: string;
+  coords: Coordinate[];
+  lines: Set<string>;
+}
+
+function rmpColor(color: string): string[] {
+  return ['other', 'other', color, '#fff'];
+}
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+/**
+ * 由 RIA 线路生成 RMP 数据
+ * - 站点按站名合并；经过多条线路的为 bjsubway-int，其余为 bjsubway-basic
+ * - 每条线路相邻站点之间一条 single-color 线段，共线段按平行间距错开
+ * - 每条线路在首站旁放置线路徽章（bjsubway-text-line-badge）
+ */
+export function generateRMPData(lines: ParsedLine[], options: RMPGenerateOptions = {}): RMPData {
+  const edgeType = options.edgeType ?? 'diagonal';
+  const schematic = options.schematic ?? true;
+
+  // 站点
+  const stationIndex = new Map<string, number>();
+  const stations: StationEntry[] = [];
+  for (const line of lines) {
+    for (const s of line.stations) {
+      let idx = stationIndex.get(s.name);
+      if (idx === undefined) {
+        idx = stations.length;
+        stationIndex.set(s.name, idx);
+        stations.push({ name: s.name, coords: [], lines: new Set() });
+      }
+      stations[idx].coords.push(s.coord);
+      stations[idx].lines.add(line.lineId);
+    }
+  }
+
+  // 线段（同一线路内去重）
+  const lineEdges: Array<{ line: ParsedLine; a: number; b: number }> = [];
+  for (const line of lines) {
+    const seen = new Set<string>();
+    for (let i = 0; i < line.stations.length - 1; i++) {
+      const a = stationIndex.get(line.stations[i].name)!;
+      const b = stationIndex.get(line.stations[i + 1].name)!;
+      if (a === b || seen.has(pairKey(a, b))) continue;
+      seen.add(pairKey(a, b));
+      lineEdges.push({ line, a, b });
+    }
+  }
+
+  // 布局
+  const geo = stations.map((s) => ({
+    x: s.coords.reduce((sum, c) => sum + c.x, 0) / s.coords.length,
+    z: s.coords.reduce((sum, c) => sum + c.z, 0) / s.coords.length,
+  }));
+  let pos = geo.map((p) => ({ x: p.x / GEO_SCALE, y: p.z / GEO_SCALE }));
+  const routes = new Map<string, OctilinearEdgeRoute>();
+  if (schematic) {
+    const layout = computeOctilinearLayout(
+      {
+        stations: geo.map((p, i) => ({ id: String(i), x: p.x, z: p.z })),
+        lines: lines.map((line) => line.stations.map((s) => String(stationIndex.get(s.name)))),
+      },
+      { gridSize: GRID_SIZE }
+    );
+    pos = pos.map((p, i) => layout.positions.get(String(i)) ?? p);
+    for (const route of layout.edges) routes.set(pairKey(Number(route.from), Number(route.to)), route);
+  }
+
+  const nodes: RMPNode[] = stations.map((s, i) => {
+    const names = [s.name, ''];
+    const base = { visible: true, zIndex: 0, x: pos[i].x, y: pos[i].y };
+    if (s.lines.size > 1) {
+      return {
+        key: `stn_${i}`,
+        attributes: {
+          ...base,
+          type: 'bjsubway-int',
+          'bjsubway-int': { names, nameOffsetX: 'right', nameOffsetY: 'top', outOfStation: false },
+        },
+      };
+    }
+    return {
+      key: `stn_${i}`,
+      attributes: {
+        ...base,
+        type: 'bjsubway-basic',
+        'bjsubway-basic': { names, nameOffsetX: 'right', nameOffsetY: 'top', open: true, construction: false },
+      },
+    };
+  });
+
+  // 线路徽章：首站上方
+  lines.forEach((line, i) => {
+    const first = line.stations[0] && stationIndex.get(line.stations[0].name);
+    if (first === undefined) return;
+    nodes.push({
+      key: `misc_node_badge_${i}`,
+      attributes: {
+        visible: true,
+        zIndex: 0,
+        x: pos[first].x,
+        y: pos[first].y - 15,
+        type: 'bjsubway-text-line-badge',
+        'bjsubway-text-line-badge': { names: [line.lineId, line.lineId], color: rmpColor(line.color) },
+      },
+    });
+  });
+
+  // 平行线段：同一对站点之间的线段按序号对称错开（方向统一为小下标 → 大下标）
+  const parallelCount = new Map<string, number>();
+  for (const e of lineEdges) parallelCount.set(pairKey(e.a, e.b), (parallelCount.get(pairKey(e.a, e.b)) ?? 0) + 1);
+  const parallelSeen = new Map<string, number>();
+
+  const edges: RMPEdge[] = lineEdges.map((e, i) => {
+    const key = pairKey(e.a, e.b);
+    const k = parallelSeen.get(key) ?? 0;
+    parallelSeen.set(key, k + 1);
+    const offset = (k - ((parallelCount.get(key) ?? 1) - 1) / 2) * PARALLEL_SPACING;
+    const [source, target] = e.a < e.b ? [e.a, e.b] : [e.b, e.a];
+
+    // 布局给出的走线方向与 source → target 相反时，转角顺序随之翻转
+    const route = routes.get(key);
+    const type = route?.type ?? edgeType;
+    const startFrom = route && Number(route.from) !== source
+      ? (route.startFrom === 'from' ? 'to' : 'from')
+      : (route?.startFrom ?? 'from');
+    const pathConfig = type === 'simple'
+      ? { offset }
+      : { startFrom, offsetFrom: offset, offsetTo: offset, roundCornerFactor: ROUND_CORNER_FACTOR };
+
+    return {
+      key: `line_${i}`,
+      source: `stn_${source}`,
+      target: `stn_${target}`,
+      attributes: {
+        visible: true,
+        zIndex: 0,
+        type,
+        style: 'single-color',
+        'single-color': { color: rmpColor(e.line.color) },
+        reconcileId: '',
+        parallelIndex: -1,
+        [type]: pathConfig,
+      },
+    };
+  });
+
+  const xs = nodes.map((n) => n.attributes.x);
+  const ys = nodes.map((n) => n.attributes.y);
+  return {
+    svgViewBoxZoom: 100,
+    svgViewBoxMin: { x: xs.length ? Math.min(...xs) - 50 : 0, y: ys.length ? Math.min(...ys) - 50 : 0 },
+    images: [],
+    graph: {
+      options: { type: 'directed', multi: true, allowSelfLoops: true },
+      attributes: {},
+      nodes,
+      edges,
+    },
+    version: RMP_SAVE_VERSION,
+  };
+}
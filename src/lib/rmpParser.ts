@@ -10,9 +10,11 @@ import {
   calculateSimplePath,
   calculateStraightPath,
 } from './rmpPathCalculator';
+import { loadSource } from './sourceCache';
+import { getWorld, DEFAULT_WORLD_ID, type RmpTransformConfig } from './worldRegistry';
 
 // RMP 节点类型
-interface RMPNode {
+export interface RMPNode {
   key: string;
   attributes: {
     visible: boolean;
@@ -57,7 +59,7 @@ interface RMPNode {
 }
 
 // RMP 边类型
-interface RMPEdge {
+export interface RMPEdge {
   key: string;
   source: string;
   target: string;
@@ -97,29 +99,22 @@ interface RMPEdge {
 }
 
 // RMP 数据结构
-interface RMPData {
+export interface RMPData {
   svgViewBoxZoom: number;
   svgViewBoxMin: { x: number; y: number };
+  images?: unknown[];
   graph: {
+    // graphology 序列化信息（Rail Map Painter 保存文件时写入）
+    options?: { type: string; multi: boolean; allowSelfLoops: boolean };
+    attributes?: Record<string, unknown>;
     nodes: RMPNode[];
     edges: RMPEdge[];
   };
-  version?: string;
+  version?: string | number;
 }
 
-// 不同世界的坐标转换配置
-interface CoordTransformConfig {
-  scale: number;      // 坐标缩放比例
-  offset: number;     // 坐标偏移量（转换前）
-  multiplier: number; // 最终乘数
-}
-
-const WORLD_COORD_CONFIGS: Record<string, CoordTransformConfig> = {
-  // 零洲: (coord + 0.05) * 10
-  zth: { scale: 1, offset: 0.05, multiplier: 10 },
-  // 后土: coord * 4 (1:4 比例)
-  houtu: { scale: 1, offset: 0, multiplier: 4 },
-};
+// 不同世界的坐标转换配置（scale 缩放、offset 转换前偏移、multiplier 最终乘数），见世界注册表 rmp.transform
+type CoordTransformConfig = RmpTransformConfig;
 
 const DEFAULT_COORD_CONFIG: CoordTransformConfig = { scale: 1, offset: 0.05, multiplier: 10 };
 
@@ -215,12 +210,12 @@ function getLineBadges(nodes: RMPNode[]): Map<string, { name: string; color: str
  * @param data RMP 数据
  * @param worldId 世界ID，用于确定坐标转换配置
  */
-export function parseRMPData(data: RMPData, worldId: string = 'zth'): {
+export function parseRMPData(data: RMPData, worldId: string = DEFAULT_WORLD_ID): {
   lines: ParsedLine[];
   stations: ParsedStation[];
 } {
   const { nodes, edges } = data.graph;
-  const coordConfig = WORLD_COORD_CONFIGS[worldId] || DEFAULT_COORD_CONFIG;
+  const coordConfig = getWorld(worldId)?.data.rmp?.transform ?? DEFAULT_COORD_CONFIG;
 
   // 建立节点索引
   const nodeMap = new Map<string, RMPNode>();
@@ -482,11 +477,18 @@ export function parseRMPData(data: RMPData, worldId: string = 'zth'): {
  * 从 URL 或文件加载 RMP 数据
  */
 export async function fetchRMPData(url: string): Promise<RMPData> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch RMP data: ${response.status}`);
+  const result = await loadSource<RMPData>(getRMPSource(url));
+  if (!result.data) {
+    throw new Error(`Failed to fetch RMP data: ${result.error}`);
   }
-  return await response.json();
+  return result.data;
+}
+
+/**
+ * RMP 数据源（IndexedDB 缓存键 + 地址）
+ */
+export function getRMPSource(url: string): { key: string; urls: string[] } {
+  return { key: `rmp:${url}`, urls: [url] };
 }
 
 /**
@@ -0,0 +1,286 @@
+/**
+ * 数据源缓存（IndexedDB）
+ * - 每个数据源一条记录：原始 JSON + 校验信息（ETag / Last-Modified / 内容哈希）
+ * - 未到校验期直接读缓存；到期或强制刷新时重新校验，只有内容变化的数据源会被标记为 updated
+ * - 同源地址发送条件请求（If-None-Match / If-Modified-Since）；跨域镜像交给浏览器 HTTP 缓存协商，再比对内容哈希
+ * - 网络失败时回退到旧缓存（stale）；IndexedDB 不可用（隐私模式等）时退化为仅内存
+ */
+
+const DB_NAME = 'ria-data-cache';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const DATA_STORE = 'data';
+
+// 默认校验周期：7 天
+export const DEFAULT_SOURCE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export type SourceStatus =
+  | 'new'        // 首次下载
+  | 'updated'    // 校验后内容有变化
+  | 'unchanged'  // 校验后内容未变化
+  | 'cached'     // 未到校验期，直接读缓存
+  | 'stale'      // 校验失败，使用旧缓存
+  | 'missing'    // 可选数据源不存在
+  | 'error';     // 失败且无缓存
+
+export interface SourceMeta {
+  key: string;
+  url: string;            // 最近一次成功获取的地址（可能是镜像）
+  etag?: string;
+  lastModified?: string;
+  hash: string;           // 内容哈希（FNV-1a + 长度）
+  size: number;           // 原始文本长度（字符数，近似字节）
+  fetchedAt: number;      // 内容最近一次变化的时间
+  checkedAt: number;      // 最近一次校验时间
+}
+
+export interface SourceResult<T> {
+  data: T | null;
+  status: SourceStatus;
+  meta: SourceMeta | null;
+  error?: string;
+}
+
+export interface LoadSourceOptions {
+  key: string;
+  /** 候选地址（镜像），按顺序尝试 */
+  urls: string[];
+  /** 校验周期（ms）；0 表示每次都校验 */
+  maxAge?: number;
+  /** 忽略校验周期，强制校验 */
+  force?: boolean;
+  /** 可选数据源：404 / 非 JSON（开发服务器回退到 index.html）视为 missing */
+  optional?: boolean;
+  timeoutMs?: number;
+}
+
+// ------------------------------
+// IndexedDB 基础操作
+// ------------------------------
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// 内存兜底（IndexedDB 不可用时）
+const memoryMeta = new Map<string, SourceMeta>();
+const memoryData = new Map<string, unknown>();
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        console.warn('IndexedDB unavailable, falling back to memory cache:', req.error);
+        resolve(null);
+      };
+    } catch (e) {
+      console.warn('IndexedDB unavailable, falling back to memory cache:', e);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function idbGet<T>(storeName: string, key: string): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return (storeName === META_STORE ? memoryMeta.get(key) : memoryData.get(key)) as T | undefined;
+  try {
+    return await requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+  } catch (e) {
+    console.warn(`Failed to read cache ${storeName}/${key}:`, e);
+    return undefined;
+  }
+}
+
+// 事务提交后才算写入成功：请求 onsuccess 之后事务仍可能因配额不足等原因中止并回滚
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * 在同一事务中写入数据与 meta（data 为 undefined 时只更新 meta）
+ * 写入失败时整个事务回滚，旧的 meta 与旧数据仍然互相对应
+ */
+async function idbPutSource(meta: SourceMeta, data?: unknown): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    if (data !== undefined) memoryData.set(meta.key, data);
+    memoryMeta.set(meta.key, meta);
+    return;
+  }
+  try {
+    const stores = data !== undefined ? [META_STORE, DATA_STORE] : [META_STORE];
+    const tx = db.transaction(stores, 'readwrite');
+    if (data !== undefined) tx.objectStore(DATA_STORE).put(data, meta.key);
+    tx.objectStore(META_STORE).put(meta);
+    await transactionDone(tx);
+  } catch (e) {
+    // 配额不足等：本次仍返回网络数据，只是不落盘
+    console.warn(`Failed to write cache ${meta.key}:`, e);
+  }
+}
+
+// ------------------------------
+// 工具
+// ------------------------------
+
+/** FNV-1a 32 位 + 长度：只用于判断内容是否变化 */
+function hashText(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return `${text.length.toString(36)}-${(h >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+function isSameOrigin(url: string): boolean {
+  try {
+    return new URL(url, window.location.href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+// ------------------------------
+// 对外接口
+// ------------------------------
+
+/**
+ * 加载数据源（带缓存与校验）
+ */
+export async function loadSource<T>(opt: LoadSourceOptions): Promise<SourceResult<T>> {
+  const maxAge = opt.maxAge ?? DEFAULT_SOURCE_MAX_AGE;
+  const now = Date.now();
+
+  // meta 与 data 需同时存在才视为有效缓存
+  const storedMeta = (await idbGet<SourceMeta>(META_STORE, opt.key)) ?? null;
+  const cachedData = storedMeta ? await idbGet<T>(DATA_STORE, opt.key) : undefined;
+  const meta = cachedData !== undefined ? storedMeta : null;
+
+  if (meta && !opt.force && maxAge > 0 && now - meta.checkedAt < maxAge) {
+    return { data: cachedData as T, status: 'cached', meta };
+  }
+
+  let lastError = '';
+
+  for (const url of opt.urls) {
+    try {
+      const headers: Record<string, string> = {};
+      if (meta && meta.url === url && isSameOrigin(url)) {
+        if (meta.etag) headers['If-None-Match'] = meta.etag;
+        if (meta.lastModified) headers['If-Modified-Since'] = meta.lastModified;
+      }
+
+      const response = await fetch(url, {
+        cache: 'no-cache',
+        headers,
+        signal: AbortSignal.timeout(opt.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+
+      if (response.status === 304 && meta) {
+        const next: SourceMeta = { ...meta, checkedAt: now };
+        await idbPutSource(next);
+        return { data: cachedData as T, status: 'unchanged', meta: next };
+      }
+
+      if (opt.optional && response.status === 404) {
+        return { data: null, status: 'missing', meta: null };
+      }
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const text = await response.text();
+      let data: T;
+      try {
+        data = JSON.parse(text) as T;
+      } catch {
+        if (opt.optional) return { data: null, status: 'missing', meta: null };
+        throw new Error('JSON 解析失败');
+      }
+
+      const hash = hashText(text);
+      const changed = !meta || meta.hash !== hash;
+      const next: SourceMeta = {
+        key: opt.key,
+        url,
+        etag: response.headers.get('ETag') ?? undefined,
+        lastModified: response.headers.get('Last-Modified') ?? undefined,
+        hash,
+        size: text.length,
+        fetchedAt: changed ? now : meta!.fetchedAt,
+        checkedAt: now,
+      };
+
+      // 数据与新的 ETag / hash 一起提交，避免数据未落盘时下次 304 返回旧数据
+      await idbPutSource(next, changed ? data : undefined);
+
+      return { data: changed ? data : (cachedData as T), status: !meta ? 'new' : changed ? 'updated' : 'unchanged', meta: next };
+    } catch (error) {
+      lastError = (error as Error)?.message ?? String(error);
+      console.warn(`Source ${opt.key} failed at ${url}:`, error);
+      // 继续尝试下一个镜像
+    }
+  }
+
+  if (meta) {
+    return { data: cachedData as T, status: 'stale', meta, error: lastError };
+  }
+  return { data: null, status: 'error', meta: null, error: lastError || '没有可用的地址' };
+}
+
+/**
+ * 列出所有已缓存数据源的元信息（不读取数据本体）
+ */
+export async function listSourceMeta(): Promise<SourceMeta[]> {
+  const db = await openDb();
+  if (!db) return Array.from(memoryMeta.values());
+  try {
+    return await requestToPromise(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll());
+  } catch (e) {
+    console.warn('Failed to list cache meta:', e);
+    return [];
+  }
+}
+
+/**
+ * 清空所有数据源缓存
+ */
+export async function clearSources(): Promise<void> {
+  memoryMeta.clear();
+  memoryData.clear();
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(META_STORE).clear();
+    tx.objectStore(DATA_STORE).clear();
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn('Failed to clear cache:', e);
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * 单线线路图（屏蔽门式条形图）布局
+ * 由 ParsedLine 与原始车站数据计算站点、换乘徽章、站间距离与暂停 / 单向停靠标注的位置，
+ * 线段路径使用 rmpSvgRenderer 的 SVG 路径工具生成，渲染与导出共用同一份布局
+ */
+
+import type { ParsedLine, Station, Coordinate } from '@/types';
+import { getLineColor } from './railwayParser';
+import { straightToSVGPath } from './rmpSvgRenderer';
+
+export type StripMapOrientation = 'horizontal' | 'vertical';
+
+export interface StripMapBadge {
+  lineId: string;
+  color: string;
+  x: number;
+  y: number;
+  width: number;
+}
+
+export interface StripMapStop {
+  name: string;
+  coord: Coordinate;
+  x: number;
+  y: number;
+  isTerminal: boolean;
+  /** lineNotAvaliable：本线在该站暂停营业 */
+  closed: boolean;
+  /** directionNotAvaliable：不停靠的方向（up = 往 stationCode 减小方向） */
+  blocked: Array<'up' | 'down'>;
+  label: { x: number; y: number; anchor: 'start' | 'middle' | 'end'; rotate: number };
+  badges: StripMapBadge[];
+  note: { x: number; y: number; anchor: 'start' | 'middle'; text: string } | null;
+}
+
+export interface StripMapDistance {
+  x: number;
+  y: number;
+  anchor: 'middle' | 'end';
+  text: string;
+  /** 来自车站数据的 distance 字段，否则为按坐标估算（text 前加 ≈） */
+  declared: boolean;
+}
+
+export interface StripMapLayout {
+  orientation: StripMapOrientation;
+  width: number;
+  height: number;
+  color: string;
+  title: { x: number; y: number; text: string };
+  /** 相邻两站之间的线段（SVG path） */
+  segments: string[];
+  stops: StripMapStop[];
+  distances: StripMapDistance[];
+}
+
+const PADDING = 16;
+const TITLE_HEIGHT = 28;
+const FONT_SIZE = 12;
+const BADGE_FONT_SIZE = 10;
+const BADGE_HEIGHT = 14;
+const BADGE_GAP = 3;
+// 横向：站距与站名倾角
+const H_SPACING = 84;
+const H_LABEL_ANGLE = -40;
+// 纵向：站距与线路所在列（左侧留给站间距离）
+const V_SPACING = 40;
+const V_LINE_X = PADDING + 64;
+
+// 粗略估算文字宽度（中日韩字符按全宽，其余按半宽）
+export function estimateTextWidth(text: string, fontSize: number): number {
+  let width = 0;
+  for (const ch of text) width += /[⺀-￿]/.test(ch) ? fontSize : fontSize * 0.6;
+  return width;
+}
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+}
+
+function blockedNote(closed: boolean, blocked: Array<'up' | 'down'>): string | null {
+  if (closed) return '暂停营业';
+  if (blocked.includes('up') && blocked.includes('down')) return '不停靠';
+  if (blocked.includes('up')) return '仅下行停靠';
+  if (blocked.includes('down')) return '仅上行停靠';
+  return null;
+}
+
+interface StopInfo {
+  closed: boolean;
+  blocked: Array<'up' | 'down'>;
+  transfers: Array<{ lineId: string; color: string }>;
+}
+
+/**
+ * 计算线路图布局
+ * @param rawStations 原始车站数据（specialCases 与声明的站间距离），RMP 线路可传空数组
+ * @param colorOf 其他线路的颜色，默认按线路 ID 取色
+ */
+export function buildStripMapLayout(
+  line: ParsedLine,
+  rawStations: Station[],
+  orientation: StripMapOrientation,
+  colorOf: (lineId: string) => string = getLineColor
+): StripMapLayout {
+  const rawByName = new Map(rawStations.map((s) => [s.stationName, s]));
+  const isThisLine = (target: { bureau?: string; line?: string }) =>
+    target.bureau === line.bureau && target.line === line.line;
+
+  const infos: StopInfo[] = line.stations.map((station) => {
+    const raw = rawByName.get(station.name);
+    const blocked = new Set<'up' | 'down'>();
+    let closed = false;
+    for (const sc of raw?.specialCases ?? []) {
+      if (!isThisLine(sc.target)) continue;
+      if (sc.type === 'lineNotAvaliable') closed = true;
+      if (sc.type === 'directionNotAvaliable') blocked.add(sc.target.isTrainUp ? 'up' : 'down');
+    }
+    const transfers = station.lines
+      .filter((id) => id !== line.lineId)
+      .map((lineId) => ({ lineId, color: colorOf(lineId) }));
+    return { closed, blocked: [...blocked], transfers };
+  });
+
+  // 站间距离：优先使用车站数据声明的 distance，其次为预计算路径长度，最后按曼哈顿距离估算
+  const distances = line.stations.slice(1).map((station, i) => {
+    const info = rawByName.get(station.name)?.lines.find(
+      (l) => l.bureau === line.bureau && l.line === line.line && l.stationCode === station.stationCode
+    );
+    if (info?.distance !== undefined && info.distance > 0) return { meters: info.distance, declared: true };
+    const path = line.edgePaths?.[i];
+    if (path) return { meters: path.length, declared: false };
+    const prev = line.stations[i].coord;
+    return { meters: Math.abs(station.coord.x - prev.x) + Math.abs(station.coord.z - prev.z), declared: false };
+  });
+
+  const title = { x: PADDING, y: PADDING + FONT_SIZE + 2, text: `${line.bureau}局${line.line}号线` };
+  const badgeWidth = (lineId: string) => estimateTextWidth(lineId, BADGE_FONT_SIZE) + 8;
+  const last = line.stations.length - 1;
+
+  if (orientation === 'horizontal') {
+    const sin = Math.sin((-H_LABEL_ANGLE * Math.PI) / 180);
+    const cos = Math.cos((-H_LABEL_ANGLE * Math.PI) / 180);
+    const maxName = Math.max(0, ...line.stations.map((s) => estimateTextWidth(s.name, FONT_SIZE)));
+    const lineY = PADDING + TITLE_HEIGHT + maxName * sin + 16;
+    let bottom = lineY + 30;
+
+    const stops: StripMapStop[] = line.stations.map((station, i) => {
+      const x = PADDING + 12 + i * H_SPACING;
+      const { closed, blocked, transfers } = infos[i];
+      const badges = transfers.map((t, k) => {
+        const width = badgeWidth(t.lineId);
+        return { ...t, x: x - width / 2, y: lineY + 26 + k * (BADGE_HEIGHT + BADGE_GAP), width };
+      });
+      const text = blockedNote(closed, blocked);
+      const noteY = lineY + 26 + badges.length * (BADGE_HEIGHT + BADGE_GAP) + FONT_SIZE;
+      if (text) bottom = Math.max(bottom, noteY + 4);
+      bottom = Math.max(bottom, lineY + 26 + badges.length * (BADGE_HEIGHT + BADGE_GAP));
+      return {
+        name: station.name,
+        coord: station.coord,
+        x,
+        y: lineY,
+        isTerminal: i === 0 || i === last,
+        closed,
+        blocked,
+        label: { x: x + 2, y: lineY - 12, anchor: 'start', rotate: H_LABEL_ANGLE },
+        badges,
+        note: text ? { x, y: noteY, anchor: 'middle', text } : null,
+      };
+    });
+
+    const lastX = PADDING + 12 + last * H_SPACING;
+    const lastName = estimateTextWidth(line.stations[last]?.name ?? '', FONT_SIZE);
+    return {
+      orientation,
+      width: Math.max(lastX + lastName * cos + PADDING, estimateTextWidth(title.text, FONT_SIZE + 2) + PADDING * 2),
+      height: bottom + PADDING,
+      color: line.color,
+      title,
+      segments: stops.slice(1).map((stop, i) => straightToSVGPath(stops[i], stop)),
+      stops,
+      distances: distances.map((d, i) => ({
+        x: (stops[i].x + stops[i + 1].x) / 2,
+        y: lineY + 16,
+        anchor: 'middle',
+        text: `${d.declared ? '' : '≈'}${formatDistance(d.meters)}`,
+        declared: d.declared,
+      })),
+    };
+  }
+
+  let right = 0;
+  const stops: StripMapStop[] = line.stations.map((station, i) => {
+    const y = PADDING + TITLE_HEIGHT + 12 + i * V_SPACING;
+    const { closed, blocked, transfers } = infos[i];
+    const labelX = V_LINE_X + 14;
+    let cursor = labelX + estimateTextWidth(station.name, FONT_SIZE) + 8;
+    const badges = transfers.map((t) => {
+      const width = badgeWidth(t.lineId);
+      const badge = { ...t, x: cursor, y: y - BADGE_HEIGHT / 2, width };
+      cursor += width + BADGE_GAP;
+      return badge;
+    });
+    const text = blockedNote(closed, blocked);
+    if (text) cursor += 4 + estimateTextWidth(text, FONT_SIZE - 1);
+    right = Math.max(right, cursor);
+    return {
+      name: station.name,
+      coord: station.coord,
+      x: V_LINE_X,
+      y,
+      isTerminal: i === 0 || i === last,
+      closed,
+      blocked,
+      label: { x: labelX, y: y + FONT_SIZE / 2 - 2, anchor: 'start', rotate: 0 },
+      badges,
+      note: text
+        ? { x: cursor - estimateTextWidth(text, FONT_SIZE - 1), y: y + FONT_SIZE / 2 - 2, anchor: 'start', text }
+        : null,
+    };
+  });
+
+  return {
+    orientation,
+    width: Math.max(right, estimateTextWidth(title.text, FONT_SIZE + 2) + PADDING) + PADDING,
+    height: PADDING + TITLE_HEIGHT + 12 + Math.max(0, last) * V_SPACING + 12 + PADDING,
+    color: line.color,
+    title,
+    segments: stops.slice(1).map((stop, i) => straightToSVGPath(stops[i], stop)),
+    stops,
+    distances: distances.map((d, i) => ({
+      x: V_LINE_X - 10,
+      y: (stops[i].y + stops[i + 1].y) / 2 + 4,
+      anchor: 'end',
+      text: `${d.declared ? '' : '≈'}${formatDistance(d.meters)}`,
+      declared: d.declared,
+    })),
+  };
+}
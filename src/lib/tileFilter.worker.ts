@@ -0,0 +1,63 @@
+/**
+ * 瓦片滤镜 Worker
+ * 在 OffscreenCanvas 上完成瓦片的下载、解码与像素滤镜，处理结果以 ImageBitmap 转移回主线程（见 tilePipeline）
+ */
+
+import { getMapStyle } from './mapStyles';
+import type { TileWorkerRequest, TileWorkerResponse } from './tilePipeline';
+
+// 处理中的任务（取消时中断下载并丢弃结果）
+const controllers = new Map<number, AbortController>();
+
+async function renderTile(
+  request: Extract<TileWorkerRequest, { type: 'process' }>,
+  signal: AbortSignal
+): Promise<ImageBitmap | null> {
+  const { url, style, size, tileX, tileY } = request;
+
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Tile load failed: ${res.status}`);
+  const source = await createImageBitmap(await res.blob());
+  if (signal.aborted) {
+    source.close();
+    return null;
+  }
+
+  const canvas = new OffscreenCanvas(size, size);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.drawImage(source, 0, 0, size, size);
+  source.close();
+
+  const filter = getMapStyle(style).filter;
+  if (filter) {
+    const image = ctx.getImageData(0, 0, size, size);
+    filter(image.data, size, size, { tileX, tileY });
+    ctx.putImageData(image, 0, 0);
+  }
+  return canvas.transferToImageBitmap();
+}
+
+self.onmessage = async (event: MessageEvent<TileWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+  let response: TileWorkerResponse;
+  try {
+    const bitmap = await renderTile(request, controller.signal);
+    if (!bitmap) return;
+    response = { id: request.id, bitmap };
+    self.postMessage(response, { transfer: [bitmap] });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  } finally {
+    controllers.delete(request.id);
+  }
+};
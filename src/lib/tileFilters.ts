@@ -0,0 +1,346 @@
+/**
+ * 瓦片像素滤镜
+ * 纯函数实现（不依赖 DOM），同时供 Web Worker（tileFilter.worker.ts）与主线程回退路径使用；
+ * 滤镜直接修改 RGBA 像素数组
+ */
+
+// 滤镜执行时可用的瓦片信息（纸张纹理等需要跨瓦片连续的效果使用瓦片坐标作为种子）
+export interface TileFilterContext {
+  tileX: number;
+  tileY: number;
+}
+
+export type TileFilter = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  tile: TileFilterContext
+) => void;
+
+// ============ 颜色工具函数 ============
+
+/**
+ * RGB 转 HSL
+ */
+function rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+
+  if (max === min) {
+    return { h: 0, s: 0, l };
+  }
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+  let h = 0;
+  switch (max) {
+    case r:
+      h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+      break;
+    case g:
+      h = ((b - r) / d + 2) / 6;
+      break;
+    case b:
+      h = ((r - g) / d + 4) / 6;
+      break;
+  }
+
+  return { h: h * 360, s, l };
+}
+
+/**
+ * HSL 转 RGB
+ */
+function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
+  h /= 360;
+
+  if (s === 0) {
+    const gray = Math.round(l * 255);
+    return { r: gray, g: gray, b: gray };
+  }
+
+  const hue2rgb = (p: number, q: number, t: number): number => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+
+  return {
+    r: Math.round(hue2rgb(p, q, h + 1 / 3) * 255),
+    g: Math.round(hue2rgb(p, q, h) * 255),
+    b: Math.round(hue2rgb(p, q, h - 1 / 3) * 255),
+  };
+}
+
+const clamp255 = (v: number) => Math.max(0, Math.min(255, v));
+
+// 灰度（亮度）
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// ============ 地形分类 ============
+
+type TerrainType = 'water' | 'forest' | 'sand' | 'building' | 'road' | 'default';
+
+/**
+ * 根据颜色分类地形类型
+ */
+function classifyTerrain(r: number, g: number, b: number): TerrainType {
+  const { h, s, l } = rgbToHsl(r, g, b);
+
+  // 水域：蓝色调，中等饱和度
+  if (h >= 180 && h <= 260 && s > 0.25 && l > 0.2 && l < 0.7) {
+    return 'water';
+  }
+
+  // 森林/植被：绿色调
+  if (h >= 60 && h <= 170 && s > 0.15 && l > 0.15 && l < 0.6) {
+    return 'forest';
+  }
+
+  // 沙地/泥土：黄色/橙色调
+  if (h >= 20 && h <= 50 && s > 0.2 && l > 0.3 && l < 0.7) {
+    return 'sand';
+  }
+
+  // 道路/石头：灰色调（低饱和度，中等亮度）
+  if (s < 0.12 && l > 0.35 && l < 0.65) {
+    return 'road';
+  }
+
+  // 建筑物：较亮的灰色
+  if (s < 0.15 && l > 0.5 && l < 0.85) {
+    return 'building';
+  }
+
+  return 'default';
+}
+
+// 地形对应的淡彩色调（手绘地图风格）
+const TERRAIN_COLORS: Record<TerrainType, { r: number; g: number; b: number }> = {
+  water: { r: 180, g: 210, b: 230 },    // 淡蓝色
+  forest: { r: 195, g: 220, b: 185 },   // 淡绿色
+  sand: { r: 235, g: 220, b: 190 },     // 淡黄/米色
+  road: { r: 225, g: 220, b: 215 },     // 浅灰色
+  building: { r: 235, g: 230, b: 225 }, // 淡灰白
+  default: { r: 248, g: 244, b: 236 },  // 羊皮纸白
+};
+
+// 色盲友好配色（Okabe-Ito 色板），避免依赖红绿区分
+const COLOR_BLIND_SAFE_COLORS: Record<TerrainType, { r: number; g: number; b: number }> = {
+  water: { r: 0, g: 114, b: 178 },      // 蓝
+  forest: { r: 0, g: 158, b: 115 },     // 蓝绿
+  sand: { r: 240, g: 228, b: 66 },      // 黄
+  road: { r: 153, g: 153, b: 153 },     // 灰
+  building: { r: 213, g: 94, b: 0 },    // 朱红
+  default: { r: 230, g: 230, b: 230 },  // 浅灰
+};
+
+// ============ 纸张纹理 ============
+
+// 简单的伪随机数生成器（用于确定性噪声）
+function seededRandom(seed: number): number {
+  const x = Math.sin(seed) * 10000;
+  return x - Math.floor(x);
+}
+
+/**
+ * 添加纸张纹理效果
+ * light=true 时为更轻微的纹理（淡彩风格）
+ */
+function addPaperTexture(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  { tileX, tileY }: TileFilterContext,
+  light = false
+): void {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+
+      // 使用瓦片坐标作为种子，确保相邻瓦片纹理连续
+      const globalX = tileX * width + x;
+      const globalY = tileY * height + y;
+
+      // 多层噪声叠加，模拟纸张纤维
+      const noise1 = seededRandom(globalX * 0.1 + globalY * 0.1);
+      const noise2 = seededRandom(globalX * 0.05 + globalY * 0.07 + 100);
+
+      let textureValue: number;
+      let blueShift: number;
+      if (light) {
+        textureValue = noise1 * 4 + noise2 * 2 - 3; // 中心化，幅度更小
+        blueShift = 1;
+      } else {
+        const noise3 = seededRandom(globalX * 0.02 + globalY * 0.03 + 200);
+        textureValue = noise1 * 8 + noise2 * 4 + noise3 * 2 - 7; // 中心化
+        blueShift = 2; // 蓝色稍微减少，偏暖
+      }
+
+      data[i] = clamp255(data[i] + textureValue);
+      data[i + 1] = clamp255(data[i + 1] + textureValue);
+      data[i + 2] = clamp255(data[i + 2] + textureValue - blueShift);
+    }
+  }
+}
+
+// ============ 边缘检测 ============
+
+/**
+ * Sobel 边缘检测：返回每个像素归一化到 0-1 的边缘强度（按瓦片内最大值归一化）
+ */
+function sobelEdges(gray: Float32Array, width: number, height: number): Float32Array {
+  const edges = new Float32Array(width * height);
+  let maxEdge = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+
+      const gx =
+        -gray[idx - width - 1] + gray[idx - width + 1] +
+        -2 * gray[idx - 1] + 2 * gray[idx + 1] +
+        -gray[idx + width - 1] + gray[idx + width + 1];
+
+      const gy =
+        -gray[idx - width - 1] - 2 * gray[idx - width] - gray[idx - width + 1] +
+        gray[idx + width - 1] + 2 * gray[idx + width] + gray[idx + width + 1];
+
+      const magnitude = Math.sqrt(gx * gx + gy * gy);
+      edges[idx] = magnitude;
+      if (magnitude > maxEdge) {
+        maxEdge = magnitude;
+      }
+    }
+  }
+
+  if (maxEdge > 0) {
+    for (let i = 0; i < edges.length; i++) edges[i] /= maxEdge;
+  }
+  return edges;
+}
+
+function grayscaleOf(data: Uint8ClampedArray): Float32Array {
+  const gray = new Float32Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+  return gray;
+}
+
+// ============ 滤镜 ============
+
+/**
+ * 手绘素描：Sobel 边缘检测 + 地形智能着色 + 纸张纹理
+ */
+export const sketchFilter: TileFilter = (data, width, height, tile) => {
+  const edges = sobelEdges(grayscaleOf(data), width, height);
+
+  // 线条颜色（深褐色，更有手绘感）
+  const lineR = 45;
+  const lineG = 35;
+  const lineB = 25;
+
+  for (let i = 0; i < edges.length; i++) {
+    const p = i * 4;
+    const baseColor = TERRAIN_COLORS[classifyTerrain(data[p], data[p + 1], data[p + 2])];
+
+    // 边缘强度（增强对比度）
+    const edgeIntensity = Math.min(1, edges[i] * 3);
+
+    // 混合：背景淡彩 + 边缘线条
+    data[p] = Math.round(baseColor.r * (1 - edgeIntensity) + lineR * edgeIntensity);
+    data[p + 1] = Math.round(baseColor.g * (1 - edgeIntensity) + lineG * edgeIntensity);
+    data[p + 2] = Math.round(baseColor.b * (1 - edgeIntensity) + lineB * edgeIntensity);
+    data[p + 3] = 255;
+  }
+
+  addPaperTexture(data, width, height, tile);
+};
+
+/**
+ * 淡彩水彩：降低饱和度 + 提高亮度 + 偏暖色调 + 轻微纸张纹理
+ */
+export const watercolorFilter: TileFilter = (data, width, height, tile) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const { h, s, l } = rgbToHsl(data[i], data[i + 1], data[i + 2]);
+
+    // 饱和度减半，提亮，整体偏白
+    const { r, g, b } = hslToRgb(h, s * 0.5, Math.min(1, l * 0.85 + 0.18));
+
+    // 偏暖色调
+    data[i] = Math.min(255, r + 10);
+    data[i + 1] = Math.min(255, g + 5);
+    data[i + 2] = Math.max(0, b - 3);
+  }
+
+  addPaperTexture(data, width, height, tile, true);
+};
+
+/**
+ * 高对比度：拉伸亮度、提高饱和度，并用深色描出边缘
+ */
+export const highContrastFilter: TileFilter = (data, width, height) => {
+  const edges = sobelEdges(grayscaleOf(data), width, height);
+
+  for (let i = 0; i < edges.length; i++) {
+    const p = i * 4;
+    const { h, s, l } = rgbToHsl(data[p], data[p + 1], data[p + 2]);
+
+    // 以 0.5 为中心拉伸亮度（S 形曲线）
+    const stretched = 1 / (1 + Math.exp(-(l - 0.5) * 8));
+    const { r, g, b } = hslToRgb(h, Math.min(1, s * 1.4), stretched);
+
+    const edge = edges[i] > 0.35 ? 1 : 0;
+    data[p] = Math.round(r * (1 - edge));
+    data[p + 1] = Math.round(g * (1 - edge));
+    data[p + 2] = Math.round(b * (1 - edge));
+  }
+};
+
+/**
+ * 灰度打印：灰度化 + 提亮 + 边缘加深，适合黑白打印
+ */
+export const grayscaleFilter: TileFilter = (data, width, height) => {
+  const gray = grayscaleOf(data);
+  const edges = sobelEdges(gray, width, height);
+
+  for (let i = 0; i < gray.length; i++) {
+    const p = i * 4;
+    // 压缩到浅色区间以节省墨水，边缘保留深色
+    const base = 120 + gray[i] * 0.53;
+    const v = Math.round(base * (1 - Math.min(1, edges[i] * 2) * 0.75));
+    data[p] = v;
+    data[p + 1] = v;
+    data[p + 2] = v;
+  }
+};
+
+/**
+ * 色盲友好：按地形分类映射到 Okabe-Ito 色板，保留原图明暗层次
+ */
+export const colorBlindSafeFilter: TileFilter = (data) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const color = COLOR_BLIND_SAFE_COLORS[classifyTerrain(r, g, b)];
+    // 亮度调制（0.6-1.2 倍）
+    const shade = 0.6 + (luminance(r, g, b) / 255) * 0.6;
+    data[i] = clamp255(Math.round(color.r * shade));
+    data[i + 1] = clamp255(Math.round(color.g * shade));
+    data[i + 2] = clamp255(Math.round(color.b * shade));
+  }
+};
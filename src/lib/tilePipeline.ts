@@ -0,0 +1,242 @@
+/**
+ * 瓦片后处理管线
+ * - 带滤镜的地图风格（见 mapStyles）的瓦片交给 Web Worker 在 OffscreenCanvas 上下载、解码并应用滤镜，
+ *   避免 Sobel / 色彩计算阻塞主线程导致拖动卡顿
+ * - 处理结果（ImageBitmap）按「风格 + 瓦片地址」放入 LRU 缓存，来回拖动或切换风格时直接复用
+ * - 不支持 Worker / OffscreenCanvas 的浏览器，或 Worker 启动失败时，回退到主线程处理
+ */
+
+import { LRUCache } from './LRUCache';
+import { getMapStyle, type MapStyle } from './mapStyles';
+
+// 缓存的处理结果数量（128×128 RGBA 约 64KB/张，共约 32MB）
+const TILE_CACHE_SIZE = 512;
+
+export interface TileRequest {
+  // 原始瓦片地址
+  url: string;
+  style: MapStyle;
+  // 瓦片尺寸（像素）
+  size: number;
+  // Leaflet 瓦片坐标（纸张纹理等效果的种子）
+  tileX: number;
+  tileY: number;
+}
+
+export type TileWorkerRequest =
+  | ({ type: 'process'; id: number } & TileRequest)
+  | { type: 'cancel'; id: number };
+
+export type TileWorkerResponse =
+  | { id: number; bitmap: ImageBitmap }
+  | { id: number; error: string };
+
+interface PendingJob {
+  key: string;
+  request: TileRequest;
+  promise: Promise<ImageBitmap>;
+  resolve: (bitmap: ImageBitmap) => void;
+  reject: (error: Error) => void;
+  // 仍在等待结果的调用方数量；全部取消时通知 Worker 放弃该任务
+  waiters: number;
+}
+
+const cache = new LRUCache<string, ImageBitmap>(TILE_CACHE_SIZE, (bitmap) => bitmap.close());
+const pendingByKey = new Map<string, PendingJob>();
+const pendingById = new Map<number, PendingJob>();
+let nextJobId = 1;
+
+// undefined：尚未创建；null：不可用（回退主线程）
+let worker: Worker | null | undefined;
+
+const cacheKey = (request: TileRequest) => `${request.style}|${request.url}`;
+
+function abortError(): Error {
+  return new DOMException('Tile processing aborted', 'AbortError');
+}
+
+function settle(id: number, job: PendingJob, result: ImageBitmap | Error) {
+  pendingById.delete(id);
+  if (pendingByKey.get(job.key) === job) pendingByKey.delete(job.key);
+  if (result instanceof Error) {
+    job.reject(result);
+  } else {
+    cache.set(job.key, result);
+    job.resolve(result);
+  }
+}
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    worker = null;
+    return worker;
+  }
+
+  try {
+    worker = new Worker(new URL('./tileFilter.worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn('Tile filter worker unavailable, falling back to main thread:', e);
+    worker = null;
+    return worker;
+  }
+
+  worker.onmessage = (event: MessageEvent<TileWorkerResponse>) => {
+    const response = event.data;
+    const job = pendingById.get(response.id);
+    if (!job) {
+      // 已取消的任务
+      if ('bitmap' in response) response.bitmap.close();
+      return;
+    }
+    settle(response.id, job, 'bitmap' in response ? response.bitmap : new Error(response.error));
+  };
+
+  // Worker 脚本加载失败等：改由主线程处理尚未完成的任务
+  worker.onerror = (event) => {
+    console.warn('Tile filter worker failed, falling back to main thread:', event.message);
+    worker?.terminate();
+    worker = null;
+    for (const [id, job] of [...pendingById]) {
+      pendingById.delete(id);
+      runOnMainThread(job);
+    }
+  };
+
+  return worker;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Tile load failed'));
+    img.src = url;
+  });
+}
+
+// 主线程回退路径
+async function renderOnMainThread(request: TileRequest): Promise<ImageBitmap> {
+  const { url, style, size, tileX, tileY } = request;
+  const img = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.drawImage(img, 0, 0, size, size);
+
+  const filter = getMapStyle(style).filter;
+  if (filter) {
+    const image = ctx.getImageData(0, 0, size, size);
+    filter(image.data, size, size, { tileX, tileY });
+    ctx.putImageData(image, 0, 0);
+  }
+  const bitmap = await createImageBitmap(canvas);
+  cache.set(cacheKey(request), bitmap);
+  return bitmap;
+}
+
+function runOnMainThread(job: PendingJob) {
+  renderOnMainThread(job.request)
+    .then(job.resolve, job.reject)
+    .finally(() => {
+      if (pendingByKey.get(job.key) === job) pendingByKey.delete(job.key);
+    });
+}
+
+function startJob(key: string, request: TileRequest): PendingJob {
+  let resolve!: (bitmap: ImageBitmap) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<ImageBitmap>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  const job: PendingJob = { key, request, promise, resolve, reject, waiters: 0 };
+  pendingByKey.set(key, job);
+
+  const w = getWorker();
+  if (w) {
+    const id = nextJobId++;
+    pendingById.set(id, job);
+    const message: TileWorkerRequest = { type: 'process', id, ...request };
+    w.postMessage(message);
+  } else {
+    runOnMainThread(job);
+  }
+  return job;
+}
+
+// 没有调用方再等待时取消任务（主线程回退路径无法中断，结果照常进入缓存）
+function release(job: PendingJob) {
+  job.waiters -= 1;
+  if (job.waiters > 0) return;
+  for (const [id, pending] of pendingById) {
+    if (pending !== job) continue;
+    pendingById.delete(id);
+    if (pendingByKey.get(job.key) === job) pendingByKey.delete(job.key);
+    const message: TileWorkerRequest = { type: 'cancel', id };
+    worker?.postMessage(message);
+    job.reject(abortError());
+    return;
+  }
+}
+
+/**
+ * 处理瓦片并绘制到 canvas（命中缓存时同步绘制）
+ * signal 中止后 Promise 以 AbortError 拒绝，且不会再写入 canvas
+ */
+export function renderFilteredTile(
+  request: TileRequest,
+  canvas: HTMLCanvasElement,
+  signal?: AbortSignal
+): Promise<void> {
+  const draw = (bitmap: ImageBitmap) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  };
+
+  const key = cacheKey(request);
+  const cached = cache.get(key);
+  if (cached) {
+    try {
+      draw(cached);
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const job = pendingByKey.get(key) ?? startJob(key, request);
+  job.waiters += 1;
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      release(job);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    job.promise.then(
+      (bitmap) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) return;
+        // 结果在同一任务中绘制，不会被缓存淘汰关闭
+        try {
+          draw(bitmap);
+          resolve();
+        } catch (e) {
+          reject(e);
+        }
+      },
+      (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (!signal?.aborted) reject(error);
+      }
+    );
+  });
+}
+
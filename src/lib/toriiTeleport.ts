@@ -5,48 +5,45 @@
 
 import type { Coordinate, Torii } from '@/types';
 import type { ParsedLandmark } from './landmarkParser';
+import { getWorld, type TeleportHub } from './worldRegistry';
 
-// zth 特殊传送目的地
-const ZTH_CENTER: Coordinate = { x: -643, y: 35, z: -1562 };    // 世界中心点
-const ZTH_HAIFENG: Coordinate = { x: 8387, y: 64, z: -1304 };   // 海风湾
+const FALLBACK_CENTER: Coordinate = { x: 0, y: 64, z: 0 };
 
-// 世界中心点配置
-const WORLD_CENTERS: Record<string, Coordinate> = {
-  zth: ZTH_CENTER,
-  eden: { x: 0, y: 64, z: 0 },
-  naraku: { x: 0, y: 64, z: 0 },
-  houtu: { x: 0, y: 64, z: 0 },
-};
+/**
+ * 世界的传送中转点（见世界注册表 teleportHubs，如零洲的世界中心 / 海风湾）
+ */
+export function getTeleportHubs(worldId: string): TeleportHub[] {
+  return getWorld(worldId)?.teleportHubs ?? [{ name: '世界中心', coord: FALLBACK_CENTER }];
+}
 
 /**
- * 获取鸟居传送目的地
+ * 鸟居编号是否传送到该中转点
  */
-export function getTeleportDestination(toriiId: number, worldId: string): Coordinate {
-  if (worldId === 'zth') {
-    return toriiId <= 200 ? ZTH_CENTER : ZTH_HAIFENG;
-  }
-  return WORLD_CENTERS[worldId] || { x: 0, y: 64, z: 0 };
+function hubAccepts(hub: TeleportHub, toriiId: number): boolean {
+  return (hub.minToriiId === undefined || toriiId >= hub.minToriiId) &&
+    (hub.maxToriiId === undefined || toriiId <= hub.maxToriiId);
 }
 
 /**
- * 获取世界中心点
+ * 鸟居对应的中转点（编号不在任何区间内时取第一个）
  */
-export function getWorldCenter(worldId: string): Coordinate {
-  return WORLD_CENTERS[worldId] || { x: 0, y: 64, z: 0 };
+export function getTeleportHub(toriiId: number, worldId: string): TeleportHub {
+  const hubs = getTeleportHubs(worldId);
+  return hubs.find(hub => hubAccepts(hub, toriiId)) ?? hubs[0];
 }
 
 /**
- * zth 世界是否有海风湾传送（201+鸟居）
+ * 获取鸟居传送目的地
  */
-export function hasHaifengTeleport(worldId: string): boolean {
-  return worldId === 'zth';
+export function getTeleportDestination(toriiId: number, worldId: string): Coordinate {
+  return getTeleportHub(toriiId, worldId).coord;
 }
 
 /**
- * 获取海风湾坐标（仅 zth）
+ * 获取世界中心点
  */
-export function getHaifengPoint(): Coordinate {
-  return ZTH_HAIFENG;
+export function getWorldCenter(worldId: string): Coordinate {
+  return getWorld(worldId)?.center ?? FALLBACK_CENTER;
 }
 
 /**
@@ -180,7 +177,7 @@ export function findTeleportPath(
             to: dest,
             distance: 0,
             torii: nearestToStart,
-            destinationName: worldId === 'zth' ? (nearestToStart.id <= 200 ? '世界中心' : '海风湾') : '世界中心',
+            destinationName: getTeleportHub(nearestToStart.id, worldId).name,
           },
           {
             type: 'walk_from_teleport',
@@ -211,9 +208,7 @@ export function findTeleportPath(
       const totalWalk = walkFromEndTorii;
 
       if (totalWalk < bestResult.totalWalkDistance) {
-        const destName = worldId === 'zth'
-          ? (nearestToStart.id <= 200 ? '世界中心' : '海风湾')
-          : '世界中心';
+        const destName = getTeleportHub(nearestToStart.id, worldId).name;
 
         bestResult = {
           found: true,
@@ -252,9 +247,7 @@ export function findTeleportPath(
       const totalWalk = walkBetweenDests + walkFromEndTorii;
 
       if (totalWalk < bestResult.totalWalkDistance) {
-        const startDestName = worldId === 'zth'
-          ? (nearestToStart.id <= 200 ? '世界中心' : '海风湾')
-          : '世界中心';
+        const startDestName = getTeleportHub(nearestToStart.id, worldId).name;
 
         bestResult = {
           found: true,
@@ -295,27 +288,24 @@ export function findTeleportPath(
     }
   }
 
-  // 方案4：zth 世界特殊方案 - 利用世界中心和海风湾中转
+  // 方案4：多个中转点的世界（如零洲的世界中心 / 海风湾）
   // 这些方案涉及跨中转点，需要步行到中转点附近的鸟居
-  if (worldId === 'zth') {
-    // 4a: 任意位置传送到世界中心 → 走到世界中心附近201+鸟居 → 海风湾 → 步行
-    const toriiNearCenter201 = findNearestToriiWithFilter(
-      ZTH_CENTER,
-      toriiList,
-      t => t.id > 200
-    );
-
-    if (toriiNearCenter201) {
-      const nearestToStart1_200 = findNearestToriiWithFilter(
-        start,
-        toriiList,
-        t => t.id <= 200
-      );
-
-      if (nearestToStart1_200) {
-        const walkCenterToTorii2 = getDistance(ZTH_CENTER, toriiNearCenter201.coord);
-        const walkFromHaifeng = getDistance(ZTH_HAIFENG, end);
-        const totalWalk = walkCenterToTorii2 + walkFromHaifeng;
+  const hubs = getTeleportHubs(worldId);
+  if (hubs.length > 1) {
+    for (const hub of hubs) {
+      const toHub = (t: Torii) => hubAccepts(hub, t.id);
+      const nearestToStartForHub = findNearestToriiWithFilter(start, toriiList, toHub);
+      if (!nearestToStartForHub) continue;
+
+      // 4a: 任意位置传送到中转点 A → 走到 A 附近通往 B 的鸟居 → B → 步行
+      for (const other of hubs) {
+        if (other === hub) continue;
+        const toriiNearHub = findNearestToriiWithFilter(hub.coord, toriiList, t => hubAccepts(other, t.id));
+        if (!toriiNearHub) continue;
+
+        const walkHubToTorii = getDistance(hub.coord, toriiNearHub.coord);
+        const walkFromOther = getDistance(other.coord, end);
+        const totalWalk = walkHubToTorii + walkFromOther;
 
         if (totalWalk < bestResult.totalWalkDistance) {
           bestResult = {
@@ -324,31 +314,31 @@ export function findTeleportPath(
               {
                 type: 'teleport',
                 from: start,
-                to: ZTH_CENTER,
+                to: hub.coord,
                 distance: 0,
-                torii: nearestToStart1_200,
-                destinationName: '世界中心',
+                torii: nearestToStartForHub,
+                destinationName: hub.name,
               },
               {
                 type: 'walk_to_torii',
-                from: ZTH_CENTER,
-                to: toriiNearCenter201.coord,
-                distance: walkCenterToTorii2,
-                torii: toriiNearCenter201,
+                from: hub.coord,
+                to: toriiNearHub.coord,
+                distance: walkHubToTorii,
+                torii: toriiNearHub,
               },
               {
                 type: 'teleport',
-                from: toriiNearCenter201.coord,
-                to: ZTH_HAIFENG,
+                from: toriiNearHub.coord,
+                to: other.coord,
                 distance: 0,
-                torii: toriiNearCenter201,
-                destinationName: '海风湾',
+                torii: toriiNearHub,
+                destinationName: other.name,
               },
               {
                 type: 'walk_from_teleport',
-                from: ZTH_HAIFENG,
+                from: other.coord,
                 to: end,
-                distance: walkFromHaifeng,
+                distance: walkFromOther,
               },
             ],
             totalWalkDistance: totalWalk,
@@ -356,123 +346,9 @@ export function findTeleportPath(
           };
         }
       }
-    }
-
-    // 4b: 任意位置传送到海风湾 → 走到海风湾附近1-200鸟居 → 世界中心 → 步行
-    const toriiNearHaifeng1_200 = findNearestToriiWithFilter(
-      ZTH_HAIFENG,
-      toriiList,
-      t => t.id <= 200
-    );
-
-    if (toriiNearHaifeng1_200) {
-      const nearestToStart201 = findNearestToriiWithFilter(
-        start,
-        toriiList,
-        t => t.id > 200
-      );
-
-      if (nearestToStart201) {
-        const walkHaifengToTorii2 = getDistance(ZTH_HAIFENG, toriiNearHaifeng1_200.coord);
-        const walkFromCenter = getDistance(ZTH_CENTER, end);
-        const totalWalk = walkHaifengToTorii2 + walkFromCenter;
-
-        if (totalWalk < bestResult.totalWalkDistance) {
-          bestResult = {
-            found: true,
-            segments: [
-              {
-                type: 'teleport',
-                from: start,
-                to: ZTH_HAIFENG,
-                distance: 0,
-                torii: nearestToStart201,
-                destinationName: '海风湾',
-              },
-              {
-                type: 'walk_to_torii',
-                from: ZTH_HAIFENG,
-                to: toriiNearHaifeng1_200.coord,
-                distance: walkHaifengToTorii2,
-                torii: toriiNearHaifeng1_200,
-              },
-              {
-                type: 'teleport',
-                from: toriiNearHaifeng1_200.coord,
-                to: ZTH_CENTER,
-                distance: 0,
-                torii: toriiNearHaifeng1_200,
-                destinationName: '世界中心',
-              },
-              {
-                type: 'walk_from_teleport',
-                from: ZTH_CENTER,
-                to: end,
-                distance: walkFromCenter,
-              },
-            ],
-            totalWalkDistance: totalWalk,
-            teleportCount: 2,
-          };
-        }
-      }
-    }
-
-    // 4c: 任意位置传送到世界中心 → 反向传送到终点附近1-200鸟居
-    if (nearestToEnd && nearestToEnd.id <= 200) {
-      const nearestToStart1_200_c = findNearestToriiWithFilter(
-        start,
-        toriiList,
-        t => t.id <= 200
-      );
-
-      if (nearestToStart1_200_c) {
-        const walkFromEndTorii = getDistance(nearestToEnd.coord, end);
-        const totalWalk = walkFromEndTorii;
-
-        if (totalWalk < bestResult.totalWalkDistance) {
-          bestResult = {
-            found: true,
-            segments: [
-              {
-                type: 'teleport',
-                from: start,
-                to: ZTH_CENTER,
-                distance: 0,
-                torii: nearestToStart1_200_c,
-                destinationName: '世界中心',
-              },
-              {
-                type: 'teleport',
-                from: ZTH_CENTER,
-                to: nearestToEnd.coord,
-                distance: 0,
-                torii: nearestToEnd,
-                destinationName: nearestToEnd.name,
-              },
-              {
-                type: 'walk_from_teleport',
-                from: nearestToEnd.coord,
-                to: end,
-                distance: walkFromEndTorii,
-              },
-            ],
-            totalWalkDistance: totalWalk,
-            teleportCount: 2,
-          };
-        }
-      }
-    }
-
-    // 4d: 任意位置传送到海风湾 → 反向传送到终点附近201+鸟居
-    if (nearestToEnd && nearestToEnd.id > 200) {
-      const nearestToStart201_d = findNearestToriiWithFilter(
-        start,
-        toriiList,
-        t => t.id > 200
-      );
 
-      if (nearestToStart201_d) {
+      // 4b: 任意位置传送到中转点 → 反向传送到终点附近同一中转点的鸟居
+      if (nearestToEnd && toHub(nearestToEnd)) {
         const walkFromEndTorii = getDistance(nearestToEnd.coord, end);
         const totalWalk = walkFromEndTorii;
 
@@ -483,14 +359,14 @@ export function findTeleportPath(
               {
                 type: 'teleport',
                 from: start,
-                to: ZTH_HAIFENG,
+                to: hub.coord,
                 distance: 0,
-                torii: nearestToStart201_d,
-                destinationName: '海风湾',
+                torii: nearestToStartForHub,
+                destinationName: hub.name,
               },
               {
                 type: 'teleport',
-                from: ZTH_HAIFENG,
+                from: hub.coord,
                 to: nearestToEnd.coord,
                 distance: 0,
                 torii: nearestToEnd,
@@ -0,0 +1,167 @@
+/**
+ * URL hash 深链接
+ * 格式：#w=zth&x=-643&z=-1562&zoom=3&station=站名&from=x,y,z&fromName=起点&to=x,y,z&toName=终点&mode=rail_new
+ * - 世界 / 选中 / 导航等「离散状态」变化写入新的历史记录（浏览器前进/后退可在其间切换）
+ * - 平移 / 缩放只替换当前记录，避免历史被拖动操作刷满
+ */
+
+import type { Coordinate } from '@/types';
+
+// 可通过链接恢复的导航模式（需要起终点的模式）
+export const URL_NAV_MODES = ['rail_new', 'auto', 'rail', 'teleport', 'walk'] as const;
+export type UrlNavMode = (typeof URL_NAV_MODES)[number];
+
+export interface UrlNavPoint {
+  name: string;
+  coord: Coordinate;
+}
+
+export interface UrlNavState {
+  start: UrlNavPoint;
+  end: UrlNavPoint;
+  mode: UrlNavMode;
+}
+
+export interface UrlMapState {
+  world?: string;
+  x?: number;
+  z?: number;
+  zoom?: number;
+  station?: string;   // 选中站点（站名）
+  landmark?: string;  // 选中地标（地标名）
+  line?: string;      // 高亮线路（lineId）
+  nav?: UrlNavState;
+}
+
+// 视图参数（只替换历史记录）
+const VIEW_KEYS = ['x', 'z', 'zoom'];
+
+function parseNumber(v: string | null): number | undefined {
+  if (v === null || v.trim() === '') return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function parseCoord(v: string | null): Coordinate | null {
+  if (!v) return null;
+  const nums = v.split(',').map(Number);
+  if (nums.some((n) => !Number.isFinite(n))) return null;
+  if (nums.length === 2) return { x: nums[0], y: 64, z: nums[1] };
+  if (nums.length === 3) return { x: nums[0], y: nums[1], z: nums[2] };
+  return null;
+}
+
+function formatCoord(c: Coordinate): string {
+  return [c.x, c.y ?? 64, c.z].map((n) => Math.round(n)).join(',');
+}
+
+function parseNavPoint(params: URLSearchParams, key: 'from' | 'to'): UrlNavPoint | null {
+  const coord = parseCoord(params.get(key));
+  if (!coord) return null;
+  const name = params.get(`${key}Name`) || `坐标 (${Math.round(coord.x)}, ${Math.round(coord.z)})`;
+  return { name, coord };
+}
+
+/**
+ * 解析 hash（可带或不带前导 #）
+ */
+export function parseUrlState(hash: string): UrlMapState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: UrlMapState = {};
+
+  const world = params.get('w');
+  if (world) state.world = world;
+
+  const x = parseNumber(params.get('x'));
+  const z = parseNumber(params.get('z'));
+  if (x !== undefined && z !== undefined) {
+    state.x = x;
+    state.z = z;
+  }
+  const zoom = parseNumber(params.get('zoom'));
+  if (zoom !== undefined) state.zoom = Math.round(zoom);
+
+  const station = params.get('station');
+  if (station) state.station = station;
+  const landmark = params.get('landmark');
+  if (landmark) state.landmark = landmark;
+  const line = params.get('line');
+  if (line) state.line = line;
+
+  const start = parseNavPoint(params, 'from');
+  const end = parseNavPoint(params, 'to');
+  const mode = params.get('mode') as UrlNavMode | null;
+  if (start && end) {
+    state.nav = { start, end, mode: mode && URL_NAV_MODES.includes(mode) ? mode : 'rail_new' };
+  }
+
+  return state;
+}
+
+/**
+ * 序列化为 hash（含前导 #；空状态返回空串）
+ */
+export function serializeUrlState(state: UrlMapState): string {
+  const params = new URLSearchParams();
+
+  if (state.world) params.set('w', state.world);
+  if (state.x !== undefined && state.z !== undefined) {
+    params.set('x', String(Math.round(state.x)));
+    params.set('z', String(Math.round(state.z)));
+  }
+  if (state.zoom !== undefined) params.set('zoom', String(state.zoom));
+
+  if (state.station) params.set('station', state.station);
+  if (state.landmark) params.set('landmark', state.landmark);
+  if (state.line) params.set('line', state.line);
+
+  if (state.nav) {
+    params.set('from', formatCoord(state.nav.start.coord));
+    params.set('fromName', state.nav.start.name);
+    params.set('to', formatCoord(state.nav.end.coord));
+    params.set('toName', state.nav.end.name);
+    params.set('mode', state.nav.mode);
+  }
+
+  // 逗号在 fragment 中无需转义，保留可读的坐标
+  const s = params.toString().replace(/%2C/gi, ',');
+  return s ? `#${s}` : '';
+}
+
+/**
+ * 去掉视图参数后的 hash，用于判断是否为「离散状态」变化
+ */
+function discreteKey(hash: string): string {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  for (const k of VIEW_KEYS) params.delete(k);
+  return params.toString();
+}
+
+/**
+ * 从当前地址读取状态
+ */
+export function readUrlState(): UrlMapState {
+  return parseUrlState(window.location.hash);
+}
+
+/**
+ * 写回地址栏
+ * - 离散状态变化：pushState（产生新的历史记录）
+ * - 仅视图变化（或 opts.replace）：replaceState
+ */
+export function writeUrlState(state: UrlMapState, opts?: { replace?: boolean }): void {
+  const next = serializeUrlState(state);
+  const current = window.location.hash;
+  if (next === current || (next === '' && current === '#')) return;
+
+  const url = `${window.location.pathname}${window.location.search}${next}`;
+  try {
+    if (!opts?.replace && discreteKey(next) !== discreteKey(current)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  } catch (e) {
+    console.warn('Failed to update URL state:', e);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * 世界注册表
+ * 各世界的显示名称、编号、Dynmap 地址（配置 / 瓦片 / 头像）、初始中心点、鸟居传送中转点以及数据源地址
+ * 统一由 src/config/worlds.json 配置；新增世界（如 laputa / yunduan）只需修改配置
+ */
+
+import type { Coordinate } from '@/types';
+import worldsConfig from '@/config/worlds.json';
+
+// 鸟居传送中转点：编号落在 [minToriiId, maxToriiId] 的鸟居传送到此处
+export interface TeleportHub {
+  name: string;
+  coord: Coordinate;
+  minToriiId?: number;
+  maxToriiId?: number;
+}
+
+// RMP 坐标 → 游戏坐标：(coord * scale + offset) * multiplier
+export interface RmpTransformConfig {
+  scale: number;
+  offset: number;
+  multiplier: number;
+}
+
+export type WorldRuleDataSource = {
+  baseUrl: string;
+  files: string[];
+};
+
+export interface WorldDefinition {
+  id: string;
+  name: string;
+  /** 数据规范中 World 字段的整数编号 */
+  code: number | null;
+  /** 编号前缀（Z/N/H/E/...），用于生成 ID */
+  prefix: string | null;
+  aliases: string[];
+  /** 关闭时仅保留编号映射，不出现在世界列表中 */
+  enabled: boolean;
+  center: Coordinate;
+  dynmap: {
+    /** Dynmap 接口中的世界名（如 _zth） */
+    world: string;
+    tileBaseUrl: string;
+    /** 含 {size} / {player} 占位符 */
+    playerFaceUrl: string;
+    mapName: string;
+    /** up/configuration 地址（投影参数运行时从这里读取，见 dynmapConfig） */
+    configurationUrl: string;
+  };
+  teleportHubs: TeleportHub[];
+  data: {
+    railwayUrl: string;
+    landmarkUrl: string;
+    rmp: { url: string; transform: RmpTransformConfig } | null;
+    rules: WorldRuleDataSource;
+  };
+}
+
+// worlds.json 的结构（除 id 外均可省略，省略项取 defaults）
+interface WorldEntryConfig {
+  id: string;
+  name?: string;
+  code?: number;
+  prefix?: string;
+  aliases?: string[];
+  enabled?: boolean;
+  center?: Coordinate;
+  dynmapWorld?: string;
+  tileBaseUrl?: string;
+  playerFaceUrl?: string;
+  mapName?: string;
+  configurationUrl?: string;
+  teleportHubs?: TeleportHub[];
+  railwayUrl?: string;
+  landmarkUrl?: string;
+  rmp?: { url: string; transform: RmpTransformConfig };
+  rules?: { baseUrl?: string; files?: string[] };
+}
+
+interface WorldRegistryConfig {
+  defaultWorld?: string;
+  defaults: {
+    dynmapWorld: string;
+    tileBaseUrl: string;
+    playerFaceUrl: string;
+    mapName: string;
+    configurationUrl: string;
+    center: Coordinate;
+    railwayUrl: string;
+    landmarkUrl: string;
+    rulesBaseUrl: string;
+  };
+  worlds: WorldEntryConfig[];
+}
+
+// 替换 {key} 占位符；未提供的占位符保持原样（留给调用时替换）
+function fillTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (m, key: string) => vars[key] ?? m);
+}
+
+function buildRegistry(config: WorldRegistryConfig): WorldDefinition[] {
+  const { defaults } = config;
+  const seenIds = new Set<string>();
+  const seenCodes = new Set<number>();
+
+  return config.worlds.map((entry) => {
+    if (!entry.id) throw new Error('worlds.json：世界缺少 id');
+    if (seenIds.has(entry.id)) throw new Error(`worlds.json：世界 id 重复 "${entry.id}"`);
+    seenIds.add(entry.id);
+    if (entry.code !== undefined) {
+      if (seenCodes.has(entry.code)) throw new Error(`worlds.json：世界编号重复 ${entry.code}（${entry.id}）`);
+      seenCodes.add(entry.code);
+    }
+
+    const vars: Record<string, string> = { id: entry.id };
+    vars.dynmapWorld = fillTemplate(entry.dynmapWorld ?? defaults.dynmapWorld, vars);
+    const center = entry.center ?? defaults.center;
+
+    return {
+      id: entry.id,
+      name: entry.name ?? entry.id,
+      code: entry.code ?? null,
+      prefix: entry.prefix ?? null,
+      aliases: entry.aliases ?? [],
+      enabled: entry.enabled ?? true,
+      center,
+      dynmap: {
+        world: vars.dynmapWorld,
+        tileBaseUrl: fillTemplate(entry.tileBaseUrl ?? defaults.tileBaseUrl, vars),
+        playerFaceUrl: fillTemplate(entry.playerFaceUrl ?? defaults.playerFaceUrl, vars),
+        mapName: entry.mapName ?? defaults.mapName,
+        configurationUrl: fillTemplate(entry.configurationUrl ?? defaults.configurationUrl, vars),
+      },
+      teleportHubs: entry.teleportHubs ?? [{ name: '世界中心', coord: center }],
+      data: {
+        railwayUrl: fillTemplate(entry.railwayUrl ?? defaults.railwayUrl, vars),
+        landmarkUrl: fillTemplate(entry.landmarkUrl ?? defaults.landmarkUrl, vars),
+        rmp: entry.rmp ?? null,
+        rules: {
+          baseUrl: fillTemplate(entry.rules?.baseUrl ?? defaults.rulesBaseUrl, vars),
+          files: entry.rules?.files ?? [],
+        },
+      },
+    };
+  });
+}
+
+// 全部世界（含未启用）
+export const WORLD_REGISTRY: WorldDefinition[] = buildRegistry(worldsConfig as WorldRegistryConfig);
+
+// 启用的世界（世界切换、数据加载等使用）
+export const WORLDS: WorldDefinition[] = WORLD_REGISTRY.filter((w) => w.enabled);
+
+const WORLD_BY_ID = new Map(WORLD_REGISTRY.map((w) => [w.id, w]));
+
+export const DEFAULT_WORLD_ID: string =
+  (worldsConfig as WorldRegistryConfig).defaultWorld ?? WORLDS[0]?.id ?? 'zth';
+
+/**
+ * 按 id 获取世界定义（含未启用的世界）
+ */
+export function getWorld(worldId: string): WorldDefinition | null {
+  return WORLD_BY_ID.get(worldId) ?? null;
+}
+
+/**
+ * 是否为已启用的世界
+ */
+export function isKnownWorld(worldId: string | null | undefined): worldId is string {
+  return !!worldId && !!WORLD_BY_ID.get(worldId)?.enabled;
+}
+
+export function getWorldName(worldId: string): string {
+  return WORLD_BY_ID.get(worldId)?.name ?? worldId;
+}
+
+export function getWorldCode(worldId: string): number | null {
+  return WORLD_BY_ID.get(worldId)?.code ?? null;
+}
+
+/**
+ * 把各种写法的世界标识解析为 id：id / 整数编号 / 名称 / 别名 / 编号前缀
+ */
+export function resolveWorldId(input: string | number | null | undefined): string | null {
+  const raw = String(input ?? '').trim();
+  if (!raw) return null;
+  if (WORLD_BY_ID.has(raw)) return raw;
+
+  if (/^\d+$/.test(raw)) {
+    const code = Number(raw);
+    return WORLD_REGISTRY.find((w) => w.code === code)?.id ?? null;
+  }
+
+  const byName = WORLD_REGISTRY.find((w) => w.name === raw || w.aliases.includes(raw));
+  if (byName) return byName.id;
+
+  const upper = raw.toUpperCase();
+  return WORLD_REGISTRY.find((w) => w.prefix === upper)?.id ?? null;
+}
+
+/**
+ * 世界编号前缀（Z/N/H/...）；可传入 id / 整数编号 / 前缀本身，无法识别时取默认世界的前缀
+ */
+export function getWorldPrefix(input: string | number | null | undefined): string {
+  const worldId = resolveWorldId(input) ?? DEFAULT_WORLD_ID;
+  return getWorld(worldId)?.prefix ?? getWorld(DEFAULT_WORLD_ID)?.prefix ?? 'Z';
+}
+
+/**
+ * Dynmap 接口中的世界名（/api/dynmap/{world}/...）
+ */
+export function getDynmapWorldName(worldId: string): string {
+  return getWorld(worldId)?.dynmap.world ?? fillTemplate(worldsConfig.defaults.dynmapWorld, { id: worldId });
+}
+
+/**
+ * 瓦片根地址（直连 Dynmap）
+ */
+export function getTileBaseUrl(worldId: string): string {
+  return getWorld(worldId)?.dynmap.tileBaseUrl
+    ?? fillTemplate(worldsConfig.defaults.tileBaseUrl, { dynmapWorld: getDynmapWorldName(worldId) });
+}
+
+/**
+ * 玩家头像地址
+ */
+export function getPlayerFaceUrl(worldId: string, playerName: string, size: number): string {
+  const template = getWorld(worldId)?.dynmap.playerFaceUrl
+    ?? fillTemplate(worldsConfig.defaults.playerFaceUrl, { dynmapWorld: getDynmapWorldName(worldId) });
+  return fillTemplate(template, { size: String(size), player: encodeURIComponent(playerName) });
+}
@@ -1,43 +1,58 @@
 /**
  * 数据缓存管理 Store
- * 使用 localStorage 实现 7 天缓存
+ * 每个数据源（铁路局配置、各世界铁路 / RMP / 地标、规则 JSON）单独缓存在 IndexedDB，
+ * 按 7 天周期校验（见 sourceCache）；刷新时只重新解析内容有变化的世界
  */
 
 import { create } from 'zustand';
-import type { ParsedLine, ParsedStation, BureausConfig } from '@/types';
-import { fetchRailwayData, parseRailwayData, getAllStations, fetchBureausConfig } from '@/lib/railwayParser';
-import { fetchRMPData, parseRMPData } from '@/lib/rmpParser';
-import { fetchLandmarkData, parseLandmarkData } from '@/lib/landmarkParser';
-import type { ParsedLandmark } from '@/lib/landmarkParser';
+import type { ParsedLine, ParsedStation, BureausConfig, LineServicesConfig, Station } from '@/types';
+import {
+  parseRailwayData,
+  getAllStations,
+  BUREAUS_SOURCE,
+  getRailwaySource,
+} from '@/lib/railwayParser';
+import { parseRMPData, getRMPSource } from '@/lib/rmpParser';
+import { parseLandmarkData, getLandmarkSource } from '@/lib/landmarkParser';
+import { LINE_SERVICES_SOURCE } from '@/lib/lineServices';
+import { clearRailwayGraphCache } from '@/lib/pathfinding';
+import {
+  loadSource,
+  listSourceMeta,
+  clearSources,
+  DEFAULT_SOURCE_MAX_AGE,
+  type SourceMeta,
+  type SourceResult,
+  type SourceStatus,
+} from '@/lib/sourceCache';
+import type { Landmark, ParsedLandmark } from '@/lib/landmarkParser';
+import { WORLDS, getWorldName } from '@/lib/worldRegistry';
+
+// 旧版 localStorage 缓存前缀（迁移到 IndexedDB 后清理）
+const LEGACY_CACHE_PREFIX = 'ria-cache-';
 
-// 缓存有效期：7 天
-const CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
-
-// localStorage 键前缀
-const CACHE_PREFIX = 'ria-cache-';
-const CACHE_META_KEY = 'ria-cache-meta';
-
-// RMP 数据文件映射
-const RMP_DATA_FILES: Record<string, string> = {
-  zth: '/data/rmp_zth.json',
-  houtu: '/data/rmp_houtu.json',
-};
-
-// 世界列表
-const WORLDS = ['zth', 'houtu', 'naraku', 'eden'];
+/**
+ * 加载进度阶段列表（与 loadAllData 的 onProgress 阶段名一致）
+ */
+export function getDataLoadingStages(): Array<{ name: string; label: string }> {
+  const stages = [{ name: 'bureaus', label: '铁路局配置' }];
+  for (const world of WORLDS) {
+    stages.push({ name: `${world.id}-railway`, label: `${world.name}铁路数据` });
+    if (world.data.rmp) stages.push({ name: `${world.id}-rmp`, label: `${world.name} RMP 数据` });
+    stages.push({ name: `${world.id}-landmark`, label: `${world.name}地标数据` });
+  }
+  return stages;
+}
 
 export interface WorldData {
   lines: ParsedLine[];
   stations: ParsedStation[];
+  // RIA 原始车站数据（specialCases、声明的站间距离）
+  rawStations: Station[];
   rmpRawData: any | null;
   landmarks: ParsedLandmark[];
 }
 
-interface CacheMeta {
-  lastUpdated: number;
-  version: string;
-}
-
 interface CacheInfo {
   lastUpdated: number | null;
   isStale: boolean;
@@ -45,10 +60,25 @@ interface CacheInfo {
   nextUpdate: number | null;
 }
 
+// 单个数据源的缓存状态（设置面板展示）
+export interface DataSourceInfo {
+  key: string;
+  label: string;
+  status: SourceStatus | null;  // null：本次会话未加载，仅有缓存元信息
+  size: number;
+  fetchedAt: number | null;     // 内容最近一次变化
+  checkedAt: number | null;     // 最近一次校验
+  validator: string | null;     // 校验方式：ETag / Last-Modified / 内容哈希
+  error?: string;
+}
+
+type ProgressHandler = (stage: string, status: 'loading' | 'success' | 'error') => void;
+
 interface DataState {
   // 数据
   worldData: Record<string, WorldData>;
   bureausConfig: BureausConfig;
+  lineServices: LineServicesConfig | null; // 线路运营参数（可选文件）
 
   // 状态
   isLoading: boolean;
@@ -61,276 +91,279 @@ interface DataState {
 
   // 缓存信息
   cacheInfo: CacheInfo;
+  sources: Record<string, DataSourceInfo>;
 
   // 方法
-  loadAllData: (
-    onProgress?: (stage: string, status: 'loading' | 'success' | 'error') => void
-  ) => Promise<void>;
+  loadAllData: (onProgress?: ProgressHandler) => Promise<void>;
   getWorldData: (worldId: string) => WorldData | null;
-  clearCache: () => void;
-  forceRefresh: (
-    onProgress?: (stage: string, status: 'loading' | 'success' | 'error') => void
-  ) => Promise<void>;
-  updateCacheInfo: () => void;
+  clearCache: () => Promise<void>;
+  forceRefresh: (onProgress?: ProgressHandler) => Promise<void>;
+  updateCacheInfo: () => Promise<void>;
 }
 
-// 从 localStorage 读取缓存
-function getFromCache<T>(key: string): T | null {
-  try {
-    const cached = localStorage.getItem(CACHE_PREFIX + key);
-    if (!cached) return null;
-    return JSON.parse(cached) as T;
-  } catch {
-    return null;
+// 数据源显示名称
+function sourceLabel(key: string): string {
+  if (key === BUREAUS_SOURCE.key) return '铁路局配置';
+  if (key === LINE_SERVICES_SOURCE.key) return '线路运营参数';
+
+  const [kind, ...rest] = key.split(':');
+  const id = rest.join(':');
+  switch (kind) {
+    case 'railway':
+      return `${getWorldName(id)}铁路数据`;
+    case 'landmark':
+      return `${getWorldName(id)}地标数据`;
+    case 'rmp': {
+      const world = WORLDS.find((w) => w.data.rmp?.url === id);
+      return world ? `${world.name} RMP 数据` : `RMP 数据 ${id}`;
+    }
+    case 'dynmap':
+      return `${getWorldName(id)} Dynmap 配置`;
+    case 'rule':
+      return `规则数据 ${decodeURIComponent(id.split('/').pop() || id)}`;
+    default:
+      return key;
   }
 }
 
-// 写入 localStorage 缓存
-function setToCache(key: string, data: any): void {
-  try {
-    localStorage.setItem(CACHE_PREFIX + key, JSON.stringify(data));
-  } catch (e) {
-    console.warn('Failed to write cache:', e);
-  }
+function validatorOf(meta: SourceMeta): string {
+  if (meta.etag) return 'ETag';
+  if (meta.lastModified) return 'Last-Modified';
+  return '内容哈希';
 }
 
-// 获取缓存元信息
-function getCacheMeta(): CacheMeta | null {
-  try {
-    const meta = localStorage.getItem(CACHE_META_KEY);
-    if (!meta) return null;
-    return JSON.parse(meta) as CacheMeta;
-  } catch {
-    return null;
-  }
+function sourceInfo(key: string, meta: SourceMeta | null, status: SourceStatus | null, error?: string): DataSourceInfo {
+  return {
+    key,
+    label: sourceLabel(key),
+    status,
+    size: meta?.size ?? 0,
+    fetchedAt: meta?.fetchedAt ?? null,
+    checkedAt: meta?.checkedAt ?? null,
+    validator: meta ? validatorOf(meta) : null,
+    error,
+  };
 }
 
-// 设置缓存元信息
-function setCacheMeta(meta: CacheMeta): void {
-  try {
-    localStorage.setItem(CACHE_META_KEY, JSON.stringify(meta));
-  } catch (e) {
-    console.warn('Failed to write cache meta:', e);
+// 规则 JSON 每次使用都会校验，不参与 7 天周期
+function isPeriodicSource(key: string): boolean {
+  return !key.startsWith('rule:');
+}
+
+// 由缓存元信息汇总整体缓存状态
+function summarizeCache(metas: SourceMeta[]): CacheInfo {
+  if (metas.length === 0) {
+    return { lastUpdated: null, isStale: true, size: 0, nextUpdate: null };
   }
+
+  const now = Date.now();
+  const periodic = metas.filter((m) => isPeriodicSource(m.key));
+  const oldestCheck = periodic.length > 0 ? Math.min(...periodic.map((m) => m.checkedAt)) : null;
+
+  return {
+    lastUpdated: Math.max(...metas.map((m) => m.fetchedAt)),
+    isStale: oldestCheck === null || now - oldestCheck > DEFAULT_SOURCE_MAX_AGE,
+    size: metas.reduce((sum, m) => sum + m.size, 0),
+    nextUpdate: oldestCheck === null ? null : oldestCheck + DEFAULT_SOURCE_MAX_AGE,
+  };
 }
 
-// 检查缓存是否过期
-function isCacheStale(): boolean {
-  const meta = getCacheMeta();
-  if (!meta) return true;
-  return Date.now() - meta.lastUpdated > CACHE_MAX_AGE;
+// 合并缓存元信息到数据源列表（保留本次会话的加载状态）
+function mergeSourceMeta(
+  sources: Record<string, DataSourceInfo>,
+  metas: SourceMeta[]
+): Record<string, DataSourceInfo> {
+  const next = { ...sources };
+  for (const meta of metas) {
+    const prev = next[meta.key];
+    next[meta.key] = sourceInfo(meta.key, meta, prev?.status ?? null, prev?.error);
+  }
+  return next;
 }
 
-// 计算缓存大小
-function calculateCacheSize(): number {
-  let size = 0;
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key?.startsWith(CACHE_PREFIX) || key === CACHE_META_KEY) {
-      const value = localStorage.getItem(key);
-      if (value) {
-        size += key.length + value.length;
-      }
+// 清理旧版 localStorage 缓存
+function removeLegacyCache(): void {
+  try {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(LEGACY_CACHE_PREFIX)) keys.push(key);
     }
+    keys.forEach((key) => localStorage.removeItem(key));
+  } catch {
+    // localStorage 不可用时忽略
   }
-  return size * 2; // UTF-16 编码，每字符 2 字节
 }
 
-export const useDataStore = create<DataState>((set, get) => ({
-  worldData: {},
-  bureausConfig: {},
-  isLoading: false,
-  isLoaded: false,
-  loadingProgress: {
-    current: 0,
-    total: 0,
-    currentItem: '',
-  },
-  cacheInfo: {
-    lastUpdated: null,
-    isStale: true,
-    size: 0,
-    nextUpdate: null,
-  },
-
-  loadAllData: async (onProgress) => {
-    const state = get();
-    if (state.isLoading) return;
+function isChanged(result: SourceResult<unknown> | null): boolean {
+  return !!result && (result.status === 'new' || result.status === 'updated');
+}
 
+export const useDataStore = create<DataState>((set, get) => {
+  /**
+   * 加载全部数据源
+   * - force = false：未到校验期的数据源直接读缓存
+   * - force = true：全部重新校验；只有内容变化（或尚未解析）的世界会重新解析
+   */
+  const loadSources = async (force: boolean, onProgress?: ProgressHandler) => {
+    if (get().isLoading) return;
     set({ isLoading: true });
+    removeLegacyCache();
 
-    // 检查缓存是否有效
-    const cacheStale = isCacheStale();
-    const meta = getCacheMeta();
+    const sources: Record<string, DataSourceInfo> = { ...get().sources };
+    const load = async <T,>(source: { key: string; urls: string[]; optional?: boolean }): Promise<SourceResult<T>> => {
+      const result = await loadSource<T>({ ...source, force });
+      sources[source.key] = sourceInfo(source.key, result.meta, result.status, result.error);
+      return result;
+    };
 
-    if (!cacheStale && meta) {
-      // 从缓存加载
-      const worldData: Record<string, WorldData> = {};
-      const bureausConfig = getFromCache<BureausConfig>('bureaus') || {};
-
-      for (const worldId of WORLDS) {
-        const cached = getFromCache<WorldData>(`world-${worldId}`);
-        if (cached) {
-          worldData[worldId] = cached;
-        }
+    // 铁路局配置
+    onProgress?.('bureaus', 'loading');
+    const bureausResult = await load<BureausConfig>(BUREAUS_SOURCE);
+    const bureausConfig = bureausResult.data ?? {};
+    onProgress?.('bureaus', bureausResult.data ? 'success' : 'error');
+
+    // 线路运营参数（可选；缺失时导航沿用固定速度，不计入加载进度）
+    const lineServicesResult = await load<LineServicesConfig>(LINE_SERVICES_SOURCE);
+    const lineServicesData = lineServicesResult.data;
+    const lineServices =
+      lineServicesData && typeof lineServicesData === 'object' && !Array.isArray(lineServicesData)
+        ? lineServicesData
+        : null;
+
+    // 每个世界的数据
+    const worldData: Record<string, WorldData> = { ...get().worldData };
+    for (const { id: worldId, data: sources } of WORLDS) {
+      onProgress?.(`${worldId}-railway`, 'loading');
+      const railwayResult = await load<Station[]>(getRailwaySource(worldId));
+
+      // RMP 数据
+      let rmpResult: SourceResult<any> | null = null;
+      if (sources.rmp) {
+        onProgress?.(`${worldId}-rmp`, 'loading');
+        rmpResult = await load<any>(getRMPSource(sources.rmp.url));
+        onProgress?.(`${worldId}-rmp`, rmpResult.data ? 'success' : 'error');
       }
 
-      set({
-        worldData,
-        bureausConfig,
-        isLoading: false,
-        isLoaded: true,
-        cacheInfo: {
-          lastUpdated: meta.lastUpdated,
-          isStale: false,
-          size: calculateCacheSize(),
-          nextUpdate: meta.lastUpdated + CACHE_MAX_AGE,
-        },
-      });
-      return;
-    }
-
-    // 从网络加载
-    const worldData: Record<string, WorldData> = {};
-    let bureausConfig: BureausConfig = {};
+      // 地标数据
+      onProgress?.(`${worldId}-landmark`, 'loading');
+      const landmarkResult = await load<Landmark[]>(getLandmarkSource(worldId));
+      onProgress?.(`${worldId}-landmark`, landmarkResult.data ? 'success' : 'error');
 
-    // 加载铁路局配置
-    onProgress?.('bureaus', 'loading');
-    try {
-      bureausConfig = await fetchBureausConfig();
-      setToCache('bureaus', bureausConfig);
-      onProgress?.('bureaus', 'success');
-    } catch {
-      onProgress?.('bureaus', 'error');
-    }
+      // 数据源均未变化时沿用已解析的结果
+      if (worldData[worldId] && ![railwayResult, rmpResult, landmarkResult].some(isChanged)) {
+        onProgress?.(`${worldId}-railway`, railwayResult.data ? 'success' : 'error');
+        continue;
+      }
 
-    // 加载每个世界的数据
-    for (const worldId of WORLDS) {
-      // 铁路数据
-      onProgress?.(`${worldId}-railway`, 'loading');
       try {
-        const railwayData = await fetchRailwayData(worldId);
-        const { lines: riaLines } = parseRailwayData(railwayData);
+        const { lines: riaLines, rawStations } = parseRailwayData(railwayResult.data ?? []);
         const riaStations = getAllStations(riaLines);
 
-        // RMP 数据
         let rmpLines: ParsedLine[] = [];
         let rmpStations: ParsedStation[] = [];
-        let rmpRawData: any = null;
-
-        const rmpFile = RMP_DATA_FILES[worldId];
-        if (rmpFile) {
-          onProgress?.(`${worldId}-rmp`, 'loading');
+        if (rmpResult?.data) {
           try {
-            const rmpData = await fetchRMPData(rmpFile);
-            rmpRawData = rmpData;
-            const parsed = parseRMPData(rmpData, worldId);
+            const parsed = parseRMPData(rmpResult.data, worldId);
             rmpLines = parsed.lines;
             rmpStations = parsed.stations;
-            onProgress?.(`${worldId}-rmp`, 'success');
-          } catch {
+          } catch (e) {
+            console.error(`Failed to parse RMP data for ${worldId}:`, e);
             onProgress?.(`${worldId}-rmp`, 'error');
           }
         }
 
-        // 地标数据
-        onProgress?.(`${worldId}-landmark`, 'loading');
-        let landmarks: ParsedLandmark[] = [];
-        try {
-          const landmarkData = await fetchLandmarkData(worldId);
-          landmarks = parseLandmarkData(landmarkData);
-          onProgress?.(`${worldId}-landmark`, 'success');
-        } catch {
-          onProgress?.(`${worldId}-landmark`, 'error');
-        }
-
         // 合并数据
         const allLines = [...riaLines, ...rmpLines];
         const riaStationNames = new Set(riaStations.map(s => s.name));
         const uniqueRmpStations = rmpStations.filter(s => !riaStationNames.has(s.name));
         const allStations = [...riaStations, ...uniqueRmpStations];
 
+        // 线路已重新解析：丢弃按旧数据建好的铁路网络图
+        clearRailwayGraphCache(worldId);
         worldData[worldId] = {
           lines: allLines,
           stations: allStations,
-          rmpRawData,
-          landmarks,
+          rawStations,
+          rmpRawData: rmpResult?.data ?? null,
+          landmarks: parseLandmarkData(landmarkResult.data ?? []),
         };
-
-        // 缓存到 localStorage
-        setToCache(`world-${worldId}`, worldData[worldId]);
-        onProgress?.(`${worldId}-railway`, 'success');
-      } catch {
+        onProgress?.(`${worldId}-railway`, railwayResult.data ? 'success' : 'error');
+      } catch (e) {
+        console.error(`Failed to parse world data for ${worldId}:`, e);
         onProgress?.(`${worldId}-railway`, 'error');
       }
     }
 
-    // 更新缓存元信息
-    const now = Date.now();
-    setCacheMeta({
-      lastUpdated: now,
-      version: '1.0',
-    });
+    const metas = await listSourceMeta();
 
     set({
       worldData,
       bureausConfig,
+      lineServices,
       isLoading: false,
       isLoaded: true,
-      cacheInfo: {
-        lastUpdated: now,
-        isStale: false,
-        size: calculateCacheSize(),
-        nextUpdate: now + CACHE_MAX_AGE,
-      },
-    });
-  },
-
-  getWorldData: (worldId) => {
-    return get().worldData[worldId] || null;
-  },
-
-  clearCache: () => {
-    // 清除所有缓存
-    const keysToRemove: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key?.startsWith(CACHE_PREFIX) || key === CACHE_META_KEY) {
-        keysToRemove.push(key);
-      }
-    }
-    keysToRemove.forEach(key => localStorage.removeItem(key));
-
-    set({
-      worldData: {},
-      bureausConfig: {},
-      isLoaded: false,
-      cacheInfo: {
-        lastUpdated: null,
-        isStale: true,
-        size: 0,
-        nextUpdate: null,
-      },
+      cacheInfo: summarizeCache(metas),
+      sources: mergeSourceMeta(sources, metas),
     });
-  },
+  };
 
-  forceRefresh: async (onProgress) => {
-    // 清除缓存后重新加载
-    get().clearCache();
-    await get().loadAllData(onProgress);
-  },
+  return {
+    worldData: {},
+    bureausConfig: {},
+    lineServices: null,
+    isLoading: false,
+    isLoaded: false,
+    loadingProgress: {
+      current: 0,
+      total: 0,
+      currentItem: '',
+    },
+    cacheInfo: {
+      lastUpdated: null,
+      isStale: true,
+      size: 0,
+      nextUpdate: null,
+    },
+    sources: {},
+
+    loadAllData: (onProgress) => loadSources(false, onProgress),
+
+    getWorldData: (worldId) => {
+      return get().worldData[worldId] || null;
+    },
+
+    clearCache: async () => {
+      await clearSources();
+      removeLegacyCache();
+      clearRailwayGraphCache();
 
-  updateCacheInfo: () => {
-    const meta = getCacheMeta();
-    set({
-      cacheInfo: {
-        lastUpdated: meta?.lastUpdated || null,
-        isStale: isCacheStale(),
-        size: calculateCacheSize(),
-        nextUpdate: meta ? meta.lastUpdated + CACHE_MAX_AGE : null,
-      },
-    });
-  },
-}));
+      set({
+        worldData: {},
+        bureausConfig: {},
+        lineServices: null,
+        isLoaded: false,
+        cacheInfo: {
+          lastUpdated: null,
+          isStale: true,
+          size: 0,
+          nextUpdate: null,
+        },
+        sources: {},
+      });
+    },
+
+    // 重新校验全部数据源，只更新有变化的部分（不清空现有数据）
+    forceRefresh: (onProgress) => loadSources(true, onProgress),
+
+    updateCacheInfo: async () => {
+      const metas = await listSourceMeta();
+      set((state) => ({
+        cacheInfo: summarizeCache(metas),
+        sources: mergeSourceMeta(state.sources, metas),
+      }));
+    },
+  };
+});
 
 export default useDataStore;
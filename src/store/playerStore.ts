@@ -0,0 +1,281 @@
+/**
+ * 在线玩家 Store
+ * - 每个世界只有一个轮询定时器，按订阅计数启停（图层、列表、详情卡片共享同一份数据）
+ * - 为每个玩家保留有限长度的位置历史，用于平滑移动、轨迹与速度估算
+ */
+
+import { useEffect, useState } from 'react';
+import { create } from 'zustand';
+import type { Player } from '@/types';
+import { fetchWorldUpdate } from '@/lib/playerApi';
+import { estimateServerTicks, getMinecraftTime, type MinecraftTime } from '@/lib/gameTime';
+
+// 轮询间隔
+export const PLAYER_POLL_INTERVAL = 5000;
+
+// 位置历史上限：条数 + 时长（约 10 分钟）
+const MAX_HISTORY_SAMPLES = 120;
+export const PLAYER_HISTORY_MAX_AGE = 10 * 60 * 1000;
+
+// 两次更新间移动超过该距离（方块）视为传送：标记不做补间，轨迹在此断开
+export const PLAYER_TELEPORT_DISTANCE = 512;
+
+// 小于该距离视为原地不动（只刷新最后一条记录的时间）
+const MIN_MOVE_DISTANCE = 0.5;
+
+export interface PlayerSample {
+  x: number;
+  y: number;
+  z: number;
+  t: number; // 采样时间（ms）
+}
+
+export interface WorldPlayers {
+  players: Player[];
+  history: Record<string, PlayerSample[]>; // 按玩家名
+  lastUpdated: number | null;
+  isLoading: boolean; // 仅首次加载（尚无数据）时为 true
+  // 最近一次 Dynmap 更新中的游戏时间（刻）及其获取时间
+  serverTime: number | null;
+  serverTimeAt: number | null;
+  hasStorm: boolean;
+  isThundering: boolean;
+}
+
+interface PlayerState {
+  worlds: Record<string, WorldPlayers>;
+
+  // 订阅世界的玩家数据（开始轮询），返回取消订阅函数
+  watch: (worldId: string) => () => void;
+  // 立即刷新一次
+  refresh: (worldId: string) => Promise<void>;
+}
+
+const EMPTY_WORLD: WorldPlayers = {
+  players: [],
+  history: {},
+  lastUpdated: null,
+  isLoading: false,
+  serverTime: null,
+  serverTimeAt: null,
+  hasStorm: false,
+  isThundering: false,
+};
+
+// 轮询状态（模块级）：订阅计数 + 定时器
+const watchers = new Map<string, number>();
+const timers = new Map<string, number>();
+const inFlight = new Map<string, Promise<void>>();
+
+function appendSample(samples: PlayerSample[] | undefined, player: Player, now: number): PlayerSample[] {
+  const next = (samples ?? []).filter((s) => now - s.t <= PLAYER_HISTORY_MAX_AGE);
+  const last = next[next.length - 1];
+
+  if (last && Math.hypot(player.x - last.x, player.y - last.y, player.z - last.z) < MIN_MOVE_DISTANCE) {
+    next[next.length - 1] = { ...last, t: now };
+  } else {
+    next.push({ x: player.x, y: player.y, z: player.z, t: now });
+  }
+
+  return next.length > MAX_HISTORY_SAMPLES ? next.slice(next.length - MAX_HISTORY_SAMPLES) : next;
+}
+
+export const usePlayerStore = create<PlayerState>((set, get) => ({
+  worlds: {},
+
+  watch: (worldId) => {
+    watchers.set(worldId, (watchers.get(worldId) ?? 0) + 1);
+
+    if (!timers.has(worldId)) {
+      get().refresh(worldId);
+      timers.set(worldId, window.setInterval(() => get().refresh(worldId), PLAYER_POLL_INTERVAL));
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const count = (watchers.get(worldId) ?? 1) - 1;
+      if (count > 0) {
+        watchers.set(worldId, count);
+        return;
+      }
+      watchers.delete(worldId);
+      const timer = timers.get(worldId);
+      if (timer !== undefined) clearInterval(timer);
+      timers.delete(worldId);
+    };
+  },
+
+  refresh: (worldId) => {
+    // 同一世界同时只有一个请求
+    const pending = inFlight.get(worldId);
+    if (pending) return pending;
+
+    // 只有首次加载标记 isLoading：轮询时不改动状态，避免每次请求都让订阅者多渲染两次
+    set((state) => {
+      const prev = state.worlds[worldId] ?? EMPTY_WORLD;
+      if (prev.lastUpdated !== null || prev.isLoading) return state;
+      return { worlds: { ...state.worlds, [worldId]: { ...prev, isLoading: true } } };
+    });
+
+    const task = fetchWorldUpdate(worldId).then((update) => {
+      const now = Date.now();
+      set((state) => {
+        const prev = state.worlds[worldId] ?? EMPTY_WORLD;
+        // 请求失败：保留上次的玩家、轨迹与时间（时钟按本地时间继续推算），避免一次丢包清空历史
+        if (!update) {
+          if (!prev.isLoading) return state;
+          return { worlds: { ...state.worlds, [worldId]: { ...prev, isLoading: false } } };
+        }
+        const { players } = update;
+        const weather = update.serverTime !== null
+          ? { serverTime: update.serverTime, serverTimeAt: now, hasStorm: update.hasStorm, isThundering: update.isThundering }
+          : { serverTime: prev.serverTime, serverTimeAt: prev.serverTimeAt, hasStorm: prev.hasStorm, isThundering: prev.isThundering };
+        // 只保留当前在线玩家的历史
+        const history: Record<string, PlayerSample[]> = {};
+        for (const player of players) {
+          if (!Number.isFinite(player.x) || !Number.isFinite(player.z)) continue;
+          history[player.name] = appendSample(prev.history[player.name], player, now);
+        }
+        return {
+          worlds: { ...state.worlds, [worldId]: { players, history, lastUpdated: now, isLoading: false, ...weather } },
+        };
+      });
+    }).finally(() => {
+      inFlight.delete(worldId);
+    });
+
+    inFlight.set(worldId, task);
+    return task;
+  },
+}));
+
+/**
+ * 订阅并读取某个世界的在线玩家（组件挂载期间保持轮询）
+ */
+export function useWorldPlayers(worldId: string): WorldPlayers {
+  const watch = usePlayerStore((s) => s.watch);
+  useEffect(() => watch(worldId), [watch, worldId]);
+  return usePlayerStore((s) => s.worlds[worldId] ?? EMPTY_WORLD);
+}
+
+// 推算某个世界当前的游戏时间（尚未获取到 servertime 时为 null）
+function currentGameTime(world: WorldPlayers | undefined): MinecraftTime | null {
+  if (!world || world.serverTime === null || world.serverTimeAt === null) return null;
+  return getMinecraftTime(estimateServerTicks(world.serverTime, world.serverTimeAt));
+}
+
+// 游戏时间的校时间隔：时间在本地按每秒 20 刻推算，不需要跟随玩家轮询
+export const GAME_TIME_RESYNC_INTERVAL = 60_000;
+
+/**
+ * 游戏时间校时：servertime 超过 GAME_TIME_RESYNC_INTERVAL 未更新时单独请求一次
+ * 不开启 5 秒轮询；玩家图层开启时数据由轮询保持新鲜，不会额外请求
+ */
+function useGameTimeSync(worldId: string, enabled: boolean = true) {
+  useEffect(() => {
+    if (!enabled) return;
+    const resync = () => {
+      const { worlds, refresh } = usePlayerStore.getState();
+      const sampledAt = worlds[worldId]?.serverTimeAt ?? null;
+      if (sampledAt === null || Date.now() - sampledAt >= GAME_TIME_RESYNC_INTERVAL) void refresh(worldId);
+    };
+    resync();
+    const timer = window.setInterval(resync, GAME_TIME_RESYNC_INTERVAL);
+    return () => clearInterval(timer);
+  }, [worldId, enabled]);
+}
+
+/**
+ * 读取某个世界的游戏时间，每 intervalMs 推算一次
+ */
+export function useGameTime(worldId: string, intervalMs: number = 1000): MinecraftTime | null {
+  const world = usePlayerStore((s) => s.worlds[worldId]);
+  const [time, setTime] = useState(() => currentGameTime(world));
+
+  useGameTimeSync(worldId);
+  useEffect(() => {
+    setTime(currentGameTime(world));
+    const timer = window.setInterval(() => setTime(currentGameTime(world)), intervalMs);
+    return () => clearInterval(timer);
+  }, [world, intervalMs]);
+
+  return time;
+}
+
+// 等待首次校时的上限：请求迟迟不返回时不再阻塞调用方
+const GAME_TIME_FIRST_SYNC_TIMEOUT = 3000;
+
+function isGameNight(world: WorldPlayers | undefined): boolean | null {
+  const time = currentGameTime(world);
+  return time ? !time.day : null;
+}
+
+/**
+ * 当前世界是否为夜间（按 Dynmap 的昼夜瓦片规则）
+ * - enabled=false 时不校时，返回 null；取到的数据中没有 servertime 时同样为 null
+ * - 该世界首次校时尚未完成时返回 undefined（最多等待 GAME_TIME_FIRST_SYNC_TIMEOUT）
+ * 只在昼夜切换时触发重渲染
+ */
+export function useGameNight(worldId: string, enabled: boolean): boolean | null | undefined {
+  const world = usePlayerStore((s) => (enabled ? s.worlds[worldId] : undefined));
+  const [sample, setSample] = useState(() => ({ world, night: isGameNight(world) }));
+  const [timedOutWorld, setTimedOutWorld] = useState<string | null>(null);
+  const synced = !enabled || (world !== undefined && !world.isLoading);
+
+  useGameTimeSync(worldId, enabled);
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = window.setInterval(() => {
+      const night = isGameNight(world);
+      setSample((prev) => (prev.world === world && prev.night === night ? prev : { world, night }));
+    }, 10000);
+    return () => clearInterval(timer);
+  }, [world, enabled]);
+  useEffect(() => {
+    if (synced) return;
+    const timer = window.setTimeout(() => setTimedOutWorld(worldId), GAME_TIME_FIRST_SYNC_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [worldId, synced]);
+
+  if (!synced && timedOutWorld !== worldId) return undefined;
+  // 世界数据变化后的首次渲染直接推算，不沿用上一份数据的结果
+  return sample.world === world ? sample.night : isGameNight(world);
+}
+
+/**
+ * 在各世界的在线列表中查找玩家（优先 preferWorld）
+ * 同一服务器群的玩家换世界后会出现在另一个世界的列表中
+ */
+export function findPlayer(
+  worlds: Record<string, WorldPlayers>,
+  name: string,
+  preferWorld?: string
+): { worldId: string; player: Player } | null {
+  const order = preferWorld ? [preferWorld, ...Object.keys(worlds).filter((w) => w !== preferWorld)] : Object.keys(worlds);
+  for (const worldId of order) {
+    const player = worlds[worldId]?.players.find((p) => p.name === name);
+    if (player) return { worldId, player };
+  }
+  return null;
+}
+
+/**
+ * 估算水平速度（blocks/s）：取最近 windowMs 内的首尾采样
+ */
+export function estimateSpeed(samples: PlayerSample[] | undefined, windowMs: number = 15000): number | null {
+  if (!samples || samples.length < 2) return null;
+  const last = samples[samples.length - 1];
+  let first = samples[samples.length - 2];
+  for (let i = samples.length - 2; i >= 0; i--) {
+    if (last.t - samples[i].t > windowMs) break;
+    first = samples[i];
+  }
+  const dt = (last.t - first.t) / 1000;
+  if (dt <= 0) return null;
+  return Math.hypot(last.x - first.x, last.z - first.z) / dt;
+}
+
+export default usePlayerStore;
@@ -26,6 +26,17 @@ export interface DynmapMapConfig {
   worldtomap: number[];
   maptoworld: number[];
   imageFormat: string;
+  title?: string;
+  tilescale?: number;
+  nightAndDay?: boolean;
+}
+
+// Dynmap 世界配置（up/configuration 中的 worlds[]）
+export interface DynmapWorldConfig {
+  name: string;
+  title: string;
+  center: Coordinate;
+  maps: DynmapMapConfig[];
 }
 
 // 铁路线路信息
@@ -119,6 +130,22 @@ export interface BureauInfo {
 // 铁路局配置（路局代码 -> 路局信息）
 export type BureausConfig = Record<string, BureauInfo>;
 
+// 线路运营参数（均可选；缺省项沿用导航默认值）
+export interface LineServiceSpec {
+  speed?: number;           // 巡航速度（blocks/s）
+  dwellSeconds?: number;    // 每站停站时间（秒）
+  headwaySeconds?: number;  // 发车间隔（秒）
+  departures?: string[];    // 始发时刻表（"HH:MM" 或 "HH:MM:SS"），优先于 headwaySeconds
+}
+
+// 线路运营配置（/data/line_services.json，与 bureaus.json 同目录）
+// 查找顺序：lines[lineId] -> lines[`${bureau}-${line}`] -> bureaus[bureau] -> defaults
+export interface LineServicesConfig {
+  defaults?: LineServiceSpec;
+  bureaus?: Record<string, LineServiceSpec>;
+  lines?: Record<string, LineServiceSpec>;
+}
+
 // 在线玩家数据
 export interface Player {
   name: string;